@@ -0,0 +1,32 @@
+/**
+ * Types for the test utilities jest.setup.js puts on global
+ */
+
+type MockGmailClient = {
+  users: {
+    messages: {
+      list: jest.Mock;
+      get: jest.Mock;
+    };
+  };
+};
+
+type MockIMAPConnection = {
+  connect: jest.Mock;
+  mailboxOpen: jest.Mock;
+  status: jest.Mock;
+  search: jest.Mock;
+  fetch: jest.Mock;
+  logout: jest.Mock;
+};
+
+declare global {
+  var testUtils: {
+    waitFor: (ms: number) => Promise<void>;
+    createMockEmail: (overrides?: Record<string, unknown>) => Record<string, unknown>;
+    createMockGmailClient: () => MockGmailClient;
+    createMockIMAPConnection: () => MockIMAPConnection;
+  };
+}
+
+export {};
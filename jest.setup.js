@@ -79,7 +79,12 @@ jest.mock("imapflow", () => ({
   ImapFlow: jest.fn().mockImplementation(() => ({
     connect: jest.fn().mockResolvedValue(undefined),
     mailboxOpen: jest.fn().mockResolvedValue(undefined),
-    status: jest.fn().mockResolvedValue({ messages: 100 }),
+    status: jest.fn().mockResolvedValue({ messages: 100, uidNext: 101, uidValidity: BigInt(1) }),
+    search: jest.fn().mockImplementation(async (query) => {
+      // Mailbox holds UIDs 1-100; honour "n:*" UID ranges
+      const start = query && query.uid ? parseInt(String(query.uid).split(":")[0], 10) : 1;
+      return Array.from({ length: 100 }, (_, i) => i + 1).filter((uid) => uid >= start);
+    }),
     fetch: jest.fn().mockImplementation(async function* () {
       yield {
         envelope: {
@@ -137,7 +142,12 @@ global.testUtils = {
   createMockIMAPConnection: () => ({
     connect: jest.fn().mockResolvedValue(undefined),
     mailboxOpen: jest.fn().mockResolvedValue(undefined),
-    status: jest.fn().mockResolvedValue({ messages: 100 }),
+    status: jest.fn().mockResolvedValue({ messages: 100, uidNext: 101, uidValidity: BigInt(1) }),
+    search: jest.fn().mockImplementation(async (query) => {
+      // Mailbox holds UIDs 1-100; honour "n:*" UID ranges
+      const start = query && query.uid ? parseInt(String(query.uid).split(":")[0], 10) : 1;
+      return Array.from({ length: 100 }, (_, i) => i + 1).filter((uid) => uid >= start);
+    }),
     fetch: jest.fn().mockImplementation(async function* () {
       yield {
         envelope: {
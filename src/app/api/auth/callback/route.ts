@@ -1,6 +1,7 @@
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
 import { exchangeCodeForTokens, getGmailClient } from "@/lib/google";
+import { storeCredentials } from "@/lib/credentials";
 
 const COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
 
@@ -59,6 +60,12 @@ export async function GET(req: Request) {
     }
 
     const { email } = await getGmailClient(refreshToken);
+    try {
+      await storeCredentials(email, refreshToken);
+    } catch (error) {
+      // Background jobs store the token again when they start
+      console.warn("Failed to store credentials:", error);
+    }
     const secure = process.env.NODE_ENV === "production";
 
     const response = NextResponse.redirect(new URL("/?connected=1", baseUrl));
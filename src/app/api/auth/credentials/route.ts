@@ -0,0 +1,64 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { getCredentialsStatus, revokeCredentials } from "@/lib/credentials";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/credentials - Whether background jobs can act for the account, and when they last did
+export async function GET() {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { email } = await getGmailClient(refreshToken);
+    const credentials = await getCredentialsStatus(email);
+
+    return NextResponse.json({
+      email,
+      stored: Boolean(credentials && !credentials.revokedAt),
+      credentials,
+    });
+  } catch (error: any) {
+    console.error("[Credentials Status Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load credentials",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/credentials - Stop background jobs from acting for the account until it signs in again.
+// With ?google=true the token is revoked at Google too, which also signs this session out.
+export async function DELETE(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { email } = await getGmailClient(refreshToken);
+    const revokeAtGoogle = request.nextUrl.searchParams.get("google") === "true";
+    const revoked = await revokeCredentials(email, { revokeAtGoogle });
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error: any) {
+    console.error("[Revoke Credentials Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to revoke credentials",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
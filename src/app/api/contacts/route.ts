@@ -1,11 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { getGmailClient } from "@/lib/google";
-import { loadContactSnapshot } from "@/lib/firestore";
+import { listContacts, type ContactRecord, type ContactSortField } from "@/lib/firestore";
+import { SENDER_CATEGORIES, type SenderCategory } from "@/lib/sender-classification";
 
 interface Contact {
-  email: string;
+  email: string; // Canonical address
+  aliases: string[]; // Other addresses merged into this contact
   types: ("sender" | "recipient")[];
+  category: SenderCategory;
+  displayName?: string;
+  messageCount: number;
+  senderCount: number;
+  recipientCount: number;
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+const SORT_FIELDS: ContactSortField[] = ["email", "messages", "lastSeen", "firstSeen"];
+
+function toContact(record: ContactRecord): Contact {
+  const types: ("sender" | "recipient")[] = [];
+  if (record.isSender) types.push("sender");
+  if (record.isRecipient) types.push("recipient");
+
+  return {
+    email: record.address,
+    aliases: record.aliases || [],
+    types,
+    category: record.category || "person",
+    displayName: record.displayName || undefined,
+    messageCount: record.messageCount,
+    senderCount: record.senderCount,
+    recipientCount: record.recipientCount,
+    firstSeen: record.firstSeen || undefined,
+    lastSeen: record.lastSeen || undefined,
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -21,61 +51,43 @@ export async function GET(request: NextRequest) {
     const page = Math.max(1, parseInt(searchParams.get("page") || "1"));
     const limit = Math.min(100, Math.max(10, parseInt(searchParams.get("limit") || "50")));
     const search = (searchParams.get("search") || "").toLowerCase().trim();
+    const cursor = searchParams.get("cursor") || undefined;
+    const categoryParam = searchParams.get("category") as SenderCategory;
+    const category = SENDER_CATEGORIES.includes(categoryParam) ? categoryParam : undefined;
+    const sortParam = searchParams.get("sort") as ContactSortField;
+    const sort = SORT_FIELDS.includes(sortParam) ? sortParam : "email";
+    // Counts and dates read most naturally biggest/newest first
+    const directionParam = searchParams.get("direction");
+    const direction =
+      directionParam === "asc" || directionParam === "desc" ? directionParam : sort === "email" ? "asc" : "desc";
 
-    const { email, gmail } = await getGmailClient(refreshToken);
-
-    // Load contact data from Firestore
-    const contactSnapshot = await loadContactSnapshot(email);
-    if (!contactSnapshot) {
-      return NextResponse.json({
-        contacts: [],
-        totalCount: 0,
-        currentPage: page,
-        totalPages: 0,
-        hasNextPage: false,
-        hasPrevPage: false,
-        searchQuery: search,
-      });
-    }
-
-    // Convert Firestore data to Contact objects
-    let contacts: Contact[] = contactSnapshot.merged.map((email: string) => {
-      const types: ("sender" | "recipient")[] = [];
-      if (contactSnapshot.senders.includes(email)) types.push("sender");
-      if (contactSnapshot.recipients.includes(email)) types.push("recipient");
-
-      return {
-        email,
-        types,
-      };
-    });
-
-    // Apply search filter
-    if (search) {
-      contacts = contacts.filter((contact) => contact.email.toLowerCase().includes(search));
-    }
+    const { email } = await getGmailClient(refreshToken);
 
-    // Sort by email
-    contacts.sort((a, b) => a.email.localeCompare(b.email));
+    // Sorting, prefix search and paging all run in Firestore; a cursor takes precedence over the page number
+    const listOptions = { limit, sort, direction, search, category, cursor } as const;
+    let result = await listContacts(email, { ...listOptions, offset: (page - 1) * limit });
 
-    // Calculate pagination
-    const totalCount = contacts.length;
+    const totalCount = result.totalCount;
     const totalPages = Math.ceil(totalCount / limit);
     const clampedPage = Math.min(page, totalPages);
-    const startIndex = (clampedPage - 1) * limit;
-    const endIndex = Math.min(startIndex + limit, totalCount);
 
-    // Get paginated slice
-    const paginatedContacts = contacts.slice(startIndex, endIndex);
+    // Requested page is past the end, serve the last one instead
+    if (!cursor && clampedPage > 0 && clampedPage < page) {
+      result = await listContacts(email, { ...listOptions, offset: (clampedPage - 1) * limit });
+    }
 
     return NextResponse.json({
-      contacts: paginatedContacts,
+      contacts: result.contacts.map(toContact),
       totalCount,
       currentPage: clampedPage,
       totalPages,
       hasNextPage: clampedPage < totalPages,
       hasPrevPage: clampedPage > 1,
       searchQuery: search,
+      category: category || null,
+      nextCursor: result.nextCursor,
+      sort,
+      direction,
     });
   } catch (error: any) {
     console.error("Contacts API error:", error);
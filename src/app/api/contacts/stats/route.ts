@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { getGmailClient } from "@/lib/google";
-import { loadContactSnapshot } from "@/lib/firestore";
+import { countContacts, loadContactSnapshot } from "@/lib/firestore";
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,11 +27,14 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Counted with aggregation queries so no contact documents are read
+    const counts = await countContacts(email);
+
     return NextResponse.json({
-      totalContacts: contactSnapshot.merged.length,
+      totalContacts: counts.totalContacts,
       messagesProcessed: contactSnapshot.messageSampleCount,
-      sendersCount: contactSnapshot.senders.length,
-      recipientsCount: contactSnapshot.recipients.length,
+      sendersCount: counts.sendersCount,
+      recipientsCount: counts.recipientsCount,
       lastUpdated: contactSnapshot.updatedAt,
     });
   } catch (error: any) {
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { loadFilters, saveFilter, deleteFilter, saveLabel, type GmailFilter, loadLabels } from "@/lib/firestore";
 import { getGmailClient } from "@/lib/google";
+import { resolveLabelIds } from "@/lib/gmail";
+import { cleanActions, cleanCriteria, toGmailFilter, validateFilter } from "@/lib/gmail-filters";
 
 export const dynamic = "force-dynamic";
 
@@ -52,27 +54,36 @@ export async function POST(request: NextRequest) {
     }
 
     const data = await request.json();
-    const { name, query, labelIds, archive, createLabel, labelName } = data;
+    const { name, labelIds, createLabel, labelName } = data;
+    const criteria = cleanCriteria(data.criteria);
+    const actions = cleanActions(data.actions);
 
-    if (!name || !query) {
-      return NextResponse.json({ error: "name and query are required" }, { status: 400 });
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
     }
 
-    // If createLabel is requested, create the label in Firestore first
+    // A label that is about to be created counts as an action
+    const validationError = validateFilter(criteria, actions, createLabel && labelName ? [labelName] : labelIds);
+    if (validationError) {
+      return NextResponse.json({ error: "Invalid filter", details: validationError }, { status: 400 });
+    }
+
+    // A requested label is created in Gmail right away and cached under its Gmail ID
     let finalLabelIds = labelIds || [];
     if (createLabel && labelName) {
-      const labelId = `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Save the label to Firestore
-      const newLabel = {
-        id: labelId,
-        name: labelName,
-        type: "user" as const,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      await saveLabel(email, newLabel);
+      const cookieStore = await cookies();
+      const { gmail } = await getGmailClient(cookieStore.get("gmail_refresh_token")?.value || "");
+      const [labelId] = await resolveLabelIds(gmail, [labelName]);
+
+      if (!(await loadLabels(email)).some((label) => label.id === labelId)) {
+        await saveLabel(email, {
+          id: labelId,
+          name: labelName,
+          type: "user",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        });
+      }
       finalLabelIds = [labelId];
     }
 
@@ -80,9 +91,9 @@ export async function POST(request: NextRequest) {
     const filter: GmailFilter = {
       id: `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       name,
-      query,
+      criteria,
+      actions,
       labelIds: finalLabelIds,
-      archive,
       createdAt: now,
       updatedAt: now,
       status: "draft",
@@ -187,27 +198,8 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    const action: any = {};
-
-    if (validatedLabelIds.length > 0) {
-      action.addLabelIds = validatedLabelIds;
-    }
-
-    if (currentFilter.archive) {
-      // Archive action - this moves messages to trash
-      action.removeLabelIds = ["INBOX"];
-    }
-
-    // Always use the from field for all filters
-    const criteria = {
-      from: currentFilter.query,
-    };
-
     const filterData = {
-      filter: {
-        criteria,
-        action,
-      },
+      filter: toGmailFilter(currentFilter.criteria, currentFilter.actions, validatedLabelIds),
     };
 
     const response = await gmail.users.settings.filters.create({
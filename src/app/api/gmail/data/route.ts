@@ -1,6 +1,6 @@
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
-import { loadContactSnapshot } from "@/lib/firestore";
+import { countContacts, loadContactSnapshot } from "@/lib/firestore";
 import { getGmailClient } from "@/lib/google";
 
 export const dynamic = "force-dynamic";
@@ -20,15 +20,18 @@ export async function GET() {
     if (!snapshot) {
       return NextResponse.json({
         email,
-        senders: [],
-        recipients: [],
-        merged: [],
+        totalContacts: 0,
+        sendersCount: 0,
+        recipientsCount: 0,
         messageSampleCount: 0,
         updatedAt: null,
       });
     }
 
-    return NextResponse.json({ email, ...snapshot });
+    // Contacts live in a subcollection now; report their counts rather than loading them all
+    const counts = await countContacts(email);
+
+    return NextResponse.json({ email, ...counts, ...snapshot });
   } catch (error: any) {
     console.error("[Firestore Error]", error);
     const errorMessage = error?.message || "Unknown error";
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { getLabelNames } from "@/lib/gmail";
+import { loadFilterHistory, loadFilters, loadLabels } from "@/lib/firestore";
+import { diffFilterVersions, reviseFilter, versionToRevision } from "@/lib/filter-history";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Earlier versions of a rule (by Firestore ID or Gmail filter ID), newest first, each with the changes
+ * made by the version that replaced it
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const { gmail, email } = await getGmailClient(refreshToken);
+
+    const filter = (await loadFilters(email)).find((stored) => stored.id === id || stored.gmailId === id);
+    if (!filter) {
+      // Gmail filters that were never edited here have no history yet
+      return NextResponse.json({ filter: null, versions: [] });
+    }
+
+    const [history, storedLabels] = await Promise.all([loadFilterHistory(email, filter.id), loadLabels(email)]);
+    const labelIds = [filter, ...history].flatMap((version) => [
+      ...(version.labelIds || []),
+      ...(version.actions.removeLabelIds || []),
+    ]);
+    const labelNames = await getLabelNames(gmail, labelIds, storedLabels);
+    // Deleted labels are shown by the name they had
+    history.forEach((version) =>
+      Object.entries(version.labelNames || {}).forEach(([labelId, name]) => {
+        if (!labelNames.has(labelId)) labelNames.set(labelId, name);
+      })
+    );
+
+    const versions = history.map((version, index) => ({
+      ...version,
+      changes: diffFilterVersions(version, index === 0 ? filter : history[index - 1], labelNames),
+    }));
+
+    return NextResponse.json({ filter, versions });
+  } catch (error: any) {
+    console.error("[Gmail Filter History Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load filter history",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Roll a rule back to an earlier version ({ version }). The rollback is itself a new version,
+ * so it can be undone the same way.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const { version: versionNumber } = await request.json();
+    if (!Number.isInteger(versionNumber)) {
+      return NextResponse.json({ error: "version is required" }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const filter = (await loadFilters(email)).find((stored) => stored.id === id || stored.gmailId === id);
+    const version = filter && (await loadFilterHistory(email, filter.id)).find((v) => v.version === versionNumber);
+    if (!filter || !version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const existingLabels = await getLabelNames(
+      gmail,
+      [...version.labelIds, ...(version.actions.removeLabelIds || [])],
+      await loadLabels(email)
+    );
+    const restored = await reviseFilter(
+      gmail,
+      email,
+      filter,
+      versionToRevision(version, new Set(existingLabels.keys())),
+      "rollback"
+    );
+
+    return NextResponse.json({ filter: restored });
+  } catch (error: any) {
+    console.error("[Gmail Filter History Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to roll back filter",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
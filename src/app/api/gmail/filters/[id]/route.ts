@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { getGmailClient } from "@/lib/google";
+import { loadFilters } from "@/lib/firestore";
+import { cleanActions, cleanCriteria, fromGmailFilter, validateFilter } from "@/lib/gmail-filters";
+import { reviseFilter } from "@/lib/filter-history";
 
 export const dynamic = "force-dynamic";
 
@@ -36,3 +39,68 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     );
   }
 }
+
+/**
+ * Edit a rule by its Firestore ID or Gmail filter ID. Published rules are replaced in Gmail and keep
+ * their Firestore record; Gmail filters without one are adopted so their history starts here.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const data = await request.json();
+    const criteria = cleanCriteria(data.criteria);
+    const actions = cleanActions(data.actions);
+    const labelIds: string[] = (data.labelIds || []).filter((label: unknown) => typeof label === "string");
+
+    const validationError = validateFilter(criteria, actions, labelIds);
+    if (validationError) {
+      return NextResponse.json({ error: "Invalid filter", details: validationError }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    let filter = (await loadFilters(email)).find((stored) => stored.id === id || stored.gmailId === id);
+
+    if (!filter) {
+      let gmailFilter;
+      try {
+        gmailFilter = (await gmail.users.settings.filters.get({ userId: "me", id })).data;
+      } catch (error: any) {
+        if (error.code === 404) {
+          return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+        }
+        throw error;
+      }
+
+      const now = new Date().toISOString();
+      filter = {
+        id,
+        name: `Gmail Filter ${id}`,
+        ...fromGmailFilter(gmailFilter),
+        gmailId: id,
+        status: "published",
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    const revised = await reviseFilter(gmail, email, filter, { name: data.name, criteria, actions, labelIds });
+
+    return NextResponse.json({ filter: revised });
+  } catch (error: any) {
+    console.error("[Gmail API Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update filter",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
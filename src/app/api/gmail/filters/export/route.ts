@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { getLabelNames } from "@/lib/gmail";
+import { loadFilters, loadLabels } from "@/lib/firestore";
+import { fromGmailFilter } from "@/lib/gmail-filters";
+import { serializeFilterXml, withLabelNames } from "@/lib/filter-xml";
+
+export const dynamic = "force-dynamic";
+
+const SOURCES = ["gmail", "drafts", "all"] as const;
+
+/**
+ * Download filters as mailFilters.xml.
+ * source=gmail (default) exports the live Gmail filters, drafts the unpublished Firestore rules, all both.
+ */
+export async function GET(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const sourceParam = searchParams.get("source") as (typeof SOURCES)[number];
+    const source = SOURCES.includes(sourceParam) ? sourceParam : "gmail";
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+
+    const filters = [];
+    if (source !== "drafts") {
+      const response = await gmail.users.settings.filters.list({ userId: "me" });
+      filters.push(...(response.data.filter || []).map(fromGmailFilter));
+    }
+    if (source !== "gmail") {
+      // Published rules are already among the live filters
+      const drafts = (await loadFilters(email)).filter((filter) => filter.status === "draft");
+      filters.push(...drafts);
+    }
+
+    const labelIds = filters.flatMap((filter) => filter.labelIds || []);
+    const labelNames = await getLabelNames(gmail, labelIds, await loadLabels(email));
+    const xml = serializeFilterXml(
+      filters.map((filter) => withLabelNames(filter, labelNames)),
+      { email }
+    );
+
+    return new NextResponse(xml, {
+      headers: {
+        "Content-Type": "application/atom+xml; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="mailFilters.xml"',
+      },
+    });
+  } catch (error: any) {
+    console.error("[Gmail Filters Export Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export filters",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import type { gmail_v1 } from "googleapis";
+import { getGmailClient } from "@/lib/google";
+import { deleteFilter, loadFilters, loadLabels, saveFilter } from "@/lib/firestore";
+import { fromGmailFilter } from "@/lib/gmail-filters";
+import { analyzeFilters, type AnalyzedFilter, type FilterFix } from "@/lib/filter-analysis";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Rule health report over the live Gmail filters and the draft rules stored in Firestore
+ */
+export async function GET() {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { gmail, email } = await getGmailClient(refreshToken);
+
+    const [filtersResponse, labelsResponse, storedFilters, storedLabels] = await Promise.all([
+      gmail.users.settings.filters.list({ userId: "me" }),
+      gmail.users.labels.list({ userId: "me" }),
+      loadFilters(email),
+      loadLabels(email),
+    ]);
+
+    // Drafts may refer to labels that only exist in Firestore until they are published
+    const labelNames = new Map(storedLabels.map((label) => [label.id, label.name]));
+    (labelsResponse.data.labels || []).forEach((label) => {
+      if (label.id && label.name) labelNames.set(label.id, label.name);
+    });
+
+    const filters: AnalyzedFilter[] = [
+      ...(filtersResponse.data.filter || []).map((filter) => ({
+        id: filter.id || "",
+        source: "gmail" as const,
+        ...fromGmailFilter(filter),
+      })),
+      ...storedFilters
+        .filter((filter) => filter.status === "draft")
+        .map((filter) => ({
+          id: filter.id,
+          source: "draft" as const,
+          name: filter.name,
+          criteria: filter.criteria,
+          actions: filter.actions,
+          labelIds: filter.labelIds || [],
+        })),
+    ];
+
+    return NextResponse.json({
+      checked: filters.length,
+      issues: analyzeFilters(filters, labelNames),
+    });
+  } catch (error: any) {
+    console.error("[Gmail Filter Health Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to analyze filters",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Apply a fix from the health report. Gmail filters can't be edited, so removing labels from one
+ * creates a replacement filter before deleting the original.
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { fix } = (await request.json()) as { fix?: FilterFix };
+    if (!fix?.filterId || !["delete", "remove_labels"].includes(fix.type)) {
+      return NextResponse.json({ error: "A valid fix is required" }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const storedFilters = await loadFilters(email);
+
+    if (fix.source === "draft") {
+      const draft = storedFilters.find((filter) => filter.id === fix.filterId);
+      if (!draft) {
+        return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+      }
+
+      if (fix.type === "delete") {
+        await deleteFilter(email, draft.id);
+      } else {
+        const removed = new Set(fix.labelIds);
+        await saveFilter(email, {
+          ...draft,
+          labelIds: (draft.labelIds || []).filter((id) => !removed.has(id)),
+          actions: {
+            ...draft.actions,
+            removeLabelIds: (draft.actions.removeLabelIds || []).filter((id) => !removed.has(id)),
+          },
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      return NextResponse.json({ success: true });
+    }
+
+    // The published rule record, if the filter was created from one
+    const published = storedFilters.find((filter) => filter.gmailId === fix.filterId);
+
+    let replacement: gmail_v1.Schema$Filter | undefined;
+    if (fix.type === "remove_labels") {
+      const { data: current } = await gmail.users.settings.filters.get({ userId: "me", id: fix.filterId });
+      const removed = new Set(fix.labelIds);
+      const action = {
+        ...current.action,
+        addLabelIds: (current.action?.addLabelIds || []).filter((id) => !removed.has(id)),
+        removeLabelIds: (current.action?.removeLabelIds || []).filter((id) => !removed.has(id)),
+      };
+
+      // A filter left without any action is deleted instead of replaced
+      if (action.addLabelIds.length > 0 || action.removeLabelIds.length > 0 || action.forward) {
+        const created = await gmail.users.settings.filters.create({
+          userId: "me",
+          requestBody: { criteria: current.criteria, action },
+        });
+        replacement = created.data;
+      }
+    }
+
+    await gmail.users.settings.filters.delete({ userId: "me", id: fix.filterId });
+
+    if (published) {
+      if (replacement) {
+        const { labelIds, actions } = fromGmailFilter(replacement);
+        await saveFilter(email, {
+          ...published,
+          gmailId: replacement.id || undefined,
+          labelIds,
+          actions,
+          updatedAt: new Date().toISOString(),
+        });
+      } else {
+        await deleteFilter(email, published.id);
+      }
+    }
+
+    return NextResponse.json({ success: true, filterId: replacement?.id });
+  } catch (error: any) {
+    console.error("[Gmail Filter Health Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to apply fix",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { getLabelNames, resolveLabelIds } from "@/lib/gmail";
+import { loadFilters, loadLabels, saveFilter, saveLabel, type GmailFilter } from "@/lib/firestore";
+import { fromGmailFilter, toGmailFilter, validateFilter } from "@/lib/gmail-filters";
+import { diffFilters, parseFilterXml, withLabelNames, type FilterDiffEntry } from "@/lib/filter-xml";
+
+export const dynamic = "force-dynamic";
+
+type ImportMode = "preview" | "draft" | "publish";
+
+type ImportResult = {
+  index: number;
+  outcome: "created" | "skipped" | "failed";
+  filterId?: string;
+  error?: string;
+};
+
+const MODES: ImportMode[] = ["preview", "draft", "publish"];
+const MAX_XML_LENGTH = 1024 * 1024;
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Import a mailFilters.xml document.
+ * mode=preview only returns the diff against the live Gmail filters and stored drafts.
+ * mode=draft saves the selected entries as Firestore drafts, mode=publish creates them in Gmail.
+ * Entries that duplicate an existing filter are skipped unless their index is listed in include.
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const mode: ImportMode = MODES.includes(body.mode) ? body.mode : "preview";
+    const xml = typeof body.xml === "string" ? body.xml : "";
+
+    if (!xml || xml.length > MAX_XML_LENGTH) {
+      return NextResponse.json({ error: "xml is required and must be under 1 MB" }, { status: 400 });
+    }
+
+    let imported;
+    try {
+      imported = parseFilterXml(xml);
+    } catch (error: any) {
+      return NextResponse.json({ error: "Invalid filter XML", details: error.message }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+
+    // Existing filters with label names, so the comparison works across accounts
+    const [response, storedFilters, storedLabels] = await Promise.all([
+      gmail.users.settings.filters.list({ userId: "me" }),
+      loadFilters(email),
+      loadLabels(email),
+    ]);
+    const existing = [
+      ...(response.data.filter || []).map((filter) => ({ id: filter.id || "", ...fromGmailFilter(filter) })),
+      ...storedFilters.filter((filter) => filter.status === "draft"),
+    ];
+    const labelNames = await getLabelNames(
+      gmail,
+      existing.flatMap((filter) => filter.labelIds || []),
+      storedLabels
+    );
+    const entries = diffFilters(
+      imported,
+      existing.map((filter) => ({ id: filter.id, ...withLabelNames(filter, labelNames) }))
+    );
+
+    if (mode === "preview") {
+      return NextResponse.json({ entries });
+    }
+
+    const include = new Set<number>(Array.isArray(body.include) ? body.include.map(Number) : []);
+    const exclude = new Set<number>(Array.isArray(body.exclude) ? body.exclude.map(Number) : []);
+    const selected = (entry: FilterDiffEntry) =>
+      !exclude.has(entry.index) && (entry.status !== "duplicate" || include.has(entry.index));
+
+    // Stored labels by lower-cased name, so drafts reuse labels that already exist
+    const labelIdsByName = new Map(storedLabels.map((label) => [label.name.toLowerCase(), label.id]));
+
+    const results: ImportResult[] = [];
+    for (const entry of entries) {
+      if (!selected(entry)) {
+        results.push({ index: entry.index, outcome: "skipped" });
+        continue;
+      }
+
+      const validationError = validateFilter(entry.criteria, entry.actions, entry.labelNames);
+      if (validationError) {
+        results.push({ index: entry.index, outcome: "failed", error: validationError });
+        continue;
+      }
+
+      try {
+        const now = new Date().toISOString();
+        const filter: GmailFilter = {
+          id: newId("filter"),
+          name: `Imported filter ${entry.index + 1}`,
+          criteria: entry.criteria,
+          actions: entry.actions,
+          labelIds: [],
+          createdAt: now,
+          updatedAt: now,
+          status: "draft",
+        };
+
+        if (mode === "publish") {
+          const labelIds = await resolveLabelIds(gmail, entry.labelNames);
+          const created = await gmail.users.settings.filters.create({
+            userId: "me",
+            requestBody: toGmailFilter(entry.criteria, entry.actions, labelIds),
+          });
+          filter.labelIds = labelIds;
+          filter.gmailId = created.data.id || undefined;
+          filter.status = "published";
+        } else {
+          // Labels missing from this account are created in Gmail right away, so drafts only hold Gmail IDs
+          for (const name of entry.labelNames) {
+            let labelId = labelIdsByName.get(name.toLowerCase());
+            if (!labelId) {
+              [labelId] = await resolveLabelIds(gmail, [name]);
+              await saveLabel(email, { id: labelId, name, type: "user", createdAt: now, updatedAt: now });
+              labelIdsByName.set(name.toLowerCase(), labelId);
+            }
+            filter.labelIds!.push(labelId);
+          }
+        }
+
+        await saveFilter(email, filter);
+        results.push({ index: entry.index, outcome: "created", filterId: filter.id });
+      } catch (error: any) {
+        results.push({ index: entry.index, outcome: "failed", error: error.message });
+      }
+    }
+
+    return NextResponse.json({
+      entries,
+      results,
+      created: results.filter((result) => result.outcome === "created").length,
+      failed: results.filter((result) => result.outcome === "failed").length,
+    });
+  } catch (error: any) {
+    console.error("[Gmail Filters Import Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to import filters",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { getLabelNames, sampleMatchingMessages, type MessageSample } from "@/lib/gmail";
+import { getFirestore, loadFilters, loadLabels } from "@/lib/firestore";
+import { cleanActions, cleanCriteria, toGmailFilter } from "@/lib/gmail-filters";
+import { criteriaToQuery } from "@/lib/gmail-query";
+import { matchQuery, toIndexQuery } from "@/lib/message-matcher";
+import { FirestoreMessageIndexRepository, MAX_INDEX_READ, type IndexedMessage } from "@/lib/scanners/message-index";
+
+export const dynamic = "force-dynamic";
+
+const MAX_SAMPLE_SIZE = 50;
+
+function toSample(message: IndexedMessage): MessageSample {
+  return {
+    id: message.id,
+    subject: message.subject,
+    from: message.fromName ? `${message.fromName} <${message.from}>` : message.from,
+    date: message.date || "",
+  };
+}
+
+/**
+ * Evaluate the query against the message index built by scans instead of searching Gmail.
+ * Only messages the query's sender, system label and date terms allow are read, newest first and capped,
+ * so the count is an estimate when the cap is reached.
+ */
+async function matchIndexedMessages(email: string, query: string, labelNames: Map<string, string>, sampleSize: number) {
+  const context = { labelNames };
+  const messages = await new FirestoreMessageIndexRepository(getFirestore()).loadMessages(
+    email,
+    toIndexQuery(query, context)
+  );
+  const { matches, uncertain } = matchQuery(messages, query, context);
+  const newestFirst = [...matches].sort((a, b) => (b.date || "").localeCompare(a.date || ""));
+
+  return {
+    estimatedCount: matches.length,
+    exact: messages.length < MAX_INDEX_READ,
+    uncertain: uncertain.length, // Could match on body text or attachments, which the index doesn't keep
+    indexed: messages.length,
+    samples: newestFirst.slice(0, sampleSize).map(toSample),
+  };
+}
+
+/**
+ * Dry-run a filter against existing mail without creating anything.
+ * Accepts a stored rule ({ filterId }), a GmailFilter ({ filter }) or raw { criteria, actions, labelIds },
+ * where labelIds may also hold names of labels that don't exist yet.
+ * Returns the query Gmail would run, the (estimated) match count, a sample of matching messages
+ * and the labels the filter would add and remove.
+ * With { local: true } matches come from the scanned message index, which costs no Gmail API quota.
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const sampleSize = Math.min(Math.max(Number(body.sampleSize) || 10, 1), MAX_SAMPLE_SIZE);
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+
+    let source = body.filter || body;
+    if (body.filterId) {
+      source = (await loadFilters(email)).find((filter) => filter.id === body.filterId);
+      if (!source) {
+        return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+      }
+    }
+
+    const criteria = cleanCriteria(source.criteria);
+    if (Object.keys(criteria).length === 0) {
+      // An empty query would match the whole mailbox
+      return NextResponse.json(
+        { error: "Invalid filter", details: "At least one criterion is required" },
+        { status: 400 }
+      );
+    }
+
+    const query = criteriaToQuery(criteria);
+    const { action } = toGmailFilter(criteria, cleanActions(source.actions), source.labelIds || []);
+    const addLabelIds = action?.addLabelIds || [];
+    const removeLabelIds = action?.removeLabelIds || [];
+
+    const labelNamesPromise = loadLabels(email).then((storedLabels) =>
+      getLabelNames(gmail, [...addLabelIds, ...removeLabelIds], storedLabels)
+    );
+    const [matches, labelNames] = await Promise.all([
+      body.local
+        ? labelNamesPromise.then(async (names) => ({
+            source: "index",
+            ...(await matchIndexedMessages(email, query, names, sampleSize)),
+          }))
+        : sampleMatchingMessages(gmail, query, sampleSize).then((result) => ({ source: "gmail", ...result })),
+      labelNamesPromise,
+    ]);
+    const describeLabel = (id: string) => ({ id, name: labelNames.get(id) || id });
+
+    return NextResponse.json({
+      query,
+      ...matches,
+      labelsAdded: addLabelIds.map(describeLabel),
+      labelsRemoved: removeLabelIds.map(describeLabel),
+      forward: action?.forward || null,
+    });
+  } catch (error: any) {
+    console.error("[Gmail Filter Preview Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to preview filter",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
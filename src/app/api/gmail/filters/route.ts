@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { getGmailClient } from "@/lib/google";
-import { saveFilters, type GmailFilter } from "@/lib/firestore";
+import { saveFilter, type GmailFilter } from "@/lib/firestore";
+import { loadFilterSyncState, toManagedFilter } from "@/lib/filter-sync";
+import { resolveLabelIds } from "@/lib/gmail";
 
 export const dynamic = "force-dynamic";
 
@@ -35,6 +37,11 @@ export async function GET() {
   }
 }
 
+/**
+ * Sync the stored rules with Gmail without overwriting anything: filters created in Gmail are adopted
+ * and rules whose filter Gmail replaced unchanged are relinked. Rules that were modified or deleted in
+ * Gmail are left for the user to resolve through /api/gmail/filters/sync.
+ */
 export async function PUT() {
   const cookieStore = await cookies();
   const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
@@ -44,62 +51,27 @@ export async function PUT() {
   }
 
   try {
-    const { gmail } = await getGmailClient(refreshToken);
-    const profile = await gmail.users.getProfile({ userId: "me" });
-    const email = profile.data.emailAddress;
-
-    if (!email) {
-      return NextResponse.json({ error: "Failed to get user email" }, { status: 401 });
-    }
-
-    // Fetch all filters from Gmail
-    const response = await gmail.users.settings.filters.list({
-      userId: "me",
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const { stored, gmailFilters, entries } = await loadFilterSyncState(gmail, email);
+
+    const updates: GmailFilter[] = [];
+    entries.forEach((entry) => {
+      const live = gmailFilters.find((filter) => filter.id === entry.gmailId);
+      if (entry.status === "unmanaged" && live?.criteria) {
+        updates.push(toManagedFilter(live));
+      } else if (entry.status === "in_sync" && entry.relinked) {
+        const rule = stored.find((filter) => filter.id === entry.filterId)!;
+        updates.push({ ...rule, gmailId: entry.gmailId, updatedAt: new Date().toISOString() });
+      }
     });
 
-    const gmailFilters = response.data.filter || [];
-
-    // Convert Gmail filters to our Firestore format
-    const firestoreFilters: GmailFilter[] = gmailFilters
-      .map((filter) => {
-        // Extract information from Gmail filter to create our local structure
-        // Gmail filter objects have criteria and action properties directly
-        const criteria = filter.criteria;
-        const action = filter.action;
-
-        if (!criteria) return null;
-
-        // Build query from criteria
-        let query = "";
-        if (criteria.from) query += `from:${criteria.from}`;
-        if (criteria.to) query += (query ? " " : "") + `to:${criteria.to}`;
-        if (criteria.subject) query += (query ? " " : "") + `subject:${criteria.subject}`;
-        if (criteria.query) query += (query ? " " : "") + criteria.query;
-
-        // Check for archive action (removing from inbox)
-        const archive = action?.removeLabelIds?.includes("INBOX") || false;
-
-        return {
-          id: filter.id || `gmail-filter-${Date.now()}-${Math.random()}`,
-          name: `Gmail Filter ${filter.id}`,
-          query,
-          labelIds: action?.addLabelIds || [],
-          archive,
-          gmailId: filter.id,
-          status: "published" as const,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-      })
-      .filter(Boolean) as GmailFilter[];
-
-    // Save to Firestore
-    await saveFilters(email, firestoreFilters);
+    await Promise.all(updates.map((filter) => saveFilter(email, filter)));
 
     return NextResponse.json({
       success: true,
-      synced: firestoreFilters.length,
-      filters: firestoreFilters,
+      synced: updates.length,
+      filters: updates,
+      unresolved: entries.filter((entry) => entry.status === "modified" || entry.status === "missing"),
     });
   } catch (error: any) {
     console.error("[Gmail Filters Sync Error]", error);
@@ -127,43 +99,8 @@ export async function POST(request: NextRequest) {
 
     // Ensure all labels in addLabelIds are valid label IDs
     if (data.filter.action?.addLabelIds) {
-      // Get existing labels
-      const labelsResponse = await gmail.users.labels.list({
-        userId: "me",
-      });
-      const existingLabels = labelsResponse.data.labels || [];
-      const labelIdMap = new Map<string, string>();
-      existingLabels.forEach((label: any) => {
-        if (label.id && label.name) {
-          labelIdMap.set(label.id, label.name);
-          labelIdMap.set(label.name, label.id); // Also map name to ID for quick lookup
-        }
-      });
-
-      const resolvedLabelIds: string[] = [];
-      for (const label of data.filter.action.addLabelIds) {
-        if (typeof label === "string" && labelIdMap.has(label)) {
-          // It's already an ID or name that exists
-          const existingId = labelIdMap.get(label);
-          if (existingId && !resolvedLabelIds.includes(existingId)) {
-            resolvedLabelIds.push(existingId);
-          }
-        } else if (typeof label === "string") {
-          // It's a new label name, create it
-          const createResponse = await gmail.users.labels.create({
-            userId: "me",
-            requestBody: {
-              name: label,
-              labelListVisibility: "labelShow",
-              messageListVisibility: "show",
-            },
-          });
-          const newLabel = createResponse.data;
-          resolvedLabelIds.push(newLabel.id!);
-        }
-      }
-
-      data.filter.action.addLabelIds = resolvedLabelIds;
+      const labels = data.filter.action.addLabelIds.filter((label: unknown) => typeof label === "string");
+      data.filter.action.addLabelIds = await resolveLabelIds(gmail, labels);
     }
 
     const response = await gmail.users.settings.filters.create({
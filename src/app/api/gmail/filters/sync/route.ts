@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { replaceGmailFilter, resolveLabelIds } from "@/lib/gmail";
+import { deleteFilter, saveFilter, type GmailFilter } from "@/lib/firestore";
+import { fromGmailFilter, toGmailFilter } from "@/lib/gmail-filters";
+import { saveRevision } from "@/lib/filter-history";
+import { loadFilterSyncState, toManagedFilter, type FilterSyncAction } from "@/lib/filter-sync";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Drift report: every published rule and live Gmail filter with its sync status
+ */
+export async function GET() {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const { entries } = await loadFilterSyncState(gmail, email);
+
+    const counts = { in_sync: 0, modified: 0, missing: 0, unmanaged: 0 };
+    entries.forEach((entry) => counts[entry.status]++);
+
+    return NextResponse.json({ entries, counts });
+  } catch (error: any) {
+    console.error("[Gmail Filter Sync Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to compare filters",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Resolve the drift of one filter ({ action, filterId } or { action, gmailId }):
+ * - adopt: store Gmail's version, keeping the replaced one in the rule's history
+ * - republish: push the stored rule to Gmail again
+ * - discard: delete a missing rule from Firestore, or an unmanaged filter from Gmail
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { action, filterId, gmailId } = (await request.json()) as {
+      action?: FilterSyncAction;
+      filterId?: string;
+      gmailId?: string;
+    };
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const { stored, gmailFilters, labelNames, entries } = await loadFilterSyncState(gmail, email);
+
+    const entry = entries.find((candidate) =>
+      filterId ? candidate.filterId === filterId : gmailId && candidate.gmailId === gmailId
+    );
+    if (!entry) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+    if (!action || !entry.actions.includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action", details: `A ${entry.status} filter can't be resolved with ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const rule = stored.find((filter) => filter.id === entry.filterId);
+    const live = gmailFilters.find((filter) => filter.id === entry.gmailId);
+
+    if (action === "adopt") {
+      const content = fromGmailFilter(live!);
+      if (rule) {
+        const filter = await saveRevision(email, rule, { ...content, gmailId: live!.id! }, labelNames, "adopt");
+        return NextResponse.json({ filter });
+      }
+
+      const filter = toManagedFilter(live!);
+      await saveFilter(email, filter);
+      return NextResponse.json({ filter });
+    }
+
+    if (action === "republish") {
+      // Labels deleted since the rule was published are recreated by name
+      const labelIds = await resolveLabelIds(
+        gmail,
+        (rule!.labelIds || []).filter((id) => labelNames.has(id)).map((id) => labelNames.get(id)!)
+      );
+      const body = toGmailFilter(rule!.criteria, rule!.actions, labelIds);
+      const newGmailId = live
+        ? await replaceGmailFilter(gmail, live.id!, body)
+        : (await gmail.users.settings.filters.create({ userId: "me", requestBody: body })).data.id!;
+
+      const filter: GmailFilter = { ...rule!, labelIds, gmailId: newGmailId, updatedAt: new Date().toISOString() };
+      await saveFilter(email, filter);
+      return NextResponse.json({ filter });
+    }
+
+    // discard
+    if (entry.status === "missing") {
+      await deleteFilter(email, rule!.id);
+    } else {
+      await gmail.users.settings.filters.delete({ userId: "me", id: live!.id! });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("[Gmail Filter Sync Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to resolve filter drift",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
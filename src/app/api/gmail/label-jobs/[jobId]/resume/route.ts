@@ -1,7 +1,8 @@
 import { cookies } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
 import { getGmailClient } from "@/lib/google";
-import { getLabelJob, resumeLabelJob, processLabelJob } from "@/lib/job-manager";
+import { getLabelJob, resumeLabelJob } from "@/lib/job-manager";
+import { refreshStoredCredentials } from "@/lib/credentials";
 
 export const dynamic = "force-dynamic";
 
@@ -16,20 +17,30 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
 
   try {
     const { jobId } = await params;
+    const { email } = await getGmailClient(refreshToken);
+    const job = await getLabelJob(jobId);
+
+    if (!job || job.email !== email) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // The worker runs the job with the stored token, without this request's cookie
+    if (!(await refreshStoredCredentials(email, refreshToken))) {
+      return NextResponse.json(
+        {
+          error: "credentials_revoked",
+          details: "Background jobs were turned off for this account. Sign in again to allow them.",
+        },
+        { status: 403 }
+      );
+    }
+
     const success = await resumeLabelJob(jobId);
 
     if (!success) {
       return NextResponse.json({ error: "Could not resume job" }, { status: 400 });
     }
 
-    // Start processing in background
-    const jobForProcessing = await getLabelJob(jobId);
-    if (jobForProcessing) {
-      processLabelJob(jobForProcessing).catch((error) => {
-        console.error(`Background processing failed for job ${jobId}:`, error);
-      });
-    }
-
     return NextResponse.json({
       success: true,
       message: "Job resumed successfully",
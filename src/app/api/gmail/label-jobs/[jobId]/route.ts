@@ -1,14 +1,7 @@
 import { cookies } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
 import { getGmailClient } from "@/lib/google";
-import {
-  getLabelJob,
-  startLabelJob,
-  pauseLabelJob,
-  resumeLabelJob,
-  cancelLabelJob,
-  processLabelJob,
-} from "@/lib/job-manager";
+import { getLabelJob, startLabelJob, pauseLabelJob, resumeLabelJob, cancelLabelJob } from "@/lib/job-manager";
 
 export const dynamic = "force-dynamic";
 
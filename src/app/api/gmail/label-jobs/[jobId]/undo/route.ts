@@ -0,0 +1,67 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { createUndoJob, getLabelJob } from "@/lib/job-manager";
+import { loadJournal } from "@/lib/job-journal";
+import { loadGmailLabels } from "@/lib/label-hierarchy";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/gmail/label-jobs/[jobId]/undo - Create a job that reverts a finished job's label changes
+// Works from the job's journal, so it also works after the job itself has expired
+export async function POST(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { jobId } = await params;
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const journal = await loadJournal(jobId);
+
+    if (!journal || journal.email !== email) {
+      return NextResponse.json({ error: "No changes recorded for this job" }, { status: 404 });
+    }
+
+    const job = await getLabelJob(jobId);
+    if (job && ["pending", "running", "paused"].includes(job.status)) {
+      return NextResponse.json({ error: "Cancel the job or let it finish before undoing it" }, { status: 409 });
+    }
+
+    // A failed or cancelled undo can be tried again
+    const undoJob = journal.undoJobId ? await getLabelJob(journal.undoJobId) : null;
+    if (journal.undoJobId && !(undoJob && ["failed", "cancelled"].includes(undoJob.status))) {
+      return NextResponse.json({ error: "This job has already been undone" }, { status: 409 });
+    }
+
+    const labelIds = new Set((await loadGmailLabels(gmail)).map((label) => label.id));
+    const missing = journal.labelIds.filter((id) => !labelIds.has(id));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: "Labels changed by this job no longer exist", details: missing.join(", ") },
+        { status: 409 }
+      );
+    }
+
+    const newJobId = await createUndoJob(email, journal);
+
+    return NextResponse.json({
+      success: true,
+      jobId: newJobId,
+      message: "Undo job created successfully",
+    });
+  } catch (error: unknown) {
+    console.error("[Undo Label Job Error]", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to undo job",
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from "next/server";
+import { POST } from "../route";
+
+jest.mock("next/headers", () => ({
+  cookies: async () => ({ get: (name: string) => (name === "gmail_refresh_token" ? { value: "token" } : undefined) }),
+}));
+jest.mock("@/lib/google", () => ({ getGmailClient: jest.fn(async () => ({ gmail: {}, email: "me@example.com" })) }));
+jest.mock("@/lib/label-hierarchy", () => ({ loadGmailLabels: jest.fn() }));
+jest.mock("@/lib/job-manager", () => ({
+  createLabelJob: jest.fn(async () => "label_1"),
+  createRelabelJob: jest.fn(async () => "label_2"),
+}));
+
+describe("POST /api/gmail/label-jobs", () => {
+  const { loadGmailLabels } = jest.requireMock("@/lib/label-hierarchy");
+  const { createRelabelJob } = jest.requireMock("@/lib/job-manager");
+  const ruleCriteria = { from: "news@example.com" };
+
+  const post = async (body: Record<string, unknown>) => {
+    const response = await POST(
+      new NextRequest("http://localhost/api/gmail/label-jobs", { method: "POST", body: JSON.stringify(body) })
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loadGmailLabels.mockResolvedValue([
+      { id: "Label_1", name: "Newsletters", type: "user" },
+      { id: "Label_2", name: "Reading", type: "user" },
+      { id: "TRASH", name: "TRASH", type: "system" },
+    ]);
+  });
+
+  it("should create removal and swap jobs", async () => {
+    await expect(post({ type: "label_removal", ruleCriteria, removeLabelId: "Label_1" })).resolves.toMatchObject({
+      status: 200,
+      body: { jobId: "label_2" },
+    });
+    await post({ type: "label_swap", ruleCriteria, removeLabelId: "Label_1", targetLabelId: "Label_2" });
+
+    expect(createRelabelJob.mock.calls).toEqual([
+      ["me@example.com", ruleCriteria, expect.objectContaining({ id: "Label_1" }), undefined],
+      [
+        "me@example.com",
+        ruleCriteria,
+        expect.objectContaining({ id: "Label_1" }),
+        expect.objectContaining({ id: "Label_2" }),
+      ],
+    ]);
+  });
+
+  it("should refuse swaps into system labels", async () => {
+    const { status, body } = await post({
+      type: "label_swap",
+      ruleCriteria,
+      removeLabelId: "Label_1",
+      targetLabelId: "TRASH",
+    });
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch('system label "TRASH"');
+    expect(createRelabelJob).not.toHaveBeenCalled();
+  });
+
+  it("should validate the relabel fields", async () => {
+    const responses = await Promise.all([
+      post({ type: "label_swap", ruleCriteria, removeLabelId: "Label_1" }),
+      post({ type: "label_swap", ruleCriteria, removeLabelId: "Label_1", targetLabelId: "Label_1" }),
+      post({ type: "label_removal", ruleCriteria, removeLabelId: "Label_9" }),
+      post({ type: "label_removal", ruleCriteria: { from: "(news" }, removeLabelId: "Label_1" }),
+      post({ type: "label_rename", ruleCriteria }),
+    ]);
+
+    expect(responses.map(({ status }) => status)).toEqual([400, 400, 404, 400, 400]);
+    expect(createRelabelJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { sampleMatchingMessages } from "@/lib/gmail";
+import { criteriaToQuery, getQueryError } from "@/lib/gmail-query";
+import { createCleanupJob } from "@/lib/job-manager";
+import {
+  CLEANUP_ACTIONS,
+  claimConfirmationToken,
+  createConfirmationToken,
+  getCleanupQuery,
+  isCleanupAction,
+  verifyConfirmationToken,
+} from "@/lib/mailbox-cleanup";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Mailbox cleanup jobs ({ action: "archive" | "mark_read" | "trash" | "spam", ruleCriteria, mode }).
+ * mode=preview counts the matching messages and, for trash and spam, returns the confirmationToken
+ * that mode=create requires once. Jobs are created pending and started from the label jobs page.
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { action, ruleCriteria = {}, mode, confirmationToken } = await request.json();
+
+    if (!isCleanupAction(action)) {
+      return NextResponse.json({ error: "Missing required field: action" }, { status: 400 });
+    }
+
+    const queryError = (["from", "to", "subject", "query", "negatedQuery"] as const)
+      .map((field) => getQueryError(ruleCriteria[field]))
+      .find(Boolean);
+    if (queryError) {
+      return NextResponse.json({ error: "Invalid search criteria", details: queryError }, { status: 400 });
+    }
+
+    const { destructive, label } = CLEANUP_ACTIONS[action];
+    if (destructive && !criteriaToQuery(ruleCriteria)) {
+      return NextResponse.json({ error: `A search is required to ${label.toLowerCase()}` }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const query = getCleanupQuery(action, ruleCriteria);
+
+    if (mode !== "create") {
+      const { estimatedCount, exact, samples } = await sampleMatchingMessages(gmail, query, 5);
+      return NextResponse.json({
+        action,
+        query,
+        estimatedCount,
+        exact,
+        samples,
+        confirmationToken: destructive ? createConfirmationToken(email, action, query) : undefined,
+      });
+    }
+
+    if (
+      destructive &&
+      !(
+        verifyConfirmationToken(confirmationToken, email, action, query) &&
+        (await claimConfirmationToken(email, confirmationToken))
+      )
+    ) {
+      return NextResponse.json(
+        { error: "confirmation_required", details: "Preview this cleanup again and confirm it" },
+        { status: 400 }
+      );
+    }
+
+    const jobId = await createCleanupJob(email, ruleCriteria, action);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: "Cleanup job created successfully",
+    });
+  } catch (error: any) {
+    console.error("[Mailbox Cleanup Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create cleanup job",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { listJournals } from "@/lib/job-journal";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/gmail/label-jobs/journals - Recorded changes of label jobs, including expired ones, for undo
+export async function GET() {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { email } = await getGmailClient(refreshToken);
+    const journals = await listJournals(email);
+
+    return NextResponse.json({ journals });
+  } catch (error: any) {
+    console.error("[Label Job Journals Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load job history",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getGmailClient } from "@/lib/google";
 import {
   createLabelJob,
+  createRelabelJob,
   getAllLabelJobs,
   startLabelJob,
   pauseLabelJob,
@@ -10,6 +11,8 @@ import {
   cancelLabelJob,
   deleteLabelJob,
 } from "@/lib/job-manager";
+import { getQueryError } from "@/lib/gmail-query";
+import { loadGmailLabels } from "@/lib/label-hierarchy";
 
 export const dynamic = "force-dynamic";
 
@@ -40,6 +43,8 @@ export async function GET() {
 }
 
 // POST /api/gmail/label-jobs - Create a new label job
+// type=label_application (default) adds labelIds to the messages matching ruleCriteria for a rule (filterId);
+// type=label_removal removes removeLabelId from them, type=label_swap replaces it with targetLabelId
 export async function POST(request: NextRequest) {
   const cookieStore = await cookies();
   const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
@@ -49,15 +54,55 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { email } = await getGmailClient(refreshToken);
+    const { gmail, email } = await getGmailClient(refreshToken);
     const body = await request.json();
-    const { filterId, ruleCriteria, labelIds } = body;
-
-    if (!filterId || !ruleCriteria || !labelIds || !Array.isArray(labelIds)) {
+    const { type = "label_application", filterId, ruleCriteria, labelIds, removeLabelId, targetLabelId } = body;
+
+    if (type === "label_removal" || type === "label_swap") {
+      if (!ruleCriteria || !removeLabelId || (type === "label_swap" && !targetLabelId)) {
+        return NextResponse.json(
+          {
+            error: `Missing required fields: ruleCriteria, removeLabelId${type === "label_swap" ? ", targetLabelId" : ""}`,
+          },
+          { status: 400 }
+        );
+      }
+    } else if (type !== "label_application") {
+      return NextResponse.json({ error: `Unknown job type: ${type}` }, { status: 400 });
+    } else if (!filterId || !ruleCriteria || !labelIds || !Array.isArray(labelIds)) {
       return NextResponse.json({ error: "Missing required fields: filterId, ruleCriteria, labelIds" }, { status: 400 });
     }
 
-    const jobId = await createLabelJob(email, filterId, ruleCriteria, labelIds);
+    // Catch syntax errors here rather than when Gmail rejects the search mid-job
+    const queryError = (["from", "to", "subject", "query", "negatedQuery"] as const)
+      .map((field) => getQueryError(ruleCriteria[field]))
+      .find(Boolean);
+    if (queryError) {
+      return NextResponse.json({ error: "Invalid search criteria", details: queryError }, { status: 400 });
+    }
+
+    let jobId: string;
+    if (type === "label_application") {
+      jobId = await createLabelJob(email, filterId, ruleCriteria, labelIds);
+    } else {
+      const labels = await loadGmailLabels(gmail);
+      const source = labels.find((label) => label.id === removeLabelId);
+      const target = type === "label_swap" ? labels.find((label) => label.id === targetLabelId) : undefined;
+      if (!source || (type === "label_swap" && !target)) {
+        return NextResponse.json({ error: "Label not found" }, { status: 404 });
+      }
+      // Trash and spam go through the cleanup jobs, which need a confirmed preview
+      if (target?.type === "system") {
+        return NextResponse.json(
+          { error: `Messages can't be moved to the system label "${target.name}"; use a mailbox cleanup instead` },
+          { status: 400 }
+        );
+      }
+      if (source.id === target?.id) {
+        return NextResponse.json({ error: "Choose a different label to move messages to" }, { status: 400 });
+      }
+      jobId = await createRelabelJob(email, ruleCriteria, source, target);
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,65 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { checkLabelMerge, LabelHierarchyError, loadGmailLabels } from "@/lib/label-hierarchy";
+import { createLabelMergeJob, startLabelJob } from "@/lib/job-manager";
+import { refreshStoredCredentials } from "@/lib/credentials";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Merge a label into another ({ targetId }). A label job moves every message to the target,
+ * then the label is deleted and its filters point at the target.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id: labelId } = await params;
+    const { targetId } = await request.json();
+
+    if (!targetId) {
+      return NextResponse.json({ error: "targetId is required" }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const { source, target } = checkLabelMerge(await loadGmailLabels(gmail), labelId, targetId);
+
+    // The merge runs as a background job with the stored token
+    if (!(await refreshStoredCredentials(email, refreshToken))) {
+      return NextResponse.json(
+        {
+          error: "credentials_revoked",
+          details: "Background jobs were turned off for this account. Sign in again to allow them.",
+        },
+        { status: 403 }
+      );
+    }
+
+    const jobId = await createLabelMergeJob(email, source, target);
+    await startLabelJob(jobId);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: `Merging "${source.name}" into "${target.name}"`,
+    });
+  } catch (error: any) {
+    console.error("[Merge Label Error]", error);
+    if (error instanceof LabelHierarchyError) {
+      return NextResponse.json({ error: "Invalid merge", details: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to merge labels",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import { getMovedLabelName, LabelHierarchyError, loadGmailLabels, renameLabelTree } from "@/lib/label-hierarchy";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Move a label under another label ({ parentId }, null for the top level) and/or rename it ({ name }).
+ * Labels nested under it move along, so the hierarchy stays intact.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { id: labelId } = await params;
+    const { parentId, name } = (await request.json()) as { parentId?: string | null; name?: string };
+
+    if (parentId === undefined && !name) {
+      return NextResponse.json({ error: "parentId or name is required" }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const labels = await loadGmailLabels(gmail);
+    const newName = parentId !== undefined ? getMovedLabelName(labels, labelId, parentId, name) : name!;
+    const renames = await renameLabelTree(gmail, email, labels, labelId, newName);
+
+    return NextResponse.json({ success: true, renames });
+  } catch (error: any) {
+    console.error("[Move Label Error]", error);
+    if (error instanceof LabelHierarchyError) {
+      return NextResponse.json({ error: "Invalid move", details: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to move label",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,21 @@ import { cookies } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
 import { saveLabel, deleteLabel, loadLabels } from "@/lib/firestore";
 import { getGmailClient } from "@/lib/google";
+import {
+  buildLabelHierarchy,
+  fromGmailLabel,
+  isLocalLabelId,
+  remapFilterLabels,
+  toGmailLabelBody,
+} from "@/lib/label-sync";
+import { LabelHierarchyError, loadGmailLabels, renameLabelTree } from "@/lib/label-hierarchy";
 
 export const dynamic = "force-dynamic";
 
+/**
+ * Rename, recolor, re-parent or change the visibility of a label in Gmail, then update the cache.
+ * A local label that was never created in Gmail is created now and replaced in the cache.
+ */
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const cookieStore = await cookies();
   const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
@@ -16,7 +28,7 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
   const { id: labelId } = await params;
 
   try {
-    const { email } = await getGmailClient(refreshToken);
+    const { gmail, email } = await getGmailClient(refreshToken);
     const body = await request.json();
     const { name, parentId, color, labelListVisibility, messageListVisibility } = body;
 
@@ -24,31 +36,62 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Label name is required" }, { status: 400 });
     }
 
-    // Load existing label to merge
-    const labels = await loadLabels(email);
-    const existingLabel = labels.find((l) => l.id === labelId);
+    let labels = await loadLabels(email);
+    let existingLabel = labels.find((l) => l.id === labelId);
+    if (!existingLabel && !isLocalLabelId(labelId)) {
+      // Created elsewhere and not cached yet
+      existingLabel = await gmail.users.labels
+        .get({ userId: "me", id: labelId })
+        .then(({ data }) => fromGmailLabel(data))
+        .catch(() => undefined);
+    }
 
     if (!existingLabel) {
       return NextResponse.json({ error: "Label not found" }, { status: 404 });
     }
 
-    const updatedLabel: any = {
-      ...existingLabel,
-      name,
-      updatedAt: new Date().toISOString(),
-    };
-
-    // Only include fields that are defined
-    if (parentId !== undefined) updatedLabel.parentId = parentId;
-    if (color !== undefined) updatedLabel.color = color;
-    if (labelListVisibility !== undefined) updatedLabel.labelListVisibility = labelListVisibility;
-    if (messageListVisibility !== undefined) updatedLabel.messageListVisibility = messageListVisibility;
+    const requestBody = toGmailLabelBody(
+      { name, parentId, color, labelListVisibility, messageListVisibility },
+      labels,
+      existingLabel
+    );
+    if (!isLocalLabelId(labelId) && requestBody.name !== existingLabel.name) {
+      // Nested labels are renamed along with it
+      await renameLabelTree(gmail, email, await loadGmailLabels(gmail), labelId, requestBody.name!);
+      labels = await loadLabels(email);
+    }
 
+    const { data } = isLocalLabelId(labelId)
+      ? await gmail.users.labels.create({ userId: "me", requestBody })
+      : await gmail.users.labels.patch({ userId: "me", id: labelId, requestBody });
+
+    const updatedLabel = buildLabelHierarchy([
+      ...labels.filter((l) => l.id !== labelId),
+      {
+        ...existingLabel,
+        ...fromGmailLabel(data),
+        updatedAt: new Date().toISOString(),
+      },
+    ]).find((l) => l.id === data.id)!;
+
+    if (data.id !== labelId) {
+      await remapFilterLabels(email, new Map([[labelId, data.id!]]));
+      await deleteLabel(email, labelId);
+    }
     await saveLabel(email, updatedLabel);
     return NextResponse.json({ label: updatedLabel });
   } catch (error: any) {
     console.error("Failed to update label:", error);
-    return NextResponse.json({ error: "Failed to update label" }, { status: 500 });
+    if (error instanceof LabelHierarchyError) {
+      return NextResponse.json({ error: "Invalid label name", details: error.message }, { status: 400 });
+    }
+    if (error.code === 404) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 });
+    }
+    if (error.code === 409) {
+      return NextResponse.json({ error: "A label with this name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to update label", details: error.message }, { status: 500 });
   }
 }
 
@@ -65,11 +108,12 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
   try {
     const { gmail, email } = await getGmailClient(refreshToken);
 
-    // Delete from Gmail
-    await gmail.users.labels.delete({
-      userId: "me",
-      id: labelId,
-    });
+    // Delete from Gmail, unless it was never created there or was already deleted elsewhere
+    if (!isLocalLabelId(labelId)) {
+      await gmail.users.labels.delete({ userId: "me", id: labelId }).catch((error) => {
+        if (error.code !== 404) throw error;
+      });
+    }
 
     // Delete from Firestore
     await deleteLabel(email, labelId);
@@ -0,0 +1,94 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { getGmailClient } from "@/lib/google";
+import {
+  applyLabelCleanup,
+  DEFAULT_STALE_DAYS,
+  loadLabelInsights,
+  previewLabelCleanup,
+  type LabelCleanupAction,
+} from "@/lib/label-insights";
+
+export const dynamic = "force-dynamic";
+
+const ACTIONS: LabelCleanupAction[] = ["delete", "archive"];
+
+function parseStaleDays(value: unknown): number {
+  const days = Number(value);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_STALE_DAYS;
+}
+
+/**
+ * User labels ranked by size and unread count, flagged when empty, unused by any filter,
+ * or stale (newest message older than ?staleDays=, 180 by default)
+ */
+export async function GET(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const staleDays = parseStaleDays(request.nextUrl.searchParams.get("staleDays"));
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const insights = await loadLabelInsights(gmail, email, staleDays);
+
+    return NextResponse.json({ insights, staleDays });
+  } catch (error: any) {
+    console.error("[Label Insights Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load label insights",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Bulk cleanup ({ action: "delete" | "archive", labelIds, mode }).
+ * mode=preview only returns the affected message counts and which labels would be skipped;
+ * mode=apply checks the labels again and deletes or archives the ones that aren't blocked.
+ */
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+  }
+
+  try {
+    const { action, labelIds, mode } = await request.json();
+
+    if (!ACTIONS.includes(action) || !Array.isArray(labelIds) || labelIds.length === 0) {
+      return NextResponse.json({ error: "Missing required fields: action, labelIds" }, { status: 400 });
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const insights = await loadLabelInsights(gmail, email, DEFAULT_STALE_DAYS, labelIds);
+    const preview = previewLabelCleanup(insights, labelIds, action);
+    const affectedMessages = preview
+      .filter((item) => !item.blockedReason)
+      .reduce((total, item) => total + item.messagesTotal, 0);
+
+    if (mode !== "apply") {
+      return NextResponse.json({ action, preview, affectedMessages });
+    }
+
+    const applied = await applyLabelCleanup(gmail, email, preview, action);
+    return NextResponse.json({ action, preview, affectedMessages, applied });
+  } catch (error: any) {
+    console.error("[Label Cleanup Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to clean up labels",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { cookies } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
-import { loadLabels, saveLabels, saveLabel } from "@/lib/firestore";
+import { loadLabels, saveLabel } from "@/lib/firestore";
 import { getGmailClient } from "@/lib/google";
+import { buildLabelHierarchy, fromGmailLabel, syncLabels, toGmailLabelBody } from "@/lib/label-sync";
 
 export const dynamic = "force-dynamic";
 
@@ -14,56 +15,14 @@ export async function GET() {
   }
 
   try {
-    const { gmail, email } = await getGmailClient(refreshToken);
+    const { gmail } = await getGmailClient(refreshToken);
     const response = await gmail.users.labels.list({ userId: "me" });
 
     if (!response.data.labels) {
       return NextResponse.json({ labels: [] });
     }
 
-    // Transform Gmail API labels to our format
-    const labels = response.data.labels.map((label) => {
-      const result: any = {
-        id: label.id!,
-        name: label.name!,
-        type: (label.type as "system" | "user") || "user",
-      };
-
-      // Only include Gmail fields if they are defined
-      if (label.labelListVisibility !== undefined) result.labelListVisibility = label.labelListVisibility;
-      if (label.messageListVisibility !== undefined) result.messageListVisibility = label.messageListVisibility;
-      if (label.threadsTotal !== undefined) result.threadsTotal = label.threadsTotal;
-      if (label.threadsUnread !== undefined) result.threadsUnread = label.threadsUnread;
-      if (label.messagesTotal !== undefined) result.messagesTotal = label.messagesTotal;
-      if (label.messagesUnread !== undefined) result.messagesUnread = label.messagesUnread;
-
-      if (label.color) {
-        result.color = {
-          textColor: label.color.textColor || "",
-          backgroundColor: label.color.backgroundColor || "",
-        };
-      }
-
-      return result;
-    });
-
-    // Build hierarchy based on label names (Gmail doesn't provide parent-child directly)
-    // Labels with '/' indicate hierarchy
-    const labelMap = new Map<string, any>();
-    labels.forEach((label) => labelMap.set(label.id, label));
-
-    labels.forEach((label) => {
-      const parts = label.name.split("/");
-      if (parts.length > 1) {
-        const parentName = parts.slice(0, -1).join("/");
-        const parent = Array.from(labelMap.values()).find((l) => l.name === parentName);
-        if (parent) {
-          label.parentId = parent.id;
-          if (!parent.childrenIds) parent.childrenIds = [];
-          parent.childrenIds.push(label.id);
-        }
-      }
-    });
+    const labels = buildLabelHierarchy(response.data.labels.map(fromGmailLabel));
 
     return NextResponse.json({ labels });
   } catch (error: any) {
@@ -72,6 +31,9 @@ export async function GET() {
   }
 }
 
+/**
+ * Create a label in Gmail and cache it under the ID Gmail assigned
+ */
 export async function POST(request: NextRequest) {
   const cookieStore = await cookies();
   const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
@@ -81,7 +43,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { email } = await getGmailClient(refreshToken);
+    const { gmail, email } = await getGmailClient(refreshToken);
     const body = await request.json();
     const { name, parentId, color, labelListVisibility, messageListVisibility } = body;
 
@@ -89,17 +51,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Label name is required" }, { status: 400 });
     }
 
-    // Generate a unique ID
-    const labelId = `Label_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+    const { data } = await gmail.users.labels.create({
+      userId: "me",
+      requestBody: toGmailLabelBody(
+        { name, parentId, color, labelListVisibility, messageListVisibility },
+        await loadLabels(email)
+      ),
+    });
 
     const newLabel = {
-      id: labelId,
-      name,
-      type: "user" as const,
+      ...fromGmailLabel(data),
       parentId,
-      color,
-      labelListVisibility,
-      messageListVisibility,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -108,11 +70,17 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ label: newLabel });
   } catch (error: any) {
     console.error("Failed to create label:", error);
-    return NextResponse.json({ error: "Failed to create label" }, { status: 500 });
+    if (error.code === 409) {
+      return NextResponse.json({ error: "A label with this name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to create label", details: error.message }, { status: 500 });
   }
 }
 
-// Sync labels from Gmail API
+/**
+ * Sync labels with Gmail: local labels are created in Gmail, and labels created, edited or deleted
+ * elsewhere are picked up
+ */
 export async function PUT() {
   const cookieStore = await cookies();
   const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
@@ -123,62 +91,10 @@ export async function PUT() {
 
   try {
     const { gmail, email } = await getGmailClient(refreshToken);
-    const response = await gmail.users.labels.list({ userId: "me" });
-
-    if (!response.data.labels) {
-      return NextResponse.json({ labels: [] });
-    }
-
-    // Transform Gmail API labels to our format
-    const labels = response.data.labels.map((label) => {
-      const result: any = {
-        id: label.id!,
-        name: label.name!,
-        type: (label.type as "system" | "user") || "user",
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      // Only include Gmail fields if they are defined
-      if (label.labelListVisibility !== undefined) result.labelListVisibility = label.labelListVisibility;
-      if (label.messageListVisibility !== undefined) result.messageListVisibility = label.messageListVisibility;
-      if (label.threadsTotal !== undefined) result.threadsTotal = label.threadsTotal;
-      if (label.threadsUnread !== undefined) result.threadsUnread = label.threadsUnread;
-      if (label.messagesTotal !== undefined) result.messagesTotal = label.messagesTotal;
-      if (label.messagesUnread !== undefined) result.messagesUnread = label.messagesUnread;
-
-      if (label.color) {
-        result.color = {
-          textColor: label.color.textColor || "",
-          backgroundColor: label.color.backgroundColor || "",
-        };
-      }
-
-      return result;
-    });
-
-    // Build hierarchy based on label names (Gmail doesn't provide parent-child directly)
-    // Labels with '/' indicate hierarchy
-    const labelMap = new Map<string, any>();
-    labels.forEach((label) => labelMap.set(label.id, label));
-
-    labels.forEach((label) => {
-      const parts = label.name.split("/");
-      if (parts.length > 1) {
-        const parentName = parts.slice(0, -1).join("/");
-        const parent = Array.from(labelMap.values()).find((l) => l.name === parentName);
-        if (parent) {
-          label.parentId = parent.id;
-          if (!parent.childrenIds) parent.childrenIds = [];
-          parent.childrenIds.push(label.id);
-        }
-      }
-    });
-
-    await saveLabels(email, labels);
-    return NextResponse.json({ labels });
+    const result = await syncLabels(gmail, email);
+    return NextResponse.json(result);
   } catch (error: any) {
     console.error("Failed to sync labels:", error);
-    return NextResponse.json({ error: "Failed to sync labels" }, { status: 500 });
+    return NextResponse.json({ error: "Failed to sync labels", details: error.message }, { status: 500 });
   }
 }
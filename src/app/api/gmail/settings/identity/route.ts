@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import { loadIdentitySettings, saveIdentitySettings, regroupContacts } from "@/lib/firestore";
+import { normalizeAddress } from "@/lib/scanners/address-parser";
+import { DEFAULT_DOMAIN_RULES, type AliasGroup, type DomainRule } from "@/lib/contact-identity";
+
+const DOMAIN_PATTERN = /^[a-z0-9.-]+\.[a-z]{2,}$/;
+
+function toDomain(value: unknown): string {
+  return value ? String(value).trim().toLowerCase() : "";
+}
+
+function parseDomainRules(value: unknown): DomainRule[] | string {
+  if (!Array.isArray(value)) return "domainRules must be an array";
+
+  const rules: DomainRule[] = [];
+  for (const entry of value) {
+    const domain = toDomain(entry?.domain);
+    if (!DOMAIN_PATTERN.test(domain)) return `Invalid domain: ${entry?.domain}`;
+
+    const canonicalDomain = toDomain(entry.canonicalDomain) || undefined;
+    if (canonicalDomain && !DOMAIN_PATTERN.test(canonicalDomain)) return `Invalid domain: ${entry.canonicalDomain}`;
+
+    const subaddressSeparator = entry.subaddressSeparator ? String(entry.subaddressSeparator) : undefined;
+    if (subaddressSeparator && subaddressSeparator.length !== 1) return "subaddressSeparator must be one character";
+
+    rules.push({
+      domain,
+      ignoreDots: !!entry.ignoreDots,
+      ...(subaddressSeparator && { subaddressSeparator }),
+      ...(canonicalDomain && { canonicalDomain }),
+    });
+  }
+  return rules;
+}
+
+function parseAliasGroups(value: unknown): AliasGroup[] | string {
+  if (!Array.isArray(value)) return "aliasGroups must be an array";
+
+  const groups: AliasGroup[] = [];
+  const seen = new Set<string>();
+  for (const entry of value) {
+    const canonical = normalizeAddress(String(entry?.canonical || ""));
+    if (!canonical) return `Invalid address: ${entry?.canonical}`;
+
+    const aliases: string[] = [];
+    for (const alias of Array.isArray(entry.aliases) ? entry.aliases : []) {
+      const address = normalizeAddress(String(alias));
+      if (!address) return `Invalid address: ${alias}`;
+      if (address !== canonical) aliases.push(address);
+    }
+
+    // An address in two groups would make the canonical contact depend on group order
+    for (const address of [canonical, ...aliases]) {
+      if (seen.has(address)) return `${address} is listed in more than one alias group`;
+      seen.add(address);
+    }
+
+    if (aliases.length > 0) groups.push({ canonical, aliases });
+  }
+  return groups;
+}
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+    }
+
+    const { email } = await getGmailClient(refreshToken);
+    const settings = await loadIdentitySettings(email);
+
+    return NextResponse.json({
+      domainRules: settings?.domainRules || [],
+      aliasGroups: settings?.aliasGroups || [],
+      defaultDomainRules: DEFAULT_DOMAIN_RULES,
+      updatedAt: settings?.updatedAt || null,
+    });
+  } catch (error: any) {
+    console.error("Load identity settings error:", error);
+    return NextResponse.json({ error: "Failed to load identity settings" }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const domainRules = parseDomainRules(body.domainRules ?? []);
+    const aliasGroups = parseAliasGroups(body.aliasGroups ?? []);
+
+    if (typeof domainRules === "string" || typeof aliasGroups === "string") {
+      return NextResponse.json(
+        { error: "Invalid identity settings", details: typeof domainRules === "string" ? domainRules : aliasGroups },
+        { status: 400 }
+      );
+    }
+
+    const { email } = await getGmailClient(refreshToken);
+    await saveIdentitySettings(email, { domainRules, aliasGroups });
+
+    // Fold contacts stored under the old rules into their canonical contact
+    const { mergedContacts } = await regroupContacts(email);
+
+    return NextResponse.json({ success: true, domainRules, aliasGroups, mergedContacts });
+  } catch (error: any) {
+    console.error("Save identity settings error:", error);
+    return NextResponse.json({ error: "Failed to save identity settings", details: error.message }, { status: 500 });
+  }
+}
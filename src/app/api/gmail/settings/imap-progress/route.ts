@@ -15,10 +15,13 @@ export async function GET() {
     const { email } = await getGmailClient(refreshToken);
     const progress = await loadIMAPProgress(email);
 
-    if (!progress) {
+    // Progress saved before UID tracking holds sequence numbers, which shift as mail is removed
+    if (!progress || !progress.uidValidity) {
       return NextResponse.json({
         hasProgress: false,
-        message: "No scan in progress. Start a new IMAP scan.",
+        message: progress
+          ? "Previous scan progress is outdated. Start a new IMAP scan."
+          : "No scan in progress. Start a new IMAP scan.",
         lastMessageScanned: 0,
         contactsFound: 0,
         isComplete: false,
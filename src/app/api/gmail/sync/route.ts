@@ -1,7 +1,8 @@
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
-import { saveContactSnapshot } from "@/lib/firestore";
-import { extractAddressesFromMessage } from "@/lib/gmail";
+import { mergeContacts, saveContactSnapshot } from "@/lib/firestore";
+import { extractAddressesFromMessage, extractMessageContacts } from "@/lib/gmail";
+import { recordMessageContacts, type ContactStatsMap } from "@/lib/contact-stats";
 import { getGmailClient } from "@/lib/google";
 
 const MESSAGE_LIMIT = 60;
@@ -39,11 +40,13 @@ export async function POST() {
 
     const senders = new Set<string>();
     const recipients = new Set<string>();
+    const contactStats: ContactStatsMap = {};
 
     details.forEach((message) => {
       const parsed = extractAddressesFromMessage(message);
       parsed.senders.forEach((addr) => senders.add(addr));
       parsed.recipients.forEach((addr) => recipients.add(addr));
+      recordMessageContacts(contactStats, extractMessageContacts(message));
     });
 
     const merged = new Set([...senders, ...recipients]);
@@ -55,7 +58,12 @@ export async function POST() {
       updatedAt: new Date().toISOString(),
     };
 
-    await saveContactSnapshot(email, snapshot);
+    // The sample is a fresh count, so it starts a new stats generation
+    await mergeContacts(email, { senders, recipients, contactStats }, { resetStats: true });
+    await saveContactSnapshot(email, {
+      messageSampleCount: snapshot.messageSampleCount,
+      updatedAt: snapshot.updatedAt,
+    });
 
     return NextResponse.json({ email, ...snapshot });
   } catch (error) {
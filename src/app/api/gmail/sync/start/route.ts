@@ -4,12 +4,17 @@ import { getGmailClient } from "@/lib/google";
 import { IMAPHeaderScanner } from "@/lib/scanners/imap-header-scanner";
 import { BaseScanner } from "@/lib/scanners/base-scanner";
 import { GmailAPIScanner } from "@/lib/scanners/gmail-api-scanner";
+import { getGmailAPIConfig, getIMAPConfig } from "@/lib/scanners/scanner-config";
+import { createIdentityResolver } from "@/lib/contact-identity";
 import {
   saveContactSnapshot,
   loadContactSnapshot,
+  mergeContacts,
+  countContacts,
   saveIMAPProgress,
   loadIMAPProgress,
   loadIMAPSettings,
+  loadIdentitySettings,
 } from "@/lib/firestore";
 import { createJob, processJob, getJob } from "@/lib/job-manager";
 
@@ -33,45 +38,45 @@ export async function POST(request: NextRequest) {
 
       // Load IMAP settings for error reporting
       const imapSettings = await loadIMAPSettings(email);
+      const identity = createIdentityResolver(await loadIdentitySettings(email));
 
       try {
         // Create IMAP job with progress tracking
         const imapJobId = `imap_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
         // Start IMAP scanning in background (don't await)
-        IMAPHeaderScanner.scanHeadersAsync(refreshToken, email, imapJobId).then(
+        // Addresses are collapsed to canonical contacts as they are scanned
+        BaseScanner.scanAsync(refreshToken, email, imapJobId, new IMAPHeaderScanner(), {
+          ...getIMAPConfig(),
+          identity,
+        }).then(
           async (result) => {
             console.log(`[IMAP] Chunk completed: Found ${result.contacts} contacts from ${result.scanned} messages`);
 
-            // Load existing contact data to merge with
             const existingContacts = await loadContactSnapshot(email);
             const existingProgress = await loadIMAPProgress(email);
 
-            // Merge new chunk with existing contacts
-            const allSenders = [...new Set([...(existingContacts?.senders || []), ...result.senders])];
-
-            const allRecipients = [...new Set([...(existingContacts?.recipients || []), ...result.recipients])];
-
-            const allMerged = [...new Set([...allSenders, ...allRecipients])];
+            // Merge new chunk into the stored contacts; a scan from the start of the mailbox recounts every message
+            await mergeContacts(email, result, { resetStats: result.fromBeginning });
+            const { totalContacts } = await countContacts(email);
             const totalMessagesScanned = (existingContacts?.messageSampleCount || 0) + result.scanned;
 
-            // Save merged contacts
-            const snapshot = {
-              senders: allSenders,
-              recipients: allRecipients,
-              merged: allMerged,
+            await saveContactSnapshot(email, {
               messageSampleCount: totalMessagesScanned,
               updatedAt: new Date().toISOString(),
-            };
-            await saveContactSnapshot(email, snapshot);
+            });
 
-            // Save scan progress for resume capability
+            // Save scan progress for resume capability (a new UIDVALIDITY invalidates the old UID cursor)
+            const sameUidValidity =
+              !!existingProgress?.uidValidity && existingProgress.uidValidity === result.uidValidity;
             const progressUpdate = {
               mailbox: existingProgress?.mailbox || "[Gmail]/All Mail", // Default mailbox
-              lastMessageScanned: result.lastMessageScanned as number, // IMAP uses numbers
+              lastMessageScanned: result.highestUid ?? (sameUidValidity ? existingProgress.lastMessageScanned : 0),
+              uidValidity: result.uidValidity,
               totalMessages: existingProgress?.totalMessages || 0, // This would be the full mailbox size
-              contactsFound: allMerged.length,
-              chunksCompleted: (existingProgress?.chunksCompleted || 0) + (result.scanned > 0 ? 1 : 0),
+              contactsFound: totalContacts,
+              chunksCompleted:
+                (sameUidValidity ? existingProgress.chunksCompleted || 0 : 0) + (result.scanned > 0 ? 1 : 0),
               isComplete: result.scanned === 0, // If no new messages were scanned, we're done
             };
             await saveIMAPProgress(email, progressUpdate);
@@ -82,14 +87,14 @@ export async function POST(request: NextRequest) {
               scanned: result.scanned,
               totalScanned: totalMessagesScanned,
               contacts: result.contacts,
-              totalContacts: allMerged.length,
+              totalContacts,
               message: result.message,
               lastMessageScanned: result.lastMessageScanned,
               completedAt: new Date().toISOString(),
             });
 
             console.log(
-              `[IMAP] Progress saved: ${progressUpdate.lastMessageScanned} messages scanned total, ${allMerged.length} contacts`
+              `[IMAP] Progress saved: scanned up to UID ${progressUpdate.lastMessageScanned}, ${totalContacts} contacts`
             );
           },
           (error) => {
@@ -169,34 +174,31 @@ export async function POST(request: NextRequest) {
     console.log("[SCAN] Using Gmail API method with job-based progress tracking");
 
     const { auth: oauth2Client, gmail, email } = await getGmailClient(refreshToken);
+    const identity = createIdentityResolver(await loadIdentitySettings(email));
 
     try {
       // Create Gmail API job with progress tracking
       const apiJobId = `gmailapi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       // Start Gmail API scanning in background (don't await)
-      GmailAPIScanner.scanMessagesAPI(refreshToken, email, apiJobId).then(
+      BaseScanner.scanAsync(refreshToken, email, apiJobId, new GmailAPIScanner(), {
+        ...getGmailAPIConfig(),
+        identity,
+      }).then(
         async (result) => {
           console.log(`[Gmail API] Scan completed: Found ${result.contacts} contacts from ${result.scanned} messages`);
 
-          // Load existing contact data to merge with
           const existingContacts = await loadContactSnapshot(email);
 
-          // Merge new scan with existing contacts
-          const allSenders = [...new Set([...(existingContacts?.senders || []), ...result.senders])];
-          const allRecipients = [...new Set([...(existingContacts?.recipients || []), ...result.recipients])];
-          const allMerged = [...new Set([...allSenders, ...allRecipients])];
+          // Merge new scan into the stored contacts; a scan from the start of the mailbox recounts every message
+          await mergeContacts(email, result, { resetStats: result.fromBeginning });
+          const { totalContacts } = await countContacts(email);
           const totalMessagesScanned = (existingContacts?.messageSampleCount || 0) + result.scanned;
 
-          // Save merged contacts
-          const snapshot = {
-            senders: allSenders,
-            recipients: allRecipients,
-            merged: allMerged,
+          await saveContactSnapshot(email, {
             messageSampleCount: totalMessagesScanned,
             updatedAt: new Date().toISOString(),
-          };
-          await saveContactSnapshot(email, snapshot);
+          });
 
           // Update job as completed
           GmailAPIScanner.updateGmailApiJob(apiJobId, {
@@ -204,13 +206,13 @@ export async function POST(request: NextRequest) {
             scanned: result.scanned,
             totalScanned: totalMessagesScanned,
             contacts: result.contacts,
-            totalContacts: allMerged.length,
+            totalContacts,
             message: result.message,
             completedAt: new Date().toISOString(),
           });
 
           console.log(
-            `[Gmail API] Contacts saved: ${allMerged.length} total unique contacts from ${totalMessagesScanned} messages`
+            `[Gmail API] Contacts saved: ${totalContacts} total unique contacts from ${totalMessagesScanned} messages`
           );
         },
         (error) => {
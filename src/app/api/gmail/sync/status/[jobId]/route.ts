@@ -4,10 +4,8 @@ import {
   estimateTimeRemaining,
   getJob,
   processJob,
-  processLabelJob,
   type Job,
   type ScanJob,
-  type LabelJob,
 } from "@/lib/job-manager";
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
@@ -19,13 +17,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
-    // If job is still running, try to process more
-    if (job.status === "running") {
-      if ("type" in job && job.type === "label_application") {
-        await processLabelJob(job as LabelJob);
-      } else {
-        await processJob(job as ScanJob);
-      }
+    // If a scan is still running, try to process more; label jobs run in the background worker
+    if (job.status === "running" && !("type" in job)) {
+      await processJob(job as ScanJob);
     }
 
     // Recheck status after potential processing
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { getGmailClient } from "@/lib/google";
+import {
+  listContacts,
+  loadContactRecords,
+  loadUnsubscribeAttempts,
+  saveUnsubscribeAttempt,
+  type ContactRecord,
+  type UnsubscribeAttempt,
+} from "@/lib/firestore";
+import { unsubscribe, type UnsubscribeInfo } from "@/lib/unsubscribe";
+import type { SenderCategory } from "@/lib/sender-classification";
+
+interface ListSender {
+  email: string;
+  displayName?: string;
+  category: SenderCategory;
+  messageCount: number; // Messages received from the sender
+  lastSeen?: string;
+  unsubscribe: UnsubscribeInfo;
+  lastAttempt: UnsubscribeAttempt | null;
+}
+
+// Senders that offer List-Unsubscribe are classified as one of these
+const LIST_CATEGORIES: SenderCategory[] = ["mailing_list", "bulk"];
+const MAX_UNSUBSCRIBE_BATCH = 50;
+
+function toListSender(record: ContactRecord, lastAttempt: UnsubscribeAttempt | undefined): ListSender {
+  return {
+    email: record.address,
+    displayName: record.displayName || undefined,
+    category: record.category,
+    messageCount: record.senderCount,
+    lastSeen: record.lastSeen || undefined,
+    unsubscribe: record.unsubscribe!,
+    lastAttempt: lastAttempt || null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(200, Math.max(10, parseInt(searchParams.get("limit") || "100")));
+    const cursor = searchParams.get("cursor") || undefined;
+
+    const { email } = await getGmailClient(refreshToken);
+    const [result, attempts] = await Promise.all([
+      listContacts(email, { limit, sort: "messages", direction: "desc", category: LIST_CATEGORIES, cursor }),
+      loadUnsubscribeAttempts(email),
+    ]);
+
+    // Attempts come newest first, so the first one seen per address is the latest
+    const lastAttempts = new Map<string, UnsubscribeAttempt>();
+    attempts.forEach((attempt) => {
+      if (!lastAttempts.has(attempt.address)) lastAttempts.set(attempt.address, attempt);
+    });
+
+    // Contacts scanned before List-Unsubscribe was collected have no unsubscribe info until the next rescan
+    const senders = result.contacts
+      .filter((record) => record.isSender && record.unsubscribe)
+      .map((record) => toListSender(record, lastAttempts.get(record.address)));
+
+    return NextResponse.json({ senders, nextCursor: result.nextCursor });
+  } catch (error: any) {
+    console.error("Unsubscribe list error:", error);
+    return NextResponse.json({ error: "Failed to load mailing lists" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json({ error: "not_authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const addresses: string[] = Array.isArray(body.addresses)
+      ? Array.from(new Set(body.addresses.map((address: unknown) => String(address).trim().toLowerCase())))
+      : [];
+
+    if (addresses.length === 0) {
+      return NextResponse.json({ error: "No senders selected" }, { status: 400 });
+    }
+    if (addresses.length > MAX_UNSUBSCRIBE_BATCH) {
+      return NextResponse.json(
+        { error: "Too many senders", details: `At most ${MAX_UNSUBSCRIBE_BATCH} senders per request` },
+        { status: 400 }
+      );
+    }
+
+    const { gmail, email } = await getGmailClient(refreshToken);
+    const records = new Map((await loadContactRecords(email, addresses)).map((record) => [record.address, record]));
+
+    // Sequential to stay well under the Gmail send rate limit
+    const results: UnsubscribeAttempt[] = [];
+    for (const address of addresses) {
+      const info = records.get(address)?.unsubscribe;
+      if (!info) {
+        results.push(
+          await saveUnsubscribeAttempt(email, {
+            address,
+            method: "link",
+            target: "",
+            status: "failed",
+            error: "No List-Unsubscribe header seen for this sender",
+          })
+        );
+        continue;
+      }
+
+      const outcome = await unsubscribe(gmail, info);
+      results.push(await saveUnsubscribeAttempt(email, { address, ...outcome }));
+    }
+
+    return NextResponse.json({
+      results,
+      succeeded: results.filter((result) => result.status === "succeeded").length,
+      failed: results.filter((result) => result.status === "failed").length,
+      manual: results.filter((result) => result.status === "manual").length,
+    });
+  } catch (error: any) {
+    console.error("Unsubscribe error:", error);
+    return NextResponse.json({ error: "Failed to unsubscribe", details: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runLabelJobTask } from "@/lib/job-manager";
+import { isWorkerSecret, TASK_RETRY_COUNT_HEADER, WORKER_SECRET_HEADER } from "@/lib/job-queue";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/worker/label-jobs - Process one page of a label job ({ jobId, run, slice }), called by Cloud Tasks
+// Answers 500 on transient errors so Cloud Tasks retries the task; other failures are recorded on the job
+export async function POST(request: NextRequest) {
+  try {
+    if (!isWorkerSecret(request.headers.get(WORKER_SECRET_HEADER))) {
+      return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+    }
+
+    const { jobId, run, slice } = await request.json();
+
+    if (!jobId || typeof run !== "number" || (slice !== undefined && typeof slice !== "number")) {
+      return NextResponse.json({ error: "Missing required fields: jobId, run" }, { status: 400 });
+    }
+
+    const attempt = Number(request.headers.get(TASK_RETRY_COUNT_HEADER)) || 0;
+    await runLabelJobTask({ jobId, run, slice }, attempt);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("[Label Job Worker Error]", error);
+    return NextResponse.json(
+      {
+        error: "Failed to process label job",
+        details: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { Table, TableHeader, TableBody, TableColumn, TableRow, TableCell } from "@heroui/table";
 import { Chip } from "@heroui/chip";
+import { Tabs, Tab } from "@heroui/tabs";
 import { Pagination } from "@heroui/pagination";
 import { Checkbox } from "@heroui/checkbox";
 import { Button } from "@heroui/button";
@@ -14,15 +15,33 @@ import { addToast } from "@heroui/toast";
 import { useRouter } from "next/navigation";
 import type { Selection, SortDescriptor } from "@heroui/react";
 import StepProgress from "@/components/StepProgress";
+import { expandAliases } from "@/lib/contact-identity";
+import type { SenderCategory } from "@/lib/sender-classification";
+import { getQueryError, normalizeQuery } from "@/lib/gmail-query";
 
 type LabeledContact = {
   email: string;
+  aliases: string[];
   types: ("sender" | "recipient")[];
+  category: SenderCategory;
+  displayName?: string;
+  messageCount: number;
+  senderCount: number;
+  recipientCount: number;
+  lastSeen?: string;
 };
 
 interface Contact {
   email: string;
+  aliases?: string[];
   types: ("sender" | "recipient")[];
+  category?: SenderCategory;
+  displayName?: string;
+  messageCount: number;
+  senderCount: number;
+  recipientCount: number;
+  firstSeen?: string;
+  lastSeen?: string;
 }
 
 interface ContactsResponse {
@@ -33,8 +52,18 @@ interface ContactsResponse {
   hasNextPage: boolean;
   hasPrevPage: boolean;
   searchQuery: string;
+  nextCursor: string | null;
 }
 
+type CategoryFilter = SenderCategory | "all";
+
+const CATEGORY_LABELS: Record<SenderCategory, string> = {
+  person: "People",
+  mailing_list: "Mailing Lists",
+  transactional: "Notifications",
+  bulk: "Newsletters & Bulk",
+};
+
 interface StatsResponse {
   totalContacts: number;
   messagesProcessed: number;
@@ -52,6 +81,11 @@ export default function ContactsPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [searchQuery, setSearchQuery] = useState("");
   const [rowsPerPage, setRowsPerPage] = useState(50);
+  const [category, setCategory] = useState<CategoryFilter>("all");
+  const [sortDescriptor, setSortDescriptor] = useState<SortDescriptor>({
+    column: "email",
+    direction: "ascending",
+  });
 
   const checkAuth = async () => {
     try {
@@ -70,7 +104,11 @@ export default function ContactsPage() {
   const loadContacts = async (page = currentPage, search = searchQuery) => {
     setLoading(true);
     setError(null);
-    const res = await fetch(`/api/contacts?page=${page}&limit=${rowsPerPage}&search=${encodeURIComponent(search)}`);
+    const sort = `sort=${sortDescriptor.column}&direction=${sortDescriptor.direction === "descending" ? "desc" : "asc"}`;
+    const categoryParam = category === "all" ? "" : `&category=${category}`;
+    const res = await fetch(
+      `/api/contacts?page=${page}&limit=${rowsPerPage}&search=${encodeURIComponent(search)}&${sort}${categoryParam}`
+    );
     if (res.status === 401) {
       setError("Please connect Gmail first.");
       setLoading(false);
@@ -105,15 +143,31 @@ export default function ContactsPage() {
     if (authChecked) {
       loadContacts(currentPage, searchQuery);
     }
-  }, [currentPage, authChecked]);
+  }, [currentPage, authChecked, sortDescriptor, category]);
+
+  const handleSortChange = (descriptor: SortDescriptor) => {
+    // Frequency and recency columns start with the busiest / most recent contacts
+    const isNewColumn = descriptor.column !== sortDescriptor.column;
+    setSortDescriptor(
+      isNewColumn && descriptor.column !== "email" ? { ...descriptor, direction: "descending" } : descriptor
+    );
+    setCurrentPage(1);
+  };
 
   const labeledContacts = useMemo((): LabeledContact[] => {
     if (!contactsData?.contacts) return [];
 
-    // For server-side pagination, contacts are already filtered, just sort them locally
+    // Contacts are already filtered and sorted server-side
     return contactsData.contacts.map((contact: Contact) => ({
       email: contact.email,
+      aliases: contact.aliases || [],
       types: contact.types,
+      category: contact.category || "person",
+      displayName: contact.displayName,
+      messageCount: contact.messageCount || 0,
+      senderCount: contact.senderCount || 0,
+      recipientCount: contact.recipientCount || 0,
+      lastSeen: contact.lastSeen,
     }));
   }, [contactsData]);
 
@@ -195,6 +249,13 @@ export default function ContactsPage() {
         currentPage={currentPage}
         totalPages={contactsData?.totalPages || 0}
         router={router}
+        sortDescriptor={sortDescriptor}
+        onSortChange={handleSortChange}
+        category={category}
+        onCategoryChange={(value) => {
+          setCategory(value);
+          setCurrentPage(1);
+        }}
         onPageChange={setCurrentPage}
         onSearchChange={(search) => {
           setSearchQuery(search);
@@ -206,8 +267,14 @@ export default function ContactsPage() {
   );
 }
 
+function expandContactAliases(contact: LabeledContact): string[] {
+  return expandAliases({ address: contact.email, aliases: contact.aliases });
+}
+
 const columns = [
   { name: "Email Address", uid: "email", sortable: true },
+  { name: "Messages", uid: "messages", sortable: true },
+  { name: "Last Seen", uid: "lastSeen", sortable: true },
   { name: "Relationship", uid: "relationship" },
   { name: "Actions", uid: "actions" },
 ];
@@ -221,6 +288,10 @@ function ContactsTable({
   currentPage,
   totalPages,
   router,
+  sortDescriptor,
+  onSortChange,
+  category,
+  onCategoryChange,
   onPageChange,
   onSearchChange,
 }: {
@@ -232,15 +303,15 @@ function ContactsTable({
   currentPage?: number;
   totalPages?: number;
   router: any;
+  sortDescriptor: SortDescriptor;
+  onSortChange: (descriptor: SortDescriptor) => void;
+  category: CategoryFilter;
+  onCategoryChange: (category: CategoryFilter) => void;
   onPageChange?: (page: number) => void;
   onSearchChange?: (search: string) => void;
 }) {
   const [searchInput, setSearchInput] = useState("");
   const [selectedKeys, setSelectedKeys] = useState<Selection>(new Set([]));
-  const [sortDescriptor, setSortDescriptor] = useState<SortDescriptor>({
-    column: "email",
-    direction: "ascending",
-  });
   // Labels for autocomplete
   const [availableLabels, setAvailableLabels] = useState<any[]>([]);
   const [labelsLoading, setLabelsLoading] = useState(false);
@@ -253,6 +324,7 @@ function ContactsTable({
   const [archiveEnabled, setArchiveEnabled] = useState(true);
   const [creatingAutomation, setCreatingAutomation] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
+  const [collectingCategory, setCollectingCategory] = useState(false);
 
   // Load labels for autocomplete
   const loadLabels = async () => {
@@ -282,17 +354,6 @@ function ContactsTable({
     return columns;
   }, []);
 
-  // For server-side pagination, contacts are already filtered, just sort them locally
-  const sortedItems = useMemo(() => {
-    return [...contacts].sort((a: LabeledContact, b: LabeledContact) => {
-      const first = a[sortDescriptor.column as keyof LabeledContact] as string;
-      const second = b[sortDescriptor.column as keyof LabeledContact] as string;
-      const cmp = first < second ? -1 : first > second ? 1 : 0;
-
-      return sortDescriptor.direction === "descending" ? -cmp : cmp;
-    });
-  }, [contacts, sortDescriptor]);
-
   // Handle search button click
   const handleSearch = () => {
     if (onSearchChange) {
@@ -333,6 +394,38 @@ function ContactsTable({
     copyToClipboard(email, false);
   };
 
+  // Page through every contact in the selected category so one rule can cover all of them
+  const handleCreateRuleForCategory = async () => {
+    if (category === "all") return;
+    setCollectingCategory(true);
+    try {
+      const emails: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const cursorParam: string = cursor ? `&cursor=${encodeURIComponent(cursor)}` : "";
+        const res = await fetch(`/api/contacts?limit=100&sort=email&category=${category}${cursorParam}`);
+        if (!res.ok) throw new Error("Unable to load contacts");
+        const data = (await res.json()) as ContactsResponse;
+        data.contacts.forEach((contact) =>
+          emails.push(...expandAliases({ address: contact.email, aliases: contact.aliases }))
+        );
+        cursor = data.nextCursor;
+      } while (cursor);
+
+      const params = new URLSearchParams();
+      emails.forEach((email) => params.append("fromEmail", email));
+      router.push(`/label-rules?${params.toString()}`);
+    } catch (err: any) {
+      addToast({
+        title: "Could not collect contacts",
+        description: err.message || "Failed to load contacts for this category",
+        color: "danger",
+      });
+    } finally {
+      setCollectingCategory(false);
+    }
+  };
+
   const renderCell = useMemo(() => {
     return (contact: LabeledContact, columnKey: React.Key) => {
       const cellValue = contact[columnKey as keyof LabeledContact];
@@ -341,18 +434,48 @@ function ContactsTable({
         case "email":
           return (
             <div className="flex flex-col">
+              {contact.displayName && <p className="text-sm text-foreground">{contact.displayName}</p>}
               <p className="text-sm font-medium text-foreground font-mono lowercase">{contact.email.toLowerCase()}</p>
+              {contact.aliases.length > 0 && (
+                <p className="text-xs text-default-500 font-mono" title={contact.aliases.join("\n")}>
+                  also {contact.aliases.length === 1 ? contact.aliases[0] : `${contact.aliases.length} aliases`}
+                </p>
+              )}
             </div>
           );
+        case "messages":
+          return (
+            <div className="flex flex-col">
+              <p className="text-sm font-medium text-foreground">{contact.messageCount.toLocaleString()}</p>
+              <p className="text-xs text-default-500">
+                {contact.senderCount.toLocaleString()} from • {contact.recipientCount.toLocaleString()} to
+              </p>
+            </div>
+          );
+        case "lastSeen":
+          return (
+            <p className="text-sm text-default-600">
+              {contact.lastSeen ? new Date(contact.lastSeen).toLocaleDateString() : "—"}
+            </p>
+          );
         case "relationship":
           return (
             <div className="flex gap-1 flex-wrap">
-              <Chip color="primary" variant="flat" size="sm" className="text-primary">
-                Sender
-              </Chip>
-              <Chip color="secondary" variant="flat" size="sm" className="text-secondary">
-                Recipient
-              </Chip>
+              {contact.category !== "person" && (
+                <Chip color="warning" variant="flat" size="sm" className="text-warning">
+                  {CATEGORY_LABELS[contact.category]}
+                </Chip>
+              )}
+              {contact.types.includes("sender") && (
+                <Chip color="primary" variant="flat" size="sm" className="text-primary">
+                  Sender
+                </Chip>
+              )}
+              {contact.types.includes("recipient") && (
+                <Chip color="secondary" variant="flat" size="sm" className="text-secondary">
+                  Recipient
+                </Chip>
+              )}
             </div>
           );
         case "actions":
@@ -421,7 +544,7 @@ function ContactsTable({
                         ? contacts.map((contact) => contact.email)
                         : Array.from(selectedKeys as Set<string>);
                     const selectedContacts = contacts.filter((contact) => contactKeys.includes(contact.email));
-                    const emails = selectedContacts.map((contact) => contact.email).join(" OR ");
+                    const emails = selectedContacts.flatMap(expandContactAliases).join(" OR ");
                     copyToClipboard(emails, true);
                   }}
                 >
@@ -439,7 +562,8 @@ function ContactsTable({
                         ? contacts.map((contact) => contact.email)
                         : Array.from(selectedKeys as Set<string>);
                     const selectedContacts = contacts.filter((contact) => contactKeys.includes(contact.email));
-                    const emails = selectedContacts.map((contact) => contact.email);
+                    // Filters must match every address a contact writes from, not just the canonical one
+                    const emails = selectedContacts.flatMap(expandContactAliases);
 
                     // Navigate to label-rules page with email parameters
                     const params = new URLSearchParams();
@@ -520,12 +644,39 @@ function ContactsTable({
 
       {/* Always visible search above the table */}
       <div className="p-6 pb-0">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <Tabs
+            aria-label="Filter contacts by sender type"
+            selectedKey={category}
+            onSelectionChange={(key) => onCategoryChange(key as CategoryFilter)}
+            variant="underlined"
+            color="primary"
+          >
+            <Tab key="all" title="All" />
+            {(Object.keys(CATEGORY_LABELS) as SenderCategory[]).map((key) => (
+              <Tab key={key} title={CATEGORY_LABELS[key]} />
+            ))}
+          </Tabs>
+          {category !== "all" && (
+            <Button
+              size="sm"
+              variant="solid"
+              color="success"
+              className="text-white"
+              onPress={handleCreateRuleForCategory}
+              isLoading={collectingCategory}
+              isDisabled={loading || !totalCount}
+            >
+              🚀 Label Rule for All {CATEGORY_LABELS[category]}
+            </Button>
+          )}
+        </div>
         <div className="flex justify-between gap-3 items-end mb-4">
           <div className="flex gap-3 flex-1 max-w-md">
             <Input
               isClearable
               className="flex-1 bg-default/5 border-default-300"
-              placeholder="Search by email..."
+              placeholder="Search by email or name..."
               startContent="🔍"
               value={searchInput}
               onClear={handleClearSearch}
@@ -587,6 +738,12 @@ function ContactsTable({
                   <TableCell>
                     <Skeleton className="h-4 w-48 rounded" />
                   </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-12 rounded" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-20 rounded" />
+                  </TableCell>
                   <TableCell>
                     <div className="flex gap-1">
                       <Skeleton className="h-6 w-16 rounded-full" />
@@ -622,7 +779,7 @@ function ContactsTable({
                 topContent={topContent}
                 topContentPlacement="outside"
                 onSelectionChange={setSelectedKeys}
-                onSortChange={setSortDescriptor}
+                onSortChange={onSortChange}
               >
                 <TableHeader columns={headerColumns}>
                   {(column) => (
@@ -635,7 +792,7 @@ function ContactsTable({
                     </TableColumn>
                   )}
                 </TableHeader>
-                <TableBody emptyContent={"No contacts found"} items={sortedItems}>
+                <TableBody emptyContent={"No contacts found"} items={contacts}>
                   {(item) => (
                     <TableRow key={item.email}>
                       {(columnKey) => <TableCell>{renderCell(item, columnKey)}</TableCell>}
@@ -698,6 +855,9 @@ function ContactsTable({
               label="Filter Query"
               value={automationQuery}
               onValueChange={setAutomationQuery}
+              onBlur={() => setAutomationQuery(normalizeQuery(automationQuery))}
+              isInvalid={!!getQueryError(automationQuery)}
+              errorMessage={getQueryError(automationQuery)}
               required
               className="bg-gray-700 border-gray-600 text-white placeholder-gray-400 mb-4"
               description="Pre-populated with selected contacts (OR separated) - you can edit this"
@@ -740,6 +900,14 @@ function ContactsTable({
                   });
                   return;
                 }
+                if (getQueryError(automationQuery)) {
+                  addToast({
+                    title: "Validation error",
+                    description: getQueryError(automationQuery),
+                    color: "danger",
+                  });
+                  return;
+                }
 
                 setCreatingAutomation(true);
 
@@ -748,8 +916,8 @@ function ContactsTable({
                   const isExistingLabel = selectedLabelKey !== null;
                   const payload: any = {
                     name: `Auto-label: ${labelName}`,
-                    query: automationQuery,
-                    archive: archiveEnabled,
+                    criteria: { from: automationQuery },
+                    actions: { archive: archiveEnabled },
                   };
 
                   if (isExistingLabel) {
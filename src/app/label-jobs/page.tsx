@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
 import { Skeleton } from "@heroui/skeleton";
 import { addToast } from "@heroui/toast";
 import { useRouter } from "next/navigation";
@@ -12,7 +14,15 @@ interface AutomationJob {
   name: string;
   description: string;
   status: "pending" | "running" | "paused" | "completed" | "failed" | "cancelled";
-  type: "scan" | "filter_sync" | "label_application";
+  type:
+    | "scan"
+    | "filter_sync"
+    | "label_application"
+    | "label_removal"
+    | "label_swap"
+    | "label_merge"
+    | "mailbox_cleanup"
+    | "label_undo";
   progress: number; // 0-100
   createdAt: string;
   startedAt?: string;
@@ -25,6 +35,42 @@ interface AutomationJob {
   messagesProcessed?: number;
   messagesMatched?: number;
   labelsApplied?: number;
+  messagesFailed?: number;
+  failedMessageIds?: string[];
+}
+
+const EMPTY_RELABEL_FORM = {
+  type: "label_removal" as "label_removal" | "label_swap",
+  removeLabelId: "",
+  targetLabelId: "",
+  query: "",
+};
+
+const CLEANUP_ACTIONS = {
+  archive: "Archive",
+  mark_read: "Mark as read",
+  trash: "Move to trash",
+  spam: "Mark as spam",
+};
+
+const EMPTY_CLEANUP_FORM = {
+  action: "archive" as keyof typeof CLEANUP_ACTIONS,
+  query: "",
+};
+
+interface JobJournal {
+  jobId: string;
+  name: string;
+  messageCount: number;
+  updatedAt: string;
+  undoJobId?: string;
+}
+
+interface CleanupPreview {
+  query: string;
+  estimatedCount: number;
+  exact: boolean;
+  confirmationToken?: string;
 }
 
 export default function LabelJobsPage() {
@@ -33,26 +79,35 @@ export default function LabelJobsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [authChecked, setAuthChecked] = useState(false);
+  const [relabelOpen, setRelabelOpen] = useState(false);
+  const [relabelForm, setRelabelForm] = useState(EMPTY_RELABEL_FORM);
+  const [labels, setLabels] = useState<{ id: string; name: string; type: string }[]>([]);
+  const [creatingRelabel, setCreatingRelabel] = useState(false);
+  const [cleanupOpen, setCleanupOpen] = useState(false);
+  const [cleanupForm, setCleanupForm] = useState(EMPTY_CLEANUP_FORM);
+  const [cleanupPreview, setCleanupPreview] = useState<CleanupPreview | null>(null);
+  const [cleanupBusy, setCleanupBusy] = useState(false);
+  const [journals, setJournals] = useState<JobJournal[]>([]);
 
-  useEffect(() => {
-    // Check authentication first
-    checkAuth();
-    loadJobs();
-  }, []);
-
-  const checkAuth = async () => {
+  const checkAuth = useCallback(async () => {
     try {
       const res = await fetch("/api/gmail/data");
       if (res.status === 401) {
         router.push(`/?error=${encodeURIComponent("Please connect your Gmail account to access this page.")}`);
         return;
       }
-    } catch (err) {
+    } catch {
       router.push(`/?error=${encodeURIComponent("Authentication check failed.")}`);
       return;
     }
     setAuthChecked(true);
-  };
+  }, [router]);
+
+  useEffect(() => {
+    // Check authentication first
+    checkAuth();
+    loadJobs();
+  }, [checkAuth]);
 
   const loadJobs = async () => {
     setLoading(true);
@@ -71,7 +126,13 @@ export default function LabelJobsPage() {
       }
       const data = await res.json();
       setJobs(data.jobs || []);
-    } catch (err) {
+
+      const journalsRes = await fetch("/api/gmail/label-jobs/journals");
+      if (journalsRes.ok) {
+        const journalsData = await journalsRes.json();
+        setJournals(journalsData.journals || []);
+      }
+    } catch {
       setError("Failed to load automation jobs");
       setLoading(false);
     } finally {
@@ -121,6 +182,16 @@ export default function LabelJobsPage() {
         return "🔄 Filter Sync";
       case "label_application":
         return "🏷️ Label Application";
+      case "label_removal":
+        return "🧹 Label Removal";
+      case "label_swap":
+        return "🔁 Label Swap";
+      case "label_merge":
+        return "🔀 Label Merge";
+      case "mailbox_cleanup":
+        return "🧽 Mailbox Cleanup";
+      case "label_undo":
+        return "↩️ Undo";
       default:
         return "⚙️ Automation";
     }
@@ -142,6 +213,228 @@ export default function LabelJobsPage() {
     return new Date(dateString).toLocaleString();
   };
 
+  const getAppliedLabel = (type: AutomationJob["type"]) => {
+    switch (type) {
+      case "label_removal":
+        return "Labels Removed";
+      case "label_swap":
+      case "label_merge":
+        return "Messages Moved";
+      case "mailbox_cleanup":
+        return "Messages Updated";
+      case "label_undo":
+        return "Messages Reverted";
+      default:
+        return "Labels Applied";
+    }
+  };
+
+  const openRelabel = async () => {
+    setRelabelOpen(!relabelOpen);
+    if (relabelOpen || labels.length > 0) return;
+
+    try {
+      const res = await fetch("/api/gmail/labels");
+      if (res.ok) {
+        const data = await res.json();
+        setLabels((data.labels || []).filter((label: { type: string }) => label.type === "user"));
+      }
+    } catch (err) {
+      console.error("Error loading labels:", err);
+    }
+  };
+
+  const handleCreateRelabelJob = async () => {
+    setCreatingRelabel(true);
+    try {
+      const response = await fetch("/api/gmail/label-jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          type: relabelForm.type,
+          ruleCriteria: relabelForm.query.trim() ? { query: relabelForm.query.trim() } : {},
+          removeLabelId: relabelForm.removeLabelId,
+          targetLabelId: relabelForm.type === "label_swap" ? relabelForm.targetLabelId : undefined,
+        }),
+      });
+
+      if (response.ok) {
+        addToast({
+          title: "Job created",
+          description: "Start it below when you're ready",
+          color: "success",
+        });
+        setRelabelForm(EMPTY_RELABEL_FORM);
+        setRelabelOpen(false);
+        loadJobs();
+      } else {
+        const error = await response.json();
+        addToast({
+          title: "Failed to create job",
+          description: error.details || error.error || "Unknown error",
+          color: "danger",
+        });
+      }
+    } catch {
+      addToast({
+        title: "Error",
+        description: "Failed to create job",
+        color: "danger",
+      });
+    } finally {
+      setCreatingRelabel(false);
+    }
+  };
+
+  const updateCleanupForm = (updates: Partial<typeof cleanupForm>) => {
+    setCleanupForm({ ...cleanupForm, ...updates });
+    // A preview (and its confirmation) only covers the search it was made for
+    setCleanupPreview(null);
+  };
+
+  const getCleanupBody = () => ({
+    action: cleanupForm.action,
+    ruleCriteria: cleanupForm.query.trim() ? { query: cleanupForm.query.trim() } : {},
+  });
+
+  const handlePreviewCleanup = async () => {
+    setCleanupBusy(true);
+    try {
+      const response = await fetch("/api/gmail/label-jobs/cleanup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...getCleanupBody(), mode: "preview" }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCleanupPreview(data);
+      } else {
+        addToast({
+          title: "Failed to preview cleanup",
+          description: data.details || data.error || "Unknown error",
+          color: "danger",
+        });
+      }
+    } catch {
+      addToast({
+        title: "Error",
+        description: "Failed to preview cleanup",
+        color: "danger",
+      });
+    } finally {
+      setCleanupBusy(false);
+    }
+  };
+
+  const handleCreateCleanupJob = async () => {
+    if (!cleanupPreview) return;
+    if (
+      cleanupPreview.confirmationToken &&
+      !confirm(
+        `${CLEANUP_ACTIONS[cleanupForm.action]}: ${cleanupPreview.exact ? "" : "about "}${cleanupPreview.estimatedCount.toLocaleString()} messages matching "${cleanupPreview.query}". Continue?`
+      )
+    )
+      return;
+
+    setCleanupBusy(true);
+    try {
+      const response = await fetch("/api/gmail/label-jobs/cleanup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...getCleanupBody(),
+          mode: "create",
+          confirmationToken: cleanupPreview.confirmationToken,
+        }),
+      });
+
+      if (response.ok) {
+        addToast({
+          title: "Job created",
+          description: "Start it below when you're ready",
+          color: "success",
+        });
+        setCleanupForm(EMPTY_CLEANUP_FORM);
+        setCleanupPreview(null);
+        setCleanupOpen(false);
+        loadJobs();
+      } else {
+        const error = await response.json();
+        // An expired confirmation needs a fresh preview
+        if (error.error === "confirmation_required") setCleanupPreview(null);
+        addToast({
+          title: "Failed to create job",
+          description: error.details || error.error || "Unknown error",
+          color: "danger",
+        });
+      }
+    } catch {
+      addToast({
+        title: "Error",
+        description: "Failed to create job",
+        color: "danger",
+      });
+    } finally {
+      setCleanupBusy(false);
+    }
+  };
+
+  // A failed or cancelled undo can be tried again
+  const canUndo = (journal?: JobJournal): journal is JobJournal => {
+    if (!journal) return false;
+    const undoJob = jobs.find((job) => job.id === journal.undoJobId);
+    return !journal.undoJobId || (!!undoJob && ["failed", "cancelled"].includes(undoJob.status));
+  };
+
+  const handleUndoJob = async (journal: JobJournal) => {
+    if (
+      !confirm(
+        `Undo "${journal.name}"? This reverts the label changes it made to ${journal.messageCount.toLocaleString()} messages.`
+      )
+    )
+      return;
+
+    try {
+      const response = await fetch(`/api/gmail/label-jobs/${journal.jobId}/undo`, {
+        method: "POST",
+      });
+
+      if (response.ok) {
+        addToast({
+          title: "Undo job created",
+          description: "Start it below when you're ready",
+          color: "success",
+        });
+        loadJobs(); // Refresh the jobs list
+      } else {
+        const error = await response.json();
+        addToast({
+          title: "Failed to undo job",
+          description: [error.error, error.details].filter(Boolean).join(": ") || "Unknown error",
+          color: "danger",
+        });
+      }
+    } catch {
+      addToast({
+        title: "Error",
+        description: "Failed to undo job",
+        color: "danger",
+      });
+    }
+  };
+
+  // Jobs expire after a day, but their recorded changes can still be undone
+  const expiredJournals = journals.filter(
+    (journal) => canUndo(journal) && !jobs.some((job) => job.id === journal.jobId)
+  );
+
   const handleStartJob = async (jobId: string) => {
     try {
       const response = await fetch(`/api/gmail/label-jobs/${jobId}/start`, {
@@ -163,7 +456,7 @@ export default function LabelJobsPage() {
           color: "danger",
         });
       }
-    } catch (err) {
+    } catch {
       addToast({
         title: "Error",
         description: "Failed to start job",
@@ -193,7 +486,7 @@ export default function LabelJobsPage() {
           color: "danger",
         });
       }
-    } catch (err) {
+    } catch {
       addToast({
         title: "Error",
         description: "Failed to pause job",
@@ -223,7 +516,7 @@ export default function LabelJobsPage() {
           color: "danger",
         });
       }
-    } catch (err) {
+    } catch {
       addToast({
         title: "Error",
         description: "Failed to resume job",
@@ -255,7 +548,7 @@ export default function LabelJobsPage() {
           color: "danger",
         });
       }
-    } catch (err) {
+    } catch {
       addToast({
         title: "Error",
         description: "Failed to cancel job",
@@ -287,7 +580,7 @@ export default function LabelJobsPage() {
           color: "danger",
         });
       }
-    } catch (err) {
+    } catch {
       addToast({
         title: "Error",
         description: "Failed to delete job",
@@ -332,9 +625,165 @@ export default function LabelJobsPage() {
           >
             ⟳ Refresh Jobs
           </Button>
+          <Button
+            variant="ghost"
+            className="text-default-600 hover:text-foreground hover:bg-default/10 transition-all duration-300 text-base px-6 py-3"
+            onPress={openRelabel}
+          >
+            🧹 Remove or Move Labels
+          </Button>
+          <Button
+            variant="ghost"
+            className="text-default-600 hover:text-foreground hover:bg-default/10 transition-all duration-300 text-base px-6 py-3"
+            onPress={() => setCleanupOpen(!cleanupOpen)}
+          >
+            🧽 Clean Up Mailbox
+          </Button>
         </div>
       </div>
 
+      {relabelOpen && (
+        <div className="mb-8 p-6 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl space-y-4">
+          <div>
+            <h3 className="text-xl font-semibold text-foreground">Remove or Move Labels</h3>
+            <p className="text-sm text-default-600 mt-1">
+              Strip a label from every message matching a search, or move those messages to another label. Leave the
+              search empty to include every message with the label.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select
+              label="Action"
+              selectedKeys={[relabelForm.type]}
+              onSelectionChange={(keys) =>
+                setRelabelForm({
+                  ...relabelForm,
+                  type: (Array.from(keys)[0] as typeof relabelForm.type) || "label_removal",
+                })
+              }
+              labelPlacement="outside"
+              variant="bordered"
+            >
+              <SelectItem key="label_removal">Remove label</SelectItem>
+              <SelectItem key="label_swap">Move to another label</SelectItem>
+            </Select>
+            <Input
+              label="Search"
+              placeholder="e.g. older_than:1y from:newsletter@example.com"
+              value={relabelForm.query}
+              onChange={(e) => setRelabelForm({ ...relabelForm, query: e.target.value })}
+              labelPlacement="outside"
+              variant="bordered"
+            />
+            <Select
+              label={relabelForm.type === "label_swap" ? "Move from" : "Label to remove"}
+              selectedKeys={relabelForm.removeLabelId ? [relabelForm.removeLabelId] : []}
+              onSelectionChange={(keys) =>
+                setRelabelForm({ ...relabelForm, removeLabelId: (Array.from(keys)[0] as string) || "" })
+              }
+              labelPlacement="outside"
+              variant="bordered"
+            >
+              {labels.map((label) => (
+                <SelectItem key={label.id}>{label.name}</SelectItem>
+              ))}
+            </Select>
+            {relabelForm.type === "label_swap" && (
+              <Select
+                label="Move to"
+                selectedKeys={relabelForm.targetLabelId ? [relabelForm.targetLabelId] : []}
+                onSelectionChange={(keys) =>
+                  setRelabelForm({ ...relabelForm, targetLabelId: (Array.from(keys)[0] as string) || "" })
+                }
+                labelPlacement="outside"
+                variant="bordered"
+              >
+                {labels
+                  .filter((label) => label.id !== relabelForm.removeLabelId)
+                  .map((label) => (
+                    <SelectItem key={label.id}>{label.name}</SelectItem>
+                  ))}
+              </Select>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <Button
+              color="primary"
+              isLoading={creatingRelabel}
+              isDisabled={
+                !relabelForm.removeLabelId || (relabelForm.type === "label_swap" && !relabelForm.targetLabelId)
+              }
+              onPress={handleCreateRelabelJob}
+            >
+              Create Job
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {cleanupOpen && (
+        <div className="mb-8 p-6 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl space-y-4">
+          <div>
+            <h3 className="text-xl font-semibold text-foreground">Clean Up Mailbox</h3>
+            <p className="text-sm text-default-600 mt-1">
+              Archive, mark as read, trash or report as spam every message matching a search. Preview the search first;
+              moving to trash and marking as spam need a search and your confirmation.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select
+              label="Action"
+              selectedKeys={[cleanupForm.action]}
+              onSelectionChange={(keys) =>
+                updateCleanupForm({
+                  action: (Array.from(keys)[0] as typeof cleanupForm.action) || "archive",
+                })
+              }
+              labelPlacement="outside"
+              variant="bordered"
+            >
+              {Object.entries(CLEANUP_ACTIONS).map(([action, label]) => (
+                <SelectItem key={action}>{label}</SelectItem>
+              ))}
+            </Select>
+            <Input
+              label="Search"
+              placeholder="e.g. older_than:2y category:promotions"
+              value={cleanupForm.query}
+              onChange={(e) => updateCleanupForm({ query: e.target.value })}
+              labelPlacement="outside"
+              variant="bordered"
+            />
+          </div>
+          {cleanupPreview && (
+            <div
+              className={`p-3 rounded-lg text-sm ${
+                cleanupPreview.confirmationToken
+                  ? "bg-danger/10 border border-danger/20 text-danger"
+                  : "bg-primary/10 border border-primary/20 text-primary"
+              }`}
+            >
+              {cleanupPreview.exact ? "" : "About "}
+              {cleanupPreview.estimatedCount.toLocaleString()} messages match <code>{cleanupPreview.query}</code>
+              {cleanupPreview.confirmationToken && " — you'll be asked to confirm before the job is created."}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="flat" isLoading={cleanupBusy && !cleanupPreview} onPress={handlePreviewCleanup}>
+              Preview
+            </Button>
+            <Button
+              color={cleanupPreview?.confirmationToken ? "danger" : "primary"}
+              isLoading={cleanupBusy && !!cleanupPreview}
+              isDisabled={!cleanupPreview || cleanupPreview.estimatedCount === 0}
+              onPress={handleCreateCleanupJob}
+            >
+              Create Job
+            </Button>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="mb-8 p-6 bg-red-900/20 border border-red-400 rounded-lg backdrop-blur-sm text-red-300 shadow-lg shadow-red-400/10">
           <div className="flex items-center gap-3">
@@ -489,6 +938,18 @@ export default function LabelJobsPage() {
                       </Button>
                     )}
 
+                    {["completed", "failed", "cancelled"].includes(job.status) &&
+                      canUndo(journals.find((journal) => journal.jobId === job.id)) && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          className="bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 text-sm"
+                          onPress={() => handleUndoJob(journals.find((journal) => journal.jobId === job.id)!)}
+                        >
+                          ↩️ Undo
+                        </Button>
+                      )}
+
                     {job.status !== "running" && (
                       <Button
                         size="sm"
@@ -538,14 +999,14 @@ export default function LabelJobsPage() {
                   {job.status === "cancelled" && <div className="text-xs text-gray-400 mt-4">⏹️ Job was cancelled</div>}
 
                   {/* Label Job Specific Info */}
-                  {job.type === "label_application" && (
+                  {job.type !== "scan" && job.type !== "filter_sync" && (
                     <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-xs text-gray-400">
                       <div>
                         <div className="font-medium">Messages Processed</div>
                         <div>{job.messagesProcessed || 0}</div>
                       </div>
                       <div>
-                        <div className="font-medium">Labels Applied</div>
+                        <div className="font-medium">{getAppliedLabel(job.type)}</div>
                         <div>{job.labelsApplied || 0}</div>
                       </div>
                       <div>
@@ -554,12 +1015,58 @@ export default function LabelJobsPage() {
                       </div>
                     </div>
                   )}
+
+                  {!!job.messagesFailed && (
+                    <div className="bg-red-900/30 border border-red-400/50 rounded-lg p-3 mt-4 text-xs text-red-300">
+                      <strong>{job.messagesFailed} messages could not be modified.</strong>{" "}
+                      {job.failedMessageIds && job.failedMessageIds.length > 0 && (
+                        <span className="break-all">
+                          Message IDs: {job.failedMessageIds.slice(0, 20).join(", ")}
+                          {job.messagesFailed > 20 && "..."}
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </div>
       </div>
+
+      {expiredJournals.length > 0 && (
+        <div className="mt-8 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl">
+          <div className="p-6 border-b border-default-200">
+            <h3 className="text-xl font-semibold text-foreground">Earlier Jobs</h3>
+            <p className="text-sm text-default-600 mt-1">
+              These jobs have expired, but the label changes they made are still recorded and can be undone.
+            </p>
+          </div>
+          <div className="p-6 space-y-3">
+            {expiredJournals.map((journal) => (
+              <div
+                key={journal.jobId}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border border-default-200"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-foreground truncate">{journal.name}</div>
+                  <div className="text-xs text-default-500">
+                    {journal.messageCount.toLocaleString()} messages changed · {formatDate(journal.updatedAt)}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  className="bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 text-sm"
+                  onPress={() => handleUndoJob(journal)}
+                >
+                  ↩️ Undo
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -9,10 +9,28 @@ import { Tooltip } from "@heroui/tooltip";
 import { Input } from "@heroui/input";
 import { Checkbox } from "@heroui/checkbox";
 import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
+import { Select, SelectItem } from "@heroui/select";
 import { Skeleton } from "@heroui/skeleton";
 import { addToast } from "@heroui/toast";
 import { useRouter } from "next/navigation";
 import StepProgress from "@/components/StepProgress";
+import {
+  describeActions,
+  describeCriteria,
+  fromGmailFilter,
+  toGmailFilter,
+  validateFilter,
+  type FilterActions,
+  type FilterCriteria,
+  type SizeComparison,
+} from "@/lib/gmail-filters";
+import type { FilterDiffEntry } from "@/lib/filter-xml";
+import type { FilterFix, FilterIssue } from "@/lib/filter-analysis";
+import type { FilterChange } from "@/lib/filter-history";
+import type { FilterSyncAction, FilterSyncEntry, FilterSyncStatus } from "@/lib/filter-sync";
+import type { LabelCleanupAction, LabelCleanupPreview, LabelFlag, LabelInsight } from "@/lib/label-insights";
+import type { GmailFilterVersion } from "@/lib/firestore";
+import { getQueryError, normalizeQuery } from "@/lib/gmail-query";
 
 type GmailApiFilter = {
   id: string;
@@ -21,23 +39,139 @@ type GmailApiFilter = {
     to?: string;
     subject?: string;
     query?: string;
-    has?: string;
-    sizeOperator?: string;
-    size?: string;
+    negatedQuery?: string;
+    hasAttachment?: boolean;
+    excludeChats?: boolean;
+    size?: number;
+    sizeComparison?: string;
   };
   action: {
     addLabelIds?: string[];
     removeLabelIds?: string[];
+    forward?: string;
   };
 };
 
 const columns = [
   { name: "Criteria", uid: "criteria" },
   { name: "Labels applied", uid: "labels" },
-  { name: "Archive", uid: "archive" },
+  { name: "Behavior", uid: "archive" },
   { name: "Actions", uid: "actions" },
 ];
 
+// System labels such as STARRED or TRASH express actions, not labels the user manages
+function getUserLabelIds(filter: GmailApiFilter): string[] {
+  return fromGmailFilter(filter).labelIds;
+}
+
+type FilterPreview = {
+  query: string;
+  estimatedCount: number;
+  exact: boolean;
+  source: "gmail" | "index";
+  uncertain?: number; // Index previews: messages that may match on body text or attachments
+  indexed?: number;
+  samples: { id: string; subject: string; from: string; date: string }[];
+  labelsAdded: { id: string; name: string }[];
+  labelsRemoved: { id: string; name: string }[];
+  forward: string | null;
+};
+
+type FilterVersionEntry = GmailFilterVersion & { changes: FilterChange[] };
+
+const ISSUE_SEVERITY_COLORS: Record<FilterIssue["severity"], "danger" | "warning" | "default"> = {
+  error: "danger",
+  warning: "warning",
+  info: "default",
+};
+
+const ISSUE_TYPE_LABELS: Record<FilterIssue["type"], string> = {
+  duplicate: "Duplicate",
+  subsumed: "Redundant",
+  conflict: "Conflict",
+  missing_label: "Missing label",
+};
+
+const SYNC_STATUS_COLORS: Record<FilterSyncStatus, "success" | "warning" | "danger" | "default"> = {
+  in_sync: "success",
+  modified: "warning",
+  missing: "danger",
+  unmanaged: "default",
+};
+
+const SYNC_STATUS_LABELS: Record<FilterSyncStatus, string> = {
+  in_sync: "In sync",
+  modified: "Modified in Gmail",
+  missing: "Missing in Gmail",
+  unmanaged: "Unmanaged",
+};
+
+const SYNC_ACTION_LABELS: Record<FilterSyncAction, string> = {
+  adopt: "Adopt Gmail's version",
+  republish: "Re-publish",
+  discard: "Discard",
+};
+
+const LABEL_FLAG_LABELS: Record<LabelFlag, string> = {
+  empty: "Empty",
+  unused: "No filter",
+  stale: "Stale",
+};
+
+const IMPORT_STATUS_COLORS: Record<FilterDiffEntry["status"], "success" | "warning" | "default"> = {
+  new: "success",
+  changed: "warning",
+  duplicate: "default",
+};
+
+const EMPTY_FORM = {
+  fromEmails: [] as string[],
+  toEmails: [] as string[],
+  subject: "",
+  query: "",
+  negatedQuery: "",
+  hasAttachment: false,
+  excludeChats: false,
+  sizeMb: "",
+  sizeComparison: "larger" as SizeComparison,
+  selectedLabels: [] as string[],
+  archive: false,
+  markAsRead: false,
+  star: false,
+  important: "" as "" | "always" | "never",
+  neverSpam: false,
+  trash: false,
+  forward: "",
+  removeLabels: [] as string[],
+};
+
+// The rule form filled in from an existing filter, for editing
+function formFromFilter(filter: GmailApiFilter): typeof EMPTY_FORM {
+  const { criteria, actions, labelIds } = fromGmailFilter(filter);
+  const splitAddresses = (value?: string) => (value ? value.split(/\s+OR\s+/) : [""]);
+
+  return {
+    fromEmails: splitAddresses(criteria.from),
+    toEmails: splitAddresses(criteria.to),
+    subject: criteria.subject || "",
+    query: criteria.query || "",
+    negatedQuery: criteria.negatedQuery || "",
+    hasAttachment: !!criteria.hasAttachment,
+    excludeChats: !!criteria.excludeChats,
+    sizeMb: criteria.size ? String(criteria.size / (1024 * 1024)) : "",
+    sizeComparison: criteria.sizeComparison || "larger",
+    selectedLabels: labelIds,
+    archive: !!actions.archive,
+    markAsRead: !!actions.markAsRead,
+    star: !!actions.star,
+    important: actions.important || "",
+    neverSpam: !!actions.neverSpam,
+    trash: !!actions.trash,
+    forward: actions.forward || "",
+    removeLabels: actions.removeLabelIds || [],
+  };
+}
+
 export default function LabelRulesPage() {
   const router = useRouter();
   const [filters, setFilters] = useState<GmailApiFilter[]>([]);
@@ -48,7 +182,10 @@ export default function LabelRulesPage() {
   const [criteriaModalOpen, setCriteriaModalOpen] = useState(false);
   const [selectedFilterForModal, setSelectedFilterForModal] = useState<GmailApiFilter | null>(null);
   const [createDrawerOpen, setCreateDrawerOpen] = useState(false);
+  const [editingFilter, setEditingFilter] = useState<GmailApiFilter | null>(null);
   const [creating, setCreating] = useState(false);
+  const [preview, setPreview] = useState<FilterPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
   const [deleteDrawerOpen, setDeleteDrawerOpen] = useState(false);
   const [selectedFilterForDelete, setSelectedFilterForDelete] = useState<GmailApiFilter | null>(null);
   const [deleteOptions, setDeleteOptions] = useState({
@@ -59,6 +196,52 @@ export default function LabelRulesPage() {
   const [deleting, setDeleting] = useState(false);
   const [contacts, setContacts] = useState<string[]>([]);
 
+  // Rule health state
+  const [healthOpen, setHealthOpen] = useState(false);
+  const [healthIssues, setHealthIssues] = useState<FilterIssue[] | null>(null);
+  const [healthLoading, setHealthLoading] = useState(false);
+  const [fixingIssue, setFixingIssue] = useState<number | null>(null);
+
+  // Gmail drift state
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [syncEntries, setSyncEntries] = useState<FilterSyncEntry[] | null>(null);
+  const [syncLoading, setSyncLoading] = useState(false);
+  const [resolvingEntry, setResolvingEntry] = useState<string | null>(null);
+
+  // Label insights state
+  const [insightsOpen, setInsightsOpen] = useState(false);
+  const [insights, setInsights] = useState<LabelInsight[] | null>(null);
+  const [insightsLoading, setInsightsLoading] = useState(false);
+  const [staleDays, setStaleDays] = useState("180");
+  const [selectedInsights, setSelectedInsights] = useState<Set<string>>(new Set());
+  const [cleanupPreview, setCleanupPreview] = useState<{
+    action: LabelCleanupAction;
+    preview: LabelCleanupPreview[];
+    affectedMessages: number;
+  } | null>(null);
+  const [cleaningUp, setCleaningUp] = useState(false);
+
+  // Label tree state
+  const [labelTreeOpen, setLabelTreeOpen] = useState(false);
+  const [draggedLabelId, setDraggedLabelId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null); // "" is the top level
+  const [renamingLabel, setRenamingLabel] = useState<{ id: string; name: string } | null>(null);
+  const [mergingLabel, setMergingLabel] = useState<{ id: string; targetId: string } | null>(null);
+  const [labelTreeBusy, setLabelTreeBusy] = useState(false);
+
+  // Version history state
+  const [historyDrawerOpen, setHistoryDrawerOpen] = useState(false);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  const [historyVersions, setHistoryVersions] = useState<FilterVersionEntry[] | null>(null);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  // mailFilters.xml import state
+  const [importDrawerOpen, setImportDrawerOpen] = useState(false);
+  const [importXml, setImportXml] = useState("");
+  const [importEntries, setImportEntries] = useState<FilterDiffEntry[]>([]);
+  const [importExcluded, setImportExcluded] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+
   // Autocomplete state
   const [fromSuggestions, setFromSuggestions] = useState<string[]>([]);
   const [fromLoading, setFromLoading] = useState(false);
@@ -68,13 +251,7 @@ export default function LabelRulesPage() {
   const [toSearchTimer, setToSearchTimer] = useState<NodeJS.Timeout | null>(null);
 
   // Form state for creating new label rule
-  const [formData, setFormData] = useState({
-    fromEmails: [] as string[],
-    toEmails: [] as string[],
-    subject: "",
-    selectedLabels: [] as string[],
-    archive: false,
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   // Label input state
   const [labelInput, setLabelInput] = useState("");
@@ -89,11 +266,29 @@ export default function LabelRulesPage() {
   const safeFromSuggestions = fromSuggestions && Array.isArray(fromSuggestions) ? fromSuggestions : [];
   const safeToSuggestions = toSuggestions && Array.isArray(toSuggestions) ? toSuggestions : [];
 
+  // User labels in tree order, each with its depth and the name shown under its parent
+  const labelTree = useMemo(() => {
+    const userLabels = labels.filter((label) => label.type === "user");
+    const byId = new Map(userLabels.map((label) => [label.id, label]));
+    return userLabels
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((label) => {
+        const parent = label.parentId ? byId.get(label.parentId) : undefined;
+        return {
+          id: label.id as string,
+          name: label.name as string,
+          parentId: parent?.id as string | undefined,
+          leafName: parent ? label.name.slice(parent.name.length + 1) : (label.name as string),
+          depth: userLabels.filter((other) => label.name.startsWith(`${other.name}/`)).length,
+        };
+      });
+  }, [labels]);
+
   useEffect(() => {
     // Check authentication first
     checkAuth();
     loadLabelRules();
-    loadLabels();
+    loadLabels(true);
     loadContacts();
 
     // Check for pre-populated emails from URL params (from contacts page)
@@ -140,11 +335,8 @@ export default function LabelRulesPage() {
       const data = await res.json();
       const allFilters: GmailApiFilter[] = data.filters || [];
 
-      // Filter to only show label rules (filters that apply labels)
-      const labelRules = allFilters.filter(
-        (filter) => filter.action?.addLabelIds && filter.action.addLabelIds.length > 0
-      );
-      setFilters(labelRules);
+      // Rules created here may only star, forward or mark mail, so every filter is shown
+      setFilters(allFilters);
     } catch (err: any) {
       setError(`Failed to load label rules: ${err.message}`);
     } finally {
@@ -152,9 +344,10 @@ export default function LabelRulesPage() {
     }
   };
 
-  const loadLabels = async () => {
+  // Syncing also refreshes the stored labels with changes made in Gmail
+  const loadLabels = async (sync = false) => {
     try {
-      const res = await fetch("/api/gmail/labels");
+      const res = await fetch("/api/gmail/labels", { method: sync ? "PUT" : "GET" });
       if (res.ok) {
         const data = await res.json();
         setLabels(data.labels || []);
@@ -351,7 +544,7 @@ export default function LabelRulesPage() {
 
       // Delete labels associated with this rule
       if (deleteOptions.deleteLabel) {
-        const labelsToDelete = selectedFilterForDelete.action.addLabelIds || [];
+        const labelsToDelete = getUserLabelIds(selectedFilterForDelete);
         labelsToDelete.forEach((labelId) => {
           promises.push(
             fetch(`/api/gmail/labels/${labelId}`, {
@@ -401,8 +594,363 @@ export default function LabelRulesPage() {
     }
   };
 
+  const loadRuleHistory = async (ruleId: string) => {
+    setHistoryRuleId(ruleId);
+    setHistoryVersions(null);
+    try {
+      const response = await fetch(`/api/gmail/filters/${ruleId}/history`);
+      const data = await response.json();
+
+      if (response.ok) {
+        // Follow the Firestore record, whose ID survives edits
+        if (data.filter) setHistoryRuleId(data.filter.id);
+        setHistoryVersions(data.versions || []);
+      } else {
+        addToast({ title: `Failed to load rule history: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error loading rule history:", err);
+      addToast({ title: "Failed to load rule history. Please try again.", color: "danger" });
+    }
+  };
+
+  const handleRestoreVersion = async (version: number) => {
+    if (!historyRuleId) return;
+
+    setRestoringVersion(version);
+    try {
+      const response = await fetch(`/api/gmail/filters/${historyRuleId}/history`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ version }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        addToast({ title: `Restored version ${version}`, color: "success" });
+        loadRuleHistory(historyRuleId);
+        loadLabelRules();
+        loadLabels();
+      } else {
+        addToast({ title: `Failed to restore version: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error restoring rule version:", err);
+      addToast({ title: "Failed to restore version. Please try again.", color: "danger" });
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  const loadRuleHealth = async () => {
+    setHealthLoading(true);
+    try {
+      const response = await fetch("/api/gmail/filters/health");
+      const data = await response.json();
+
+      if (response.ok) {
+        setHealthIssues(data.issues || []);
+      } else {
+        addToast({ title: `Failed to check rule health: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error checking rule health:", err);
+      addToast({ title: "Failed to check rule health. Please try again.", color: "danger" });
+    } finally {
+      setHealthLoading(false);
+    }
+  };
+
+  const handleApplyFix = async (fix: FilterFix, index: number) => {
+    setFixingIssue(index);
+    try {
+      const response = await fetch("/api/gmail/filters/health", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fix }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        addToast({ title: "Fix applied", color: "success" });
+        loadRuleHealth();
+        loadLabelRules();
+      } else {
+        addToast({ title: `Failed to apply fix: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error applying fix:", err);
+      addToast({ title: "Failed to apply fix. Please try again.", color: "danger" });
+    } finally {
+      setFixingIssue(null);
+    }
+  };
+
+  const loadSyncStatus = async () => {
+    setSyncLoading(true);
+    try {
+      const response = await fetch("/api/gmail/filters/sync");
+      const data = await response.json();
+
+      if (response.ok) {
+        setSyncEntries(data.entries || []);
+      } else {
+        addToast({ title: `Failed to compare with Gmail: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error comparing filters with Gmail:", err);
+      addToast({ title: "Failed to compare with Gmail. Please try again.", color: "danger" });
+    } finally {
+      setSyncLoading(false);
+    }
+  };
+
+  const handleResolveDrift = async (entry: FilterSyncEntry, action: FilterSyncAction) => {
+    const key = entry.filterId || entry.gmailId!;
+    setResolvingEntry(key);
+    try {
+      const response = await fetch("/api/gmail/filters/sync", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action, filterId: entry.filterId, gmailId: entry.gmailId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        addToast({ title: `${SYNC_ACTION_LABELS[action]}: done`, color: "success" });
+        loadSyncStatus();
+        loadLabelRules();
+      } else {
+        addToast({ title: `Failed to resolve drift: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error resolving filter drift:", err);
+      addToast({ title: "Failed to resolve drift. Please try again.", color: "danger" });
+    } finally {
+      setResolvingEntry(null);
+    }
+  };
+
+  const loadLabelInsights = async () => {
+    setInsightsLoading(true);
+    try {
+      const response = await fetch(`/api/gmail/labels/insights?staleDays=${encodeURIComponent(staleDays)}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setInsights(data.insights || []);
+        setSelectedInsights(new Set());
+        setCleanupPreview(null);
+      } else {
+        addToast({ title: `Failed to load label insights: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error loading label insights:", err);
+      addToast({ title: "Failed to load label insights. Please try again.", color: "danger" });
+    } finally {
+      setInsightsLoading(false);
+    }
+  };
+
+  const handleLabelCleanup = async (action: LabelCleanupAction, mode: "preview" | "apply") => {
+    setCleaningUp(true);
+    try {
+      const response = await fetch("/api/gmail/labels/insights", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action, labelIds: Array.from(selectedInsights), mode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast({ title: `Failed to clean up labels: ${data.details || data.error}`, color: "danger" });
+      } else if (mode === "preview") {
+        setCleanupPreview(data);
+      } else {
+        const verb = action === "delete" ? "Deleted" : "Archived";
+        addToast({
+          title: `${verb} ${data.applied.length} label${data.applied.length === 1 ? "" : "s"}`,
+          color: "success",
+        });
+        loadLabelInsights();
+        loadLabels();
+      }
+    } catch (err) {
+      console.error("Error cleaning up labels:", err);
+      addToast({ title: "Failed to clean up labels. Please try again.", color: "danger" });
+    } finally {
+      setCleaningUp(false);
+    }
+  };
+
+  const handleMoveLabel = async (labelId: string, move: { parentId?: string | null; name?: string }) => {
+    setLabelTreeBusy(true);
+    try {
+      const response = await fetch(`/api/gmail/labels/${labelId}/move`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(move),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const count = data.renames?.length || 0;
+        addToast({ title: `Updated ${count} label${count === 1 ? "" : "s"} in Gmail`, color: "success" });
+        loadLabels();
+        loadLabelRules();
+      } else {
+        addToast({ title: `Failed to move label: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error moving label:", err);
+      addToast({ title: "Failed to move label. Please try again.", color: "danger" });
+    } finally {
+      setLabelTreeBusy(false);
+      setRenamingLabel(null);
+    }
+  };
+
+  const handleDropLabel = (parentId: string | null) => {
+    const label = labelTree.find((item) => item.id === draggedLabelId);
+    setDraggedLabelId(null);
+    setDropTargetId(null);
+    if (!label || label.id === parentId || (label.parentId || null) === parentId) return;
+    handleMoveLabel(label.id, { parentId });
+  };
+
+  const handleRenameLabel = () => {
+    const label = labelTree.find((item) => item.id === renamingLabel?.id);
+    if (!label || !renamingLabel?.name.trim() || renamingLabel.name === label.leafName) {
+      setRenamingLabel(null);
+      return;
+    }
+    const parent = labelTree.find((item) => item.id === label.parentId);
+    handleMoveLabel(label.id, { name: parent ? `${parent.name}/${renamingLabel.name}` : renamingLabel.name });
+  };
+
+  const handleMergeLabel = async () => {
+    if (!mergingLabel?.targetId) return;
+
+    setLabelTreeBusy(true);
+    try {
+      const response = await fetch(`/api/gmail/labels/${mergingLabel.id}/merge`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ targetId: mergingLabel.targetId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        addToast({ title: `${data.message}. Follow the progress on Label Jobs.`, color: "success" });
+        setMergingLabel(null);
+      } else {
+        addToast({ title: `Failed to merge labels: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error merging labels:", err);
+      addToast({ title: "Failed to merge labels. Please try again.", color: "danger" });
+    } finally {
+      setLabelTreeBusy(false);
+    }
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const xml = await file.text();
+      const response = await fetch("/api/gmail/filters/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ xml, mode: "preview" }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast({ title: `Failed to read filters: ${data.details || data.error}`, color: "danger" });
+        return;
+      }
+
+      setImportXml(xml);
+      setImportEntries(data.entries || []);
+      // Duplicates are skipped unless picked
+      setImportExcluded(
+        new Set(
+          (data.entries || [])
+            .filter((entry: FilterDiffEntry) => entry.status === "duplicate")
+            .map((entry: FilterDiffEntry) => entry.index)
+        )
+      );
+    } catch (err) {
+      console.error("Error previewing import:", err);
+      addToast({ title: "Failed to read the XML file", color: "danger" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = async (mode: "draft" | "publish") => {
+    setImporting(true);
+    try {
+      const response = await fetch("/api/gmail/filters/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          xml: importXml,
+          mode,
+          exclude: Array.from(importExcluded),
+          include: importEntries
+            .filter((entry) => entry.status === "duplicate" && !importExcluded.has(entry.index))
+            .map((entry) => entry.index),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast({ title: `Import failed: ${data.details || data.error}`, color: "danger" });
+        return;
+      }
+
+      addToast({
+        title: `${data.created} filters ${mode === "publish" ? "published" : "saved as drafts"}${
+          data.failed > 0 ? `, ${data.failed} failed` : ""
+        }`,
+        color: data.failed > 0 ? "warning" : "success",
+      });
+      setImportDrawerOpen(false);
+      setImportXml("");
+      setImportEntries([]);
+      if (mode === "publish") {
+        loadLabelRules();
+        loadLabels();
+      }
+    } catch (err) {
+      console.error("Error importing filters:", err);
+      addToast({ title: "Failed to import filters. Please try again.", color: "danger" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleCreateLabelJob = async (filter: GmailApiFilter) => {
-    if (!filter.action.addLabelIds || filter.action.addLabelIds.length === 0) {
+    if (getUserLabelIds(filter).length === 0) {
       return;
     }
 
@@ -415,7 +963,7 @@ export default function LabelRulesPage() {
         body: JSON.stringify({
           filterId: filter.id,
           ruleCriteria: filter.criteria,
-          labelIds: filter.action.addLabelIds,
+          labelIds: getUserLabelIds(filter),
         }),
       });
 
@@ -432,85 +980,148 @@ export default function LabelRulesPage() {
     }
   };
 
-  const handleCreateLabelRule = async () => {
+  // A preview only describes the form it was run for
+  useEffect(() => {
+    setPreview(null);
+  }, [formData, labelInput]);
+
+  // Rewrite a valid query in Gmail's canonical form when the field loses focus
+  const normalizeQueryField = (field: "query" | "negatedQuery") => {
+    const normalized = normalizeQuery(formData[field]);
+    if (normalized !== formData[field]) {
+      setFormData({ ...formData, [field]: normalized });
+    }
+  };
+
+  // Criteria, actions and labels from the create form, or null after flagging what's missing
+  const buildRuleFromForm = () => {
     // Include typed custom label if present
-    let selectedLabels = [...formData.selectedLabels];
+    const selectedLabels = [...formData.selectedLabels];
     if (labelInput.trim() && !selectedLabels.includes(labelInput.trim())) {
       selectedLabels.push(labelInput.trim());
     }
 
-    if (selectedLabels.length === 0) {
-      setFieldErrors((prev) => ({ ...prev, labels: "Please select at least one label" }));
-      return;
-    }
-
-    // Check if at least one email is provided
     const validEmails = formData.fromEmails.filter((email) => email.trim());
-    if (validEmails.length === 0) {
-      setFieldErrors((prev) => ({ ...prev, emails: "Please enter at least one email address" }));
-      return;
-    }
+    const validToEmails = formData.toEmails.filter((email) => email.trim());
+    const sizeMb = parseFloat(formData.sizeMb);
+
+    // Multiple addresses are combined with OR
+    const criteria: FilterCriteria = {
+      from: validEmails.join(" OR "),
+      to: validToEmails.join(" OR "),
+      subject: formData.subject,
+      query: formData.query,
+      negatedQuery: formData.negatedQuery,
+      hasAttachment: formData.hasAttachment,
+      excludeChats: formData.excludeChats,
+      ...(sizeMb > 0 && { size: Math.round(sizeMb * 1024 * 1024), sizeComparison: formData.sizeComparison }),
+    };
+    const actions: FilterActions = {
+      archive: formData.archive,
+      markAsRead: formData.markAsRead,
+      star: formData.star,
+      important: formData.important || undefined,
+      neverSpam: formData.neverSpam,
+      trash: formData.trash,
+      forward: formData.forward,
+      removeLabelIds: formData.removeLabels,
+    };
 
-    setCreating(true);
-    try {
-      // Build criteria object
-      const criteria: any = {};
-      // Combine from emails with OR
-      if (validEmails.length > 0) {
-        criteria.from = validEmails.join(" OR ");
-      }
-      // Combine to emails with OR
-      const validToEmails = formData.toEmails.filter((email) => email.trim());
-      if (validToEmails.length > 0) {
-        criteria.to = validToEmails.join(" OR ");
+    const validationError = validateFilter(criteria, actions, selectedLabels);
+    if (validationError) {
+      if (validationError.startsWith("At least one criterion")) {
+        setFieldErrors((prev) => ({ ...prev, emails: validationError }));
+      } else if (validationError.startsWith("At least one action")) {
+        setFieldErrors((prev) => ({ ...prev, labels: "Select a label or another action" }));
+      } else {
+        addToast({ title: validationError, color: "danger" });
       }
-      if (formData.subject.trim()) criteria.subject = formData.subject.trim();
-
-      // Build action object
-      const action: any = {
-        addLabelIds: selectedLabels,
-      };
+      return null;
+    }
 
-      if (formData.archive) {
-        action.removeLabelIds = ["INBOX"];
-      }
+    return { criteria, actions, selectedLabels };
+  };
 
-      const filterData = {
-        filter: {
-          criteria,
-          action,
-        },
-      };
+  const handlePreviewLabelRule = async (local = false) => {
+    const rule = buildRuleFromForm();
+    if (!rule) return;
 
-      const response = await fetch("/api/gmail/filters", {
+    setPreviewing(true);
+    try {
+      const response = await fetch("/api/gmail/filters/preview", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(filterData),
+        body: JSON.stringify({
+          criteria: rule.criteria,
+          actions: rule.actions,
+          labelIds: rule.selectedLabels,
+          local,
+        }),
       });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(data);
+      } else {
+        addToast({ title: `Failed to preview label rule: ${data.details || data.error}`, color: "danger" });
+      }
+    } catch (err) {
+      console.error("Error previewing label rule:", err);
+      addToast({ title: "Failed to preview label rule. Please try again.", color: "danger" });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleCreateLabelRule = async () => {
+    const rule = buildRuleFromForm();
+    if (!rule) return;
+    const { criteria, actions, selectedLabels } = rule;
+
+    setCreating(true);
+    try {
+      // Labels are sent by name or ID; the API creates any that don't exist yet
+      const response = editingFilter
+        ? // Edits replace the Gmail filter and keep the replaced version in the rule's history
+          await fetch(`/api/gmail/filters/${editingFilter.id}`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ criteria, actions, labelIds: selectedLabels }),
+          })
+        : await fetch("/api/gmail/filters", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ filter: toGmailFilter(criteria, actions, selectedLabels) }),
+          });
 
       if (response.ok) {
         // Reset form and close drawer
-        setFormData({
-          fromEmails: [""],
-          toEmails: [""],
-          subject: "",
-          selectedLabels: [],
-          archive: false,
-        });
+        setFormData({ ...EMPTY_FORM, fromEmails: [""], toEmails: [""] });
         setLabelInput("");
         setFieldErrors({ labels: "", emails: "" });
         setCreateDrawerOpen(false);
+        setEditingFilter(null);
 
         // Refresh the list
         loadLabelRules();
         loadLabels();
 
-        addToast({ title: "Label rule created successfully!", color: "success" });
+        addToast({
+          title: editingFilter ? "Label rule updated successfully!" : "Label rule created successfully!",
+          color: "success",
+        });
       } else {
         const error = await response.json();
-        addToast({ title: `Failed to create label rule: ${error.error || "Unknown error"}`, color: "danger" });
+        addToast({
+          title: `Failed to ${editingFilter ? "update" : "create"} label rule: ${error.details || error.error || "Unknown error"}`,
+          color: "danger",
+        });
       }
     } catch (err) {
       console.error("Error creating label rule:", err);
@@ -520,35 +1131,42 @@ export default function LabelRulesPage() {
     }
   };
 
+  const closeRuleDrawer = () => {
+    setCreateDrawerOpen(false);
+    // An abandoned edit shouldn't carry over into the next new rule
+    if (editingFilter) {
+      setEditingFilter(null);
+      setFormData({ ...EMPTY_FORM, fromEmails: [""], toEmails: [""] });
+    }
+  };
+
   // Format criteria for display
-  const formatCriteria = (criteria: any) => {
-    const parts: string[] = [];
-    if (criteria.from) parts.push(`From: ${criteria.from}`);
-    if (criteria.to) parts.push(`To: ${criteria.to}`);
-    if (criteria.subject) parts.push(`Subject: ${criteria.subject}`);
-    if (criteria.query) parts.push(criteria.query);
-    if (criteria.has) parts.push(`Has: ${criteria.has}`);
-    if (criteria.size && criteria.sizeOperator) parts.push(`Size: ${criteria.sizeOperator} ${criteria.size}`);
+  const formatCriteria = (filter: GmailApiFilter) => {
+    const parts = describeCriteria(fromGmailFilter(filter).criteria);
     return parts.length > 0 ? parts.join(", ") : "Any email";
   };
 
+  // Criteria besides from/to/subject/query, which the details drawer lays out on their own
+  const getOtherCriteria = (filter: GmailApiFilter) => {
+    const { negatedQuery, hasAttachment, excludeChats, size, sizeComparison } = fromGmailFilter(filter).criteria;
+    return describeCriteria({ negatedQuery, hasAttachment, excludeChats, size, sizeComparison });
+  };
+
+  // Other actions than labelling and archiving
+  const getOtherActions = (filter: GmailApiFilter) => {
+    return describeActions({ ...fromGmailFilter(filter).actions, archive: false });
+  };
+
   // Count criteria parts for tooltip
-  const getCriteriaPartsCount = (criteria: any) => {
-    let count = 0;
-    if (criteria.from) count++;
-    if (criteria.to) count++;
-    if (criteria.subject) count++;
-    if (criteria.query) count++;
-    if (criteria.has) count++;
-    if (criteria.size && criteria.sizeOperator) count++;
-    return count > 0 ? count : 1; // At least "Any email"
+  const getCriteriaPartsCount = (filter: GmailApiFilter) => {
+    return describeCriteria(fromGmailFilter(filter).criteria).length || 1; // At least "Any email"
   };
 
   // Render cell function for table
   const renderCell = (filter: GmailApiFilter, columnKey: React.Key) => {
     switch (columnKey) {
       case "criteria":
-        const partsCount = getCriteriaPartsCount(filter.criteria);
+        const partsCount = getCriteriaPartsCount(filter);
         return (
           <Tooltip content={`${partsCount} criteria ${partsCount === 1 ? "part" : "parts"}`} placement="top">
             <Button
@@ -567,8 +1185,8 @@ export default function LabelRulesPage() {
       case "labels":
         return (
           <div className="flex flex-wrap gap-1">
-            {filter.action.addLabelIds && filter.action.addLabelIds.length > 0 ? (
-              filter.action.addLabelIds.map((labelId) => {
+            {getUserLabelIds(filter).length > 0 ? (
+              getUserLabelIds(filter).map((labelId) => {
                 const label = labels.find((l) => l.id === labelId);
                 return (
                   <Chip
@@ -592,7 +1210,7 @@ export default function LabelRulesPage() {
         );
       case "archive":
         return (
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             {filter.action.removeLabelIds?.includes("INBOX") ? (
               <Chip size="sm" variant="flat" color="secondary" className="text-xs">
                 📁 Archive
@@ -600,7 +1218,12 @@ export default function LabelRulesPage() {
             ) : (
               <span className="text-sm text-gray-400">Keep in inbox</span>
             )}
-            {filter.action.addLabelIds && filter.action.addLabelIds.length > 0 && (
+            {getOtherActions(filter).map((action) => (
+              <Chip key={action} size="sm" variant="flat" className="text-xs">
+                {action}
+              </Chip>
+            ))}
+            {getUserLabelIds(filter).length > 0 && (
               <Button
                 size="sm"
                 variant="flat"
@@ -614,26 +1237,52 @@ export default function LabelRulesPage() {
         );
       case "actions":
         return (
-          <Button
-            size="sm"
-            variant="flat"
-            color="danger"
-            className="text-xs"
-            onPress={() => {
-              setSelectedFilterForDelete(filter);
-              // Determine if labels are custom and if there's a label job
-              const customLabels =
-                filter.action.addLabelIds?.filter((labelId) => !labels.find((l) => l.id === labelId)) || [];
-              setDeleteOptions({
-                deleteFilter: true,
-                deleteLabel: customLabels.length > 0,
-                deleteLabelJob: false, // We'll check this later if needed
-              });
-              setDeleteDrawerOpen(true);
-            }}
-          >
-            🗑️ Delete
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="flat"
+              className="text-xs"
+              onPress={() => {
+                setEditingFilter(filter);
+                setFormData(formFromFilter(filter));
+                setLabelInput("");
+                setFieldErrors({ labels: "", emails: "" });
+                setCreateDrawerOpen(true);
+              }}
+            >
+              ✏️ Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              className="text-xs"
+              onPress={() => {
+                loadRuleHistory(filter.id);
+                setHistoryDrawerOpen(true);
+              }}
+            >
+              🕘 History
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              color="danger"
+              className="text-xs"
+              onPress={() => {
+                setSelectedFilterForDelete(filter);
+                // Determine if labels are custom and if there's a label job
+                const customLabels = getUserLabelIds(filter).filter((labelId) => !labels.find((l) => l.id === labelId));
+                setDeleteOptions({
+                  deleteFilter: true,
+                  deleteLabel: customLabels.length > 0,
+                  deleteLabelJob: false, // We'll check this later if needed
+                });
+                setDeleteDrawerOpen(true);
+              }}
+            >
+              🗑️ Delete
+            </Button>
+          </div>
         );
       default:
         return "-";
@@ -692,10 +1341,288 @@ export default function LabelRulesPage() {
           className="bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30 border border-emerald-400/30 transition-all duration-300"
           onPress={() => setCreateDrawerOpen(true)}
         >
-          ➕ Create Label Rule
+          ➕ Create Label Rule
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => {
+            window.location.href = "/api/gmail/filters/export?source=all";
+          }}
+        >
+          ⬇️ Export XML
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => setImportDrawerOpen(true)}
+        >
+          ⬆️ Import XML
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => {
+            setHealthOpen(!healthOpen);
+            if (!healthOpen) loadRuleHealth();
+          }}
+        >
+          🩺 Rule Health
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => {
+            setSyncOpen(!syncOpen);
+            if (!syncOpen) loadSyncStatus();
+          }}
+        >
+          🔄 Sync Status
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => setLabelTreeOpen(true)}
+        >
+          🗂️ Label Tree
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300"
+          onPress={() => {
+            setInsightsOpen(!insightsOpen);
+            if (!insightsOpen) loadLabelInsights();
+          }}
+        >
+          📊 Label Insights
         </Button>
       </div>
 
+      {healthOpen && (
+        <div className="mb-8 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl">
+          <div className="flex items-start justify-between gap-3 p-6 border-b border-default-200">
+            <div>
+              <p className="text-sm font-medium text-primary">Overlaps and Conflicts</p>
+              <h3 className="text-xl font-semibold text-foreground">Rule Health</h3>
+              <p className="text-sm text-default-600 mt-1">
+                {healthLoading
+                  ? "Analyzing your rules..."
+                  : healthIssues && `${healthIssues.length} issues across your Gmail filters and drafts`}
+              </p>
+            </div>
+            <Button size="sm" variant="flat" isLoading={healthLoading} onPress={() => loadRuleHealth()}>
+              ⟳ Re-check
+            </Button>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {healthIssues?.length === 0 && !healthLoading && (
+              <p className="text-sm text-default-500">✅ No duplicate, redundant or conflicting rules found.</p>
+            )}
+            {healthIssues?.map((issue, index) => (
+              <div key={`${issue.type}-${issue.filterIds.join("-")}`} className="flex items-start gap-3">
+                <Chip size="sm" variant="flat" color={ISSUE_SEVERITY_COLORS[issue.severity]}>
+                  {ISSUE_TYPE_LABELS[issue.type]}
+                </Chip>
+                <p className="flex-1 text-sm text-default-700">{issue.message}</p>
+                {issue.fix && (
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    color={issue.fix.type === "delete" ? "danger" : "primary"}
+                    isLoading={fixingIssue === index}
+                    isDisabled={fixingIssue !== null}
+                    onPress={() => handleApplyFix(issue.fix!, index)}
+                  >
+                    {issue.fix.type === "delete" ? "Delete redundant rule" : "Remove missing labels"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {syncOpen && (
+        <div className="mb-8 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl">
+          <div className="flex items-start justify-between gap-3 p-6 border-b border-default-200">
+            <div>
+              <p className="text-sm font-medium text-primary">Stored Rules vs Gmail</p>
+              <h3 className="text-xl font-semibold text-foreground">Sync Status</h3>
+              <p className="text-sm text-default-600 mt-1">
+                {syncLoading
+                  ? "Comparing with Gmail..."
+                  : syncEntries &&
+                    `${syncEntries.filter((entry) => entry.status !== "in_sync").length} of ${syncEntries.length} filters out of sync`}
+              </p>
+            </div>
+            <Button size="sm" variant="flat" isLoading={syncLoading} onPress={() => loadSyncStatus()}>
+              ⟳ Re-check
+            </Button>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {syncEntries?.every((entry) => entry.status === "in_sync") && !syncLoading && (
+              <p className="text-sm text-default-500">✅ Every published rule matches its Gmail filter.</p>
+            )}
+            {syncEntries
+              ?.filter((entry) => entry.status !== "in_sync")
+              .map((entry) => (
+                <div key={entry.filterId || entry.gmailId} className="flex items-start gap-3">
+                  <Chip size="sm" variant="flat" color={SYNC_STATUS_COLORS[entry.status]}>
+                    {SYNC_STATUS_LABELS[entry.status]}
+                  </Chip>
+                  <div className="flex-1 text-sm text-default-700">
+                    <p>{entry.name || describeCriteria(entry.criteria).join(", ")}</p>
+                    {entry.changes.map((change) => (
+                      <p key={change.field} className="text-xs text-default-500">
+                        {[
+                          ...change.removed.map((line) => `− ${line}`),
+                          ...change.added.map((line) => `+ ${line}`),
+                        ].join(" ")}
+                      </p>
+                    ))}
+                  </div>
+                  {entry.actions.map((action) => (
+                    <Button
+                      key={action}
+                      size="sm"
+                      variant="flat"
+                      color={action === "discard" ? "danger" : "primary"}
+                      isLoading={resolvingEntry === (entry.filterId || entry.gmailId)}
+                      isDisabled={resolvingEntry !== null}
+                      onPress={() => handleResolveDrift(entry, action)}
+                    >
+                      {SYNC_ACTION_LABELS[action]}
+                    </Button>
+                  ))}
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {insightsOpen && (
+        <div className="mb-8 bg-content1/30 backdrop-blur-md border border-default-200 rounded-xl shadow-2xl">
+          <div className="flex items-start justify-between gap-3 p-6 border-b border-default-200">
+            <div>
+              <p className="text-sm font-medium text-primary">Label Usage</p>
+              <h3 className="text-xl font-semibold text-foreground">Label Insights</h3>
+              <p className="text-sm text-default-600 mt-1">
+                {insightsLoading
+                  ? "Counting messages per label..."
+                  : insights &&
+                    `${insights.filter((insight) => insight.flags.length > 0).length} of ${insights.length} labels look unused`}
+              </p>
+            </div>
+            <div className="flex items-end gap-2">
+              <Input
+                type="number"
+                min={1}
+                size="sm"
+                label="Stale after"
+                value={staleDays}
+                onChange={(e) => setStaleDays(e.target.value)}
+                labelPlacement="outside"
+                variant="bordered"
+                className="max-w-32"
+                endContent={<span className="text-default-400 text-sm">days</span>}
+              />
+              <Button size="sm" variant="flat" isLoading={insightsLoading} onPress={() => loadLabelInsights()}>
+                ⟳ Re-check
+              </Button>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-3">
+            {insights?.length === 0 && !insightsLoading && (
+              <p className="text-sm text-default-500">You don&apos;t have any labels of your own yet.</p>
+            )}
+            {insights?.map((insight) => (
+              <div key={insight.id} className="flex items-center gap-3">
+                <Checkbox
+                  isSelected={selectedInsights.has(insight.id)}
+                  onValueChange={(checked) => {
+                    const selected = new Set(selectedInsights);
+                    if (checked) {
+                      selected.add(insight.id);
+                    } else {
+                      selected.delete(insight.id);
+                    }
+                    setSelectedInsights(selected);
+                    setCleanupPreview(null);
+                  }}
+                />
+                <div className="flex-1 text-sm text-default-700">
+                  <p>
+                    🏷️ {insight.name}
+                    {insight.hidden && <span className="text-xs text-default-500"> (archived)</span>}
+                  </p>
+                  <p className="text-xs text-default-500">
+                    {insight.messagesTotal} messages · {insight.messagesUnread} unread · {insight.filterCount} filters
+                    {insight.newestMessageAt && ` · newest ${new Date(insight.newestMessageAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {insight.flags.map((flag) => (
+                  <Chip key={flag} size="sm" variant="flat" color={flag === "stale" ? "warning" : "default"}>
+                    {LABEL_FLAG_LABELS[flag]}
+                  </Chip>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {selectedInsights.size > 0 && (
+            <div className="p-6 border-t border-default-200 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-default-600">{selectedInsights.size} selected</span>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  color="danger"
+                  isLoading={cleaningUp}
+                  onPress={() => handleLabelCleanup("delete", "preview")}
+                >
+                  Delete labels…
+                </Button>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  isLoading={cleaningUp}
+                  onPress={() => handleLabelCleanup("archive", "preview")}
+                >
+                  Archive labels…
+                </Button>
+              </div>
+              {cleanupPreview && (
+                <div className="p-3 bg-default/10 rounded-lg space-y-2">
+                  <p className="text-sm text-default-700">
+                    {cleanupPreview.action === "delete"
+                      ? `${cleanupPreview.affectedMessages} messages will lose these labels. The messages themselves are kept.`
+                      : `${cleanupPreview.affectedMessages} messages will stop showing these labels. They can be shown again in Gmail.`}
+                  </p>
+                  {cleanupPreview.preview.map((item) => (
+                    <p key={item.id} className="text-xs text-default-500">
+                      {item.blockedReason ? "⏭️" : "✓"} {item.name}: {item.messagesTotal} messages
+                      {item.blockedReason && ` (skipped: ${item.blockedReason})`}
+                    </p>
+                  ))}
+                  <Button
+                    size="sm"
+                    color={cleanupPreview.action === "delete" ? "danger" : "primary"}
+                    isLoading={cleaningUp}
+                    isDisabled={cleanupPreview.preview.every((item) => item.blockedReason)}
+                    onPress={() => handleLabelCleanup(cleanupPreview.action, "apply")}
+                  >
+                    Confirm {cleanupPreview.action === "delete" ? "Delete" : "Archive"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="mb-8 p-6 bg-red-900/20 border border-red-400 rounded-lg backdrop-blur-sm text-red-300 shadow-lg shadow-red-400/10">
           <div className="flex items-center gap-3">
@@ -885,39 +1812,24 @@ export default function LabelRulesPage() {
                         </div>
                       </div>
                     )}
-                    {selectedFilterForModal.criteria.has && (
-                      <div className="flex items-center gap-3">
-                        <span className="text-emerald-400 font-mono w-16">Has:</span>
-                        <span className="text-gray-300">{selectedFilterForModal.criteria.has}</span>
+                    {getOtherCriteria(selectedFilterForModal).map((part) => (
+                      <div key={part} className="flex items-center gap-3">
+                        <span className="text-gray-300">{part}</span>
                       </div>
-                    )}
-                    {selectedFilterForModal.criteria.size && selectedFilterForModal.criteria.sizeOperator && (
+                    ))}
+                    {describeCriteria(fromGmailFilter(selectedFilterForModal).criteria).length === 0 && (
                       <div className="flex items-center gap-3">
-                        <span className="text-emerald-400 font-mono w-16">Size:</span>
-                        <span className="text-gray-300">
-                          {selectedFilterForModal.criteria.sizeOperator} {selectedFilterForModal.criteria.size}
-                        </span>
+                        <span className="text-emerald-400 font-mono">Any email</span>
                       </div>
                     )}
-                    {!selectedFilterForModal.criteria.from &&
-                      !selectedFilterForModal.criteria.to &&
-                      !selectedFilterForModal.criteria.subject &&
-                      !selectedFilterForModal.criteria.query &&
-                      !selectedFilterForModal.criteria.has &&
-                      !(selectedFilterForModal.criteria.size && selectedFilterForModal.criteria.sizeOperator) && (
-                        <div className="flex items-center gap-3">
-                          <span className="text-emerald-400 font-mono">Any email</span>
-                        </div>
-                      )}
                   </div>
                 </div>
 
                 <div>
                   <h3 className="text-lg font-semibold text-white mb-3">🏷️ Labels Applied</h3>
                   <div className="flex flex-wrap gap-2">
-                    {selectedFilterForModal.action.addLabelIds &&
-                    selectedFilterForModal.action.addLabelIds.length > 0 ? (
-                      selectedFilterForModal.action.addLabelIds.map((labelId) => {
+                    {getUserLabelIds(selectedFilterForModal).length > 0 ? (
+                      getUserLabelIds(selectedFilterForModal).map((labelId) => {
                         const label = labels.find((l) => l.id === labelId);
                         return (
                           <Chip
@@ -959,6 +1871,19 @@ export default function LabelRulesPage() {
                   </div>
                 </div>
 
+                {getOtherActions(selectedFilterForModal).length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-semibold text-white mb-3">⚙️ Other Actions</h3>
+                    <div className="space-y-1">
+                      {getOtherActions(selectedFilterForModal).map((action) => (
+                        <div key={action} className="text-gray-300">
+                          {action}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="text-xs text-gray-500 bg-gray-900 p-3 rounded">
                   <strong>Gmail Filter ID:</strong> {selectedFilterForModal.id}
                 </div>
@@ -978,7 +1903,11 @@ export default function LabelRulesPage() {
       </Drawer>
 
       {/* Create Label Rule Drawer */}
-      <Drawer isOpen={createDrawerOpen} onOpenChange={setCreateDrawerOpen} placement="right">
+      <Drawer
+        isOpen={createDrawerOpen}
+        onOpenChange={(open) => (open ? setCreateDrawerOpen(true) : closeRuleDrawer())}
+        placement="right"
+      >
         <DrawerContent className="bg-gradient-to-br from-background to-background/95 border-l border-default-200/50 shadow-2xl">
           <DrawerHeader className="bg-gradient-to-r from-primary/10 to-secondary/10 border-b border-default-200/30">
             <div className="flex items-center gap-3">
@@ -986,7 +1915,9 @@ export default function LabelRulesPage() {
                 <span className="text-xl">🏷️</span>
               </div>
               <div>
-                <h2 className="text-xl font-bold text-foreground">Create Label Rule</h2>
+                <h2 className="text-xl font-bold text-foreground">
+                  {editingFilter ? "Edit Label Rule" : "Create Label Rule"}
+                </h2>
                 <p className="text-sm text-default-600">Automate email organization with smart filters</p>
               </div>
             </div>
@@ -1153,6 +2084,81 @@ export default function LabelRulesPage() {
                       startContent={<span className="text-default-400">🔍</span>}
                     />
                   </div>
+
+                  {/* Words and other criteria */}
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-primary">🔎</span>
+                      <h4 className="text-sm font-medium text-foreground">Search Words</h4>
+                    </div>
+                    <Input
+                      label="Has the words"
+                      placeholder="Any Gmail search, e.g. invoice OR receipt"
+                      value={formData.query}
+                      onChange={(e) => setFormData({ ...formData, query: e.target.value })}
+                      onBlur={() => normalizeQueryField("query")}
+                      isInvalid={!!getQueryError(formData.query)}
+                      errorMessage={getQueryError(formData.query)}
+                      className="text-foreground"
+                      labelPlacement="outside"
+                      variant="bordered"
+                    />
+                    <Input
+                      label="Doesn't have"
+                      placeholder="Words that exclude a message"
+                      value={formData.negatedQuery}
+                      onChange={(e) => setFormData({ ...formData, negatedQuery: e.target.value })}
+                      onBlur={() => normalizeQueryField("negatedQuery")}
+                      isInvalid={!!getQueryError(formData.negatedQuery)}
+                      errorMessage={getQueryError(formData.negatedQuery)}
+                      className="text-foreground"
+                      labelPlacement="outside"
+                      variant="bordered"
+                    />
+                    <div className="flex flex-wrap gap-6">
+                      <Checkbox
+                        isSelected={formData.hasAttachment}
+                        onValueChange={(checked) => setFormData({ ...formData, hasAttachment: checked })}
+                      >
+                        <span className="text-sm text-default-700">Has attachment</span>
+                      </Checkbox>
+                      <Checkbox
+                        isSelected={formData.excludeChats}
+                        onValueChange={(checked) => setFormData({ ...formData, excludeChats: checked })}
+                      >
+                        <span className="text-sm text-default-700">Don&apos;t include chats</span>
+                      </Checkbox>
+                    </div>
+                    <div className="flex items-end gap-3">
+                      <Select
+                        label="Size"
+                        selectedKeys={[formData.sizeComparison]}
+                        onSelectionChange={(keys) =>
+                          setFormData({
+                            ...formData,
+                            sizeComparison: (Array.from(keys)[0] as SizeComparison) || "larger",
+                          })
+                        }
+                        labelPlacement="outside"
+                        variant="bordered"
+                        className="max-w-40"
+                      >
+                        <SelectItem key="larger">Greater than</SelectItem>
+                        <SelectItem key="smaller">Less than</SelectItem>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.1"
+                        placeholder="Size in MB"
+                        value={formData.sizeMb}
+                        onChange={(e) => setFormData({ ...formData, sizeMb: e.target.value })}
+                        labelPlacement="outside"
+                        variant="bordered"
+                        endContent={<span className="text-default-400 text-sm">MB</span>}
+                      />
+                    </div>
+                  </div>
                 </div>
               </div>
 
@@ -1288,6 +2294,150 @@ export default function LabelRulesPage() {
                 </div>
               </div>
 
+              {/* Other Actions Section */}
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-success/10 rounded-lg">
+                    <span className="text-success">⚙️</span>
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-foreground">Other Actions</h3>
+                    <p className="text-sm text-default-600">Everything else Gmail can do with matching emails</p>
+                  </div>
+                </div>
+
+                <div className="bg-content1/30 backdrop-blur-sm border border-default-200/50 rounded-xl p-6 space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <Checkbox
+                      isSelected={formData.markAsRead}
+                      onValueChange={(checked) => setFormData({ ...formData, markAsRead: checked })}
+                    >
+                      <span className="text-sm text-default-700">Mark as read</span>
+                    </Checkbox>
+                    <Checkbox
+                      isSelected={formData.star}
+                      onValueChange={(checked) => setFormData({ ...formData, star: checked })}
+                    >
+                      <span className="text-sm text-default-700">Star it</span>
+                    </Checkbox>
+                    <Checkbox
+                      isSelected={formData.neverSpam}
+                      onValueChange={(checked) => setFormData({ ...formData, neverSpam: checked })}
+                    >
+                      <span className="text-sm text-default-700">Never send to spam</span>
+                    </Checkbox>
+                    <Checkbox
+                      isSelected={formData.trash}
+                      onValueChange={(checked) => setFormData({ ...formData, trash: checked })}
+                      color="danger"
+                    >
+                      <span className="text-sm text-default-700">Delete it</span>
+                    </Checkbox>
+                  </div>
+
+                  <Select
+                    label="Importance"
+                    selectedKeys={[formData.important || "unchanged"]}
+                    onSelectionChange={(keys) => {
+                      const key = Array.from(keys)[0];
+                      setFormData({ ...formData, important: key === "always" || key === "never" ? key : "" });
+                    }}
+                    labelPlacement="outside"
+                    variant="bordered"
+                  >
+                    <SelectItem key="unchanged">Leave to Gmail</SelectItem>
+                    <SelectItem key="always">Always mark as important</SelectItem>
+                    <SelectItem key="never">Never mark as important</SelectItem>
+                  </Select>
+
+                  <Input
+                    label="Forward to"
+                    placeholder="A verified forwarding address"
+                    value={formData.forward}
+                    onChange={(e) => setFormData({ ...formData, forward: e.target.value })}
+                    labelPlacement="outside"
+                    variant="bordered"
+                    description="Gmail only accepts addresses verified under Settings → Forwarding"
+                  />
+
+                  <Select
+                    label="Remove labels"
+                    placeholder="Labels to take off matching emails"
+                    selectionMode="multiple"
+                    selectedKeys={formData.removeLabels}
+                    onSelectionChange={(keys) => setFormData({ ...formData, removeLabels: Array.from(keys, String) })}
+                    labelPlacement="outside"
+                    variant="bordered"
+                  >
+                    {labels
+                      .filter((label) => label.type !== "system")
+                      .map((label) => (
+                        <SelectItem key={label.id}>{label.name}</SelectItem>
+                      ))}
+                  </Select>
+                </div>
+              </div>
+
+              {/* Dry-run Preview */}
+              {preview && (
+                <div className="bg-default-50 border border-default-200/50 rounded-xl p-6 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold text-foreground">🔍 Matches in your mailbox</h4>
+                    <Chip size="sm" variant="flat" color={preview.estimatedCount > 0 ? "primary" : "default"}>
+                      {preview.exact ? "" : "~"}
+                      {preview.estimatedCount.toLocaleString()} messages
+                    </Chip>
+                  </div>
+                  <p className="text-xs text-default-500 font-mono break-all">{preview.query}</p>
+                  {preview.source === "index" && (
+                    <p className="text-xs text-default-500">
+                      Based on {(preview.indexed || 0).toLocaleString()} scanned messages
+                      {preview.uncertain
+                        ? `; ${preview.uncertain.toLocaleString()} more may match on body text or attachments`
+                        : ""}
+                      .
+                    </p>
+                  )}
+
+                  {(preview.labelsAdded.length > 0 || preview.labelsRemoved.length > 0) && (
+                    <div className="flex flex-wrap gap-2">
+                      {preview.labelsAdded.map((label) => (
+                        <Chip key={`add-${label.id}`} size="sm" variant="flat" color="success">
+                          + {label.name}
+                        </Chip>
+                      ))}
+                      {preview.labelsRemoved.map((label) => (
+                        <Chip key={`remove-${label.id}`} size="sm" variant="flat" color="warning">
+                          − {label.name}
+                        </Chip>
+                      ))}
+                      {preview.forward && (
+                        <Chip size="sm" variant="flat" color="secondary">
+                          → {preview.forward}
+                        </Chip>
+                      )}
+                    </div>
+                  )}
+
+                  {preview.samples.length > 0 ? (
+                    <div className="space-y-2">
+                      {preview.samples.map((sample) => (
+                        <div key={sample.id} className="text-sm border-b border-default-200/30 pb-2 last:border-0">
+                          <p className="text-foreground truncate">{sample.subject || "(no subject)"}</p>
+                          <p className="text-xs text-default-500 truncate">
+                            {sample.from} · {sample.date ? new Date(sample.date).toLocaleDateString() : ""}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-default-500">
+                      No existing messages match. The rule will only apply to new mail.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Summary Card */}
               <div className="bg-gradient-to-r from-primary/5 to-secondary/5 border border-primary/20 rounded-xl p-6">
                 <div className="flex items-start gap-3">
@@ -1309,14 +2459,32 @@ export default function LabelRulesPage() {
           <DrawerFooter className="bg-gradient-to-r from-background to-background/95 border-t border-default-200/30">
             <Button
               variant="ghost"
-              onPress={() => setCreateDrawerOpen(false)}
+              onPress={closeRuleDrawer}
               className="text-default-600 hover:text-foreground hover:bg-default/10"
               disabled={creating}
             >
               Cancel
             </Button>
             <Button
-              onPress={() => handleCreateLabelRule()}
+              variant="bordered"
+              onPress={() => handlePreviewLabelRule(true)}
+              isLoading={previewing}
+              disabled={creating}
+              size="lg"
+            >
+              ⚡ Instant Preview
+            </Button>
+            <Button
+              variant="bordered"
+              onPress={() => handlePreviewLabelRule()}
+              isLoading={previewing}
+              disabled={creating}
+              size="lg"
+            >
+              🔍 Preview Matches
+            </Button>
+            <Button
+              onPress={() => (preview ? handleCreateLabelRule() : handlePreviewLabelRule())}
               className="bg-gradient-to-r from-primary to-secondary hover:from-primary/80 hover:to-secondary/80 text-white shadow-lg hover:shadow-xl transition-all duration-300"
               disabled={creating}
               size="lg"
@@ -1324,12 +2492,18 @@ export default function LabelRulesPage() {
               {creating ? (
                 <div className="flex items-center gap-2">
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                  Creating Rule...
+                  {editingFilter ? "Saving Rule..." : "Creating Rule..."}
                 </div>
               ) : (
                 <div className="flex items-center gap-2">
                   <span>⚡</span>
-                  Create Automation Rule
+                  {preview
+                    ? editingFilter
+                      ? "Save Changes"
+                      : "Create Automation Rule"
+                    : editingFilter
+                      ? "Preview & Save"
+                      : "Preview & Create"}
                 </div>
               )}
             </Button>
@@ -1337,6 +2511,295 @@ export default function LabelRulesPage() {
         </DrawerContent>
       </Drawer>
 
+      {/* Import Filters Drawer */}
+      <Drawer isOpen={importDrawerOpen} onOpenChange={setImportDrawerOpen} placement="right" size="lg">
+        <DrawerContent className="bg-gray-800 border-l border-gray-600">
+          <DrawerHeader className="text-white bg-gray-800">⬆️ Import mailFilters.xml</DrawerHeader>
+          <DrawerBody className="bg-gray-800">
+            <p className="text-sm text-gray-300 mb-4">
+              Choose a filters file exported from Gmail (Settings → Filters and Blocked Addresses → Export) or from this
+              page. Each filter is compared with your Gmail filters and saved drafts before anything is created.
+            </p>
+            <input
+              type="file"
+              accept=".xml,application/xml,application/atom+xml"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+              className="text-sm text-gray-300 mb-4"
+            />
+
+            {importEntries.length > 0 && (
+              <div className="space-y-2">
+                {importEntries.map((entry) => (
+                  <div key={entry.index} className="flex items-start gap-3 p-3 bg-gray-900 rounded-lg">
+                    <Checkbox
+                      isSelected={!importExcluded.has(entry.index)}
+                      onValueChange={(checked) => {
+                        const excluded = new Set(importExcluded);
+                        if (checked) {
+                          excluded.delete(entry.index);
+                        } else {
+                          excluded.add(entry.index);
+                        }
+                        setImportExcluded(excluded);
+                      }}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Chip size="sm" variant="flat" color={IMPORT_STATUS_COLORS[entry.status]}>
+                          {entry.status}
+                        </Chip>
+                        {entry.labelNames.map((name) => (
+                          <Chip key={name} size="sm" variant="flat" className="text-xs">
+                            {name}
+                          </Chip>
+                        ))}
+                      </div>
+                      <p className="text-sm text-gray-300">{describeCriteria(entry.criteria).join(", ")}</p>
+                      {describeActions(entry.actions).length > 0 && (
+                        <p className="text-xs text-gray-400">{describeActions(entry.actions).join(", ")}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </DrawerBody>
+          <DrawerFooter className="bg-gray-800 border-t border-gray-600">
+            <Button
+              variant="ghost"
+              onPress={() => setImportDrawerOpen(false)}
+              className="text-gray-300 hover:text-white hover:bg-gray-600"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="flat"
+              isDisabled={importEntries.length === 0}
+              isLoading={importing}
+              onPress={() => handleImport("draft")}
+            >
+              Save as Drafts
+            </Button>
+            <Button
+              color="success"
+              isDisabled={importEntries.length === 0}
+              isLoading={importing}
+              onPress={() => handleImport("publish")}
+            >
+              Publish to Gmail
+            </Button>
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+
+      {/* Label Tree Drawer */}
+      <Drawer isOpen={labelTreeOpen} onOpenChange={setLabelTreeOpen} placement="right" size="lg">
+        <DrawerContent className="bg-gray-800 border-l border-gray-600">
+          <DrawerHeader className="text-white bg-gray-800">🗂️ Label Tree</DrawerHeader>
+          <DrawerBody className="bg-gray-800">
+            <p className="text-sm text-gray-300 mb-2">
+              Drag a label onto another to nest it there, or onto the top level to un-nest it. Nested labels move and
+              rename along with their parent.
+            </p>
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId("");
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={() => handleDropLabel(null)}
+              className={`p-2 mb-2 rounded-lg border border-dashed text-xs text-center ${
+                dropTargetId === "" ? "border-primary text-primary" : "border-gray-600 text-gray-400"
+              }`}
+            >
+              ⬆️ Top level
+            </div>
+            <div className="space-y-1">
+              {labelTree.map((label) => (
+                <div key={label.id} className="space-y-1">
+                  <div
+                    draggable={!labelTreeBusy}
+                    onDragStart={() => setDraggedLabelId(label.id)}
+                    onDragEnd={() => {
+                      setDraggedLabelId(null);
+                      setDropTargetId(null);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTargetId(label.id);
+                    }}
+                    onDrop={(e) => {
+                      e.stopPropagation();
+                      handleDropLabel(label.id);
+                    }}
+                    style={{ paddingLeft: `${label.depth * 1.25 + 0.5}rem` }}
+                    className={`flex items-center gap-2 py-1 pr-2 rounded-lg cursor-grab ${
+                      dropTargetId === label.id && draggedLabelId !== label.id
+                        ? "bg-primary/20 ring-1 ring-primary"
+                        : "bg-gray-900"
+                    } ${draggedLabelId === label.id ? "opacity-50" : ""}`}
+                  >
+                    {renamingLabel?.id === label.id ? (
+                      <Input
+                        size="sm"
+                        autoFocus
+                        value={renamingLabel.name}
+                        onChange={(e) => setRenamingLabel({ id: label.id, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRenameLabel();
+                          if (e.key === "Escape") setRenamingLabel(null);
+                        }}
+                        onBlur={handleRenameLabel}
+                        variant="bordered"
+                        className="flex-1"
+                      />
+                    ) : (
+                      <span className="flex-1 text-sm text-gray-200">🏷️ {label.leafName}</span>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="light"
+                      isIconOnly
+                      isDisabled={labelTreeBusy}
+                      onPress={() => setRenamingLabel({ id: label.id, name: label.leafName })}
+                      aria-label={`Rename ${label.name}`}
+                    >
+                      ✏️
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="light"
+                      isIconOnly
+                      isDisabled={labelTreeBusy}
+                      onPress={() =>
+                        setMergingLabel(mergingLabel?.id === label.id ? null : { id: label.id, targetId: "" })
+                      }
+                      aria-label={`Merge ${label.name}`}
+                    >
+                      🔀
+                    </Button>
+                  </div>
+                  {mergingLabel?.id === label.id && (
+                    <div className="flex items-end gap-2 p-3 bg-gray-900 rounded-lg">
+                      <Select
+                        label={`Merge "${label.name}" into`}
+                        selectedKeys={mergingLabel.targetId ? [mergingLabel.targetId] : []}
+                        onSelectionChange={(keys) =>
+                          setMergingLabel({ id: label.id, targetId: (Array.from(keys)[0] as string) || "" })
+                        }
+                        labelPlacement="outside"
+                        variant="bordered"
+                        size="sm"
+                      >
+                        {labelTree
+                          .filter((target) => target.id !== label.id)
+                          .map((target) => (
+                            <SelectItem key={target.id}>{target.name}</SelectItem>
+                          ))}
+                      </Select>
+                      <Button
+                        size="sm"
+                        color="warning"
+                        variant="flat"
+                        isDisabled={!mergingLabel.targetId}
+                        isLoading={labelTreeBusy}
+                        onPress={handleMergeLabel}
+                      >
+                        Merge
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </DrawerBody>
+          <DrawerFooter className="bg-gray-800 border-t border-gray-600">
+            <Button
+              variant="ghost"
+              onPress={() => setLabelTreeOpen(false)}
+              className="text-gray-300 hover:text-white hover:bg-gray-600"
+            >
+              Close
+            </Button>
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+
+      {/* Rule History Drawer */}
+      <Drawer isOpen={historyDrawerOpen} onOpenChange={setHistoryDrawerOpen} placement="right" size="lg">
+        <DrawerContent className="bg-gray-800 border-l border-gray-600">
+          <DrawerHeader className="text-white bg-gray-800">🕘 Rule History</DrawerHeader>
+          <DrawerBody className="bg-gray-800">
+            {historyVersions === null ? (
+              <div className="space-y-3">
+                <Skeleton className="h-16 rounded-lg" />
+                <Skeleton className="h-16 rounded-lg" />
+              </div>
+            ) : historyVersions.length === 0 ? (
+              <p className="text-sm text-gray-300">
+                This rule hasn&apos;t been edited yet. Every edit keeps the version it replaces here.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {historyVersions.map((version) => (
+                  <div key={version.version} className="p-3 bg-gray-900 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Chip size="sm" variant="flat">
+                          v{version.version}
+                        </Chip>
+                        <span className="text-xs text-gray-400">
+                          Replaced by{" "}
+                          {version.replacedBy === "rollback"
+                            ? "a rollback"
+                            : version.replacedBy === "adopt"
+                              ? "Gmail's version"
+                              : "an edit"}{" "}
+                          on {new Date(version.replacedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        isLoading={restoringVersion === version.version}
+                        isDisabled={restoringVersion !== null}
+                        onPress={() => handleRestoreVersion(version.version)}
+                      >
+                        ↩️ Restore
+                      </Button>
+                    </div>
+                    <p className="text-sm text-gray-300">{describeCriteria(version.criteria).join(", ")}</p>
+                    {version.changes.map((change) => (
+                      <div key={change.field} className="text-xs space-y-0.5">
+                        {change.removed.map((line) => (
+                          <p key={`removed-${line}`} className="text-danger">
+                            − {line}
+                          </p>
+                        ))}
+                        {change.added.map((line) => (
+                          <p key={`added-${line}`} className="text-success">
+                            + {line}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </DrawerBody>
+          <DrawerFooter className="bg-gray-800 border-t border-gray-600">
+            <Button
+              variant="ghost"
+              onPress={() => setHistoryDrawerOpen(false)}
+              className="text-gray-300 hover:text-white hover:bg-gray-600"
+            >
+              Close
+            </Button>
+          </DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+
       {/* Delete Label Rule Drawer */}
       <Drawer isOpen={deleteDrawerOpen} onOpenChange={setDeleteDrawerOpen} placement="right">
         <DrawerContent className="bg-gradient-to-br from-background to-background/95 border-l border-default-200/50 shadow-2xl">
@@ -1379,7 +2842,7 @@ export default function LabelRulesPage() {
                           <span className="text-foreground font-medium">Filter Criteria:</span>
                         </div>
                         <div className="bg-default/5 border border-default-200/30 rounded-lg p-3">
-                          <p className="text-sm text-default-700">{formatCriteria(selectedFilterForDelete.criteria)}</p>
+                          <p className="text-sm text-default-700">{formatCriteria(selectedFilterForDelete)}</p>
                         </div>
                       </div>
 
@@ -1389,7 +2852,7 @@ export default function LabelRulesPage() {
                           <span className="text-foreground font-medium">Labels Applied:</span>
                         </div>
                         <div className="flex flex-wrap gap-2">
-                          {selectedFilterForDelete.action.addLabelIds?.map((labelId) => {
+                          {getUserLabelIds(selectedFilterForDelete).map((labelId) => {
                             const label = labels.find((l) => l.id === labelId);
                             const isCustom = !label;
                             return (
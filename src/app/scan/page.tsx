@@ -9,6 +9,7 @@ import StepProgress from "@/components/StepProgress";
 interface IMAPProgress {
   hasProgress: boolean;
   lastMessageScanned: number;
+  uidValidity?: string;
   totalMessages: number;
   contactsFound: number;
   chunksCompleted: number;
@@ -333,7 +334,7 @@ export default function ScanPage() {
     if (scanMethod === "imap") {
       // For IMAP, check if there's progress to continue
       if (imapProgress?.hasProgress && !imapProgress?.isComplete) {
-        return `▶️ Continue IMAP Scan (from message ${imapProgress.lastMessageScanned + 1})`;
+        return `▶️ Continue IMAP Scan (after UID ${imapProgress.lastMessageScanned})`;
       } else if (imapProgress?.hasProgress && imapProgress?.isComplete) {
         return "🔄 Re-scan All Emails (IMAP)";
       } else {
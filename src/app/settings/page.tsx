@@ -3,11 +3,12 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@heroui/button";
-import { Input } from "@heroui/input";
+import { Input, Textarea } from "@heroui/input";
 import { Card, CardHeader, CardBody } from "@heroui/card";
 import { Switch } from "@heroui/switch";
 import { addToast } from "@heroui/toast";
 import { Alert } from "@heroui/alert";
+import type { AliasGroup, DomainRule } from "@/lib/contact-identity";
 
 interface IMAPSettings {
   enabled: boolean;
@@ -256,6 +257,8 @@ export default function SettingsPage() {
         </CardBody>
       </Card>
 
+      <ContactIdentitySettings />
+
       {/* Additional Settings Card */}
       <Card className="max-w-2xl mx-auto mt-8">
         <CardHeader>
@@ -270,3 +273,194 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+type AliasGroupDraft = {
+  canonical: string;
+  aliases: string; // One address per line or comma separated
+};
+
+function ContactIdentitySettings() {
+  const [domainRules, setDomainRules] = useState<DomainRule[]>([]);
+  const [defaultDomainRules, setDefaultDomainRules] = useState<DomainRule[]>([]);
+  const [aliasGroups, setAliasGroups] = useState<AliasGroupDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadIdentitySettings();
+  }, []);
+
+  const loadIdentitySettings = async () => {
+    try {
+      const res = await fetch("/api/gmail/settings/identity");
+      if (!res.ok) return;
+      const data = await res.json();
+      setDomainRules(data.domainRules);
+      setDefaultDomainRules(data.defaultDomainRules);
+      setAliasGroups(
+        data.aliasGroups.map((group: AliasGroup) => ({ canonical: group.canonical, aliases: group.aliases.join("\n") }))
+      );
+    } catch (error) {
+      console.error("Failed to load identity settings:", error);
+    }
+  };
+
+  const saveIdentitySettings = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/gmail/settings/identity", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          domainRules,
+          aliasGroups: aliasGroups.map((group) => ({
+            canonical: group.canonical,
+            aliases: group.aliases
+              .split(/[\s,]+/)
+              .map((alias) => alias.trim())
+              .filter(Boolean),
+          })),
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addToast({
+          title: "Save Failed",
+          description: data.details || data.error || "Failed to save identity settings",
+          color: "danger",
+        });
+        return;
+      }
+
+      addToast({
+        title: "Contact Identity Saved",
+        description:
+          data.mergedContacts > 0
+            ? `${data.mergedContacts} stored contacts were merged into their canonical address`
+            : "New scans will use these rules",
+        color: "success",
+      });
+      await loadIdentitySettings();
+    } catch (error) {
+      console.error("Save identity settings error:", error);
+      addToast({ title: "Save Failed", description: "Failed to save identity settings", color: "danger" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDomainRule = (index: number, update: Partial<DomainRule>) => {
+    setDomainRules(domainRules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)));
+  };
+
+  const updateAliasGroup = (index: number, update: Partial<AliasGroupDraft>) => {
+    setAliasGroups(aliasGroups.map((group, i) => (i === index ? { ...group, ...update } : group)));
+  };
+
+  return (
+    <Card className="max-w-2xl mx-auto mt-8">
+      <CardHeader>
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">🪪 Contact Identity</h2>
+          <p className="text-sm text-default-500 mt-1">Merge the different addresses one person writes from</p>
+        </div>
+      </CardHeader>
+      <CardBody className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="font-semibold text-lg">Alias Groups</h3>
+          <p className="text-sm text-default-600">
+            Every alias is shown and counted as the canonical address. Filters created from a contact match all of its
+            aliases.
+          </p>
+          {aliasGroups.map((group, index) => (
+            <div key={index} className="space-y-2 p-4 bg-default/5 rounded-lg border border-default-200">
+              <Input
+                label="Canonical address"
+                placeholder="john@example.com"
+                value={group.canonical}
+                onValueChange={(value) => updateAliasGroup(index, { canonical: value })}
+              />
+              <Textarea
+                label="Aliases"
+                placeholder={"john.doe@work.example\njohnny@example.org"}
+                value={group.aliases}
+                onValueChange={(value) => updateAliasGroup(index, { aliases: value })}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                color="danger"
+                onPress={() => setAliasGroups(aliasGroups.filter((_, i) => i !== index))}
+              >
+                Remove Group
+              </Button>
+            </div>
+          ))}
+          <Button variant="flat" onPress={() => setAliasGroups([...aliasGroups, { canonical: "", aliases: "" }])}>
+            ➕ Add Alias Group
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold text-lg">Domain Rules</h3>
+          <p className="text-sm text-default-600">
+            Built in:{" "}
+            {defaultDomainRules
+              .map((rule) => `${rule.domain}${rule.canonicalDomain ? ` → ${rule.canonicalDomain}` : ""}`)
+              .join(", ")}{" "}
+            ignore dots and anything after &quot;+&quot;. A rule for the same domain replaces the built-in one.
+          </p>
+          {domainRules.map((rule, index) => (
+            <div key={index} className="space-y-2 p-4 bg-default/5 rounded-lg border border-default-200">
+              <div className="flex gap-2">
+                <Input
+                  label="Domain"
+                  placeholder="example.com"
+                  value={rule.domain}
+                  onValueChange={(value) => updateDomainRule(index, { domain: value })}
+                />
+                <Input
+                  label="Same mailbox as"
+                  placeholder="optional"
+                  value={rule.canonicalDomain || ""}
+                  onValueChange={(value) => updateDomainRule(index, { canonicalDomain: value || undefined })}
+                />
+              </div>
+              <div className="flex gap-4 items-center">
+                <Input
+                  label="Subaddress separator"
+                  placeholder="+"
+                  maxLength={1}
+                  className="max-w-48"
+                  value={rule.subaddressSeparator || ""}
+                  onValueChange={(value) => updateDomainRule(index, { subaddressSeparator: value || undefined })}
+                />
+                <Switch
+                  isSelected={!!rule.ignoreDots}
+                  onValueChange={(value) => updateDomainRule(index, { ignoreDots: value })}
+                >
+                  Ignore dots
+                </Switch>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  color="danger"
+                  onPress={() => setDomainRules(domainRules.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="flat" onPress={() => setDomainRules([...domainRules, { domain: "", ignoreDots: false }])}>
+            ➕ Add Domain Rule
+          </Button>
+        </div>
+
+        <Button color="primary" onPress={saveIdentitySettings} isLoading={saving} className="w-full">
+          {saving ? "Saving..." : "💾 Save Contact Identity"}
+        </Button>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Table, TableHeader, TableBody, TableColumn, TableRow, TableCell } from "@heroui/table";
+import { Chip } from "@heroui/chip";
+import { Checkbox } from "@heroui/checkbox";
+import { Button } from "@heroui/button";
+import { Skeleton } from "@heroui/skeleton";
+import { addToast } from "@heroui/toast";
+import { useRouter } from "next/navigation";
+import type { Selection } from "@heroui/react";
+import type { SenderCategory } from "@/lib/sender-classification";
+import type { UnsubscribeInfo, UnsubscribeOutcome } from "@/lib/unsubscribe";
+
+type UnsubscribeAttempt = UnsubscribeOutcome & {
+  id: string;
+  address: string;
+  attemptedAt: string;
+};
+
+interface ListSender {
+  email: string;
+  displayName?: string;
+  category: SenderCategory;
+  messageCount: number;
+  lastSeen?: string;
+  unsubscribe: UnsubscribeInfo;
+  lastAttempt: UnsubscribeAttempt | null;
+}
+
+interface UnsubscribeResponse {
+  results: UnsubscribeAttempt[];
+  succeeded: number;
+  failed: number;
+  manual: number;
+}
+
+// Label applied by the archive rule, created by /api/gmail/filters if it doesn't exist
+const ARCHIVE_LABEL = "Unsubscribed";
+const UNSUBSCRIBE_BATCH = 50; // The API's per-request limit
+
+const METHOD_LABELS: Record<string, string> = {
+  one_click: "One-click",
+  mailto: "Email",
+  link: "Link",
+};
+
+const STATUS_COLORS: Record<string, "success" | "danger" | "warning"> = {
+  succeeded: "success",
+  failed: "danger",
+  manual: "warning",
+};
+
+function describeMethod(info: UnsubscribeInfo): string {
+  if (info.oneClick) return METHOD_LABELS.one_click;
+  if (info.mailto) return METHOD_LABELS.mailto;
+  return METHOD_LABELS.link;
+}
+
+export default function UnsubscribePage() {
+  const router = useRouter();
+  const [senders, setSenders] = useState<ListSender[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Selection>(new Set([]));
+  const [archiveFuture, setArchiveFuture] = useState(true);
+  const [unsubscribing, setUnsubscribing] = useState(false);
+
+  const checkAuth = useCallback(async () => {
+    try {
+      const res = await fetch("/api/gmail/data");
+      if (res.status === 401) {
+        router.push(`/?error=${encodeURIComponent("Please connect your Gmail account to access this page.")}`);
+        return;
+      }
+    } catch {
+      router.push(`/?error=${encodeURIComponent("Authentication check failed.")}`);
+      return;
+    }
+    setAuthChecked(true);
+  }, [router]);
+
+  const loadSenders = async (cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/unsubscribe${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`);
+      if (!res.ok) {
+        setError("Unable to load mailing lists");
+        return;
+      }
+      const json = (await res.json()) as { senders: ListSender[]; nextCursor: string | null };
+      setSenders((previous) => (cursor ? [...previous, ...json.senders] : json.senders));
+      setNextCursor(json.nextCursor);
+    } catch {
+      setError("Unable to load mailing lists");
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    checkAuth();
+  }, [checkAuth]);
+
+  useEffect(() => {
+    if (authChecked) {
+      loadSenders();
+    }
+  }, [authChecked]);
+
+  const selectedAddresses =
+    selectedKeys === "all" ? senders.map((sender) => sender.email) : Array.from(selectedKeys, String);
+
+  // Uses the same flow as creating a label rule by hand
+  const createArchiveRule = async (address: string) => {
+    const response = await fetch("/api/gmail/filters", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        filter: {
+          criteria: { from: address },
+          action: { addLabelIds: [ARCHIVE_LABEL], removeLabelIds: ["INBOX"] },
+        },
+      }),
+    });
+    return response.ok;
+  };
+
+  const handleUnsubscribe = async () => {
+    if (selectedAddresses.length === 0) return;
+
+    setUnsubscribing(true);
+    try {
+      const result: UnsubscribeResponse = { results: [], succeeded: 0, failed: 0, manual: 0 };
+      for (let i = 0; i < selectedAddresses.length; i += UNSUBSCRIBE_BATCH) {
+        const response = await fetch("/api/unsubscribe", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ addresses: selectedAddresses.slice(i, i + UNSUBSCRIBE_BATCH) }),
+        });
+
+        if (!response.ok) {
+          const error = await response.json();
+          addToast({ title: `Failed to unsubscribe: ${error.details || error.error}`, color: "danger" });
+          break;
+        }
+
+        const batch = (await response.json()) as UnsubscribeResponse;
+        result.results.push(...batch.results);
+        result.succeeded += batch.succeeded;
+        result.failed += batch.failed;
+        result.manual += batch.manual;
+      }
+
+      let rulesCreated = 0;
+      if (archiveFuture) {
+        // Archive anything that still arrives, whether or not the sender honours the request
+        for (const attempt of result.results.filter((attempt) => attempt.status !== "failed")) {
+          if (await createArchiveRule(attempt.address)) rulesCreated++;
+        }
+      }
+
+      const parts = [`${result.succeeded} unsubscribed`];
+      if (result.manual > 0) parts.push(`${result.manual} need you to open a link`);
+      if (result.failed > 0) parts.push(`${result.failed} failed`);
+      if (archiveFuture) parts.push(`${rulesCreated} archive rules created`);
+      addToast({ title: parts.join(", "), color: result.failed > 0 ? "warning" : "success" });
+
+      // Show the new outcomes in place
+      const latest = new Map(result.results.map((attempt) => [attempt.address, attempt]));
+      setSenders((previous) =>
+        previous.map((sender) => ({ ...sender, lastAttempt: latest.get(sender.email) || sender.lastAttempt }))
+      );
+      setSelectedKeys(new Set([]));
+    } catch (err) {
+      console.error("Error unsubscribing:", err);
+      addToast({ title: "Failed to unsubscribe. Please try again.", color: "danger" });
+    } finally {
+      setUnsubscribing(false);
+    }
+  };
+
+  const renderStatus = (sender: ListSender) => {
+    const attempt = sender.lastAttempt;
+    if (!attempt) return <span className="text-xs text-default-400">Not attempted</span>;
+
+    return (
+      <div className="flex flex-col gap-1">
+        <Chip size="sm" variant="flat" color={STATUS_COLORS[attempt.status]}>
+          {attempt.status === "manual" ? "Open link" : attempt.status}
+        </Chip>
+        {attempt.status === "manual" && (
+          <a href={attempt.target} target="_blank" rel="noopener noreferrer" className="text-xs text-primary underline">
+            Unsubscribe page
+          </a>
+        )}
+        {attempt.error && <span className="text-xs text-danger">{attempt.error}</span>}
+        <span className="text-xs text-default-400">{new Date(attempt.attemptedAt).toLocaleDateString()}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto relative">
+      <div className="mb-12 text-center">
+        <h1 className="text-5xl font-bold text-foreground mb-4 bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+          Unsubscribe Center
+        </h1>
+        <p className="text-xl text-default-600 max-w-3xl mx-auto">
+          Mailing lists and newsletters that offer an unsubscribe option, busiest first. One-click senders are
+          unsubscribed directly; others get an unsubscribe email sent from your account.
+        </p>
+        <div className="w-24 h-1 bg-gradient-to-r from-primary to-secondary mx-auto mt-4 rounded-full"></div>
+      </div>
+
+      {/* Actions */}
+      <div className="mb-8 flex flex-col sm:flex-row gap-4 sm:gap-6 justify-center items-center">
+        <Checkbox isSelected={archiveFuture} onValueChange={setArchiveFuture}>
+          <span className="text-sm text-default-600">Archive future mail from these senders</span>
+        </Checkbox>
+        <Button
+          variant="solid"
+          color="danger"
+          isDisabled={selectedAddresses.length === 0}
+          isLoading={unsubscribing}
+          onPress={handleUnsubscribe}
+        >
+          Unsubscribe ({selectedAddresses.length})
+        </Button>
+        <Button
+          variant="ghost"
+          className="text-default-600 hover:text-foreground hover:bg-default/10 transition-all duration-300"
+          onPress={() => loadSenders()}
+        >
+          ⟳ Refresh
+        </Button>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="mb-8 p-6 bg-danger/10 border border-danger/30 rounded-lg backdrop-blur-sm text-danger">
+          <div className="flex items-center gap-3">
+            <span className="text-lg">⚠️</span>
+            <span className="font-medium">Error: {error}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-8">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 6 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : senders.length > 0 ? (
+          <>
+            <Table
+              aria-label="Mailing list senders"
+              classNames={{
+                th: "bg-default/20 text-foreground border-b border-default-200",
+                td: "text-default-600 border-b border-default/20 hover:bg-default/10 transition-colors",
+                tbody: "bg-default/5",
+              }}
+              selectedKeys={selectedKeys}
+              selectionMode="multiple"
+              onSelectionChange={setSelectedKeys}
+            >
+              <TableHeader>
+                <TableColumn key="sender">SENDER</TableColumn>
+                <TableColumn key="messages">MESSAGES</TableColumn>
+                <TableColumn key="method">METHOD</TableColumn>
+                <TableColumn key="status">LAST ATTEMPT</TableColumn>
+              </TableHeader>
+              <TableBody items={senders}>
+                {(sender) => (
+                  <TableRow key={sender.email}>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-sm text-foreground">{sender.displayName || sender.email}</span>
+                        {sender.displayName && <span className="text-xs text-default-500">{sender.email}</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="text-sm">{sender.messageCount.toLocaleString()}</span>
+                        {sender.lastSeen && (
+                          <span className="text-xs text-default-400">
+                            last {new Date(sender.lastSeen).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="sm" variant="flat" color={sender.unsubscribe.oneClick ? "success" : "primary"}>
+                        {describeMethod(sender.unsubscribe)}
+                      </Chip>
+                    </TableCell>
+                    <TableCell>{renderStatus(sender)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            {nextCursor && (
+              <div className="flex justify-center mt-4">
+                <Button variant="flat" isLoading={loadingMore} onPress={() => loadSenders(nextCursor)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-16">
+            <div className="text-sm text-default-500">
+              No mailing lists with an unsubscribe option found. Scan your inbox to collect them.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,12 @@ export default function FABMenu() {
       url: "/scan",
       color: "bg-blue-500 hover:bg-blue-600",
     },
+    {
+      label: "Unsubscribe",
+      icon: "📭",
+      url: "/unsubscribe",
+      color: "bg-red-500 hover:bg-red-600",
+    },
     {
       label: "Settings",
       icon: "⚙️",
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import {
+  CredentialsError,
+  decryptCredentials,
+  encryptCredentials,
+  getMasterKey,
+  refreshStoredCredentials,
+} from "../credentials";
+
+describe("Credential vault", () => {
+  const masterKey = crypto.randomBytes(32);
+
+  it("should decrypt what it encrypted", () => {
+    const encrypted = encryptCredentials("user@example.com", "1//refresh-token", masterKey);
+
+    expect(encrypted.encryptedToken).not.toContain("refresh-token");
+    expect(decryptCredentials("user@example.com", encrypted, masterKey)).toBe("1//refresh-token");
+  });
+
+  it("should use a new data key each time", () => {
+    const first = encryptCredentials("user@example.com", "1//refresh-token", masterKey);
+    const second = encryptCredentials("user@example.com", "1//refresh-token", masterKey);
+
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(first.encryptedToken).not.toBe(second.encryptedToken);
+    expect(first.masterKeyId).toBe(second.masterKeyId);
+  });
+
+  it("should not decrypt credentials for another account", () => {
+    const encrypted = encryptCredentials("user@example.com", "1//refresh-token", masterKey);
+
+    expect(() => decryptCredentials("other@example.com", encrypted, masterKey)).toThrow();
+  });
+
+  it("should reject credentials stored with another master key", () => {
+    const encrypted = encryptCredentials("user@example.com", "1//refresh-token", masterKey);
+
+    try {
+      decryptCredentials("user@example.com", encrypted, crypto.randomBytes(32));
+      throw new Error("Expected decryption to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(CredentialsError);
+      expect((error as CredentialsError).reason).toBe("key_mismatch");
+    }
+  });
+
+  it("should require a 32 byte master key", () => {
+    const original = process.env.CREDENTIALS_MASTER_KEY;
+
+    process.env.CREDENTIALS_MASTER_KEY = crypto.randomBytes(16).toString("base64");
+    expect(() => getMasterKey()).toThrow("CREDENTIALS_MASTER_KEY");
+
+    process.env.CREDENTIALS_MASTER_KEY = masterKey.toString("base64");
+    expect(getMasterKey().equals(masterKey)).toBe(true);
+
+    if (original === undefined) delete process.env.CREDENTIALS_MASTER_KEY;
+    else process.env.CREDENTIALS_MASTER_KEY = original;
+  });
+
+  describe("refreshStoredCredentials", () => {
+    const { getFirestore } = jest.requireMock("../firestore");
+    const original = process.env.CREDENTIALS_MASTER_KEY;
+
+    const mockStored = (data: object | null) => {
+      const set = jest.fn().mockResolvedValue(undefined);
+      const get = jest.fn().mockResolvedValue({ exists: !!data, data: () => data });
+      getFirestore.mockReturnValue({ collection: () => ({ doc: () => ({ get, set }) }) });
+      return set;
+    };
+
+    afterEach(() => {
+      if (original === undefined) delete process.env.CREDENTIALS_MASTER_KEY;
+      else process.env.CREDENTIALS_MASTER_KEY = original;
+    });
+
+    it("should keep a revocation until the account signs in again", async () => {
+      const set = mockStored({ email: "user@example.com", revokedAt: "2024-06-01T00:00:00.000Z" });
+      process.env.CREDENTIALS_MASTER_KEY = masterKey.toString("base64");
+
+      await expect(refreshStoredCredentials("user@example.com", "1//refresh-token")).resolves.toBe(false);
+      expect(set).not.toHaveBeenCalled();
+    });
+
+    it("should store the token of accounts that didn't revoke it", async () => {
+      const set = mockStored(null);
+      process.env.CREDENTIALS_MASTER_KEY = masterKey.toString("base64");
+
+      await expect(refreshStoredCredentials("user@example.com", "1//refresh-token")).resolves.toBe(true);
+      const stored = set.mock.calls[0][0];
+      expect(decryptCredentials("user@example.com", stored, masterKey)).toBe("1//refresh-token");
+    });
+
+    it("should not fail without a master key", async () => {
+      const set = mockStored(null);
+      delete process.env.CREDENTIALS_MASTER_KEY;
+      jest.spyOn(console, "warn").mockImplementationOnce(() => undefined);
+
+      await expect(refreshStoredCredentials("user@example.com", "1//refresh-token")).resolves.toBe(true);
+      expect(set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { analyzeFilters, criteriaCovers, type AnalyzedFilter } from "../filter-analysis";
+
+describe("Filter analysis", () => {
+  const labelNames = new Map([
+    ["INBOX", "INBOX"],
+    ["Label_1", "Receipts"],
+    ["Label_2", "Work"],
+  ]);
+
+  const rule = (id: string, overrides: Partial<AnalyzedFilter>): AnalyzedFilter => ({
+    id,
+    source: "gmail",
+    criteria: {},
+    actions: {},
+    labelIds: [],
+    ...overrides,
+  });
+
+  describe("criteriaCovers", () => {
+    it("should treat a domain as covering its addresses", () => {
+      expect(criteriaCovers({ from: "acme.com" }, { from: "bob@acme.com" })).toBe(true);
+      expect(criteriaCovers({ from: "@acme.com" }, { from: "bob@mail.acme.com OR alice@acme.com" })).toBe(true);
+      expect(criteriaCovers({ from: "bob@acme.com" }, { from: "acme.com" })).toBe(false);
+      expect(criteriaCovers({ from: "acme.com" }, { from: "bob@notacme.com" })).toBe(false);
+    });
+
+    it("should only cover narrower size and attachment constraints", () => {
+      expect(criteriaCovers({ from: "acme.com" }, { from: "acme.com", hasAttachment: true })).toBe(true);
+      expect(criteriaCovers({ from: "acme.com", hasAttachment: true }, { from: "acme.com" })).toBe(false);
+      expect(criteriaCovers({ size: 1000, sizeComparison: "larger" }, { size: 5000, sizeComparison: "larger" })).toBe(
+        true
+      );
+      expect(criteriaCovers({ from: "-acme.com" }, { from: "-acme.com OR bob@x.com" })).toBe(false);
+    });
+  });
+
+  describe("analyzeFilters", () => {
+    it("should flag identical rules and offer to delete the draft", () => {
+      const issues = analyzeFilters(
+        [
+          rule("gmail_1", { criteria: { from: "shop@acme.com" }, labelIds: ["Label_1"] }),
+          rule("draft_1", { source: "draft", criteria: { from: "shop@acme.com" }, labelIds: ["Label_1"] }),
+        ],
+        labelNames
+      );
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: "duplicate",
+          fix: { type: "delete", filterId: "draft_1", source: "draft" },
+        }),
+      ]);
+    });
+
+    it("should flag narrower rules a broader one makes redundant", () => {
+      const issues = analyzeFilters(
+        [
+          rule("broad", { criteria: { from: "acme.com" }, actions: { archive: true }, labelIds: ["Label_1"] }),
+          rule("narrow", { criteria: { from: "bob@acme.com" }, labelIds: ["Label_1"] }),
+        ],
+        labelNames
+      );
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: "subsumed",
+          filterIds: ["narrow", "broad"],
+          fix: { type: "delete", filterId: "narrow", source: "gmail" },
+        }),
+      ]);
+    });
+
+    it("should report contradictory actions between overlapping rules", () => {
+      const issues = analyzeFilters(
+        [
+          rule("broad", { criteria: { from: "acme.com" }, actions: { archive: true } }),
+          rule("narrow", { criteria: { from: "bob@acme.com" }, labelIds: ["Label_2"] }),
+          rule("other", {
+            criteria: { from: "bob@acme.com", subject: "Urgent" },
+            actions: { removeLabelIds: ["Label_2"] },
+          }),
+        ],
+        labelNames
+      );
+
+      expect(issues.map((issue) => [issue.type, issue.filterIds])).toEqual([
+        ["conflict", ["narrow", "broad"]],
+        ["conflict", ["other", "broad"]],
+        ["conflict", ["other", "narrow"]],
+      ]);
+      expect(issues[0].message).toContain("one archives and the other keeps mail in the inbox");
+      expect(issues[2].message).toContain('adds "Work" and the other removes it');
+    });
+
+    it("should report references to deleted labels first", () => {
+      const issues = analyzeFilters(
+        [
+          rule("a", { criteria: { from: "a@x.com" }, labelIds: ["Label_1"] }),
+          rule("b", { criteria: { to: "b@x.com" }, labelIds: ["Label_1", "Label_9"] }),
+        ],
+        labelNames
+      );
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: "missing_label",
+          severity: "error",
+          fix: { type: "remove_labels", filterId: "b", source: "gmail", labelIds: ["Label_9"] },
+        }),
+      ]);
+    });
+  });
+});
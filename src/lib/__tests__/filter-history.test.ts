@@ -0,0 +1,191 @@
+import { diffFilterVersions, reviseFilter, versionToRevision } from "../filter-history";
+import type { GmailFilter, GmailFilterVersion } from "../firestore";
+
+jest.mock("../firestore", () => ({
+  loadLabels: jest.fn().mockResolvedValue([]),
+  saveFilter: jest.fn(),
+  saveFilterVersion: jest.fn(),
+}));
+
+describe("Filter history", () => {
+  const firestore = jest.requireMock("../firestore");
+
+  const published: GmailFilter = {
+    id: "rule_1",
+    name: "Receipts",
+    criteria: { from: "shop@acme.com" },
+    actions: { archive: true },
+    labelIds: ["Label_1"],
+    gmailId: "gmail_1",
+    version: 2,
+    status: "published",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-02-01T00:00:00.000Z",
+  };
+
+  const createGmail = () => ({
+    users: {
+      labels: {
+        list: jest.fn().mockResolvedValue({
+          data: {
+            labels: [
+              { id: "Label_1", name: "Receipts" },
+              { id: "Label_2", name: "Finance" },
+            ],
+          },
+        }),
+        create: jest.fn().mockResolvedValue({ data: { id: "Label_3" } }),
+      },
+      settings: {
+        filters: {
+          create: jest.fn().mockResolvedValue({ data: { id: "gmail_2" } }),
+          delete: jest.fn().mockResolvedValue({}),
+        },
+      },
+    },
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("diffFilterVersions", () => {
+    it("should list the lines each version removed and added", () => {
+      const changes = diffFilterVersions(
+        published,
+        {
+          ...published,
+          criteria: { from: "shop@acme.com", hasAttachment: true },
+          actions: { archive: true, removeLabelIds: ["Label_2"] },
+          labelIds: [],
+        },
+        new Map([
+          ["Label_1", "Receipts"],
+          ["Label_2", "Finance"],
+        ])
+      );
+
+      expect(changes).toEqual([
+        { field: "criteria", removed: [], added: ["Has attachment"] },
+        { field: "labels", removed: ['Apply "Receipts"'], added: ['Remove "Finance"'] },
+      ]);
+      expect(diffFilterVersions(published, { ...published })).toEqual([]);
+    });
+  });
+
+  describe("versionToRevision", () => {
+    it("should recreate deleted labels by name and drop removals of deleted labels", () => {
+      const version: GmailFilterVersion = {
+        version: 1,
+        name: "Receipts",
+        criteria: { from: "shop@acme.com" },
+        actions: { removeLabelIds: ["Label_2", "Label_9"] },
+        labelIds: ["Label_1", "Label_8"],
+        labelNames: { Label_1: "Receipts", Label_8: "Invoices", Label_9: "Old" },
+        status: "published",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        replacedAt: "2024-02-01T00:00:00.000Z",
+        replacedBy: "edit",
+      };
+
+      expect(versionToRevision(version, new Set(["Label_1", "Label_2"]))).toEqual({
+        name: "Receipts",
+        criteria: { from: "shop@acme.com" },
+        actions: { removeLabelIds: ["Label_2"] },
+        labelIds: ["Label_1", "Invoices"],
+      });
+    });
+  });
+
+  describe("reviseFilter", () => {
+    it("should replace the Gmail filter and keep the previous version", async () => {
+      const gmail = createGmail();
+
+      const revised = await reviseFilter(gmail as any, "me@example.com", published, {
+        criteria: { from: "shop@acme.com", subject: "Receipt" },
+        actions: { archive: true },
+        labelIds: ["Label_1", "Shopping"],
+      });
+
+      expect(gmail.users.settings.filters.create).toHaveBeenCalledWith({
+        userId: "me",
+        requestBody: {
+          criteria: { from: "shop@acme.com", subject: "Receipt" },
+          action: { addLabelIds: ["Label_1", "Label_3"], removeLabelIds: ["INBOX"] },
+        },
+      });
+      expect(gmail.users.settings.filters.delete).toHaveBeenCalledWith({ userId: "me", id: "gmail_1" });
+      expect(firestore.saveFilterVersion).toHaveBeenCalledWith(
+        "me@example.com",
+        "rule_1",
+        expect.objectContaining({
+          version: 2,
+          gmailId: "gmail_1",
+          labelIds: ["Label_1"],
+          labelNames: { Label_1: "Receipts" },
+          replacedBy: "edit",
+        })
+      );
+      expect(revised).toMatchObject({ id: "rule_1", name: "Receipts", gmailId: "gmail_2", version: 3 });
+      expect(firestore.saveFilter).toHaveBeenCalledWith("me@example.com", revised);
+    });
+
+    it("should keep the Gmail filter when only the name changes", async () => {
+      const gmail = createGmail();
+
+      const revised = await reviseFilter(gmail as any, "me@example.com", published, {
+        name: "Shop receipts",
+        criteria: published.criteria,
+        actions: published.actions,
+        labelIds: ["Receipts"],
+      });
+
+      expect(gmail.users.settings.filters.create).not.toHaveBeenCalled();
+      expect(revised).toMatchObject({ name: "Shop receipts", gmailId: "gmail_1", labelIds: ["Label_1"], version: 3 });
+    });
+
+    it("should remove the replacement when the original can't be deleted", async () => {
+      const gmail = createGmail();
+      gmail.users.settings.filters.delete.mockRejectedValueOnce(
+        Object.assign(new Error("Backend error"), { code: 500 })
+      );
+
+      await expect(
+        reviseFilter(gmail as any, "me@example.com", published, {
+          criteria: { from: "orders@acme.com" },
+          actions: {},
+          labelIds: ["Label_1"],
+        })
+      ).rejects.toThrow("Backend error");
+
+      expect(gmail.users.settings.filters.delete).toHaveBeenLastCalledWith({ userId: "me", id: "gmail_2" });
+      expect(firestore.saveFilterVersion).not.toHaveBeenCalled();
+      expect(firestore.saveFilter).not.toHaveBeenCalled();
+    });
+
+    it("should restore the previous Gmail filter when the revision can't be saved", async () => {
+      const gmail = createGmail();
+      gmail.users.settings.filters.create
+        .mockResolvedValueOnce({ data: { id: "gmail_2" } })
+        .mockResolvedValueOnce({ data: { id: "gmail_3" } });
+      firestore.saveFilter.mockRejectedValueOnce(new Error("DEADLINE_EXCEEDED"));
+
+      await expect(
+        reviseFilter(gmail as any, "me@example.com", published, {
+          criteria: { from: "orders@acme.com" },
+          actions: {},
+          labelIds: ["Label_1"],
+        })
+      ).rejects.toThrow("DEADLINE_EXCEEDED");
+
+      expect(gmail.users.settings.filters.create).toHaveBeenLastCalledWith({
+        userId: "me",
+        requestBody: {
+          criteria: { from: "shop@acme.com" },
+          action: { addLabelIds: ["Label_1"], removeLabelIds: ["INBOX"] },
+        },
+      });
+      expect(gmail.users.settings.filters.delete).toHaveBeenLastCalledWith({ userId: "me", id: "gmail_2" });
+    });
+  });
+});
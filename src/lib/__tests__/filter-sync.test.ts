@@ -0,0 +1,82 @@
+import { reconcileFilters, toManagedFilter } from "../filter-sync";
+import type { GmailFilter } from "../firestore";
+
+describe("Filter sync", () => {
+  const rule = (id: string, gmailId: string, from: string): GmailFilter => ({
+    id,
+    name: `Rule ${id}`,
+    criteria: { from },
+    actions: { archive: true },
+    labelIds: ["Label_1"],
+    gmailId,
+    status: "published",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  });
+
+  const live = (id: string, from: string, addLabelIds = ["Label_1"]) => ({
+    id,
+    criteria: { from },
+    action: { addLabelIds, removeLabelIds: ["INBOX"] },
+  });
+
+  describe("reconcileFilters", () => {
+    it("should report filters that match their stored rule as in sync", () => {
+      const [entry] = reconcileFilters([rule("rule_1", "gmail_1", "a@acme.com")], [live("gmail_1", "a@acme.com")]);
+
+      expect(entry).toMatchObject({ status: "in_sync", filterId: "rule_1", gmailId: "gmail_1", relinked: false });
+      expect(entry.actions).toEqual([]);
+    });
+
+    it("should report filters changed in Gmail with what changed", () => {
+      const [entry] = reconcileFilters(
+        [rule("rule_1", "gmail_1", "a@acme.com")],
+        [live("gmail_1", "a@acme.com", ["Label_2"])],
+        new Map([
+          ["Label_1", "Receipts"],
+          ["Label_2", "Finance"],
+        ])
+      );
+
+      expect(entry).toMatchObject({ status: "modified", filterId: "rule_1", gmailId: "gmail_1" });
+      expect(entry.changes).toEqual([{ field: "labels", removed: ['Apply "Receipts"'], added: ['Apply "Finance"'] }]);
+      expect(entry.actions).toEqual(["adopt", "republish"]);
+    });
+
+    it("should relink rules whose filter Gmail replaced under a new ID", () => {
+      const entries = reconcileFilters(
+        [rule("rule_1", "gmail_1", "a@acme.com"), rule("rule_2", "gmail_2", "b@acme.com")],
+        [live("gmail_3", "a@acme.com"), live("gmail_4", "b@acme.com", [])]
+      );
+
+      expect(entries).toEqual([
+        expect.objectContaining({ status: "modified", filterId: "rule_2", gmailId: "gmail_4", relinked: true }),
+        expect.objectContaining({ status: "in_sync", filterId: "rule_1", gmailId: "gmail_3", relinked: true }),
+      ]);
+    });
+
+    it("should report deleted filters as missing and Gmail-only filters as unmanaged", () => {
+      const entries = reconcileFilters(
+        [rule("rule_1", "gmail_1", "a@acme.com"), { ...rule("draft_1", "", "c@acme.com"), status: "draft" }],
+        [live("gmail_2", "b@acme.com")]
+      );
+
+      expect(entries).toEqual([
+        expect.objectContaining({ status: "missing", filterId: "rule_1", actions: ["republish", "discard"] }),
+        expect.objectContaining({ status: "unmanaged", gmailId: "gmail_2", actions: ["adopt", "discard"] }),
+      ]);
+    });
+  });
+
+  describe("toManagedFilter", () => {
+    it("should store a Gmail filter as a published rule", () => {
+      expect(toManagedFilter(live("gmail_1", "a@acme.com"))).toMatchObject({
+        criteria: { from: "a@acme.com" },
+        actions: { archive: true },
+        labelIds: ["Label_1"],
+        gmailId: "gmail_1",
+        status: "published",
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { diffFilters, parseFilterXml, serializeFilterXml, type XmlFilter } from "../filter-xml";
+
+describe("mailFilters.xml", () => {
+  const newsletter: XmlFilter = {
+    criteria: {
+      from: "news@example.com",
+      subject: "Deals & <offers>",
+      size: 2048,
+      sizeComparison: "smaller",
+    },
+    actions: { archive: true, important: "never", forward: "me@example.com" },
+    labelNames: ["Newsletters", "Shopping"],
+  };
+
+  it("should round-trip filters through serialize and parse", () => {
+    const xml = serializeFilterXml(
+      [
+        newsletter,
+        {
+          criteria: { query: "it's" },
+          actions: { star: true },
+          labelNames: [],
+        },
+      ],
+      {
+        email: "me@example.com",
+      }
+    );
+
+    expect(xml).toContain("value='Deals &amp; &lt;offers&gt;'");
+    expect(xml).toContain("value='it&apos;s'");
+    expect(parseFilterXml(xml)).toEqual([
+      newsletter,
+      { criteria: { query: "it's" }, actions: { star: true }, labelNames: [] },
+    ]);
+  });
+
+  it("should parse Gmail's own export format", () => {
+    const xml = `<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+      <entry>
+        <category term='filter'></category>
+        <apps:property name='hasTheWord' value='from:(a@example.com OR b@example.com)'/>
+        <apps:property name='size' value='5'/>
+        <apps:property name='sizeOperator' value='s_sl'/>
+        <apps:property name='sizeUnit' value='s_smb'/>
+        <apps:property name='label' value='Work'/>
+        <apps:property name='shouldMarkAsRead' value='true'/>
+        <apps:property name='smartLabelToApply' value='^smartlabel_notification'/>
+      </entry>
+    </feed>`;
+
+    expect(parseFilterXml(xml)).toEqual([
+      {
+        criteria: {
+          query: "from:(a@example.com OR b@example.com)",
+          size: 5 * 1024 * 1024,
+          sizeComparison: "larger",
+        },
+        actions: { markAsRead: true },
+        labelNames: ["Work"],
+      },
+    ]);
+  });
+
+  it("should reject documents without entries", () => {
+    expect(() => parseFilterXml("<feed></feed>")).toThrow("No filter entries found");
+  });
+
+  it("should mark duplicates and changed filters regardless of label case", () => {
+    const changed: XmlFilter = { ...newsletter, actions: { archive: true } };
+    const fresh: XmlFilter = {
+      criteria: { to: "team@example.com" },
+      actions: { star: true },
+      labelNames: [],
+    };
+
+    expect(
+      diffFilters(
+        [{ ...newsletter, labelNames: ["shopping", "newsletters"] }, changed, fresh],
+        [{ id: "filter_1", ...newsletter }]
+      ).map(({ index, status, matchId }) => ({ index, status, matchId }))
+    ).toEqual([
+      { index: 0, status: "duplicate", matchId: "filter_1" },
+      { index: 1, status: "changed", matchId: "filter_1" },
+      { index: 2, status: "new", matchId: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { fromGmailFilter, toGmailFilter, validateFilter } from "../gmail-filters";
+
+describe("Gmail filters", () => {
+  describe("toGmailFilter", () => {
+    it("should express built-in actions as system label changes", () => {
+      expect(
+        toGmailFilter(
+          { from: "news@example.com", hasAttachment: true, size: 1048576, sizeComparison: "larger" },
+          {
+            archive: true,
+            markAsRead: true,
+            star: true,
+            important: "never",
+            neverSpam: true,
+            forward: "Me@Example.com",
+          },
+          ["Label_1"]
+        )
+      ).toEqual({
+        criteria: { from: "news@example.com", hasAttachment: true, size: 1048576, sizeComparison: "larger" },
+        action: {
+          addLabelIds: ["Label_1", "STARRED"],
+          removeLabelIds: ["INBOX", "UNREAD", "IMPORTANT", "SPAM"],
+          forward: "me@example.com",
+        },
+      });
+    });
+
+    it("should drop empty criteria and actions", () => {
+      expect(toGmailFilter({ from: " ", subject: "Invoice", size: 0 }, { archive: false, forward: "" })).toEqual({
+        criteria: { subject: "Invoice" },
+        action: {},
+      });
+    });
+  });
+
+  describe("fromGmailFilter", () => {
+    it("should round-trip criteria, actions and user labels", () => {
+      const criteria = { query: "invoice", negatedQuery: "draft", excludeChats: true };
+      const actions = { trash: true, important: "always" as const, removeLabelIds: ["Label_2"] };
+
+      expect(fromGmailFilter(toGmailFilter(criteria, actions, ["Label_1"]))).toEqual({
+        criteria,
+        actions,
+        labelIds: ["Label_1"],
+      });
+    });
+  });
+
+  describe("validateFilter", () => {
+    it("should require a criterion and an action", () => {
+      expect(validateFilter({}, { star: true })).toBe("At least one criterion is required");
+      expect(validateFilter({ from: "a@example.com" }, {})).toBe("At least one action is required");
+      expect(validateFilter({ from: "a@example.com" }, {}, ["Label_1"])).toBeNull();
+    });
+
+    it("should reject invalid forwarding addresses and contradictory actions", () => {
+      expect(validateFilter({ from: "a@example.com" }, { forward: "not-an-address" })).toMatch(/forwarding address/);
+      expect(validateFilter({ from: "a@example.com" }, { trash: true, archive: true })).toMatch(/Deleted mail/);
+    });
+
+    it("should reject criteria Gmail can't parse", () => {
+      expect(validateFilter({ query: "(invoice OR receipt" }, { star: true })).toBe(
+        "Has the words: Missing closing parenthesis"
+      );
+      expect(validateFilter({ from: "acme.com", query: "older_than:soon" }, { star: true })).toMatch(/older_than/);
+    });
+  });
+});
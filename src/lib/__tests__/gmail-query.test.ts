@@ -0,0 +1,103 @@
+import { criteriaToQuery, getQueryError, normalizeQuery, parseQuery, queryToCriteria } from "../gmail-query";
+
+describe("Gmail query", () => {
+  describe("parseQuery", () => {
+    it("should give OR precedence over the implicit AND", () => {
+      expect(parseQuery('from:acme.com invoice OR -"past due"').ast).toEqual({
+        type: "and",
+        children: [
+          { type: "field", operator: "from", value: { type: "text", value: "acme.com", quoted: false } },
+          {
+            type: "or",
+            children: [
+              { type: "text", value: "invoice", quoted: false },
+              { type: "not", child: { type: "text", value: "past due", quoted: true } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should parse grouped operator values and braces", () => {
+      expect(parseQuery("from:{a@x.com b@x.com}").ast).toEqual({
+        type: "field",
+        operator: "from",
+        value: {
+          type: "or",
+          children: [
+            { type: "text", value: "a@x.com", quoted: false },
+            { type: "text", value: "b@x.com", quoted: false },
+          ],
+        },
+      });
+    });
+
+    it("should report syntax errors with their position", () => {
+      expect(parseQuery("(invoice OR").issues).toEqual([
+        { severity: "error", message: "Missing closing parenthesis", start: 0, end: 1 },
+        { severity: "error", message: "OR needs a term on both sides", start: 9, end: 11 },
+      ]);
+      expect(parseQuery('subject:"weekly report').issues[0].message).toBe("Missing closing quote");
+      expect(parseQuery("invoice)").issues[0]).toMatchObject({ message: "Unmatched )", start: 7 });
+      expect(getQueryError("from: acme.com")).toBe("from: needs a value");
+    });
+
+    it("should validate operator values", () => {
+      expect(getQueryError("larger:10M older_than:7d after:2024/01/31")).toBeNull();
+      expect(getQueryError("larger:huge")).toBe("larger: expects a size such as 10M or 500K");
+      expect(getQueryError("newer_than:week")).toMatch(/expects a period/);
+      expect(parseQuery("form:acme.com has:attachments").issues.map((issue) => issue.severity)).toEqual([
+        "warning",
+        "warning",
+      ]);
+    });
+  });
+
+  describe("normalizeQuery", () => {
+    it("should rewrite queries in canonical form", () => {
+      expect(normalizeQuery("  FROM:{a@x.com   b@x.com}  (invoice  receipt) ")).toBe(
+        "from:(a@x.com OR b@x.com) invoice receipt"
+      );
+      expect(normalizeQuery("(a b) OR c")).toBe("(a b) OR c");
+      expect(normalizeQuery("(broken")).toBe("(broken");
+    });
+  });
+
+  describe("criteria conversion", () => {
+    it("should build the query Gmail runs for criteria", () => {
+      expect(
+        criteriaToQuery({
+          from: "a@example.com OR b@example.com",
+          subject: "Weekly report",
+          query: "label:work",
+          negatedQuery: "draft spam",
+          hasAttachment: true,
+          excludeChats: true,
+          size: 1048576,
+          sizeComparison: "smaller",
+        })
+      ).toBe(
+        "from:(a@example.com OR b@example.com) subject:(Weekly report) label:work -(draft OR spam) has:attachment -in:chats smaller:1048576"
+      );
+      expect(criteriaToQuery({ to: " ", size: 0 })).toBe("");
+      expect(criteriaToQuery({ from: "acme.com", has: "drive" })).toBe("from:acme.com has:drive");
+    });
+
+    it("should split a query back into structured criteria", () => {
+      const criteria = queryToCriteria(
+        'from:(a@example.com OR b@example.com) subject:"Weekly report" has:attachment -{draft spam} larger:5M is:unread'
+      );
+
+      expect(criteria).toEqual({
+        from: "a@example.com OR b@example.com",
+        subject: '"Weekly report"',
+        hasAttachment: true,
+        negatedQuery: "draft spam",
+        size: 5 * 1024 * 1024,
+        sizeComparison: "larger",
+        query: "is:unread",
+      });
+      expect(queryToCriteria(criteriaToQuery(criteria))).toEqual(criteria);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { batchModifyMessages, isTransientGmailError } from "../gmail";
+
+describe("Gmail", () => {
+  describe("batchModifyMessages", () => {
+    const ids = (count: number) => Array.from({ length: count }, (_, i) => `msg_${i}`);
+    const badRequest = Object.assign(new Error("Invalid id"), { code: 400 });
+
+    it("should modify messages in chunks of up to 1000", async () => {
+      const batchModify = jest.fn().mockResolvedValue({});
+      const gmail = { users: { messages: { batchModify } } };
+
+      const result = await batchModifyMessages(gmail as any, ids(1500), { removeLabelIds: ["INBOX"] });
+
+      expect(batchModify.mock.calls.map(([params]) => params.requestBody.ids.length)).toEqual([1000, 500]);
+      expect(batchModify).toHaveBeenCalledWith({
+        userId: "me",
+        requestBody: { ids: expect.any(Array), addLabelIds: undefined, removeLabelIds: ["INBOX"] },
+      });
+      expect(result).toEqual({ modifiedIds: ids(1500), failedIds: [], chunkSize: 1000 });
+    });
+
+    it("should split failing chunks down to the messages that fail", async () => {
+      const batchModify = jest.fn(async ({ requestBody }) => {
+        if (requestBody.ids.includes("msg_2")) throw badRequest;
+        return {};
+      });
+      const gmail = { users: { messages: { batchModify } } };
+
+      const result = await batchModifyMessages(gmail as any, ids(8), { addLabelIds: ["Label_1"] }, 8);
+
+      expect(batchModify.mock.calls.map(([params]) => params.requestBody.ids)).toEqual([
+        ids(8),
+        ["msg_0", "msg_1", "msg_2", "msg_3"],
+        ["msg_0", "msg_1"],
+        ["msg_2", "msg_3", "msg_4", "msg_5"],
+        ["msg_2", "msg_3"],
+        ["msg_2"],
+        ["msg_3"],
+        ["msg_4", "msg_5"],
+        ["msg_6", "msg_7"],
+      ]);
+      expect(result.modifiedIds).toEqual(ids(8).filter((id) => id !== "msg_2"));
+      expect(result.failedIds).toEqual(["msg_2"]);
+    });
+
+    it("should retry rate limited and failed calls at the same chunk size", async () => {
+      const rateLimited = Object.assign(new Error("Rate limit exceeded"), {
+        code: 403,
+        errors: [{ reason: "userRateLimitExceeded" }],
+      });
+      const batchModify = jest
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error("Too many requests"), { code: 429 }))
+        .mockRejectedValueOnce(rateLimited)
+        .mockRejectedValueOnce(Object.assign(new Error("Backend error"), { code: 503 }))
+        .mockRejectedValueOnce(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }))
+        .mockResolvedValue({});
+      const gmail = { users: { messages: { batchModify } } };
+
+      const result = await batchModifyMessages(gmail as any, ids(8), { addLabelIds: ["Label_1"] }, 8, 0);
+
+      expect(batchModify.mock.calls.map(([params]) => params.requestBody.ids.length)).toEqual([8, 8, 8, 8, 8]);
+      expect(result).toEqual({ modifiedIds: ids(8), failedIds: [], chunkSize: 16 });
+    });
+
+    it("should give up when transient errors persist", async () => {
+      const batchModify = jest.fn().mockRejectedValue(Object.assign(new Error("Too many requests"), { code: 429 }));
+      const gmail = { users: { messages: { batchModify } } };
+
+      await expect(batchModifyMessages(gmail as any, ids(8), { addLabelIds: ["Label_1"] }, 8, 0)).rejects.toThrow(
+        "Too many requests"
+      );
+      expect(batchModify).toHaveBeenCalledTimes(6);
+      expect(batchModify.mock.calls.every(([params]) => params.requestBody.ids.length === 8)).toBe(true);
+    });
+
+    it("should split chunks on messages that no longer exist", async () => {
+      const batchModify = jest.fn(async ({ requestBody }) => {
+        if (requestBody.ids.includes("msg_1")) throw Object.assign(new Error("Not found"), { code: 404 });
+        return {};
+      });
+      const gmail = { users: { messages: { batchModify } } };
+
+      const result = await batchModifyMessages(gmail as any, ids(2), { addLabelIds: ["Label_1"] }, 2, 0);
+
+      expect(result).toEqual({ modifiedIds: ["msg_0"], failedIds: ["msg_1"], chunkSize: 2 });
+    });
+
+    it("should fail fast when a label is invalid", async () => {
+      const batchModify = jest
+        .fn()
+        .mockRejectedValue(Object.assign(new Error("Invalid label: Label_9"), { code: 400 }));
+      const gmail = { users: { messages: { batchModify } } };
+
+      await expect(batchModifyMessages(gmail as any, ids(8), { addLabelIds: ["Label_9"] }, 8, 0)).rejects.toThrow(
+        "Invalid label"
+      );
+      expect(batchModify).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up on an expired login", async () => {
+      const batchModify = jest.fn().mockRejectedValue(Object.assign(new Error("Unauthorized"), { code: 401 }));
+      const gmail = { users: { messages: { batchModify } } };
+
+      await expect(batchModifyMessages(gmail as any, ids(10), { addLabelIds: ["Label_1"] })).rejects.toThrow(
+        "Unauthorized"
+      );
+      expect(batchModify).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("isTransientGmailError", () => {
+    it("should treat rate limits, server errors and dropped connections as transient", () => {
+      expect(isTransientGmailError({ code: 429 })).toBe(true);
+      expect(isTransientGmailError({ code: 500 })).toBe(true);
+      expect(isTransientGmailError({ response: { status: 503 } })).toBe(true);
+      expect(
+        isTransientGmailError({
+          code: 403,
+          response: { data: { error: { errors: [{ reason: "rateLimitExceeded" }] } } },
+        })
+      ).toBe(true);
+      expect(isTransientGmailError({ code: "ETIMEDOUT" })).toBe(true);
+    });
+
+    it("should treat other errors as permanent", () => {
+      expect(isTransientGmailError({ code: 400 })).toBe(false);
+      expect(isTransientGmailError({ code: 401 })).toBe(false);
+      expect(isTransientGmailError({ code: 403, errors: [{ reason: "insufficientPermissions" }] })).toBe(false);
+      expect(isTransientGmailError(new Error("No stored credentials"))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  computeLabelDeltas,
+  invertJournalEntry,
+  loadMessageLabels,
+  loadPageLabels,
+  saveJournalChunk,
+} from "../job-journal";
+
+describe("Job journal", () => {
+  const change = { addLabelIds: ["Label_2"], removeLabelIds: ["Label_1"] };
+
+  describe("computeLabelDeltas", () => {
+    it("should record only what changed for each message", () => {
+      const currentLabels = new Map([
+        ["msg_1", ["Label_1", "INBOX"]],
+        ["msg_2", ["Label_1", "Label_2"]],
+        ["msg_3", ["Label_2"]],
+        ["msg_4", ["INBOX", "Label_1"]],
+      ]);
+
+      expect(computeLabelDeltas(["msg_1", "msg_2", "msg_3", "msg_4"], change, currentLabels)).toEqual([
+        { addLabelIds: ["Label_2"], removeLabelIds: ["Label_1"], messageIds: ["msg_1", "msg_4"] },
+        { addLabelIds: [], removeLabelIds: ["Label_1"], messageIds: ["msg_2"] },
+      ]);
+    });
+
+    it("should record the full change when labels are unknown", () => {
+      expect(computeLabelDeltas(["msg_1", "msg_2"], change)).toEqual([{ ...change, messageIds: ["msg_1", "msg_2"] }]);
+    });
+  });
+
+  describe("invertJournalEntry", () => {
+    it("should swap added and removed labels", () => {
+      expect(invertJournalEntry({ ...change, messageIds: ["msg_1"] })).toEqual({
+        addLabelIds: ["Label_1"],
+        removeLabelIds: ["Label_2"],
+      });
+    });
+  });
+
+  describe("loadMessageLabels", () => {
+    it("should leave out messages that can't be fetched", async () => {
+      const get = jest.fn(async ({ id }) => {
+        if (id === "msg_2") throw new Error("Not found");
+        return { data: { labelIds: ["INBOX"] } };
+      });
+      const gmail = { users: { messages: { get } } };
+
+      const labels = await loadMessageLabels(gmail as any, ["msg_1", "msg_2"]);
+
+      expect(Array.from(labels.entries())).toEqual([["msg_1", ["INBOX"]]]);
+      expect(get).toHaveBeenCalledWith({ userId: "me", id: "msg_1", format: "minimal" });
+    });
+  });
+
+  describe("loadPageLabels", () => {
+    // Listed newest first; msg_3 is listed out of date order
+    const mailbox = [
+      { id: "msg_0", internalDate: "1700000400000", labelIds: ["INBOX", "Label_2"] },
+      { id: "msg_1", internalDate: "1700000300000", labelIds: ["INBOX", "Label_1", "Label_2"] },
+      { id: "msg_2", internalDate: "1700000200000", labelIds: ["INBOX", "Label_1"] },
+      { id: "msg_3", internalDate: "1600000000000", labelIds: ["Label_1"] },
+      { id: "msg_4", internalDate: "1700000100000", labelIds: ["INBOX"] },
+      { id: "msg_5", internalDate: "1700000000000", labelIds: ["Label_2"] },
+    ];
+
+    const fakeGmail = () => {
+      const get = jest.fn(async ({ id }) => ({ data: mailbox.find((message) => message.id === id) }));
+      const list = jest.fn(async ({ q = "", labelIds = [] }) => {
+        const after = Number(/after:(\d+)/.exec(q)?.[1] ?? 0) * 1000;
+        const before = Number(/before:(\d+)/.exec(q)?.[1] ?? Infinity) * 1000;
+        const messages = mailbox.filter(
+          (message) =>
+            Number(message.internalDate) > after &&
+            Number(message.internalDate) < before &&
+            labelIds.every((labelId: string) => message.labelIds.includes(labelId))
+        );
+        return { data: { messages: messages.map(({ id }) => ({ id })) } };
+      });
+      return { gmail: { users: { messages: { get, list } } }, get, list };
+    };
+
+    it("should find the labels of a page with a listing per label", async () => {
+      const { gmail, get, list } = fakeGmail();
+
+      const labels = await loadPageLabels(gmail as any, ["msg_1", "msg_2", "msg_4"], ["Label_1", "Label_2"], {
+        q: "from:news@example.com",
+        labelIds: ["INBOX"],
+      });
+
+      expect(Array.from(labels.entries())).toEqual([
+        ["msg_1", ["Label_1", "Label_2"]],
+        ["msg_2", ["Label_1"]],
+        ["msg_4", []],
+      ]);
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(list).toHaveBeenCalledTimes(3);
+      expect(list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          q: "(from:news@example.com) after:1700000099 before:1700000301",
+          labelIds: ["INBOX", "Label_1"],
+        })
+      );
+    });
+
+    it("should fetch the messages the page's date range misses", async () => {
+      const { gmail, get } = fakeGmail();
+
+      const labels = await loadPageLabels(gmail as any, ["msg_2", "msg_3", "msg_4"], ["Label_1"], {});
+
+      expect(labels.get("msg_2")).toEqual(["Label_1"]);
+      expect(labels.get("msg_3")).toEqual(["Label_1"]);
+      expect(labels.get("msg_4")).toEqual([]);
+      expect(get).toHaveBeenCalledWith({ userId: "me", id: "msg_3", format: "minimal" });
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not call Gmail without labels to look up", async () => {
+      const { gmail, get, list } = fakeGmail();
+
+      const labels = await loadPageLabels(gmail as any, ["msg_1"], [], {});
+
+      expect(labels.get("msg_1")).toEqual([]);
+      expect(get).not.toHaveBeenCalled();
+      expect(list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("saveJournalChunk", () => {
+    it("should update the journal without dropping its other fields", async () => {
+      const chunkSet = jest.fn().mockResolvedValue(undefined);
+      const journalSet = jest.fn().mockResolvedValue(undefined);
+      const doc = jest.fn(() => ({ set: journalSet, collection: () => ({ doc: () => ({ set: chunkSet }) }) }));
+      jest.requireMock("../firestore").getFirestore.mockReturnValueOnce({ collection: () => ({ doc }) });
+
+      const journal = {
+        jobId: "label_1",
+        email: "me@example.com",
+        name: "Label newsletters",
+        labelIds: ["Label_1"],
+        chunkCount: 2,
+        messageCount: 10,
+        createdAt: "2024-06-01T00:00:00.000Z",
+      };
+      await saveJournalChunk(journal, [{ addLabelIds: ["Label_1"], removeLabelIds: [], messageIds: ["msg_1"] }]);
+
+      expect(doc).toHaveBeenCalledWith("label_1");
+      expect(chunkSet).toHaveBeenCalledWith({ entries: [expect.objectContaining({ messageIds: ["msg_1"] })] });
+      expect(journalSet).toHaveBeenCalledWith(expect.objectContaining(journal), { merge: true });
+    });
+  });
+});
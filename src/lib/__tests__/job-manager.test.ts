@@ -0,0 +1,258 @@
+import { createRelabelJob, LabelJobBusyError, runLabelJobTask, setLabelJobQueue, type LabelJob } from "../job-manager";
+
+type DocData = Record<string, unknown>;
+type FakeDocRef = {
+  get: () => Promise<{ exists: boolean; data: () => DocData | undefined }>;
+  set: (data: DocData) => Promise<unknown>;
+  collection: (name: string) => { doc: (id: string) => FakeDocRef };
+};
+
+jest.mock("../firestore", () => {
+  const docs = new Map<string, DocData>();
+  const ref = (path: string): FakeDocRef => ({
+    get: async () => ({ exists: docs.has(path), data: () => docs.get(path) }),
+    set: async (data) => docs.set(path, data),
+    collection: (name) => ({ doc: (id) => ref(`${path}/${name}/${id}`) }),
+  });
+  const db = {
+    collection: (name: string) => ({ doc: (id: string) => ref(`${name}/${id}`) }),
+    runTransaction: async <T>(update: (transaction: unknown) => Promise<T>) =>
+      update({
+        get: (docRef: FakeDocRef) => docRef.get(),
+        update: async (docRef: FakeDocRef, data: DocData) => docRef.set({ ...(await docRef.get()).data(), ...data }),
+      }),
+  };
+  return { docs, getFirestore: () => db };
+});
+
+jest.mock("../credentials", () => ({ getStoredGmailClient: jest.fn() }));
+
+describe("Job manager", () => {
+  const docs: Map<string, DocData> = jest.requireMock("../firestore").docs;
+  const { getStoredGmailClient } = jest.requireMock("../credentials");
+  const enqueue = jest.fn().mockResolvedValue(undefined);
+  const list = jest.fn();
+  const get = jest.fn();
+  const batchModify = jest.fn().mockResolvedValue({});
+
+  const saveJob = (updates: Partial<LabelJob> = {}) =>
+    docs.set("_labelJobs/label_1", {
+      id: "label_1",
+      email: "me@example.com",
+      status: "running",
+      type: "label_removal",
+      name: "Remove Newsletters",
+      description: "",
+      startTime: Date.now(),
+      lastUpdate: Date.now(),
+      filterId: "",
+      ruleCriteria: { from: "news@example.com" },
+      labelIds: [],
+      removeLabelIds: ["Label_1"],
+      messagesProcessed: 0,
+      messagesMatched: 0,
+      labelsApplied: 0,
+      resumeCount: 1,
+      ...updates,
+    });
+  const loadJob = () => docs.get("_labelJobs/label_1") as LabelJob;
+
+  beforeEach(() => {
+    docs.clear();
+    jest.clearAllMocks();
+    list.mockReset();
+    setLabelJobQueue({ enqueue });
+    getStoredGmailClient.mockResolvedValue({ gmail: { users: { messages: { list, get, batchModify } } } });
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    setLabelJobQueue(null);
+    jest.restoreAllMocks();
+  });
+
+  describe("runLabelJobTask", () => {
+    it("should process a page and queue the next slice", async () => {
+      saveJob();
+      list.mockResolvedValueOnce({ data: { messages: [{ id: "msg_1" }, { id: "msg_2" }] } });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(batchModify).toHaveBeenCalledTimes(1);
+      expect(loadJob()).toMatchObject({ status: "running", labelsApplied: 2, slicesProcessed: 1, leaseExpiresAt: 0 });
+      expect(enqueue).toHaveBeenCalledWith({ jobId: "label_1", run: 1, slice: 1 }, expect.any(Number));
+    });
+
+    it("should drop duplicate tasks of a processed slice", async () => {
+      saveJob({ slicesProcessed: 3 });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1, slice: 2 });
+
+      expect(getStoredGmailClient).not.toHaveBeenCalled();
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("should leave a slice another task is processing to a later delivery", async () => {
+      saveJob({ slicesProcessed: 2, leaseExpiresAt: Date.now() + 60000 });
+
+      await expect(runLabelJobTask({ jobId: "label_1", run: 1, slice: 2 })).rejects.toThrow(LabelJobBusyError);
+      expect(list).not.toHaveBeenCalled();
+    });
+
+    it("should rethrow transient errors for the queue to retry", async () => {
+      saveJob();
+      list.mockRejectedValueOnce(Object.assign(new Error("Backend error"), { code: 503 }));
+
+      await expect(runLabelJobTask({ jobId: "label_1", run: 1 }, 0)).rejects.toThrow("Backend error");
+      expect(loadJob()).toMatchObject({ status: "running", leaseExpiresAt: 0 });
+    });
+
+    it("should fail the job once transient errors persist", async () => {
+      saveJob();
+      list.mockRejectedValueOnce(Object.assign(new Error("Backend error"), { code: 503 }));
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 }, 4);
+
+      expect(loadJob()).toMatchObject({ status: "failed", error: "Backend error" });
+    });
+
+    it("should fail the job on permanent errors", async () => {
+      saveJob();
+      list.mockRejectedValueOnce(Object.assign(new Error("Invalid query"), { code: 400 }));
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(loadJob()).toMatchObject({ status: "failed", error: "Invalid query" });
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createRelabelJob", () => {
+    const source = { id: "Label_1", name: "Newsletters" };
+    const savedJobs = () => Array.from(docs.values()) as LabelJob[];
+
+    it("should create a label_removal job", async () => {
+      const jobId = await createRelabelJob("me@example.com", { from: "news@example.com" }, source);
+
+      expect(savedJobs()).toEqual([
+        expect.objectContaining({
+          id: jobId,
+          status: "pending",
+          type: "label_removal",
+          name: 'Remove "Newsletters" from from:news@example.com',
+          labelIds: [],
+          removeLabelIds: ["Label_1"],
+        }),
+      ]);
+    });
+
+    it("should create a label_swap job", async () => {
+      await createRelabelJob("me@example.com", { from: "news@example.com" }, source, {
+        id: "Label_2",
+        name: "Reading",
+      });
+
+      expect(savedJobs()).toEqual([
+        expect.objectContaining({
+          type: "label_swap",
+          name: 'Move from:news@example.com from "Newsletters" to "Reading"',
+          labelIds: ["Label_2"],
+          removeLabelIds: ["Label_1"],
+        }),
+      ]);
+    });
+  });
+
+  describe("relabel jobs", () => {
+    it("should list the first page of messages that still have the label until none are left", async () => {
+      saveJob({ nextPageToken: "stale" });
+      list
+        .mockResolvedValueOnce({ data: { messages: [{ id: "msg_1" }, { id: "msg_2" }], nextPageToken: "page_2" } })
+        .mockResolvedValueOnce({ data: { messages: [] } });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+      await runLabelJobTask({ jobId: "label_1", run: 1, slice: 1 });
+
+      expect(list).toHaveBeenCalledTimes(2);
+      list.mock.calls.forEach(([params]) => {
+        expect(params).toMatchObject({ q: "from:news@example.com", labelIds: ["Label_1"], pageToken: undefined });
+      });
+      expect(batchModify).toHaveBeenCalledWith({
+        userId: "me",
+        requestBody: { ids: ["msg_1", "msg_2"], addLabelIds: [], removeLabelIds: ["Label_1"] },
+      });
+      expect(loadJob()).toMatchObject({ status: "completed", messagesProcessed: 2, labelsApplied: 2 });
+      expect(loadJob().nextPageToken).toBeUndefined();
+      expect(enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("should add the target label in the same modify for swaps", async () => {
+      saveJob({ type: "label_swap", labelIds: ["Label_2"] });
+      get.mockResolvedValue({ data: { internalDate: "1700000000000" } });
+      list.mockImplementation(async ({ q, labelIds }) => {
+        if (!q.includes("after:")) return { data: { messages: [{ id: "msg_1" }] } };
+        return { data: { messages: labelIds.includes("Label_2") ? [] : [{ id: "msg_1" }] } };
+      });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(batchModify).toHaveBeenCalledWith({
+        userId: "me",
+        requestBody: { ids: ["msg_1"], addLabelIds: ["Label_2"], removeLabelIds: ["Label_1"] },
+      });
+      expect(docs.get("_labelJobJournals/label_1/chunks/000000")).toEqual({
+        entries: [{ messageIds: ["msg_1"], addLabelIds: ["Label_2"], removeLabelIds: ["Label_1"] }],
+      });
+    });
+
+    it("should page past messages that failed before instead of completing", async () => {
+      const failed = Array.from({ length: 600 }, (_, index) => `failed_${index}`);
+      saveJob({
+        messagesFailed: 600,
+        failedMessageIds: failed.slice(0, 500),
+        skippedMessageIds: failed,
+      });
+      list
+        .mockResolvedValueOnce({ data: { messages: failed.slice(0, 500).map((id) => ({ id })), nextPageToken: "p2" } })
+        .mockResolvedValueOnce({ data: { messages: [...failed.slice(500), "msg_1"].map((id) => ({ id })) } });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(list.mock.calls[1][0]).toMatchObject({ pageToken: "p2" });
+      expect(batchModify).toHaveBeenCalledTimes(1);
+      expect(batchModify.mock.calls[0][0].requestBody.ids).toEqual(["msg_1"]);
+      expect(loadJob()).toMatchObject({ status: "running", messagesFailed: 600, labelsApplied: 1 });
+      expect(loadJob().failedMessageIds).toHaveLength(500);
+      expect(loadJob().skippedMessageIds).toHaveLength(600);
+    });
+
+    it("should complete once only failed messages are left", async () => {
+      saveJob({ messagesFailed: 1, failedMessageIds: ["msg_1"], skippedMessageIds: ["msg_1"] });
+      list.mockResolvedValueOnce({ data: { messages: [{ id: "msg_1" }] } });
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(batchModify).not.toHaveBeenCalled();
+      expect(loadJob()).toMatchObject({ status: "completed", messagesFailed: 1 });
+    });
+
+    it("should fail when none of the remaining messages can be changed", async () => {
+      saveJob();
+      list.mockResolvedValueOnce({ data: { messages: [{ id: "msg_1" }] } });
+      batchModify.mockRejectedValueOnce(Object.assign(new Error("Not Found"), { code: 404 }));
+
+      await runLabelJobTask({ jobId: "label_1", run: 1 });
+
+      expect(loadJob()).toMatchObject({
+        status: "failed",
+        messagesFailed: 1,
+        failedMessageIds: ["msg_1"],
+        skippedMessageIds: ["msg_1"],
+        error: "Could not update any of 1 remaining messages",
+      });
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { isWorkerSecret, LocalJobQueue, type JobTask } from "../job-queue";
+
+describe("Job queue", () => {
+  describe("LocalJobQueue", () => {
+    it("should run waiting tasks and the ones they queue when drained", async () => {
+      const handled: JobTask[] = [];
+      const queue: LocalJobQueue = new LocalJobQueue(async (task) => {
+        handled.push(task);
+        if (handled.length < 3) await queue.enqueue(task);
+      }, false);
+
+      await queue.enqueue({ jobId: "label_1", run: 1 });
+      expect(handled).toEqual([]);
+
+      await expect(queue.drain()).resolves.toBe(3);
+      expect(handled).toEqual([
+        { jobId: "label_1", run: 1 },
+        { jobId: "label_1", run: 1 },
+        { jobId: "label_1", run: 1 },
+      ]);
+    });
+
+    it("should run tasks on its own after their delay", async () => {
+      jest.useFakeTimers();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const queue = new LocalJobQueue(handler);
+
+      await queue.enqueue({ jobId: "label_1", run: 2 }, 500);
+      jest.advanceTimersByTime(499);
+      expect(handler).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(handler).toHaveBeenCalledWith({ jobId: "label_1", run: 2 }, 0);
+      jest.useRealTimers();
+    });
+
+    it("should retry failed tasks with a growing pause", async () => {
+      jest.useFakeTimers();
+      const handler = jest.fn().mockRejectedValueOnce(new Error("Backend error")).mockResolvedValue(undefined);
+      const queue = new LocalJobQueue(handler, true, 100);
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+      await queue.enqueue({ jobId: "label_1", run: 1 });
+      await jest.advanceTimersByTimeAsync(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(handler).toHaveBeenLastCalledWith({ jobId: "label_1", run: 1 }, 1);
+      jest.useRealTimers();
+    });
+  });
+
+  describe("isWorkerSecret", () => {
+    const original = process.env.WORKER_SECRET;
+
+    afterEach(() => {
+      if (original === undefined) delete process.env.WORKER_SECRET;
+      else process.env.WORKER_SECRET = original;
+    });
+
+    it("should only accept the configured secret", () => {
+      process.env.WORKER_SECRET = "s3cret";
+
+      expect(isWorkerSecret("s3cret")).toBe(true);
+      expect(isWorkerSecret("s3cret-but-longer")).toBe(false);
+      expect(isWorkerSecret("")).toBe(false);
+      expect(isWorkerSecret(null)).toBe(false);
+    });
+
+    it("should fail when no secret is configured", () => {
+      delete process.env.WORKER_SECRET;
+
+      expect(() => isWorkerSecret("anything")).toThrow("Missing WORKER_SECRET");
+    });
+  });
+});
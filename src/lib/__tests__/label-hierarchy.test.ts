@@ -0,0 +1,150 @@
+import {
+  applyLabelRenames,
+  checkLabelMerge,
+  getMovedLabelName,
+  LabelHierarchyError,
+  moveLabelReferences,
+  planLabelRename,
+} from "../label-hierarchy";
+import type { GmailLabel } from "../firestore";
+
+jest.mock("../firestore", () => ({
+  loadFilters: jest.fn(),
+  loadLabels: jest.fn(),
+  saveFilter: jest.fn(),
+  saveLabels: jest.fn(),
+}));
+
+describe("Label hierarchy", () => {
+  const firestore = jest.requireMock("../firestore");
+
+  const label = (id: string, name: string, type: GmailLabel["type"] = "user"): GmailLabel => ({ id, name, type });
+
+  const labels = [
+    label("INBOX", "INBOX", "system"),
+    label("Label_1", "Finance"),
+    label("Label_2", "Finance/Receipts"),
+    label("Label_3", "Finance/Receipts/2024"),
+    label("Label_4", "Travel"),
+    label("Label_5", "Financial"),
+  ];
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("planLabelRename", () => {
+    it("should rename nested labels along with their parent, parents first", () => {
+      expect(planLabelRename(labels, "Label_1", " Money / ")).toEqual([
+        { id: "Label_1", from: "Finance", to: "Money" },
+        { id: "Label_2", from: "Finance/Receipts", to: "Money/Receipts" },
+        { id: "Label_3", from: "Finance/Receipts/2024", to: "Money/Receipts/2024" },
+      ]);
+    });
+
+    it("should leave labels that only share a name prefix alone", () => {
+      expect(planLabelRename(labels, "Label_1", "Travel/Finance").map((rename) => rename.id)).toEqual([
+        "Label_1",
+        "Label_2",
+        "Label_3",
+      ]);
+    });
+
+    it("should reject names that are taken, moves under itself and system labels", () => {
+      expect(() => planLabelRename(labels, "Label_2", "travel")).toThrow('A label named "travel" already exists');
+      expect(() => planLabelRename(labels, "Label_1", "Finance/Receipts/Finance")).toThrow("under itself");
+      expect(() => planLabelRename(labels, "INBOX", "Inbox")).toThrow(LabelHierarchyError);
+    });
+  });
+
+  describe("getMovedLabelName", () => {
+    it("should keep the label's own name under the new parent", () => {
+      expect(getMovedLabelName(labels, "Label_2", "Label_4")).toBe("Travel/Receipts");
+      expect(getMovedLabelName(labels, "Label_2", null)).toBe("Receipts");
+      expect(getMovedLabelName(labels, "Label_2", "Label_4", "Tickets")).toBe("Travel/Tickets");
+    });
+  });
+
+  describe("checkLabelMerge", () => {
+    it("should only merge labels without nested labels into another label", () => {
+      expect(checkLabelMerge(labels, "Label_4", "Label_3").target.name).toBe("Finance/Receipts/2024");
+      expect(() => checkLabelMerge(labels, "Label_1", "Label_4")).toThrow("nested under");
+      expect(() => checkLabelMerge(labels, "Label_4", "Label_4")).toThrow("into itself");
+    });
+
+    it("should not merge into system labels", () => {
+      const withTrash = [...labels, label("TRASH", "TRASH", "system")];
+
+      expect(() => checkLabelMerge(withTrash, "Label_4", "TRASH")).toThrow(LabelHierarchyError);
+      expect(() => checkLabelMerge(labels, "Label_4", "INBOX")).toThrow('System label "INBOX"');
+    });
+  });
+
+  describe("applyLabelRenames", () => {
+    it("should revert the renames already made when one fails", async () => {
+      const patch = jest
+        .fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(Object.assign(new Error("Conflict"), { code: 409 }))
+        .mockResolvedValue({});
+      const gmail = { users: { labels: { patch } } };
+
+      await expect(applyLabelRenames(gmail as any, planLabelRename(labels, "Label_1", "Money"))).rejects.toThrow(
+        "Conflict"
+      );
+
+      expect(patch).toHaveBeenCalledTimes(3);
+      expect(patch).toHaveBeenLastCalledWith({ userId: "me", id: "Label_1", requestBody: { name: "Finance" } });
+    });
+  });
+
+  describe("moveLabelReferences", () => {
+    it("should replace Gmail filters and stored rules that use the merged label", async () => {
+      firestore.loadFilters.mockResolvedValue([
+        {
+          id: "rule_1",
+          name: "Trips",
+          criteria: { from: "airline@example.com" },
+          actions: {},
+          labelIds: ["Label_4", "Label_1"],
+          gmailId: "gmail_1",
+          status: "published",
+        },
+      ]);
+      const gmail = {
+        users: {
+          settings: {
+            filters: {
+              list: jest.fn().mockResolvedValue({
+                data: {
+                  filter: [
+                    { id: "gmail_1", criteria: { from: "airline@example.com" }, action: { addLabelIds: ["Label_4"] } },
+                    { id: "gmail_2", criteria: { from: "bank@example.com" }, action: { addLabelIds: ["Label_1"] } },
+                  ],
+                },
+              }),
+              create: jest.fn().mockResolvedValue({ data: { id: "gmail_3" } }),
+              delete: jest.fn().mockResolvedValue({}),
+            },
+          },
+        },
+      };
+
+      const replaced = await moveLabelReferences(gmail as any, "me@example.com", "Label_4", "Label_1");
+
+      expect(replaced).toBe(1);
+      expect(gmail.users.settings.filters.create).toHaveBeenCalledWith({
+        userId: "me",
+        requestBody: {
+          criteria: { from: "airline@example.com" },
+          action: { addLabelIds: ["Label_1"], removeLabelIds: undefined },
+        },
+      });
+      expect(gmail.users.settings.filters.delete).toHaveBeenCalledWith({ userId: "me", id: "gmail_1" });
+      expect(firestore.saveFilter).toHaveBeenCalledWith(
+        "me@example.com",
+        expect.objectContaining({ id: "rule_1", labelIds: ["Label_1"], gmailId: "gmail_3" })
+      );
+    });
+  });
+});
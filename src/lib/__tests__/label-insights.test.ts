@@ -0,0 +1,70 @@
+import { buildLabelInsights, previewLabelCleanup } from "../label-insights";
+import type { GmailLabel } from "../firestore";
+
+describe("Label insights", () => {
+  const now = Date.parse("2024-06-01T00:00:00.000Z");
+  const daysAgo = (days: number) => now - days * 24 * 60 * 60 * 1000;
+
+  const label = (id: string, name: string, messagesTotal: number, extra: Partial<GmailLabel> = {}): GmailLabel => ({
+    id,
+    name,
+    type: "user",
+    messagesTotal,
+    messagesUnread: 0,
+    ...extra,
+  });
+
+  const labels = [
+    label("INBOX", "INBOX", 500, { type: "system" }),
+    label("Label_1", "Finance", 40, { messagesUnread: 3 }),
+    label("Label_2", "Finance/Receipts", 40, { messagesUnread: 10 }),
+    label("Label_3", "Old project", 12),
+    label("Label_4", "Empty", 0, { labelListVisibility: "labelHide" }),
+  ];
+
+  const newest = new Map<string, number | null>([
+    ["Label_1", daysAgo(400)],
+    ["Label_2", daysAgo(2)],
+    ["Label_3", daysAgo(200)],
+    ["Label_4", null],
+  ]);
+
+  const insights = buildLabelInsights(labels, newest, [["Label_2"], ["Label_2", "INBOX"]], 180, now);
+
+  describe("buildLabelInsights", () => {
+    it("should rank user labels by size, then unread count", () => {
+      expect(insights.map((insight) => insight.name)).toEqual(["Finance/Receipts", "Finance", "Old project", "Empty"]);
+    });
+
+    it("should flag empty, unused and stale labels", () => {
+      const flags = Object.fromEntries(insights.map((insight) => [insight.id, insight.flags]));
+
+      expect(flags).toEqual({
+        Label_1: ["unused", "stale"],
+        Label_2: [],
+        Label_3: ["unused", "stale"],
+        Label_4: ["empty", "unused"],
+      });
+      expect(insights.find((insight) => insight.id === "Label_2")).toMatchObject({
+        filterCount: 2,
+        newestMessageAt: new Date(daysAgo(2)).toISOString(),
+      });
+    });
+  });
+
+  describe("previewLabelCleanup", () => {
+    it("should skip deleting labels used by filters or with nested labels", () => {
+      expect(previewLabelCleanup(insights, ["Label_1", "Label_2", "Label_3"], "delete")).toEqual([
+        { id: "Label_2", name: "Finance/Receipts", messagesTotal: 40, blockedReason: "Used by 2 filters" },
+        { id: "Label_1", name: "Finance", messagesTotal: 40, blockedReason: "Has 1 nested label" },
+        { id: "Label_3", name: "Old project", messagesTotal: 12, blockedReason: undefined },
+      ]);
+    });
+
+    it("should skip archiving labels that are already hidden", () => {
+      expect(
+        previewLabelCleanup(insights, ["Label_2", "Label_4"], "archive").map((item) => item.blockedReason)
+      ).toEqual([undefined, "Already archived"]);
+    });
+  });
+});
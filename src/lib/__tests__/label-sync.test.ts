@@ -0,0 +1,154 @@
+import { buildLabelHierarchy, reconcileLabels, syncLabels, toGmailLabelBody } from "../label-sync";
+import type { gmail_v1 } from "googleapis";
+import type { GmailLabel } from "../firestore";
+
+jest.mock("../firestore", () => ({
+  loadFilters: jest.fn(),
+  loadLabels: jest.fn(),
+  saveFilter: jest.fn(),
+  saveLabels: jest.fn(),
+}));
+
+describe("Label sync", () => {
+  const firestore = jest.requireMock("../firestore");
+
+  const cached = (id: string, name: string, extra: Partial<GmailLabel> = {}): GmailLabel => ({
+    id,
+    name,
+    type: "user",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    ...extra,
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("toGmailLabelBody", () => {
+    const labels = [cached("Label_1", "Finance"), cached("Label_2", "Finance/Receipts")];
+
+    it("should express the parent in the label name", () => {
+      expect(toGmailLabelBody({ name: "Invoices", parentId: "Label_1" }, labels)).toEqual({ name: "Finance/Invoices" });
+    });
+
+    it("should keep the current parent on rename and drop it when moved to the top level", () => {
+      expect(toGmailLabelBody({ name: "Bills" }, labels, labels[1])).toEqual({ name: "Finance/Bills" });
+      expect(toGmailLabelBody({ name: "Receipts", parentId: null }, labels, labels[1])).toEqual({ name: "Receipts" });
+    });
+  });
+
+  describe("buildLabelHierarchy", () => {
+    it("should link nested labels to their parent", () => {
+      const [parent, child] = buildLabelHierarchy([
+        cached("Label_1", "Finance"),
+        cached("Label_2", "Finance/Receipts"),
+      ]);
+
+      expect(parent.childrenIds).toEqual(["Label_2"]);
+      expect(child.parentId).toBe("Label_1");
+    });
+  });
+
+  describe("reconcileLabels", () => {
+    it("should report labels created, edited and deleted in Gmail", () => {
+      const result = reconcileLabels(
+        [cached("Label_1", "Finance"), cached("Label_2", "Travel"), cached("Label_3", "Old")],
+        [
+          { id: "Label_1", name: "Finance", type: "user" },
+          { id: "Label_2", name: "Trips", type: "user" },
+          { id: "Label_4", name: "New", type: "user" },
+          { id: "INBOX", name: "INBOX", type: "system" },
+        ]
+      );
+
+      expect(result.added).toEqual(["New"]);
+      expect(result.updated).toEqual(["Trips"]);
+      expect(result.removed).toEqual(["Old"]);
+      expect(result.labels.find((label) => label.id === "Label_2")?.createdAt).toBe("2024-01-01T00:00:00.000Z");
+    });
+
+    it("should map local labels onto Gmail labels with the same name", () => {
+      const result = reconcileLabels(
+        [cached("Label_1700000000000_abc123", "Finance"), cached("Label_1700000000001_def456", "Travel")],
+        [{ id: "Label_1", name: "Finance", type: "user" }]
+      );
+
+      expect(result.idMap).toEqual(new Map([["Label_1700000000000_abc123", "Label_1"]]));
+      expect(result.pending.map((label) => label.name)).toEqual(["Travel"]);
+      expect(result.removed).toEqual([]);
+    });
+  });
+
+  describe("syncLabels", () => {
+    it("should create local labels in Gmail and move rules to the new IDs", async () => {
+      firestore.loadLabels.mockResolvedValue([cached("Label_1700000000000_abc123", "Travel")]);
+      firestore.loadFilters.mockResolvedValue([
+        {
+          id: "rule_1",
+          name: "Trips",
+          criteria: { from: "airline@example.com" },
+          actions: {},
+          labelIds: ["Label_1700000000000_abc123"],
+          status: "draft",
+        },
+      ]);
+      const gmail = {
+        users: {
+          labels: {
+            list: jest.fn().mockResolvedValue({ data: { labels: [{ id: "INBOX", name: "INBOX", type: "system" }] } }),
+            create: jest.fn().mockResolvedValue({ data: { id: "Label_9", name: "Travel", type: "user" } }),
+          },
+        },
+      };
+
+      const result = await syncLabels(gmail as any, "me@example.com");
+
+      expect(gmail.users.labels.create).toHaveBeenCalledWith({ userId: "me", requestBody: { name: "Travel" } });
+      expect(result.created).toEqual(["Travel"]);
+      expect(firestore.saveFilter).toHaveBeenCalledWith(
+        "me@example.com",
+        expect.objectContaining({ id: "rule_1", labelIds: ["Label_9"] })
+      );
+      expect(firestore.saveLabels).toHaveBeenCalledWith(
+        "me@example.com",
+        expect.arrayContaining([expect.objectContaining({ id: "Label_9", createdAt: "2024-01-01T00:00:00.000Z" })])
+      );
+    });
+
+    it("should keep the local labels of rule drafts", async () => {
+      firestore.loadLabels.mockResolvedValue([
+        cached("label_1700000000000_k3j4h5g6f", "Receipts"),
+        cached("label_1700000000001_a1b2c3d4e", "Imported"),
+      ]);
+      firestore.loadFilters.mockResolvedValue([
+        {
+          id: "filter_1",
+          name: "Imported filter 1",
+          criteria: { from: "shop@example.com" },
+          actions: {},
+          labelIds: ["label_1700000000000_k3j4h5g6f", "label_1700000000001_a1b2c3d4e"],
+          status: "draft",
+        },
+      ]);
+      const gmail = {
+        users: {
+          labels: {
+            list: jest
+              .fn()
+              .mockResolvedValue({ data: { labels: [{ id: "Label_5", name: "Receipts", type: "user" }] } }),
+            create: jest.fn().mockResolvedValue({ data: { id: "Label_6", name: "Imported", type: "user" } }),
+          },
+        },
+      };
+
+      const result = await syncLabels(gmail as unknown as gmail_v1.Gmail, "me@example.com");
+
+      expect(result.removed).toEqual([]);
+      expect(result.created).toEqual(["Imported"]);
+      expect(firestore.saveFilter).toHaveBeenCalledWith(
+        "me@example.com",
+        expect.objectContaining({ id: "filter_1", labelIds: ["Label_5", "Label_6"] })
+      );
+    });
+  });
+});
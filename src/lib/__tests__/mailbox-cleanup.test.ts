@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import { getFirestore } from "../firestore";
+import {
+  claimConfirmationToken,
+  createConfirmationToken,
+  getCleanupQuery,
+  isCleanupAction,
+  verifyConfirmationToken,
+} from "../mailbox-cleanup";
+
+jest.mock("../firestore", () => ({
+  getFirestore: jest.fn(),
+}));
+
+describe("Mailbox cleanup", () => {
+  describe("getCleanupQuery", () => {
+    it("should only search for messages the action still changes", () => {
+      expect(getCleanupQuery("archive", { from: "news@example.com" })).toBe("(from:news@example.com) in:inbox");
+      expect(getCleanupQuery("mark_read", {})).toBe("is:unread");
+      expect(getCleanupQuery("trash", { query: "older_than:2y" })).toBe("older_than:2y");
+    });
+  });
+
+  describe("isCleanupAction", () => {
+    it("should accept known actions only", () => {
+      expect(isCleanupAction("spam")).toBe(true);
+      expect(isCleanupAction("delete")).toBe(false);
+      expect(isCleanupAction("toString")).toBe(false);
+    });
+  });
+
+  describe("confirmation tokens", () => {
+    const now = Date.parse("2024-06-01T00:00:00.000Z");
+    const original = process.env.CREDENTIALS_MASTER_KEY;
+    let token: string;
+
+    beforeAll(() => {
+      process.env.CREDENTIALS_MASTER_KEY = crypto.randomBytes(32).toString("base64");
+      token = createConfirmationToken("me@example.com", "trash", "older_than:2y", now);
+    });
+
+    afterAll(() => {
+      if (original === undefined) delete process.env.CREDENTIALS_MASTER_KEY;
+      else process.env.CREDENTIALS_MASTER_KEY = original;
+    });
+
+    it("should confirm the previewed cleanup", () => {
+      expect(verifyConfirmationToken(token, "me@example.com", "trash", "older_than:2y", now + 60 * 1000)).toBe(true);
+    });
+
+    it("should reject another user, action or search", () => {
+      expect(verifyConfirmationToken(token, "you@example.com", "trash", "older_than:2y", now)).toBe(false);
+      expect(verifyConfirmationToken(token, "me@example.com", "spam", "older_than:2y", now)).toBe(false);
+      expect(verifyConfirmationToken(token, "me@example.com", "trash", "older_than:1y", now)).toBe(false);
+    });
+
+    it("should reject expired or malformed tokens", () => {
+      expect(verifyConfirmationToken(token, "me@example.com", "trash", "older_than:2y", now + 60 * 60 * 1000)).toBe(
+        false
+      );
+      expect(verifyConfirmationToken("garbage", "me@example.com", "trash", "older_than:2y", now)).toBe(false);
+      expect(verifyConfirmationToken(undefined, "me@example.com", "trash", "older_than:2y", now)).toBe(false);
+    });
+
+    it("should reject tokens signed with another key", () => {
+      process.env.CREDENTIALS_MASTER_KEY = crypto.randomBytes(32).toString("base64");
+      expect(verifyConfirmationToken(token, "me@example.com", "trash", "older_than:2y", now)).toBe(false);
+
+      delete process.env.CREDENTIALS_MASTER_KEY;
+      expect(() => createConfirmationToken("me@example.com", "trash", "older_than:2y", now)).toThrow(
+        "CREDENTIALS_MASTER_KEY"
+      );
+    });
+
+    it("should confirm one job per token", async () => {
+      const create = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(Object.assign(new Error("ALREADY_EXISTS"), { code: 6 }));
+      const doc = jest.fn(() => ({ create }));
+      (getFirestore as jest.Mock).mockReturnValue({ collection: () => ({ doc }) });
+
+      await expect(claimConfirmationToken("me@example.com", token)).resolves.toBe(true);
+      await expect(claimConfirmationToken("me@example.com", token)).resolves.toBe(false);
+      expect(doc).toHaveBeenCalledWith(token.split(".")[1]);
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ email: "me@example.com" }));
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { evaluateQuery, matchCriteria, matchQuery, toIndexQuery } from "../message-matcher";
+import { parseQuery } from "../gmail-query";
+import { InMemoryMessageIndexRepository, type IndexedMessage } from "../scanners/message-index";
+
+describe("Message matcher", () => {
+  const message = (id: string, overrides: Partial<IndexedMessage>): IndexedMessage => ({
+    id,
+    from: "",
+    to: ["me@example.com"],
+    cc: [],
+    subject: "",
+    date: "2024-06-01T12:00:00.000Z",
+    size: 10_000,
+    labels: ["INBOX"],
+    ...overrides,
+  });
+
+  const messages = [
+    message("invoice", {
+      from: "billing@acme.com",
+      fromName: "Acme Billing",
+      subject: "Invoice #42",
+      size: 2 * 1024 * 1024,
+      labels: ["INBOX", "UNREAD", "Label_1", "CATEGORY_UPDATES"],
+    }),
+    message("newsletter", {
+      from: "news@shop.example",
+      subject: "Summer sale",
+      date: "2023-01-15T08:00:00.000Z",
+      labels: ["CATEGORY_PROMOTIONS"],
+    }),
+    message("colleague", {
+      from: "bob@mail.acme.com",
+      cc: ["team@example.com"],
+      subject: "Weekly report",
+    }),
+    message("junk", { from: "billing@acme.com", subject: "Invoice", labels: ["SPAM"] }),
+  ];
+
+  const context = { labelNames: new Map([["Label_1", "Finance/Receipts"]]), now: new Date("2024-06-30T00:00:00Z") };
+  const ids = (result: IndexedMessage[]) => result.map((entry) => entry.id);
+
+  describe("matchQuery", () => {
+    it("should match header, label and size operators", () => {
+      expect(ids(matchQuery(messages, "from:acme.com", context).matches)).toEqual(["invoice", "colleague"]);
+      expect(ids(matchQuery(messages, 'from:"acme billing" is:unread', context).matches)).toEqual(["invoice"]);
+      expect(ids(matchQuery(messages, "to:team@example.com", context).matches)).toEqual(["colleague"]);
+      expect(ids(matchQuery(messages, "label:finance-receipts larger:1M", context).matches)).toEqual(["invoice"]);
+      expect(ids(matchQuery(messages, "-in:inbox category:promotions", context).matches)).toEqual(["newsletter"]);
+      expect(ids(matchQuery(messages, "has:nouserlabels subject:(report OR sale)", context).matches)).toEqual([
+        "newsletter",
+        "colleague",
+      ]);
+    });
+
+    it("should compare dates against the reference time", () => {
+      expect(ids(matchQuery(messages, "older_than:1y", context).matches)).toEqual(["newsletter"]);
+      expect(ids(matchQuery(messages, "after:2024/01/01 before:2024/06/02", context).matches)).toEqual([
+        "invoice",
+        "colleague",
+      ]);
+    });
+
+    it("should report messages the index can't decide as uncertain", () => {
+      const result = matchQuery(messages, "from:acme.com has:attachment", context);
+      expect(result.matches).toEqual([]);
+      expect(ids(result.uncertain)).toEqual(["invoice", "colleague"]);
+
+      // Free text found in the headers matches; anything else might be in the body
+      const text = matchQuery(messages, "invoice", context);
+      expect(ids(text.matches)).toEqual(["invoice"]);
+      expect(ids(text.uncertain)).toEqual(["newsletter", "colleague"]);
+    });
+
+    it("should skip spam and trash unless the query asks for them", () => {
+      expect(ids(matchQuery(messages, "subject:invoice", context).matches)).toEqual(["invoice"]);
+      expect(ids(matchQuery(messages, "in:spam subject:invoice", context).matches)).toEqual(["junk"]);
+      expect(ids(matchQuery(messages, "subject:invoice", { ...context, includeSpamTrash: true }).matches)).toEqual([
+        "invoice",
+        "junk",
+      ]);
+    });
+
+    it("should not match anything for queries with errors", () => {
+      const result = matchQuery(messages, "from:(acme.com", context);
+      expect(result.matches).toEqual([]);
+      expect(result.issues[0].message).toBe("Missing closing parenthesis");
+    });
+  });
+
+  describe("evaluateQuery", () => {
+    it("should use three-valued logic for negation and OR", () => {
+      const [invoice] = messages;
+      expect(evaluateQuery(parseQuery("-has:attachment").ast, invoice)).toBeNull();
+      expect(evaluateQuery(parseQuery("has:attachment OR from:acme.com").ast, invoice)).toBe(true);
+      expect(evaluateQuery(parseQuery("has:attachment -from:acme.com").ast, invoice)).toBe(false);
+      expect(evaluateQuery(null, invoice)).toBe(true);
+    });
+  });
+
+  describe("matchCriteria", () => {
+    it("should evaluate filter criteria and label job criteria", () => {
+      // "report" isn't in the invoice's headers but could still be in its body
+      const negated = matchCriteria(messages, { from: "acme.com", negatedQuery: "report" }, context);
+      expect(negated.matches).toEqual([]);
+      expect(ids(negated.uncertain)).toEqual(["invoice"]);
+      expect(
+        ids(
+          matchCriteria(messages, { from: "acme.com", size: 1024 * 1024, sizeComparison: "smaller" }, context).matches
+        )
+      ).toEqual(["colleague"]);
+      expect(ids(matchCriteria(messages, { query: "is:unread", has: "userlabels" }, context).matches)).toEqual([
+        "invoice",
+      ]);
+    });
+  });
+
+  describe("toIndexQuery", () => {
+    it("should narrow by sender, system label and date", () => {
+      expect(
+        toIndexQuery("from:Billing@Acme.com is:unread after:2024/01/01 newer_than:1y subject:invoice", context)
+      ).toEqual({
+        from: "billing@acme.com",
+        labelId: "UNREAD",
+        after: "2024-01-01T00:00:00.000Z",
+      });
+      expect(toIndexQuery("label:inbox before:2024/06/01 older_than:1m", context)).toEqual({
+        labelId: "INBOX",
+        before: "2024-05-31T00:00:00.000Z",
+      });
+    });
+
+    it("should not narrow by terms that don't have to hold", () => {
+      expect(toIndexQuery("from:acme.com label:finance-receipts", context)).toEqual({});
+      expect(toIndexQuery("from:billing@acme.com OR is:starred", context)).toEqual({});
+      expect(toIndexQuery("-from:billing@acme.com -after:2024/01/01", context)).toEqual({});
+      expect(toIndexQuery("from:(billing@acme.com OR news@shop.example)", context)).toEqual({});
+      expect(toIndexQuery("from:", context)).toEqual({});
+    });
+
+    it("should keep the matches of the whole index", async () => {
+      const index = new InMemoryMessageIndexRepository();
+      await index.saveMessages("me@example.com", messages);
+
+      for (const query of [
+        "from:billing@acme.com is:unread",
+        "in:inbox older_than:1m",
+        "after:2024/01/01 subject:report",
+      ]) {
+        const narrowed = await index.loadMessages("me@example.com", toIndexQuery(query, context));
+        expect(matchQuery(narrowed, query, context).matches).toEqual(
+          expect.arrayContaining(matchQuery(messages, query, context).matches)
+        );
+        expect(matchQuery(narrowed, query, context).matches).toHaveLength(
+          matchQuery(messages, query, context).matches.length
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import dns from "dns";
+import { EventEmitter } from "events";
+import https from "https";
+import type { gmail_v1 } from "googleapis";
+import {
+  checkOneClickUrl,
+  isPublicAddress,
+  lookupPublicAddress,
+  parseListUnsubscribe,
+  parseMailto,
+  unsubscribe,
+} from "../unsubscribe";
+
+describe("Unsubscribe", () => {
+  describe("parseListUnsubscribe", () => {
+    it("should pick the https link and mailto address", () => {
+      expect(
+        parseListUnsubscribe(
+          "<mailto:leave@list.example.com?subject=unsubscribe>, <https://list.example.com/u?id=1>",
+          "List-Unsubscribe=One-Click"
+        )
+      ).toEqual({
+        http: "https://list.example.com/u?id=1",
+        mailto: "mailto:leave@list.example.com?subject=unsubscribe",
+        oneClick: true,
+      });
+    });
+
+    it("should only offer one-click over https with the exact POST body", () => {
+      expect(parseListUnsubscribe("<http://list.example.com/u>", "List-Unsubscribe=One-Click")?.oneClick).toBe(false);
+      expect(parseListUnsubscribe("<https://list.example.com/u>", "List-Unsubscribe=Yes")?.oneClick).toBe(false);
+      expect(parseListUnsubscribe("<https://list.example.com/u>")?.oneClick).toBe(false);
+    });
+
+    it("should ignore headers without a usable URI", () => {
+      expect(parseListUnsubscribe(undefined)).toBeNull();
+      expect(parseListUnsubscribe("https://list.example.com/u")).toBeNull();
+      expect(parseListUnsubscribe("<ftp://list.example.com/u>")).toBeNull();
+    });
+  });
+
+  describe("parseMailto", () => {
+    it("should split the recipient, subject and body", () => {
+      expect(parseMailto("mailto:Leave@List.example.com?subject=Remove%20me&body=please")).toEqual({
+        to: "leave@list.example.com",
+        subject: "Remove me",
+        body: "please",
+      });
+      expect(parseMailto("mailto:?to=leave@list.example.com")).toEqual({
+        to: "leave@list.example.com",
+        subject: "unsubscribe",
+        body: "unsubscribe",
+      });
+    });
+
+    it("should reject recipients that would inject headers or add recipients", () => {
+      expect(parseMailto("mailto:u@list.com%0D%0ABcc:%20victim@evil.com")).toBeNull();
+      expect(parseMailto("mailto:u@list.com%0ABcc:victim@evil.com")).toBeNull();
+      expect(parseMailto("mailto:u@list.com,victim@evil.com")).toBeNull();
+      expect(parseMailto("mailto:?to=u@list.com%0D%0ABcc:victim@evil.com")).toBeNull();
+    });
+
+    it("should reject invalid recipients", () => {
+      expect(parseMailto("mailto:nobody")).toBeNull();
+      expect(parseMailto("https://list.example.com")).toBeNull();
+    });
+  });
+
+  describe("isPublicAddress", () => {
+    it("should refuse loopback, private and link-local addresses", () => {
+      [
+        "127.0.0.1",
+        "10.1.2.3",
+        "172.20.0.1",
+        "192.168.1.1",
+        "169.254.169.254",
+        "0.0.0.0",
+        "::1",
+        "fd00::1",
+        "fe80::1",
+      ].forEach((address) => expect(isPublicAddress(address)).toBe(false));
+      expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+      expect(isPublicAddress("not-an-ip")).toBe(false);
+    });
+
+    it("should accept public addresses", () => {
+      expect(isPublicAddress("93.184.216.34")).toBe(true);
+      expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+    });
+  });
+
+  describe("one-click", () => {
+    const gmail = {} as gmail_v1.Gmail;
+    let requestMock: jest.SpyInstance;
+
+    // Answers each POST with the next status and Location, without opening a connection
+    const respond = (...responses: { status: number; location?: string }[]) =>
+      requestMock.mockImplementation((_url: string, _options: https.RequestOptions, callback) => {
+        const request = new EventEmitter() as EventEmitter & { end: () => void; destroy: () => void };
+        const { status, location } = responses.shift()!;
+        request.end = () => callback({ statusCode: status, headers: location ? { location } : {}, resume: jest.fn() });
+        request.destroy = jest.fn();
+        return request;
+      });
+
+    beforeEach(() => {
+      requestMock = jest.spyOn(https, "request");
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should refuse plain http and internal hosts", async () => {
+      await expect(checkOneClickUrl("http://93.184.216.34/u")).resolves.toMatch("https");
+      await expect(checkOneClickUrl("https://127.0.0.1/u")).resolves.toMatch("not a public address");
+      await expect(checkOneClickUrl("https://[::1]/u")).resolves.toMatch("not a public address");
+      await expect(checkOneClickUrl("https://93.184.216.34/u")).resolves.toBeNull();
+    });
+
+    it("should not post to an internal host", async () => {
+      const outcome = await unsubscribe(gmail, { http: "https://169.254.169.254/latest", oneClick: true });
+
+      expect(outcome).toMatchObject({ method: "one_click", status: "failed" });
+      expect(requestMock).not.toHaveBeenCalled();
+    });
+
+    it("should not connect when the host resolves to an internal address the second time", async () => {
+      jest.spyOn(dns.promises, "lookup").mockResolvedValue([{ address: "93.184.216.34", family: 4 }] as never);
+      const lookupMock = jest
+        .spyOn(dns, "lookup")
+        .mockImplementation(((
+          _hostname: string,
+          _options: dns.LookupOptions,
+          callback: (error: Error | null, addresses: dns.LookupAddress[]) => void
+        ) => callback(null, [{ address: "127.0.0.1", family: 4 }])) as never);
+
+      const outcome = await unsubscribe(gmail, { http: "https://rebind.example/u", oneClick: true });
+
+      expect(lookupMock).toHaveBeenCalledWith("rebind.example", expect.anything(), expect.any(Function));
+      expect(outcome).toMatchObject({ status: "failed", error: "rebind.example is not a public address" });
+    });
+
+    it("should connect to the checked public address", (done) => {
+      jest
+        .spyOn(dns, "lookup")
+        .mockImplementation(((
+          _hostname: string,
+          _options: dns.LookupOptions,
+          callback: (error: Error | null, addresses: dns.LookupAddress[]) => void
+        ) => callback(null, [{ address: "93.184.216.34", family: 4 }])) as never);
+
+      lookupPublicAddress("unsubscribe.example", {}, (error, address, family) => {
+        expect(error).toBeNull();
+        expect([address, family]).toEqual(["93.184.216.34", 4]);
+        done();
+      });
+    });
+
+    it("should check every redirect hop", async () => {
+      respond({ status: 307, location: "https://10.0.0.1/internal" });
+
+      const outcome = await unsubscribe(gmail, { http: "https://93.184.216.34/u", oneClick: true });
+
+      expect(requestMock).toHaveBeenCalledTimes(1);
+      expect(requestMock.mock.calls[0][1]).toMatchObject({ method: "POST", lookup: lookupPublicAddress });
+      expect(outcome).toMatchObject({ status: "failed", error: "10.0.0.1 is not a public address" });
+    });
+
+    it("should follow redirects to public hosts", async () => {
+      respond({ status: 302, location: "/done" }, { status: 200 });
+
+      const outcome = await unsubscribe(gmail, { http: "https://93.184.216.34/u", oneClick: true });
+
+      expect(requestMock.mock.calls[1][0]).toBe("https://93.184.216.34/done");
+      expect(requestMock.mock.calls[1][1]).toMatchObject({ lookup: lookupPublicAddress });
+      expect(outcome).toMatchObject({ status: "succeeded", httpStatus: 200 });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Contact identity normalization: collapses the different spellings of one mailbox
+ * (Gmail dots, plus-addressing, per-domain rules and user-defined alias groups) into a canonical address
+ */
+
+import { addContactStats, type ContactStatsMap } from "./contact-stats";
+
+export type DomainRule = {
+  domain: string;
+  ignoreDots?: boolean; // Dots in the local part are not significant
+  subaddressSeparator?: string; // Everything after this character in the local part is dropped ("+" for Gmail)
+  canonicalDomain?: string; // Domain the mailbox is filed under, e.g. googlemail.com -> gmail.com
+};
+
+export type AliasGroup = {
+  canonical: string; // Address the group is shown as
+  aliases: string[];
+};
+
+export type IdentitySettings = {
+  domainRules: DomainRule[];
+  aliasGroups: AliasGroup[];
+  updatedAt?: string;
+};
+
+/**
+ * Maps any address to its canonical form. Applying it twice gives the same result as applying it once.
+ */
+export type IdentityResolver = (address: string) => string;
+
+export type IdentityContacts = {
+  senders: Set<string>;
+  recipients: Set<string>;
+  contactStats: ContactStatsMap;
+  aliases: Record<string, string[]>; // Canonical address -> other addresses seen for it
+};
+
+export const DEFAULT_DOMAIN_RULES: DomainRule[] = [
+  { domain: "gmail.com", ignoreDots: true, subaddressSeparator: "+" },
+  { domain: "googlemail.com", ignoreDots: true, subaddressSeparator: "+", canonicalDomain: "gmail.com" },
+];
+
+/**
+ * User rules replace the built-in rule for the same domain
+ */
+export function getDomainRules(settings?: Partial<IdentitySettings> | null): DomainRule[] {
+  const rules = new Map<string, DomainRule>();
+  [...DEFAULT_DOMAIN_RULES, ...(settings?.domainRules || [])].forEach((rule) => {
+    rules.set(rule.domain.trim().toLowerCase(), rule);
+  });
+  return Array.from(rules.values());
+}
+
+export function applyDomainRules(address: string, rules: DomainRule[]): string {
+  const normalized = address.trim().toLowerCase();
+  const at = normalized.lastIndexOf("@");
+  if (at <= 0) return normalized;
+
+  let localPart = normalized.slice(0, at);
+  const domain = normalized.slice(at + 1);
+  const rule = rules.find((candidate) => candidate.domain.trim().toLowerCase() === domain);
+  if (!rule) return normalized;
+
+  if (rule.subaddressSeparator) {
+    const separatorIndex = localPart.indexOf(rule.subaddressSeparator);
+    if (separatorIndex > 0) localPart = localPart.slice(0, separatorIndex);
+  }
+  if (rule.ignoreDots) {
+    localPart = localPart.replace(/\./g, "") || localPart;
+  }
+
+  return `${localPart}@${(rule.canonicalDomain || domain).trim().toLowerCase()}`;
+}
+
+export function createIdentityResolver(settings?: Partial<IdentitySettings> | null): IdentityResolver {
+  const rules = getDomainRules(settings);
+  const aliasTargets = new Map<string, string>();
+
+  (settings?.aliasGroups || []).forEach((group) => {
+    const canonical = applyDomainRules(group.canonical, rules);
+    group.aliases.forEach((alias) => {
+      const key = applyDomainRules(alias, rules);
+      if (key && key !== canonical) aliasTargets.set(key, canonical);
+    });
+  });
+
+  return (address: string) => {
+    let resolved = applyDomainRules(address, rules);
+
+    // A group's canonical address may itself be listed in another group; the visited set stops cycles
+    const visited = new Set([resolved]);
+    let target = aliasTargets.get(resolved);
+    while (target && !visited.has(target)) {
+      visited.add(target);
+      resolved = target;
+      target = aliasTargets.get(resolved);
+    }
+    return resolved;
+  };
+}
+
+/**
+ * Re-key scanned contacts by canonical address, combining the statistics of addresses that collapse together
+ */
+export function canonicalizeContacts(
+  contacts: {
+    senders: Iterable<string>;
+    recipients: Iterable<string>;
+    contactStats?: ContactStatsMap;
+    aliases?: Record<string, string[]>;
+  },
+  resolve: IdentityResolver
+): IdentityContacts {
+  const aliasSets = new Map<string, Set<string>>();
+  const addAlias = (canonical: string, alias: string) => {
+    if (alias === canonical) return;
+    if (!aliasSets.has(canonical)) aliasSets.set(canonical, new Set());
+    aliasSets.get(canonical)!.add(alias);
+  };
+  const canonicalOf = (address: string) => {
+    const canonical = resolve(address);
+    addAlias(canonical, address);
+    return canonical;
+  };
+
+  const senders = new Set(Array.from(contacts.senders, canonicalOf));
+  const recipients = new Set(Array.from(contacts.recipients, canonicalOf));
+
+  const contactStats: ContactStatsMap = {};
+  Object.entries(contacts.contactStats || {}).forEach(([address, stats]) => {
+    addContactStats(contactStats, canonicalOf(address), stats);
+  });
+
+  Object.entries(contacts.aliases || {}).forEach(([address, aliases]) => {
+    const canonical = canonicalOf(address);
+    aliases.forEach((alias) => addAlias(canonical, alias));
+  });
+
+  const aliases: Record<string, string[]> = {};
+  aliasSets.forEach((set, canonical) => {
+    aliases[canonical] = Array.from(set).sort();
+  });
+
+  return { senders, recipients, contactStats, aliases };
+}
+
+/**
+ * Combine two alias maps, returning a new map
+ */
+export function mergeAliases(
+  base: Record<string, string[]> | undefined,
+  update: Record<string, string[]> | undefined
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = { ...base };
+  Object.entries(update || {}).forEach(([canonical, aliases]) => {
+    merged[canonical] = Array.from(new Set([...(merged[canonical] || []), ...aliases])).sort();
+  });
+  return merged;
+}
+
+/**
+ * Every address a contact is known by, for building filters that catch all of them
+ */
+export function expandAliases(contact: { address: string; aliases?: string[] }): string[] {
+  return Array.from(new Set([contact.address, ...(contact.aliases || [])]));
+}
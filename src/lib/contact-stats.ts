@@ -0,0 +1,125 @@
+/**
+ * Per-contact message statistics shared by the scanners and sync jobs
+ */
+
+import type { ParsedAddress } from "./scanners/address-parser";
+import { mergeCategoryCounts, type CategoryCounts, type SenderCategory } from "./sender-classification";
+import type { UnsubscribeInfo } from "./unsubscribe";
+
+export type ContactStats = {
+  senderCount: number; // Messages the contact sent
+  recipientCount: number; // Messages the contact received (To/Cc/Bcc)
+  firstSeen?: string; // ISO date of the oldest message seen
+  lastSeen?: string; // ISO date of the newest message seen
+  displayName?: string; // Display name from the newest message that had one
+  categories?: CategoryCounts; // Messages the contact sent, by sender classification
+  unsubscribe?: UnsubscribeInfo; // List-Unsubscribe of the newest message the contact sent that had one
+};
+
+export type ContactStatsMap = Record<string, ContactStats>;
+
+export type ContactAddress = ParsedAddress;
+
+export type MessageContacts = {
+  senders: ContactAddress[];
+  recipients: ContactAddress[];
+  date?: string;
+  category?: SenderCategory; // Classification of the message, counted towards its senders
+  unsubscribe?: UnsubscribeInfo | null; // Parsed List-Unsubscribe headers, recorded for its senders
+};
+
+/**
+ * Normalise the various date shapes scanners see (Date, epoch ms, header string) to ISO
+ */
+export function toISODate(value: Date | string | number | null | undefined): string | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const numeric = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value;
+  const date = numeric instanceof Date ? numeric : new Date(numeric);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Add one contact's statistics into a map in place
+ */
+export function addContactStats(stats: ContactStatsMap, address: string, update: ContactStats): void {
+  const existing = stats[address];
+  if (!existing) {
+    // Firestore rejects undefined values, so only copy the fields that are set
+    const entry: ContactStats = { senderCount: update.senderCount, recipientCount: update.recipientCount };
+    if (update.firstSeen) entry.firstSeen = update.firstSeen;
+    if (update.lastSeen) entry.lastSeen = update.lastSeen;
+    if (update.displayName) entry.displayName = update.displayName;
+    if (update.categories) entry.categories = { ...update.categories };
+    if (update.unsubscribe) entry.unsubscribe = { ...update.unsubscribe };
+    stats[address] = entry;
+    return;
+  }
+
+  existing.senderCount += update.senderCount;
+  existing.recipientCount += update.recipientCount;
+  if (update.categories) {
+    existing.categories = mergeCategoryCounts(existing.categories, update.categories);
+  }
+
+  if (update.firstSeen && (!existing.firstSeen || update.firstSeen < existing.firstSeen)) {
+    existing.firstSeen = update.firstSeen;
+  }
+
+  const isNewer = !!update.lastSeen && (!existing.lastSeen || update.lastSeen >= existing.lastSeen);
+  if (update.displayName && (isNewer || !existing.displayName)) {
+    existing.displayName = update.displayName;
+  }
+  if (update.unsubscribe && (isNewer || !existing.unsubscribe)) {
+    existing.unsubscribe = { ...update.unsubscribe };
+  }
+  if (isNewer) {
+    existing.lastSeen = update.lastSeen;
+  }
+}
+
+/**
+ * Count one message towards every address on it. An address is counted at most once per role per message.
+ */
+export function recordMessageContacts(stats: ContactStatsMap, message: MessageContacts): void {
+  const roles: [ContactAddress[], "senderCount" | "recipientCount"][] = [
+    [message.senders, "senderCount"],
+    [message.recipients, "recipientCount"],
+  ];
+
+  roles.forEach(([addresses, counter]) => {
+    const seen = new Set<string>();
+    addresses.forEach(({ address, displayName }) => {
+      const key = address.trim().toLowerCase();
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+
+      addContactStats(stats, key, {
+        senderCount: counter === "senderCount" ? 1 : 0,
+        recipientCount: counter === "recipientCount" ? 1 : 0,
+        firstSeen: message.date,
+        lastSeen: message.date,
+        displayName: displayName?.trim() || undefined,
+        categories: counter === "senderCount" && message.category ? { [message.category]: 1 } : undefined,
+        unsubscribe: (counter === "senderCount" && message.unsubscribe) || undefined,
+      });
+    });
+  });
+}
+
+/**
+ * Combine two sets of statistics, returning a new map (inputs are left untouched)
+ */
+export function mergeContactStats(
+  base: ContactStatsMap | undefined,
+  update: ContactStatsMap | undefined
+): ContactStatsMap {
+  const merged: ContactStatsMap = {};
+  [base, update].forEach((source) => {
+    Object.entries(source || {}).forEach(([address, stats]) => addContactStats(merged, address, stats));
+  });
+  return merged;
+}
+
+export function getMessageCount(stats: ContactStats | undefined): number {
+  return stats ? stats.senderCount + stats.recipientCount : 0;
+}
@@ -0,0 +1,236 @@
+/**
+ * Credential vault: each account's refresh token, kept in Firestore so label jobs, schedulers and webhooks can
+ * act for the account outside its requests. Tokens are envelope-encrypted: a random data key per account
+ * encrypts the token, and the master key from CREDENTIALS_MASTER_KEY (32 bytes, base64) encrypts the data key.
+ */
+
+import { FieldValue } from "@google-cloud/firestore";
+import crypto from "crypto";
+import { PasswordEncryption } from "./crypto";
+import { getFirestore } from "./firestore";
+import { getGmailClient, getOAuthClient } from "./google";
+
+export class CredentialsError extends Error {
+  constructor(
+    public readonly reason: "missing" | "revoked" | "key_mismatch",
+    message: string
+  ) {
+    super(message);
+    this.name = "CredentialsError";
+  }
+}
+
+export type EncryptedCredentials = {
+  wrappedKey: string; // Data key encrypted with the master key
+  encryptedToken: string; // Refresh token encrypted with the data key
+  masterKeyId: string; // Fingerprint of the master key that wrapped the data key
+};
+
+export type StoredCredentials = Partial<EncryptedCredentials> & {
+  email: string;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt?: string;
+  lastUsedFor?: string; // What last read the token, e.g. "label job"
+  revokedAt?: string; // The encrypted token is deleted on revocation
+};
+
+export type CredentialsStatus = Omit<StoredCredentials, keyof EncryptedCredentials>;
+
+type LegacyCredentials = {
+  refreshToken: string; // Encrypted with PasswordEncryption
+};
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+function credentialsRef(email: string) {
+  return getFirestore().collection("gmailCredentials").doc(email);
+}
+
+export function getMasterKey(): Buffer {
+  const key = Buffer.from(process.env.CREDENTIALS_MASTER_KEY || "", "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error("CREDENTIALS_MASTER_KEY must be set to 32 random bytes, base64 encoded");
+  }
+  return key;
+}
+
+function getMasterKeyId(masterKey: Buffer): string {
+  return crypto.createHash("sha256").update(masterKey).digest("hex").slice(0, 16);
+}
+
+// iv.tag.ciphertext, base64; the account's email is authenticated so a value can't be moved to another account
+function seal(plaintext: Buffer, key: Buffer, email: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(email));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+function unseal(sealed: string, key: Buffer, email: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv!);
+  decipher.setAAD(Buffer.from(email));
+  decipher.setAuthTag(tag!);
+  return Buffer.concat([decipher.update(ciphertext!), decipher.final()]);
+}
+
+export function encryptCredentials(email: string, refreshToken: string, masterKey: Buffer): EncryptedCredentials {
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  return {
+    wrappedKey: seal(dataKey, masterKey, email),
+    encryptedToken: seal(Buffer.from(refreshToken, "utf8"), dataKey, email),
+    masterKeyId: getMasterKeyId(masterKey),
+  };
+}
+
+export function decryptCredentials(email: string, credentials: EncryptedCredentials, masterKey: Buffer): string {
+  if (credentials.masterKeyId !== getMasterKeyId(masterKey)) {
+    throw new CredentialsError("key_mismatch", `Credentials of ${email} were stored with another master key`);
+  }
+
+  const dataKey = unseal(credentials.wrappedKey, masterKey, email);
+  return unseal(credentials.encryptedToken, dataKey, email).toString("utf8");
+}
+
+/**
+ * Store an account's refresh token, replacing (and un-revoking) any stored one. Only signing in calls this;
+ * background work goes through refreshStoredCredentials.
+ */
+export async function storeCredentials(email: string, refreshToken: string): Promise<void> {
+  const encrypted = encryptCredentials(email, refreshToken, getMasterKey());
+  const existing = await credentialsRef(email).get();
+  const now = new Date().toISOString();
+
+  const credentials: StoredCredentials = {
+    email,
+    ...encrypted,
+    createdAt: existing.exists ? (existing.data() as StoredCredentials).createdAt || now : now,
+    updatedAt: now,
+  };
+  await credentialsRef(email).set(credentials);
+}
+
+/**
+ * Keep the stored token of a signed-in account current before starting background work for it. A revocation
+ * sticks until the account signs in again, so this returns false and stores nothing for revoked credentials.
+ * Failing to store, e.g. without CREDENTIALS_MASTER_KEY, only warns: the job reports it when it runs.
+ */
+export async function refreshStoredCredentials(email: string, refreshToken: string): Promise<boolean> {
+  const status = await getCredentialsStatus(email);
+  if (status?.revokedAt) return false;
+
+  try {
+    await storeCredentials(email, refreshToken);
+  } catch (error) {
+    console.warn(`Failed to store credentials of ${email}:`, error);
+  }
+  return true;
+}
+
+/**
+ * The stored refresh token of an account. Records when and for what it was used.
+ */
+export async function getCredentialsFor(
+  email: string,
+  usedFor = "background"
+): Promise<{ email: string; refreshToken: string }> {
+  const doc = await credentialsRef(email).get();
+  if (!doc.exists) {
+    throw new CredentialsError("missing", `No stored credentials for ${email}; sign in again to run background jobs`);
+  }
+
+  const stored = doc.data() as StoredCredentials & Partial<LegacyCredentials>;
+  if (stored.revokedAt) {
+    throw new CredentialsError("revoked", `Credentials of ${email} were revoked; sign in again to run background jobs`);
+  }
+
+  let refreshToken: string;
+  if (stored.refreshToken) {
+    // Stored before the vault used envelope encryption
+    refreshToken = PasswordEncryption.decrypt(stored.refreshToken, email);
+    await storeCredentials(email, refreshToken);
+  } else {
+    refreshToken = decryptCredentials(email, stored as StoredCredentials & EncryptedCredentials, getMasterKey());
+  }
+
+  await credentialsRef(email).set({ lastUsedAt: new Date().toISOString(), lastUsedFor: usedFor }, { merge: true });
+  return { email, refreshToken };
+}
+
+/**
+ * Gmail client for an account from its stored credentials. Credentials Google no longer accepts are revoked.
+ */
+export async function getStoredGmailClient(email: string, usedFor?: string) {
+  const { refreshToken } = await getCredentialsFor(email, usedFor);
+
+  let client: Awaited<ReturnType<typeof getGmailClient>>;
+  try {
+    client = await getGmailClient(refreshToken);
+  } catch (error: any) {
+    if (error?.response?.data?.error === "invalid_grant" || error?.message === "invalid_grant") {
+      await revokeCredentials(email);
+      throw new CredentialsError("revoked", `Google no longer accepts the credentials of ${email}; sign in again`);
+    }
+    throw error;
+  }
+
+  if (client.email !== email) {
+    throw new Error(`Stored credentials belong to ${client.email}, not ${email}`);
+  }
+  return client;
+}
+
+/**
+ * Delete an account's stored token, keeping when it was revoked. With revokeAtGoogle the token also stops
+ * working for the app's other sessions of the account.
+ */
+export async function revokeCredentials(email: string, { revokeAtGoogle = false } = {}): Promise<boolean> {
+  const doc = await credentialsRef(email).get();
+  if (!doc.exists) return false;
+
+  const stored = doc.data() as StoredCredentials;
+  if (revokeAtGoogle && !stored.revokedAt) {
+    try {
+      const { refreshToken } = await getCredentialsFor(email, "revocation");
+      await getOAuthClient().revokeToken(refreshToken);
+    } catch (error) {
+      console.warn(`Failed to revoke the Google token of ${email}:`, error);
+    }
+  }
+
+  // Only the metadata is kept
+  const now = new Date().toISOString();
+  await credentialsRef(email).set(
+    {
+      wrappedKey: FieldValue.delete(),
+      encryptedToken: FieldValue.delete(),
+      refreshToken: FieldValue.delete(),
+      updatedAt: now,
+      revokedAt: stored.revokedAt || now,
+    },
+    { merge: true }
+  );
+  return true;
+}
+
+/**
+ * What's stored for an account, without the token
+ */
+export async function getCredentialsStatus(email: string): Promise<CredentialsStatus | null> {
+  const doc = await credentialsRef(email).get();
+  if (!doc.exists) return null;
+
+  const {
+    email: storedEmail,
+    createdAt,
+    updatedAt,
+    lastUsedAt,
+    lastUsedFor,
+    revokedAt,
+  } = doc.data() as StoredCredentials;
+  return { email: storedEmail || email, createdAt, updatedAt, lastUsedAt, lastUsedFor, revokedAt };
+}
@@ -0,0 +1,263 @@
+/**
+ * Rule health: overlap and conflict analysis across live Gmail filters and draft rules.
+ * Gmail applies every matching filter, so overlapping rules combine their actions.
+ */
+
+import { describeCriteria, toGmailFilter, type FilterActions, type FilterCriteria } from "./gmail-filters";
+import { getCriteriaKey } from "./filter-xml";
+import { normalizeQuery } from "./gmail-query";
+
+export type FilterSource = "gmail" | "draft";
+
+export type AnalyzedFilter = {
+  id: string; // Gmail filter ID, or Firestore rule ID for drafts
+  source: FilterSource;
+  name?: string;
+  criteria: FilterCriteria;
+  actions: FilterActions;
+  labelIds: string[];
+};
+
+export type FilterIssueType = "duplicate" | "subsumed" | "conflict" | "missing_label";
+
+export type FilterIssueSeverity = "error" | "warning" | "info";
+
+export type FilterFix =
+  | { type: "delete"; filterId: string; source: FilterSource }
+  | { type: "remove_labels"; filterId: string; source: FilterSource; labelIds: string[] };
+
+export type FilterIssue = {
+  type: FilterIssueType;
+  severity: FilterIssueSeverity;
+  filterIds: string[];
+  message: string;
+  fix?: FilterFix;
+};
+
+type EffectiveAction = {
+  add: Set<string>;
+  remove: Set<string>;
+  forward?: string;
+};
+
+/**
+ * Addresses and domains in a from/to criterion, or null when it uses syntax we can't reason about
+ * (negation, quoted phrases, other operators). "a@x.com OR b@y.com", "{a b}" and "a, b" are all lists.
+ */
+export function parseAddressTerms(value: string | undefined): string[] | null {
+  if (!value) return null;
+  const terms = value
+    .toLowerCase()
+    .split(/\s+or\s+|[\s,|{}()]+/)
+    .filter(Boolean);
+  if (terms.length === 0 || terms.some((term) => term.startsWith("-") || /[":]/.test(term))) return null;
+  return terms.map((term) => term.replace(/^@/, ""));
+}
+
+// A domain covers its addresses and subdomains; anything else only covers itself
+function termCovers(broad: string, narrow: string): boolean {
+  if (broad === narrow) return true;
+  if (broad.includes("@") || !broad.includes(".")) return false;
+  return narrow.endsWith(`@${broad}`) || narrow.endsWith(`.${broad}`);
+}
+
+function addressesCover(broad: string | undefined, narrow: string | undefined): boolean {
+  if (!broad) return true;
+  if (!narrow) return false;
+  if (normalizeQuery(broad).toLowerCase() === normalizeQuery(narrow).toLowerCase()) return true;
+
+  const broadTerms = parseAddressTerms(broad);
+  const narrowTerms = parseAddressTerms(narrow);
+  if (!broadTerms || !narrowTerms) return false;
+  return narrowTerms.every((term) => broadTerms.some((candidate) => termCovers(candidate, term)));
+}
+
+function textCovers(broad: string | undefined, narrow: string | undefined): boolean {
+  if (!broad) return true;
+  return !!narrow && normalizeQuery(broad).toLowerCase() === normalizeQuery(narrow).toLowerCase();
+}
+
+/**
+ * Whether every message matched by the narrow criteria is also matched by the broad ones.
+ * Conservative: false whenever coverage can't be shown.
+ */
+export function criteriaCovers(broad: FilterCriteria, narrow: FilterCriteria): boolean {
+  if (!addressesCover(broad.from, narrow.from)) return false;
+  if (!addressesCover(broad.to, narrow.to)) return false;
+  if (!textCovers(broad.subject, narrow.subject)) return false;
+  if (!textCovers(broad.query, narrow.query)) return false;
+  if (!textCovers(broad.negatedQuery, narrow.negatedQuery)) return false;
+  if (broad.hasAttachment && !narrow.hasAttachment) return false;
+  if (broad.excludeChats && !narrow.excludeChats) return false;
+
+  if (broad.size) {
+    if (!narrow.size || narrow.sizeComparison !== broad.sizeComparison) return false;
+    if (broad.sizeComparison === "smaller" ? narrow.size > broad.size : narrow.size < broad.size) return false;
+  }
+
+  return true;
+}
+
+function getEffectiveAction(filter: AnalyzedFilter): EffectiveAction {
+  const { action } = toGmailFilter(filter.criteria, filter.actions, filter.labelIds);
+  return {
+    add: new Set(action?.addLabelIds || []),
+    remove: new Set(action?.removeLabelIds || []),
+    forward: action?.forward || undefined,
+  };
+}
+
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).every((value) => b.has(value));
+}
+
+// Everything the narrow rule does, the broad rule already does
+function actionsCovered(narrow: EffectiveAction, broad: EffectiveAction): boolean {
+  return (
+    isSubset(narrow.add, broad.add) &&
+    isSubset(narrow.remove, broad.remove) &&
+    (!narrow.forward || narrow.forward === broad.forward)
+  );
+}
+
+/**
+ * Reasons the combined actions of two overlapping rules contradict each other.
+ * For nested rules, broad is the one matching more mail: a narrower rule may archive on its own,
+ * but a broader rule archiving mail the narrower one keeps in the inbox is flagged.
+ */
+function findConflicts(
+  broad: EffectiveAction,
+  narrow: EffectiveAction,
+  nested: boolean,
+  labelName: (id: string) => string
+): string[] {
+  const reasons: string[] = [];
+
+  for (const id of Array.from(broad.add)) {
+    if (narrow.remove.has(id) && id !== "INBOX") reasons.push(`one adds ${labelName(id)} and the other removes it`);
+  }
+  for (const id of Array.from(narrow.add)) {
+    if (broad.remove.has(id) && id !== "INBOX") reasons.push(`one adds ${labelName(id)} and the other removes it`);
+  }
+
+  const archived = broad.remove.has("INBOX") && !narrow.remove.has("INBOX");
+  if (archived || (!nested && narrow.remove.has("INBOX") && !broad.remove.has("INBOX"))) {
+    reasons.push("one archives and the other keeps mail in the inbox");
+  }
+
+  // Deleting and labelling in one rule is rejected by validateFilter, but two rules can still combine them
+  if (broad.add.has("TRASH") !== narrow.add.has("TRASH")) {
+    const other = broad.add.has("TRASH") ? narrow : broad;
+    if (other.add.size > 0 || other.forward) reasons.push("one deletes mail the other labels or forwards");
+  }
+
+  return Array.from(new Set(reasons));
+}
+
+export function describeFilter(filter: AnalyzedFilter): string {
+  if (filter.name) return filter.name;
+  const parts = describeCriteria(filter.criteria);
+  return parts.length > 0 ? parts.join(", ") : filter.id;
+}
+
+// When two rules are redundant, keep the live Gmail filter over a draft, and the older of two
+function pickRedundant(a: AnalyzedFilter, b: AnalyzedFilter): AnalyzedFilter {
+  if (a.source !== b.source) return a.source === "draft" ? a : b;
+  return b;
+}
+
+/**
+ * Find duplicate criteria, rules made redundant by a broader rule, contradictory actions between
+ * overlapping rules and references to labels that no longer exist.
+ * labelNames maps every known label ID (system and user) to its name.
+ */
+export function analyzeFilters(filters: AnalyzedFilter[], labelNames: Map<string, string>): FilterIssue[] {
+  const issues: FilterIssue[] = [];
+  const labelName = (id: string) => `"${labelNames.get(id) || id}"`;
+  const effective = filters.map(getEffectiveAction);
+
+  filters.forEach((filter) => {
+    const referenced = [...filter.labelIds, ...(filter.actions.removeLabelIds || [])];
+    const missing = Array.from(new Set(referenced.filter((id) => !labelNames.has(id))));
+    if (missing.length > 0) {
+      issues.push({
+        type: "missing_label",
+        severity: "error",
+        filterIds: [filter.id],
+        message: `${describeFilter(filter)} refers to ${missing.length} deleted label(s): ${missing.join(", ")}`,
+        fix: { type: "remove_labels", filterId: filter.id, source: filter.source, labelIds: missing },
+      });
+    }
+  });
+
+  const criteriaKeys = filters.map((filter) => getCriteriaKey(filter.criteria));
+
+  for (let i = 0; i < filters.length; i++) {
+    for (let j = i + 1; j < filters.length; j++) {
+      const a = filters[i];
+      const b = filters[j];
+
+      if (criteriaKeys[i] === criteriaKeys[j]) {
+        const conflicts = findConflicts(effective[i], effective[j], false, labelName);
+        if (actionsCovered(effective[i], effective[j]) && actionsCovered(effective[j], effective[i])) {
+          const redundant = pickRedundant(a, b);
+          issues.push({
+            type: "duplicate",
+            severity: "warning",
+            filterIds: [a.id, b.id],
+            message: `${describeFilter(a)} and ${describeFilter(b)} are identical`,
+            fix: { type: "delete", filterId: redundant.id, source: redundant.source },
+          });
+        } else if (conflicts.length > 0) {
+          issues.push({
+            type: "conflict",
+            severity: "warning",
+            filterIds: [a.id, b.id],
+            message: `${describeFilter(a)} and ${describeFilter(b)} match the same mail but ${conflicts.join("; ")}`,
+          });
+        } else {
+          issues.push({
+            type: "duplicate",
+            severity: "info",
+            filterIds: [a.id, b.id],
+            message: `${describeFilter(a)} and ${describeFilter(b)} have the same criteria and could be merged`,
+          });
+        }
+        continue;
+      }
+
+      const [broadIndex, narrowIndex] = criteriaCovers(a.criteria, b.criteria)
+        ? [i, j]
+        : criteriaCovers(b.criteria, a.criteria)
+          ? [j, i]
+          : [-1, -1];
+      if (broadIndex === -1) continue;
+
+      const broad = filters[broadIndex];
+      const narrow = filters[narrowIndex];
+      if (actionsCovered(effective[narrowIndex], effective[broadIndex])) {
+        issues.push({
+          type: "subsumed",
+          severity: "warning",
+          filterIds: [narrow.id, broad.id],
+          message: `${describeFilter(narrow)} is redundant: ${describeFilter(broad)} already matches its mail and does the same`,
+          fix: { type: "delete", filterId: narrow.id, source: narrow.source },
+        });
+        continue;
+      }
+
+      const conflicts = findConflicts(effective[broadIndex], effective[narrowIndex], true, labelName);
+      if (conflicts.length > 0) {
+        issues.push({
+          type: "conflict",
+          severity: "warning",
+          filterIds: [narrow.id, broad.id],
+          message: `${describeFilter(broad)} also matches all mail of ${describeFilter(narrow)}, but ${conflicts.join("; ")}`,
+        });
+      }
+    }
+  }
+
+  const order: FilterIssueSeverity[] = ["error", "warning", "info"];
+  return issues.sort((x, y) => order.indexOf(x.severity) - order.indexOf(y.severity));
+}
@@ -0,0 +1,187 @@
+/**
+ * Versioned edits of stored rules. Gmail filters can't be updated, so editing a published rule replaces
+ * its Gmail filter; every replaced version is kept in the rule's history so versions can be compared
+ * and restored.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { loadLabels, saveFilter, saveFilterVersion, type GmailFilter, type GmailFilterVersion } from "./firestore";
+import { getLabelNames, replaceGmailFilter, resolveLabelIds } from "./gmail";
+import {
+  cleanActions,
+  cleanCriteria,
+  describeActions,
+  describeCriteria,
+  toGmailFilter,
+  type FilterActions,
+  type FilterCriteria,
+} from "./gmail-filters";
+import { getCriteriaKey } from "./filter-xml";
+
+export type FilterRevision = {
+  name?: string; // Keeps the current name when omitted
+  criteria: FilterCriteria;
+  actions: FilterActions;
+  labelIds: string[]; // Label IDs, or names of labels to create when the rule is published
+};
+
+export type FilterChange = {
+  field: "name" | "criteria" | "actions" | "labels";
+  removed: string[];
+  added: string[];
+};
+
+type FilterContent = Pick<GmailFilter, "name" | "criteria" | "actions" | "labelIds">;
+
+function describeLabels(content: FilterContent, labelNames: Map<string, string>): string[] {
+  const name = (id: string) => labelNames.get(id) || id;
+  return [
+    ...(content.labelIds || []).map((id) => `Apply "${name(id)}"`),
+    ...(content.actions.removeLabelIds || []).map((id) => `Remove "${name(id)}"`),
+  ];
+}
+
+/**
+ * What changed from one version of a rule to another, as the lines shown in Gmail's filter list
+ */
+export function diffFilterVersions(
+  before: FilterContent,
+  after: FilterContent,
+  labelNames = new Map<string, string>()
+): FilterChange[] {
+  const describe = (content: FilterContent) => ({
+    name: [content.name],
+    criteria: describeCriteria(cleanCriteria(content.criteria)),
+    actions: describeActions({ ...cleanActions(content.actions), removeLabelIds: undefined }),
+    labels: describeLabels(content, labelNames),
+  });
+  const old = describe(before);
+  const current = describe(after);
+
+  return (["name", "criteria", "actions", "labels"] as const)
+    .map((field) => ({
+      field,
+      removed: old[field].filter((line) => !current[field].includes(line)),
+      added: current[field].filter((line) => !old[field].includes(line)),
+    }))
+    .filter((change) => change.removed.length > 0 || change.added.length > 0);
+}
+
+/**
+ * Revision that restores an earlier version. Labels deleted since are recreated from their recorded names,
+ * and labels it removed that no longer exist are dropped.
+ */
+export function versionToRevision(version: GmailFilterVersion, existingLabelIds: Set<string>): FilterRevision {
+  return {
+    name: version.name,
+    criteria: version.criteria,
+    actions: {
+      ...version.actions,
+      removeLabelIds: version.actions.removeLabelIds?.filter((id) => existingLabelIds.has(id)),
+    },
+    labelIds: version.labelIds.map((id) => (existingLabelIds.has(id) ? id : version.labelNames[id] || id)),
+  };
+}
+
+/**
+ * Whether two Gmail filter bodies have the same criteria and actions
+ */
+export function isSameGmailFilter(a: gmail_v1.Schema$Filter, b: gmail_v1.Schema$Filter): boolean {
+  const actionKey = (filter: gmail_v1.Schema$Filter) =>
+    JSON.stringify([
+      [...(filter.action?.addLabelIds || [])].sort(),
+      [...(filter.action?.removeLabelIds || [])].sort(),
+      filter.action?.forward || "",
+    ]);
+  return (
+    getCriteriaKey(cleanCriteria(a.criteria as FilterCriteria)) ===
+      getCriteriaKey(cleanCriteria(b.criteria as FilterCriteria)) && actionKey(a) === actionKey(b)
+  );
+}
+
+/**
+ * Record the rule's current content as a version in its history, then save the rule with the changes applied
+ */
+export async function saveRevision(
+  email: string,
+  filter: GmailFilter,
+  changes: Partial<Pick<GmailFilter, "name" | "criteria" | "actions" | "labelIds" | "gmailId">>,
+  labelNames: Map<string, string>,
+  replacedBy: GmailFilterVersion["replacedBy"]
+): Promise<GmailFilter> {
+  const now = new Date().toISOString();
+  const version = filter.version || 1;
+  const labelIds = filter.labelIds || [];
+
+  await saveFilterVersion(email, filter.id, {
+    version,
+    name: filter.name,
+    criteria: filter.criteria,
+    actions: filter.actions,
+    labelIds,
+    labelNames: Object.fromEntries(
+      [...labelIds, ...(filter.actions.removeLabelIds || [])]
+        .filter((id) => labelNames.has(id))
+        .map((id) => [id, labelNames.get(id)!])
+    ),
+    gmailId: filter.gmailId,
+    status: filter.status,
+    createdAt: filter.updatedAt,
+    replacedAt: now,
+    replacedBy,
+  });
+
+  const revised: GmailFilter = { ...filter, ...changes, version: version + 1, updatedAt: now };
+  await saveFilter(email, revised);
+  return revised;
+}
+
+/**
+ * Apply a revision to a stored rule and record the version it replaces. A published rule gets a new
+ * Gmail filter, whose ID replaces gmailId, unless the revision leaves the Gmail filter unchanged.
+ */
+export async function reviseFilter(
+  gmail: gmail_v1.Gmail,
+  email: string,
+  filter: GmailFilter,
+  revision: FilterRevision,
+  replacedBy: GmailFilterVersion["replacedBy"] = "edit"
+): Promise<GmailFilter> {
+  const criteria = cleanCriteria(revision.criteria);
+  const actions = cleanActions(revision.actions);
+  const currentLabelIds = filter.labelIds || [];
+  const labelNames = await getLabelNames(
+    gmail,
+    [...currentLabelIds, ...(filter.actions.removeLabelIds || [])],
+    await loadLabels(email)
+  );
+
+  let labelIds = revision.labelIds;
+  let gmailId = filter.gmailId;
+  const previous = toGmailFilter(filter.criteria, filter.actions, currentLabelIds);
+  if (filter.status === "published" && filter.gmailId) {
+    labelIds = await resolveLabelIds(gmail, revision.labelIds);
+    const replacement = toGmailFilter(criteria, actions, labelIds);
+    if (!isSameGmailFilter(previous, replacement)) {
+      gmailId = await replaceGmailFilter(gmail, filter.gmailId, replacement);
+    }
+  }
+
+  try {
+    return await saveRevision(
+      email,
+      filter,
+      { name: revision.name || filter.name, criteria, actions, labelIds, gmailId },
+      labelNames,
+      replacedBy
+    );
+  } catch (error) {
+    // Put the stored version back in Gmail; filter sync pairs it with the rule again by its content
+    if (gmailId !== filter.gmailId) {
+      await replaceGmailFilter(gmail, gmailId!, previous).catch((restoreError) =>
+        console.error("[Filter History] Failed to restore the previous Gmail filter:", restoreError)
+      );
+    }
+    throw error;
+  }
+}
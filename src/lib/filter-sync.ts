@@ -0,0 +1,146 @@
+/**
+ * Drift detection between the rules stored in Firestore and the live Gmail filters. Gmail's own UI
+ * edits a filter by replacing it, so a stored rule whose filter ID is gone is paired with a live filter
+ * that has the same criteria before it is reported missing.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { loadFilters, loadLabels, type GmailFilter } from "./firestore";
+import { fromGmailFilter, toGmailFilter, type FilterCriteria } from "./gmail-filters";
+import { getCriteriaKey } from "./filter-xml";
+import { diffFilterVersions, isSameGmailFilter, type FilterChange } from "./filter-history";
+
+export type FilterSyncStatus =
+  | "in_sync" // Gmail has the filter as stored
+  | "modified" // Changed in Gmail since it was published
+  | "missing" // Published, but deleted in Gmail
+  | "unmanaged"; // Created in Gmail, no stored rule
+
+export type FilterSyncAction = "adopt" | "republish" | "discard";
+
+export type FilterSyncEntry = {
+  status: FilterSyncStatus;
+  filterId?: string; // Stored rule
+  gmailId?: string; // Live Gmail filter
+  name?: string;
+  criteria: FilterCriteria; // Gmail's criteria where the filter exists
+  relinked: boolean; // Paired with a Gmail filter under a different ID than the stored gmailId
+  changes: FilterChange[]; // For modified filters: from the stored rule to the Gmail filter
+  actions: FilterSyncAction[]; // What can be done to resolve the drift
+};
+
+const STATUS_ORDER: FilterSyncStatus[] = ["modified", "missing", "unmanaged", "in_sync"];
+
+const SYNC_ACTIONS: Record<FilterSyncStatus, FilterSyncAction[]> = {
+  in_sync: [],
+  modified: ["adopt", "republish"], // Keep Gmail's version, or push the stored rule back
+  missing: ["republish", "discard"], // Recreate the filter, or drop the stored rule
+  unmanaged: ["adopt", "discard"], // Start managing it, or delete it from Gmail
+};
+
+/**
+ * Compare published rules with the live Gmail filters. Drafts aren't in Gmail and are left out.
+ */
+export function reconcileFilters(
+  stored: GmailFilter[],
+  gmailFilters: gmail_v1.Schema$Filter[],
+  labelNames = new Map<string, string>()
+): FilterSyncEntry[] {
+  const unclaimed = new Map(gmailFilters.filter((filter) => filter.id).map((filter) => [filter.id!, filter]));
+  const published = stored.filter((filter) => filter.status === "published");
+  const toBody = (filter: GmailFilter) => toGmailFilter(filter.criteria, filter.actions, filter.labelIds || []);
+
+  // Claim filters that still have their published ID first, so pairing by content can't steal them
+  const pairs = new Map<GmailFilter, gmail_v1.Schema$Filter | undefined>();
+  published.forEach((filter) => {
+    const live = filter.gmailId ? unclaimed.get(filter.gmailId) : undefined;
+    if (live) unclaimed.delete(live.id!);
+    pairs.set(filter, live);
+  });
+
+  const claim = (match: (live: gmail_v1.Schema$Filter) => boolean) => {
+    const live = Array.from(unclaimed.values()).find(match);
+    if (live) unclaimed.delete(live.id!);
+    return live;
+  };
+
+  published.forEach((filter) => {
+    if (pairs.get(filter)) return;
+    const criteriaKey = getCriteriaKey(filter.criteria);
+    pairs.set(
+      filter,
+      claim((live) => isSameGmailFilter(toBody(filter), live)) ||
+        claim((live) => getCriteriaKey(fromGmailFilter(live).criteria) === criteriaKey)
+    );
+  });
+
+  const entries: FilterSyncEntry[] = Array.from(pairs.entries()).map(([filter, live]) => {
+    const status: FilterSyncStatus = !live
+      ? "missing"
+      : isSameGmailFilter(toBody(filter), live)
+        ? "in_sync"
+        : "modified";
+    return {
+      status,
+      filterId: filter.id,
+      gmailId: live?.id || undefined,
+      name: filter.name,
+      criteria: live ? fromGmailFilter(live).criteria : filter.criteria,
+      relinked: !!live && live.id !== filter.gmailId,
+      changes:
+        status === "modified"
+          ? diffFilterVersions(filter, { name: filter.name, ...fromGmailFilter(live!) }, labelNames)
+          : [],
+      actions: SYNC_ACTIONS[status],
+    };
+  });
+
+  unclaimed.forEach((live) => {
+    entries.push({
+      status: "unmanaged",
+      gmailId: live.id!,
+      criteria: fromGmailFilter(live).criteria,
+      relinked: false,
+      changes: [],
+      actions: SYNC_ACTIONS.unmanaged,
+    });
+  });
+
+  return entries.sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+}
+
+/**
+ * Stored rule for a Gmail filter that isn't managed yet
+ */
+export function toManagedFilter(filter: gmail_v1.Schema$Filter): GmailFilter {
+  const now = new Date().toISOString();
+  return {
+    id: `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: `Gmail Filter ${filter.id}`,
+    ...fromGmailFilter(filter),
+    gmailId: filter.id || undefined,
+    status: "published",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Load the stored rules, live Gmail filters and label names, and reconcile them
+ */
+export async function loadFilterSyncState(gmail: gmail_v1.Gmail, email: string) {
+  const [filtersResponse, labelsResponse, stored, storedLabels] = await Promise.all([
+    gmail.users.settings.filters.list({ userId: "me" }),
+    gmail.users.labels.list({ userId: "me" }),
+    loadFilters(email),
+    loadLabels(email),
+  ]);
+
+  const labelNames = new Map(storedLabels.map((label) => [label.id, label.name]));
+  (labelsResponse.data.labels || []).forEach((label) => {
+    if (label.id && label.name) labelNames.set(label.id, label.name);
+  });
+
+  const gmailFilters = filtersResponse.data.filter || [];
+  return { stored, gmailFilters, labelNames, entries: reconcileFilters(stored, gmailFilters, labelNames) };
+}
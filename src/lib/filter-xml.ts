@@ -0,0 +1,243 @@
+/**
+ * Gmail's filter import/export format (mailFilters.xml): an Atom feed with one entry per filter,
+ * each holding apps:property name/value pairs. Labels are referred to by name, not ID.
+ */
+
+import { cleanActions, cleanCriteria, type FilterActions, type FilterCriteria } from "./gmail-filters";
+import { normalizeQuery } from "./gmail-query";
+
+export type XmlFilter = {
+  criteria: FilterCriteria;
+  actions: FilterActions; // removeLabelIds has no equivalent in the format and is never set
+  labelNames: string[];
+};
+
+const SIZE_UNITS: Record<string, number> = { s_sb: 1, s_skb: 1024, s_smb: 1024 * 1024 };
+
+const TEXT_PROPERTIES: ["from" | "to" | "subject" | "query" | "negatedQuery", string][] = [
+  ["from", "from"],
+  ["to", "to"],
+  ["subject", "subject"],
+  ["query", "hasTheWord"],
+  ["negatedQuery", "doesNotHaveTheWord"],
+];
+
+const ACTION_PROPERTIES: ["archive" | "markAsRead" | "star" | "neverSpam" | "trash", string][] = [
+  ["archive", "shouldArchive"],
+  ["markAsRead", "shouldMarkAsRead"],
+  ["star", "shouldStar"],
+  ["neverSpam", "shouldNeverSpam"],
+  ["trash", "shouldTrash"],
+];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] || match;
+  });
+}
+
+function toProperties(filter: XmlFilter): [string, string][] {
+  const criteria = cleanCriteria(filter.criteria);
+  const actions = cleanActions(filter.actions);
+  const properties: [string, string][] = [];
+
+  TEXT_PROPERTIES.forEach(([key, name]) => {
+    const value = criteria[key];
+    if (value) properties.push([name, value]);
+  });
+  if (criteria.hasAttachment) properties.push(["hasAttachment", "true"]);
+  if (criteria.excludeChats) properties.push(["excludeChats", "true"]);
+  if (criteria.size) {
+    properties.push(["size", String(criteria.size)]);
+    properties.push(["sizeOperator", criteria.sizeComparison === "smaller" ? "s_ss" : "s_sl"]);
+    properties.push(["sizeUnit", "s_sb"]);
+  }
+
+  // Gmail itself only ever writes one label per entry; further labels are kept as repeated properties
+  filter.labelNames.forEach((name) => properties.push(["label", name]));
+  ACTION_PROPERTIES.forEach(([key, name]) => {
+    if (actions[key]) properties.push([name, "true"]);
+  });
+  if (actions.important === "always") properties.push(["shouldAlwaysMarkAsImportant", "true"]);
+  if (actions.important === "never") properties.push(["shouldNeverMarkAsImportant", "true"]);
+  if (actions.forward) properties.push(["forwardTo", actions.forward]);
+
+  return properties;
+}
+
+/**
+ * Swap label IDs for names; an ID without a known name is kept as-is
+ */
+export function withLabelNames(
+  filter: { criteria: FilterCriteria; actions: FilterActions; labelIds?: string[] },
+  labelNames: Map<string, string>
+): XmlFilter {
+  return {
+    criteria: filter.criteria,
+    actions: filter.actions,
+    labelNames: (filter.labelIds || []).map((id) => labelNames.get(id) || id),
+  };
+}
+
+/**
+ * Serialize filters to a mailFilters.xml document Gmail's Settings → Filters → Import accepts
+ */
+export function serializeFilterXml(filters: XmlFilter[], author?: { name?: string; email: string }): string {
+  const updated = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  const ids = filters.map((_, index) => `z${String(index + 1).padStart(13, "0")}`);
+
+  const entries = filters.map((filter, index) => {
+    const properties = toProperties(filter)
+      .map(([name, value]) => `\t\t<apps:property name='${name}' value='${escapeXml(value)}'/>`)
+      .join("\n");
+    return [
+      "\t<entry>",
+      "\t\t<category term='filter'></category>",
+      "\t\t<title>Mail Filter</title>",
+      `\t\t<id>tag:mail.google.com,2008:filter:${ids[index]}</id>`,
+      `\t\t<updated>${updated}</updated>`,
+      "\t\t<content></content>",
+      properties,
+      "\t</entry>",
+    ].join("\n");
+  });
+
+  return [
+    "<?xml version='1.0' encoding='UTF-8'?>" +
+      "<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    "\t<title>Mail Filters</title>",
+    `\t<id>tag:mail.google.com,2008:filters:${ids.join(",")}</id>`,
+    `\t<updated>${updated}</updated>`,
+    ...(author
+      ? [
+          "\t<author>",
+          `\t\t<name>${escapeXml(author.name || author.email)}</name>`,
+          `\t\t<email>${escapeXml(author.email)}</email>`,
+          "\t</author>",
+        ]
+      : []),
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function readAttribute(tag: string, attribute: string): string | undefined {
+  const match = new RegExp(`\\b${attribute}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(tag);
+  if (!match) return undefined;
+  return unescapeXml(match[2] ?? match[3] ?? "");
+}
+
+/**
+ * Parse a mailFilters.xml document. Unknown properties (such as smartLabelToApply) are ignored.
+ * Throws when the document contains no filter entries.
+ */
+export function parseFilterXml(xml: string): XmlFilter[] {
+  const entries = Array.from(xml.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/g), (match) => match[1]);
+  if (entries.length === 0) {
+    throw new Error("No filter entries found in the XML document");
+  }
+
+  return entries.map((entry) => {
+    const properties: [string, string][] = [];
+    for (const match of entry.matchAll(/<apps:property\b[^>]*>/g)) {
+      const name = readAttribute(match[0], "name");
+      const value = readAttribute(match[0], "value");
+      if (name && value !== undefined) properties.push([name, value]);
+    }
+
+    const values = new Map(properties);
+    const isSet = (name: string) => values.get(name) === "true";
+
+    const criteria: FilterCriteria = {};
+    TEXT_PROPERTIES.forEach(([key, name]) => {
+      const value = values.get(name);
+      if (value) criteria[key] = value;
+    });
+    criteria.hasAttachment = isSet("hasAttachment");
+    criteria.excludeChats = isSet("excludeChats");
+    const size = Number(values.get("size"));
+    if (size > 0) {
+      criteria.size = size * (SIZE_UNITS[values.get("sizeUnit") || "s_sb"] || 1);
+      criteria.sizeComparison = values.get("sizeOperator") === "s_ss" ? "smaller" : "larger";
+    }
+
+    const actions: FilterActions = {};
+    ACTION_PROPERTIES.forEach(([key, name]) => {
+      if (isSet(name)) actions[key] = true;
+    });
+    if (isSet("shouldAlwaysMarkAsImportant")) actions.important = "always";
+    if (isSet("shouldNeverMarkAsImportant")) actions.important = "never";
+    if (values.get("forwardTo")) actions.forward = values.get("forwardTo");
+
+    return {
+      criteria: cleanCriteria(criteria),
+      actions: cleanActions(actions),
+      labelNames: Array.from(new Set(properties.filter(([name]) => name === "label").map(([, value]) => value))),
+    };
+  });
+}
+
+/**
+ * Stable key for comparing filters regardless of property order or label IDs
+ */
+export function getFilterKey(filter: XmlFilter): string {
+  return JSON.stringify({
+    criteria: getCriteriaKey(filter.criteria),
+    actions: Object.entries(cleanActions(filter.actions)).sort(),
+    labels: [...filter.labelNames].map((name) => name.toLowerCase()).sort(),
+  });
+}
+
+// Text criteria are compared in normalized query form, so {a b} and a OR b are the same rule
+export function getCriteriaKey(criteria: FilterCriteria): string {
+  return JSON.stringify(
+    Object.entries(cleanCriteria(criteria))
+      .map(([key, value]) => [
+        key,
+        typeof value === "string" && key !== "sizeComparison" ? normalizeQuery(value) : value,
+      ])
+      .sort()
+  );
+}
+
+export type FilterDiffStatus = "new" | "changed" | "duplicate";
+
+export type FilterDiffEntry = XmlFilter & {
+  index: number; // Position in the imported document
+  status: FilterDiffStatus; // changed = same criteria as an existing filter, different actions or labels
+  matchId?: string; // Existing filter it duplicates or changes
+};
+
+/**
+ * Compare imported filters against existing ones by content, ignoring IDs and property order
+ */
+export function diffFilters(imported: XmlFilter[], existing: (XmlFilter & { id: string })[]): FilterDiffEntry[] {
+  const byKey = new Map(existing.map((filter) => [getFilterKey(filter), filter.id]));
+  const byCriteria = new Map(existing.map((filter) => [getCriteriaKey(filter.criteria), filter.id]));
+
+  return imported.map((filter, index) => {
+    const duplicateId = byKey.get(getFilterKey(filter));
+    if (duplicateId) return { ...filter, index, status: "duplicate", matchId: duplicateId };
+
+    const changedId = byCriteria.get(getCriteriaKey(filter.criteria));
+    if (changedId) return { ...filter, index, status: "changed", matchId: changedId };
+
+    return { ...filter, index, status: "new" };
+  });
+}
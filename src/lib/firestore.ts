@@ -1,4 +1,9 @@
-import { Firestore } from "@google-cloud/firestore";
+import { FieldValue, Firestore } from "@google-cloud/firestore";
+import { getMessageCount, mergeContactStats, type ContactStats, type ContactStatsMap } from "./contact-stats";
+import { canonicalizeContacts, createIdentityResolver, type IdentitySettings } from "./contact-identity";
+import { getSenderCategory, type CategoryCounts, type SenderCategory } from "./sender-classification";
+import type { UnsubscribeInfo, UnsubscribeOutcome } from "./unsubscribe";
+import type { FilterActions, FilterCriteria } from "./gmail-filters";
 
 let firestore: Firestore | null = null;
 
@@ -57,14 +62,74 @@ export function getFirestore() {
   }
 }
 
+/**
+ * Per-mailbox summary kept in gmailContacts/{email}; the contacts themselves live in its "contacts" subcollection
+ */
 export type ContactSnapshot = {
-  senders: string[];
-  recipients: string[];
-  merged: string[];
   messageSampleCount: number;
+  historyId?: string; // Mailbox history ID of the last completed sync, used for incremental updates
+  statsGeneration?: number; // Bumped when a scan recounts the mailbox from the beginning
+  contactsVersion?: number; // CONTACTS_VERSION once contacts have moved to the subcollection
   updatedAt: string;
 };
 
+/**
+ * Single-document layout used before contacts moved to the subcollection, read only by the migration
+ */
+type LegacyContactSnapshot = ContactSnapshot & {
+  senders?: string[];
+  recipients?: string[];
+  merged?: string[];
+  contactStats?: ContactStatsMap;
+};
+
+/**
+ * One contact in gmailContacts/{email}/contacts/{encoded canonical address}
+ */
+export type ContactRecord = {
+  address: string; // Canonical address, see contact-identity.ts
+  aliases: string[]; // Other addresses that resolved to this contact
+  displayName: string | null;
+  isSender: boolean;
+  isRecipient: boolean;
+  senderCount: number;
+  recipientCount: number;
+  messageCount: number;
+  firstSeen: string | null; // null rather than missing so the contact still shows up when ordering by date
+  lastSeen: string | null;
+  category: SenderCategory; // Derived from categoryCounts, stored so the list can be filtered by it
+  categoryCounts: CategoryCounts;
+  unsubscribe: UnsubscribeInfo | null; // From the newest message the contact sent with List-Unsubscribe
+  searchPrefixes: string[]; // Prefixes of the address, domain and name words for array-contains search
+  statsGeneration: number;
+  updatedAt: string;
+};
+
+export type ContactUpdate = {
+  senders: Iterable<string>;
+  recipients: Iterable<string>;
+  contactStats?: ContactStatsMap;
+  aliases?: Record<string, string[]>; // Canonical address -> addresses already collapsed into it
+};
+
+export type ContactSortField = "email" | "messages" | "lastSeen" | "firstSeen";
+
+export type ContactListOptions = {
+  limit: number;
+  sort?: ContactSortField;
+  direction?: "asc" | "desc";
+  search?: string;
+  category?: SenderCategory | SenderCategory[];
+  cursor?: string; // Document ID of the last contact on the previous page
+  offset?: number; // Used only when no cursor is given
+};
+
+export type ContactCounts = {
+  totalContacts: number;
+  sendersCount: number;
+  recipientsCount: number;
+};
+
 export type GmailLabel = {
   id: string;
   name: string;
@@ -88,10 +153,10 @@ export type GmailLabel = {
   updatedAt?: string;
 };
 
-export async function saveContactSnapshot(email: string, snapshot: ContactSnapshot) {
+export async function saveContactSnapshot(email: string, snapshot: Partial<ContactSnapshot>) {
   try {
     const db = getFirestore();
-    await db.collection("gmailContacts").doc(email).set(snapshot, { merge: true });
+    await db.collection("gmailContacts").doc(email).set(sanitizeData(snapshot), { merge: true });
   } catch (error: any) {
     if (error.code === 5 || error.code === "NOT_FOUND") {
       throw new Error(
@@ -107,6 +172,7 @@ export async function saveContactSnapshot(email: string, snapshot: ContactSnapsh
 
 export async function loadContactSnapshot(email: string) {
   try {
+    await migrateContactSnapshot(email);
     const db = getFirestore();
     const doc = await db.collection("gmailContacts").doc(email).get();
     return doc.exists ? (doc.data() as ContactSnapshot) : null;
@@ -121,6 +187,397 @@ export async function loadContactSnapshot(email: string) {
   }
 }
 
+// Contacts subcollection
+const CONTACTS_VERSION = 2;
+const CONTACT_WRITE_CHUNK = 400; // Below Firestore's 500 writes per batch
+const MAX_SEARCH_PREFIX = 64;
+
+const CONTACT_SORT_FIELDS: Record<ContactSortField, keyof ContactRecord> = {
+  email: "address",
+  messages: "messageCount",
+  lastSeen: "lastSeen",
+  firstSeen: "firstSeen",
+};
+
+function contactsCollection(email: string) {
+  return getFirestore().collection("gmailContacts").doc(email).collection("contacts");
+}
+
+// Addresses may contain "/", which Firestore document IDs can't
+function contactDocId(address: string): string {
+  return encodeURIComponent(address);
+}
+
+function buildSearchPrefixes(addresses: string[], displayName: string | null): string[] {
+  const tokens = addresses.flatMap((address) => {
+    const [localPart, domain = ""] = address.split("@");
+    return [address, domain, ...localPart.split(/[._+-]/)];
+  });
+  tokens.push(...(displayName || "").toLowerCase().split(/\s+/));
+
+  const prefixes = new Set<string>();
+  tokens
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .forEach((token) => {
+      for (let length = 1; length <= Math.min(token.length, MAX_SEARCH_PREFIX); length++) {
+        prefixes.add(token.slice(0, length));
+      }
+    });
+  return Array.from(prefixes);
+}
+
+function toContactRecord(
+  address: string,
+  roles: { isSender: boolean; isRecipient: boolean },
+  stats: ContactStats | undefined,
+  statsGeneration: number,
+  aliases: string[] = []
+): ContactRecord {
+  const displayName = stats?.displayName || null;
+  return {
+    address,
+    aliases,
+    displayName,
+    isSender: roles.isSender,
+    isRecipient: roles.isRecipient,
+    senderCount: stats?.senderCount || 0,
+    recipientCount: stats?.recipientCount || 0,
+    messageCount: getMessageCount(stats),
+    firstSeen: stats?.firstSeen || null,
+    lastSeen: stats?.lastSeen || null,
+    category: getSenderCategory(stats?.categories),
+    categoryCounts: stats?.categories || {},
+    unsubscribe: stats?.unsubscribe || null,
+    searchPrefixes: buildSearchPrefixes([address, ...aliases], displayName),
+    statsGeneration,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function toContactStats(record: ContactRecord): ContactStats {
+  return {
+    senderCount: record.senderCount,
+    recipientCount: record.recipientCount,
+    ...(record.firstSeen && { firstSeen: record.firstSeen }),
+    ...(record.lastSeen && { lastSeen: record.lastSeen }),
+    ...(record.displayName && { displayName: record.displayName }),
+    ...(record.categoryCounts && { categories: record.categoryCounts }),
+    ...(record.unsubscribe && { unsubscribe: record.unsubscribe }),
+  };
+}
+
+/**
+ * Upsert contacts into the subcollection, keyed by canonical address under the user's identity settings.
+ * Stats are added to what is stored, unless resetStats is set: then a new stats generation starts
+ * and contacts from older generations have their counts replaced.
+ * Returns how many contacts did not exist before.
+ */
+export async function mergeContacts(
+  email: string,
+  update: ContactUpdate,
+  options: { resetStats?: boolean } = {}
+): Promise<{ newContacts: number }> {
+  try {
+    await migrateContactSnapshot(email);
+
+    const db = getFirestore();
+    const summaryRef = db.collection("gmailContacts").doc(email);
+    const summary = (await summaryRef.get()).data() as ContactSnapshot | undefined;
+    let statsGeneration = summary?.statsGeneration || 0;
+    if (options.resetStats) {
+      statsGeneration++;
+      await summaryRef.set({ statsGeneration, contactsVersion: CONTACTS_VERSION }, { merge: true });
+    }
+
+    // Scanners usually canonicalize already; doing it again here covers the other callers
+    const identity = createIdentityResolver(await loadIdentitySettings(email));
+    const { senders, recipients, contactStats: stats, aliases } = canonicalizeContacts(update, identity);
+    const addresses = Array.from(new Set([...senders, ...recipients, ...Object.keys(stats)]));
+    const collection = contactsCollection(email);
+    let newContacts = 0;
+
+    for (let i = 0; i < addresses.length; i += CONTACT_WRITE_CHUNK) {
+      const chunk = addresses.slice(i, i + CONTACT_WRITE_CHUNK);
+      const refs = chunk.map((address) => collection.doc(contactDocId(address)));
+      const existingDocs = await db.getAll(...refs);
+      const batch = db.batch();
+
+      chunk.forEach((address, index) => {
+        const existing = existingDocs[index].exists ? (existingDocs[index].data() as ContactRecord) : null;
+        if (!existing) newContacts++;
+
+        // Counts from an older generation were made before the mailbox was recounted, so they are replaced
+        const addressStats = stats[address];
+        const isCurrent = !!existing && existing.statsGeneration === statsGeneration;
+        let contactStats: ContactStats | undefined;
+        let generation = statsGeneration;
+        if (addressStats) {
+          const carried = isCurrent ? { [address]: toContactStats(existing) } : {};
+          contactStats = mergeContactStats(carried, { [address]: addressStats })[address];
+        } else if (existing) {
+          contactStats = toContactStats(existing);
+          generation = existing.statsGeneration;
+        }
+
+        const roles = {
+          isSender: !!existing?.isSender || senders.has(address) || (addressStats?.senderCount || 0) > 0,
+          isRecipient: !!existing?.isRecipient || recipients.has(address) || (addressStats?.recipientCount || 0) > 0,
+        };
+        const contactAliases = Array.from(new Set([...(existing?.aliases || []), ...(aliases[address] || [])])).sort();
+        const record = toContactRecord(address, roles, contactStats, generation, contactAliases);
+        batch.set(refs[index], record);
+      });
+
+      await batch.commit();
+    }
+
+    return { newContacts };
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      throw new Error("Firestore database not found");
+    }
+    throw error;
+  }
+}
+
+/**
+ * One-time move of a legacy single-document snapshot into the contacts subcollection.
+ * Records are overwritten from the legacy arrays, so re-running after a partial failure is safe.
+ */
+export async function migrateContactSnapshot(email: string): Promise<boolean> {
+  const db = getFirestore();
+  const summaryRef = db.collection("gmailContacts").doc(email);
+  const doc = await summaryRef.get();
+  if (!doc.exists) return false;
+
+  const legacy = doc.data() as LegacyContactSnapshot;
+  if (legacy.contactsVersion === CONTACTS_VERSION || !Array.isArray(legacy.merged)) return false;
+
+  const senders = new Set(legacy.senders || []);
+  const recipients = new Set(legacy.recipients || []);
+  const stats = legacy.contactStats || {};
+  const statsGeneration = legacy.statsGeneration || 0;
+  const collection = contactsCollection(email);
+
+  for (let i = 0; i < legacy.merged.length; i += CONTACT_WRITE_CHUNK) {
+    const batch = db.batch();
+    legacy.merged.slice(i, i + CONTACT_WRITE_CHUNK).forEach((address) => {
+      const record = toContactRecord(
+        address,
+        { isSender: senders.has(address), isRecipient: recipients.has(address) },
+        stats[address],
+        statsGeneration
+      );
+      batch.set(collection.doc(contactDocId(address)), record);
+    });
+    await batch.commit();
+  }
+
+  await summaryRef.update({
+    senders: FieldValue.delete(),
+    recipients: FieldValue.delete(),
+    merged: FieldValue.delete(),
+    contactStats: FieldValue.delete(),
+    contactsVersion: CONTACTS_VERSION,
+  });
+
+  console.log(`[Contacts] Migrated ${legacy.merged.length} contacts for ${email} to the contacts subcollection`);
+  return true;
+}
+
+/**
+ * Re-key stored contacts after the identity settings change, folding alias records into their canonical contact.
+ * Removing an alias group does not split contacts that were merged earlier.
+ */
+export async function regroupContacts(email: string): Promise<{ mergedContacts: number }> {
+  try {
+    await migrateContactSnapshot(email);
+
+    const db = getFirestore();
+    const identity = createIdentityResolver(await loadIdentitySettings(email));
+    const collection = contactsCollection(email);
+    const snapshot = await collection.get();
+
+    const groups = new Map<string, ContactRecord[]>();
+    snapshot.docs.forEach((doc) => {
+      const record = doc.data() as ContactRecord;
+      const canonical = identity(record.address);
+      groups.set(canonical, [...(groups.get(canonical) || []), record]);
+    });
+
+    let batch = db.batch();
+    let pendingWrites = 0;
+    let mergedContacts = 0;
+
+    for (const [canonical, records] of groups) {
+      const folded = records.filter((record) => record.address !== canonical);
+      if (folded.length === 0) continue;
+
+      // Different addresses never count the same occurrence twice, so their counts are summed
+      let stats: ContactStatsMap = {};
+      records.forEach((record) => {
+        stats = mergeContactStats(stats, { [canonical]: toContactStats(record) });
+      });
+
+      const aliases = new Set(records.flatMap((record) => [record.address, ...(record.aliases || [])]));
+      aliases.delete(canonical);
+
+      const record = toContactRecord(
+        canonical,
+        {
+          isSender: records.some((candidate) => candidate.isSender),
+          isRecipient: records.some((candidate) => candidate.isRecipient),
+        },
+        stats[canonical],
+        Math.max(...records.map((candidate) => candidate.statsGeneration || 0)),
+        Array.from(aliases).sort()
+      );
+      batch.set(collection.doc(contactDocId(canonical)), record);
+      folded.forEach((alias) => batch.delete(collection.doc(contactDocId(alias.address))));
+
+      mergedContacts += folded.length;
+      pendingWrites += folded.length + 1;
+      if (pendingWrites >= CONTACT_WRITE_CHUNK) {
+        await batch.commit();
+        batch = db.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) await batch.commit();
+    return { mergedContacts };
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      throw new Error("Firestore database not found");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Page through contacts with server-side sorting and prefix search
+ */
+export async function listContacts(
+  email: string,
+  options: ContactListOptions
+): Promise<{ contacts: ContactRecord[]; totalCount: number; nextCursor: string | null }> {
+  try {
+    await migrateContactSnapshot(email);
+
+    const collection = contactsCollection(email);
+    const sortField = CONTACT_SORT_FIELDS[options.sort || "email"];
+    const direction = options.direction || "asc";
+    const search = (options.search || "").toLowerCase().trim().slice(0, MAX_SEARCH_PREFIX);
+
+    let query = search ? collection.where("searchPrefixes", "array-contains", search) : collection;
+    if (Array.isArray(options.category)) {
+      query = query.where("category", "in", options.category);
+    } else if (options.category) {
+      query = query.where("category", "==", options.category);
+    }
+    const totalCount = (await query.count().get()).data().count;
+
+    // Ties are broken by address so pages never overlap
+    query = query.orderBy(sortField, direction);
+    if (sortField !== "address") query = query.orderBy("address");
+
+    if (options.cursor) {
+      const cursorDoc = await collection.doc(options.cursor).get();
+      if (cursorDoc.exists) query = query.startAfter(cursorDoc);
+    } else if (options.offset) {
+      query = query.offset(options.offset);
+    }
+
+    const snapshot = await query.limit(options.limit).get();
+    const contacts = snapshot.docs.map((doc) => doc.data() as ContactRecord);
+    const lastDoc = snapshot.docs[snapshot.docs.length - 1];
+
+    return {
+      contacts,
+      totalCount,
+      nextCursor: lastDoc && snapshot.docs.length === options.limit ? lastDoc.id : null,
+    };
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return { contacts: [], totalCount: 0, nextCursor: null };
+    }
+    throw error;
+  }
+}
+
+export async function countContacts(email: string): Promise<ContactCounts> {
+  try {
+    await migrateContactSnapshot(email);
+
+    const collection = contactsCollection(email);
+    const [total, senders, recipients] = await Promise.all([
+      collection.count().get(),
+      collection.where("isSender", "==", true).count().get(),
+      collection.where("isRecipient", "==", true).count().get(),
+    ]);
+
+    return {
+      totalContacts: total.data().count,
+      sendersCount: senders.data().count,
+      recipientsCount: recipients.data().count,
+    };
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return { totalContacts: 0, sendersCount: 0, recipientsCount: 0 };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch specific contacts by canonical address; addresses that aren't stored are left out
+ */
+export async function loadContactRecords(email: string, addresses: string[]): Promise<ContactRecord[]> {
+  if (addresses.length === 0) return [];
+
+  try {
+    const db = getFirestore();
+    const collection = contactsCollection(email);
+    const docs = await db.getAll(...addresses.map((address) => collection.doc(contactDocId(address))));
+    return docs.filter((doc) => doc.exists).map((doc) => doc.data() as ContactRecord);
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Contact identity settings (domain rules and alias groups)
+export async function saveIdentitySettings(email: string, settings: IdentitySettings) {
+  try {
+    const db = getFirestore();
+    await db
+      .collection("contactIdentitySettings")
+      .doc(email)
+      .set(sanitizeData({ ...settings, updatedAt: new Date().toISOString() }));
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      throw new Error("Firestore database not found");
+    }
+    throw error;
+  }
+}
+
+export async function loadIdentitySettings(email: string): Promise<IdentitySettings | null> {
+  try {
+    const db = getFirestore();
+    const doc = await db.collection("contactIdentitySettings").doc(email).get();
+    return doc.exists ? (doc.data() as IdentitySettings) : null;
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return null;
+    }
+    throw error;
+  }
+}
+
 export async function saveLabels(email: string, labels: GmailLabel[]) {
   try {
     const db = getFirestore();
@@ -204,16 +661,34 @@ export async function deleteLabel(email: string, labelId: string) {
 export type GmailFilter = {
   id: string;
   name: string;
-  query: string;
-  labelIds?: string[];
-  archive?: boolean;
+  criteria: FilterCriteria;
+  actions: FilterActions;
+  labelIds?: string[]; // Labels to apply, resolved to Gmail label IDs when published
+  query?: string; // Rules saved before criteria existed, see upgradeFilter
+  archive?: boolean; // Rules saved before actions existed
   gmailId?: string; // ID when saved to Gmail
+  version?: number; // Incremented on every edit; rules without one are version 1
   createdAt: string;
   updatedAt: string;
   // Status tracking
   status: "draft" | "published"; // draft = saved in firestore, published = also in Gmail
 };
 
+// A replaced version of a rule, kept under gmailFilters/{email}/filters/{id}/history/{version}
+export type GmailFilterVersion = {
+  version: number;
+  name: string;
+  criteria: FilterCriteria;
+  actions: FilterActions;
+  labelIds: string[];
+  labelNames: Record<string, string>; // Label names at the time, to recreate labels deleted since
+  gmailId?: string; // Gmail filter the version was published as
+  status: GmailFilter["status"];
+  createdAt: string; // When the version became current
+  replacedAt: string;
+  replacedBy: "edit" | "rollback" | "adopt"; // adopt: replaced by the filter as changed in Gmail
+};
+
 export type GmailIMAPSettings = {
   enabled: boolean;
   appPassword: string; // Encrypted
@@ -228,7 +703,8 @@ export type GmailIMAPSettings = {
 export type GmailIMAPProgress = {
   userEmail: string;
   mailbox: string;
-  lastMessageScanned: number; // Last completed message ID
+  lastMessageScanned: number; // Highest message UID scanned
+  uidValidity?: string; // Mailbox UIDVALIDITY the UIDs belong to
   totalMessages: number; // Total in mailbox
   contactsFound: number; // Running total of unique contacts
   chunksCompleted: number; // How many 10K chunks finished
@@ -374,11 +850,26 @@ export async function saveFilters(email: string, filters: GmailFilter[]) {
   }
 }
 
+// Rules saved before criteria and actions existed: drafts held the From addresses in query,
+// filters synced from Gmail held search operators ("from:a to:b")
+function upgradeFilter(filter: GmailFilter): GmailFilter {
+  const legacyCriteria = !filter.query
+    ? {}
+    : /\b[a-z]+:/i.test(filter.query)
+      ? { query: filter.query }
+      : { from: filter.query };
+  return {
+    ...filter,
+    criteria: filter.criteria || legacyCriteria,
+    actions: filter.actions || (filter.archive ? { archive: true } : {}),
+  };
+}
+
 export async function loadFilters(email: string): Promise<GmailFilter[]> {
   try {
     const db = getFirestore();
     const snapshot = await db.collection("gmailFilters").doc(email).collection("filters").get();
-    return snapshot.docs.map((doc) => doc.data() as GmailFilter);
+    return snapshot.docs.map((doc) => upgradeFilter(doc.data() as GmailFilter));
   } catch (error: any) {
     if (error.code === 5 || error.code === "NOT_FOUND") {
       return [];
@@ -395,3 +886,92 @@ export async function deleteFilter(email: string, filterId: string) {
     throw error;
   }
 }
+
+export async function saveFilterVersion(email: string, filterId: string, version: GmailFilterVersion) {
+  try {
+    const db = getFirestore();
+    await db
+      .collection("gmailFilters")
+      .doc(email)
+      .collection("filters")
+      .doc(filterId)
+      .collection("history")
+      .doc(String(version.version))
+      .set(sanitizeData(version));
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      throw new Error("Firestore database not found");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Previous versions of a rule, newest first
+ */
+export async function loadFilterHistory(email: string, filterId: string): Promise<GmailFilterVersion[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection("gmailFilters")
+      .doc(email)
+      .collection("filters")
+      .doc(filterId)
+      .collection("history")
+      .orderBy("version", "desc")
+      .get();
+    return snapshot.docs.map((doc) => doc.data() as GmailFilterVersion);
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Unsubscribe attempts, one document per attempt under unsubscribeAttempts/{email}/attempts
+export type UnsubscribeAttempt = UnsubscribeOutcome & {
+  id: string;
+  address: string; // Canonical contact address the attempt was made for
+  attemptedAt: string;
+};
+
+export async function saveUnsubscribeAttempt(
+  email: string,
+  attempt: Omit<UnsubscribeAttempt, "id" | "attemptedAt">
+): Promise<UnsubscribeAttempt> {
+  try {
+    const db = getFirestore();
+    const ref = db.collection("unsubscribeAttempts").doc(email).collection("attempts").doc();
+    const record: UnsubscribeAttempt = { ...attempt, id: ref.id, attemptedAt: new Date().toISOString() };
+    await ref.set(sanitizeData(record));
+    return record;
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      throw new Error("Firestore database not found");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Most recent attempts first
+ */
+export async function loadUnsubscribeAttempts(email: string, limit = 500): Promise<UnsubscribeAttempt[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection("unsubscribeAttempts")
+      .doc(email)
+      .collection("attempts")
+      .orderBy("attemptedAt", "desc")
+      .limit(limit)
+      .get();
+    return snapshot.docs.map((doc) => doc.data() as UnsubscribeAttempt);
+  } catch (error: any) {
+    if (error.code === 5 || error.code === "NOT_FOUND") {
+      return [];
+    }
+    throw error;
+  }
+}
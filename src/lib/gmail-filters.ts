@@ -0,0 +1,207 @@
+/**
+ * Gmail filter criteria and actions as stored on rules, and their mapping to and from
+ * the users.settings.filters API, where most actions are expressed as system label changes
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { getQueryError } from "./gmail-query";
+
+export type SizeComparison = "larger" | "smaller";
+
+export type FilterCriteria = {
+  from?: string;
+  to?: string;
+  subject?: string;
+  query?: string; // "Has the words", any Gmail search syntax
+  negatedQuery?: string; // "Doesn't have"
+  hasAttachment?: boolean;
+  excludeChats?: boolean;
+  size?: number; // Bytes
+  sizeComparison?: SizeComparison;
+};
+
+export type FilterActions = {
+  archive?: boolean; // Skip the inbox
+  markAsRead?: boolean;
+  star?: boolean;
+  important?: "always" | "never";
+  neverSpam?: boolean;
+  trash?: boolean;
+  forward?: string; // Must be a verified forwarding address on the account
+  removeLabelIds?: string[]; // User labels to take off matching mail
+};
+
+// System labels Gmail uses to express the built-in actions
+const SYSTEM_ACTION_LABELS = ["INBOX", "UNREAD", "STARRED", "IMPORTANT", "SPAM", "TRASH"];
+
+const TEXT_CRITERIA = ["from", "to", "subject", "query", "negatedQuery"] as const;
+
+/**
+ * Drop empty values so stored criteria only hold what the user set
+ */
+export function cleanCriteria(criteria: FilterCriteria | undefined): FilterCriteria {
+  const cleaned: FilterCriteria = {};
+  TEXT_CRITERIA.forEach((key) => {
+    const value = criteria?.[key]?.trim();
+    if (value) cleaned[key] = value;
+  });
+  if (criteria?.hasAttachment) cleaned.hasAttachment = true;
+  if (criteria?.excludeChats) cleaned.excludeChats = true;
+  if (criteria?.size && criteria.size > 0) {
+    cleaned.size = Math.round(criteria.size);
+    cleaned.sizeComparison = criteria.sizeComparison === "smaller" ? "smaller" : "larger";
+  }
+  return cleaned;
+}
+
+export function cleanActions(actions: FilterActions | undefined): FilterActions {
+  const cleaned: FilterActions = {};
+  if (actions?.archive) cleaned.archive = true;
+  if (actions?.markAsRead) cleaned.markAsRead = true;
+  if (actions?.star) cleaned.star = true;
+  if (actions?.important === "always" || actions?.important === "never") cleaned.important = actions.important;
+  if (actions?.neverSpam) cleaned.neverSpam = true;
+  if (actions?.trash) cleaned.trash = true;
+  if (actions?.forward?.trim()) cleaned.forward = actions.forward.trim().toLowerCase();
+  const removeLabelIds = (actions?.removeLabelIds || []).filter(Boolean);
+  if (removeLabelIds.length > 0) cleaned.removeLabelIds = Array.from(new Set(removeLabelIds));
+  return cleaned;
+}
+
+/**
+ * Returns a message describing the first problem, or null when Gmail should accept the filter
+ */
+export function validateFilter(
+  criteria: FilterCriteria,
+  actions: FilterActions,
+  addLabelIds: string[] = []
+): string | null {
+  if (Object.keys(cleanCriteria(criteria)).length === 0) {
+    return "At least one criterion is required";
+  }
+  for (const [label, value] of [
+    ["From", criteria.from],
+    ["To", criteria.to],
+    ["Subject", criteria.subject],
+    ["Has the words", criteria.query],
+    ["Doesn't have", criteria.negatedQuery],
+  ]) {
+    const queryError = getQueryError(value);
+    if (queryError) return `${label}: ${queryError}`;
+  }
+  if (criteria.size !== undefined && (!Number.isFinite(criteria.size) || criteria.size < 0)) {
+    return "Size must be a positive number of bytes";
+  }
+  if (addLabelIds.length === 0 && Object.keys(cleanActions(actions)).length === 0) {
+    return "At least one action is required";
+  }
+  if (actions.forward && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(actions.forward.trim())) {
+    return `Invalid forwarding address: ${actions.forward}`;
+  }
+  if (actions.trash && (actions.archive || addLabelIds.length > 0)) {
+    return "Deleted mail can't also be archived or labelled";
+  }
+  return null;
+}
+
+/**
+ * Build the request body for users.settings.filters.create
+ */
+export function toGmailFilter(
+  criteria: FilterCriteria,
+  actions: FilterActions,
+  addLabelIds: string[] = []
+): gmail_v1.Schema$Filter {
+  const cleaned = cleanActions(actions);
+  const add = new Set(addLabelIds);
+  const remove = new Set(cleaned.removeLabelIds);
+
+  if (cleaned.archive) remove.add("INBOX");
+  if (cleaned.markAsRead) remove.add("UNREAD");
+  if (cleaned.star) add.add("STARRED");
+  if (cleaned.important === "always") add.add("IMPORTANT");
+  if (cleaned.important === "never") remove.add("IMPORTANT");
+  if (cleaned.neverSpam) remove.add("SPAM");
+  if (cleaned.trash) add.add("TRASH");
+
+  const action: gmail_v1.Schema$FilterAction = {};
+  if (add.size > 0) action.addLabelIds = Array.from(add);
+  if (remove.size > 0) action.removeLabelIds = Array.from(remove);
+  if (cleaned.forward) action.forward = cleaned.forward;
+
+  return { criteria: cleanCriteria(criteria), action };
+}
+
+/**
+ * Split a Gmail filter back into criteria, actions and the user labels it applies
+ */
+export function fromGmailFilter(filter: gmail_v1.Schema$Filter): {
+  criteria: FilterCriteria;
+  actions: FilterActions;
+  labelIds: string[];
+} {
+  const criteria = filter.criteria || {};
+  const add = filter.action?.addLabelIds || [];
+  const remove = filter.action?.removeLabelIds || [];
+
+  return {
+    criteria: cleanCriteria({
+      from: criteria.from || undefined,
+      to: criteria.to || undefined,
+      subject: criteria.subject || undefined,
+      query: criteria.query || undefined,
+      negatedQuery: criteria.negatedQuery || undefined,
+      hasAttachment: criteria.hasAttachment || undefined,
+      excludeChats: criteria.excludeChats || undefined,
+      size: criteria.size || undefined,
+      sizeComparison: (criteria.sizeComparison as SizeComparison) || undefined,
+    }),
+    actions: cleanActions({
+      archive: remove.includes("INBOX"),
+      markAsRead: remove.includes("UNREAD"),
+      star: add.includes("STARRED"),
+      important: add.includes("IMPORTANT") ? "always" : remove.includes("IMPORTANT") ? "never" : undefined,
+      neverSpam: remove.includes("SPAM"),
+      trash: add.includes("TRASH"),
+      forward: filter.action?.forward || undefined,
+      removeLabelIds: remove.filter((id) => !SYSTEM_ACTION_LABELS.includes(id)),
+    }),
+    labelIds: add.filter((id) => !SYSTEM_ACTION_LABELS.includes(id)),
+  };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${+(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} bytes`;
+}
+
+/**
+ * One line per criterion, as shown in Gmail's filter list
+ */
+export function describeCriteria(criteria: FilterCriteria): string[] {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`From: ${criteria.from}`);
+  if (criteria.to) parts.push(`To: ${criteria.to}`);
+  if (criteria.subject) parts.push(`Subject: ${criteria.subject}`);
+  if (criteria.query) parts.push(`Has the words: ${criteria.query}`);
+  if (criteria.negatedQuery) parts.push(`Doesn't have: ${criteria.negatedQuery}`);
+  if (criteria.hasAttachment) parts.push("Has attachment");
+  if (criteria.excludeChats) parts.push("Don't include chats");
+  if (criteria.size) parts.push(`Size ${criteria.sizeComparison || "larger"} than ${formatSize(criteria.size)}`);
+  return parts;
+}
+
+export function describeActions(actions: FilterActions): string[] {
+  const parts: string[] = [];
+  if (actions.archive) parts.push("Skip the inbox");
+  if (actions.markAsRead) parts.push("Mark as read");
+  if (actions.star) parts.push("Star it");
+  if (actions.important === "always") parts.push("Always mark as important");
+  if (actions.important === "never") parts.push("Never mark as important");
+  if (actions.neverSpam) parts.push("Never send to spam");
+  if (actions.trash) parts.push("Delete it");
+  if (actions.forward) parts.push(`Forward to ${actions.forward}`);
+  if (actions.removeLabelIds?.length) parts.push(`Remove ${actions.removeLabelIds.length} label(s)`);
+  return parts;
+}
@@ -0,0 +1,479 @@
+/**
+ * Gmail search syntax: a parser producing an AST with positioned validation issues, a formatter
+ * that normalizes queries, and conversion between structured filter criteria and query strings.
+ *
+ * Precedence follows Gmail: OR binds tighter than the implicit AND between terms, so
+ * "a b OR c" means a AND (b OR c). Braces are an OR group: {a b} is a OR b.
+ */
+
+import type { FilterCriteria } from "./gmail-filters";
+
+export type QueryNode =
+  | { type: "text"; value: string; quoted: boolean } // Word or "quoted phrase"
+  | { type: "field"; operator: string; value: QueryNode } // from:x, subject:(a b), from:{a b}
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }; // -x
+
+export type QueryIssue = {
+  severity: "error" | "warning"; // Gmail rejects or ignores errors; warnings are likely typos
+  message: string;
+  start: number; // Character range in the query
+  end: number;
+};
+
+export type ParsedQuery = {
+  ast: QueryNode | null; // null for an empty query
+  issues: QueryIssue[];
+};
+
+// Criteria as used by label jobs, which also accept a has: value
+export type SearchCriteria = FilterCriteria & { has?: string };
+
+type Token = {
+  kind: "word" | "phrase" | "lparen" | "rparen" | "lbrace" | "rbrace" | "minus";
+  value: string;
+  start: number;
+  end: number;
+  unterminated?: boolean;
+};
+
+type ValueCheck = (value: string) => { severity: QueryIssue["severity"]; message: string } | null;
+
+function oneOf(operator: string, values: string[]): ValueCheck {
+  return (value) =>
+    values.includes(value.toLowerCase())
+      ? null
+      : { severity: "warning", message: `Unknown value for ${operator}: "${value}"` };
+}
+
+function matches(pattern: RegExp, message: string): ValueCheck {
+  return (value) => (pattern.test(value) ? null : { severity: "error", message });
+}
+
+const SIZE_PATTERN = /^\d+(\.\d+)?[kmg]?b?$/i;
+const checkSize = (operator: string) => matches(SIZE_PATTERN, `${operator}: expects a size such as 10M or 500K`);
+const checkPeriod = (operator: string) => matches(/^\d+[dmy]$/i, `${operator}: expects a period such as 7d, 2m or 1y`);
+const checkDate = (operator: string) =>
+  matches(
+    /^(\d{4}[/-]\d{1,2}[/-]\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4}|\d+)$/,
+    `${operator}: expects a date such as 2024/01/31`
+  );
+
+const STAR_VALUES = [
+  "yellow-star",
+  "orange-star",
+  "red-star",
+  "purple-star",
+  "blue-star",
+  "green-star",
+  "red-bang",
+  "orange-guillemet",
+  "yellow-bang",
+  "green-check",
+  "blue-info",
+  "purple-question",
+];
+
+// Operators Gmail understands, with a check for their values where the syntax is fixed
+const OPERATORS: Record<string, ValueCheck | null> = {
+  from: null,
+  to: null,
+  cc: null,
+  bcc: null,
+  subject: null,
+  label: null,
+  list: null,
+  filename: null,
+  deliveredto: null,
+  rfc822msgid: null,
+  has: oneOf("has", [
+    "attachment",
+    "drive",
+    "document",
+    "spreadsheet",
+    "presentation",
+    "youtube",
+    "userlabels",
+    "nouserlabels",
+    ...STAR_VALUES,
+  ]),
+  is: oneOf("is", ["important", "starred", "unread", "read", "snoozed", "muted", "chat"]),
+  in: oneOf("in", [
+    "inbox",
+    "anywhere",
+    "snoozed",
+    "spam",
+    "trash",
+    "sent",
+    "draft",
+    "drafts",
+    "chats",
+    "important",
+    "starred",
+  ]),
+  category: oneOf("category", ["primary", "social", "promotions", "updates", "forums", "reservations", "purchases"]),
+  larger: checkSize("larger"),
+  smaller: checkSize("smaller"),
+  size: checkSize("size"),
+  older_than: checkPeriod("older_than"),
+  newer_than: checkPeriod("newer_than"),
+  after: checkDate("after"),
+  before: checkDate("before"),
+  older: checkDate("older"),
+  newer: checkDate("newer"),
+};
+
+const SIZE_UNITS: Record<string, number> = { k: 1024, m: 1024 * 1024, g: 1024 * 1024 * 1024 };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const punctuation: Record<string, Token["kind"]> = { "(": "lparen", ")": "rparen", "{": "lbrace", "}": "rbrace" };
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (punctuation[char]) {
+      tokens.push({ kind: punctuation[char], value: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const close = query.indexOf('"', i + 1);
+      const end = close === -1 ? query.length : close + 1;
+      tokens.push({
+        kind: "phrase",
+        value: query.slice(i + 1, close === -1 ? query.length : close),
+        start: i,
+        end,
+        unterminated: close === -1,
+      });
+      i = end;
+    } else if (char === "-") {
+      tokens.push({ kind: "minus", value: char, start: i, end: i + 1 });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s(){}"]/.test(query[i])) i++;
+      tokens.push({ kind: "word", value: query.slice(start, i), start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function and(children: QueryNode[]): QueryNode | null {
+  const flat = children.flatMap((child) => (child.type === "and" ? child.children : [child]));
+  return flat.length === 0 ? null : flat.length === 1 ? flat[0] : { type: "and", children: flat };
+}
+
+function or(children: QueryNode[]): QueryNode | null {
+  const flat = children.flatMap((child) => (child.type === "or" ? child.children : [child]));
+  return flat.length === 0 ? null : flat.length === 1 ? flat[0] : { type: "or", children: flat };
+}
+
+function textLeaves(node: QueryNode): string[] {
+  switch (node.type) {
+    case "text":
+      return [node.value];
+    case "field":
+      return textLeaves(node.value);
+    case "not":
+      return textLeaves(node.child);
+    default:
+      return node.children.flatMap(textLeaves);
+  }
+}
+
+/**
+ * Parse a Gmail search query. Always returns the best-effort AST; issues list what Gmail would
+ * reject (errors) or most likely misread (warnings), with their position in the query.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+  const issues: QueryIssue[] = [];
+  let pos = 0;
+
+  const issue = (severity: QueryIssue["severity"], message: string, token: { start: number; end: number }) =>
+    issues.push({ severity, message, start: token.start, end: token.end });
+  const isKeyword = (token: Token | undefined, keyword: string) => token?.kind === "word" && token.value === keyword;
+  const isClosing = (token: Token | undefined) => token?.kind === "rparen" || token?.kind === "rbrace";
+
+  function parsePrimary(): QueryNode | null {
+    const token = tokens[pos++];
+
+    if (token.kind === "lparen" || token.kind === "lbrace") {
+      const closing = token.kind === "lparen" ? "rparen" : "rbrace";
+      const inner = parseSequence(closing);
+      if (tokens[pos]?.kind === closing) {
+        pos++;
+      } else {
+        issue("error", `Missing closing ${closing === "rparen" ? "parenthesis" : "brace"}`, token);
+      }
+      if (!inner) {
+        issue("error", `Empty ${closing === "rparen" ? "parentheses" : "braces"}`, token);
+        return null;
+      }
+      return closing === "rbrace" && inner.type === "and" ? or(inner.children) : inner;
+    }
+
+    if (token.kind === "phrase") {
+      if (token.unterminated) issue("error", "Missing closing quote", token);
+      return { type: "text", value: token.value, quoted: true };
+    }
+
+    if (token.kind === "word") {
+      if (token.value === "OR" || token.value === "AND") {
+        issue("error", `${token.value} needs a term on both sides`, token);
+        return null;
+      }
+
+      const match = /^([A-Za-z_][A-Za-z0-9_]*):(.*)$/.exec(token.value);
+      if (!match) return { type: "text", value: token.value, quoted: false };
+
+      const operator = match[1].toLowerCase();
+      if (!(operator in OPERATORS)) {
+        issue("warning", `Unknown operator ${operator}: (searched as plain text)`, token);
+      }
+
+      let value: QueryNode | null = null;
+      const next = tokens[pos];
+      if (match[2]) {
+        value = { type: "text", value: match[2], quoted: false };
+      } else if (next && next.start === token.end && ["lparen", "lbrace", "phrase"].includes(next.kind)) {
+        value = parsePrimary();
+      }
+      if (!value) {
+        issue("error", `${operator}: needs a value`, token);
+        return null;
+      }
+
+      const check = OPERATORS[operator];
+      if (check) {
+        textLeaves(value).forEach((leaf) => {
+          const problem = check(leaf);
+          if (problem) issue(problem.severity, problem.message, token);
+        });
+      }
+      return { type: "field", operator, value };
+    }
+
+    // A stray closing bracket, reported by parseSequence
+    return null;
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = tokens[pos];
+    if (token.kind !== "minus") return parsePrimary();
+
+    pos++;
+    const next = tokens[pos];
+    if (!next || next.start !== token.end || isClosing(next)) {
+      // Gmail ignores a lone hyphen
+      issue("warning", "Nothing to exclude after -", token);
+      return null;
+    }
+    const child = parseUnary();
+    return child && { type: "not", child };
+  }
+
+  function parseOr(): QueryNode | null {
+    const children = [parseUnary()];
+    while (isKeyword(tokens[pos], "OR")) {
+      const keyword = tokens[pos++];
+      if (!tokens[pos] || isClosing(tokens[pos]) || isKeyword(tokens[pos], "OR")) {
+        issue("error", "OR needs a term on both sides", keyword);
+        break;
+      }
+      children.push(parseUnary());
+    }
+    return or(children.filter((child): child is QueryNode => child !== null));
+  }
+
+  function parseSequence(closing: "rparen" | "rbrace" | null): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === closing) break;
+      if (isClosing(token)) {
+        // Inside a group, leave a mismatched bracket to the caller's missing-bracket error
+        if (closing) break;
+        issue("error", `Unmatched ${token.value}`, token);
+        pos++;
+        continue;
+      }
+      if (isKeyword(token, "AND") && children.length > 0) {
+        pos++;
+        continue;
+      }
+      const node = parseOr();
+      if (node) children.push(node);
+    }
+    return and(children);
+  }
+
+  const ast = parseSequence(null);
+  return { ast, issues: issues.sort((a, b) => a.start - b.start) };
+}
+
+function format(node: QueryNode, nested: boolean): string {
+  switch (node.type) {
+    case "text":
+      return node.quoted ? `"${node.value}"` : node.value;
+    case "field":
+      return `${node.operator}:${format(node.value, true)}`;
+    case "not":
+      return `-${format(node.child, true)}`;
+    case "or": {
+      const formatted = node.children.map((child) => format(child, child.type === "and")).join(" OR ");
+      return nested ? `(${formatted})` : formatted;
+    }
+    case "and": {
+      const formatted = node.children.map((child) => format(child, false)).join(" ");
+      return nested ? `(${formatted})` : formatted;
+    }
+  }
+}
+
+/**
+ * Render an AST back to Gmail syntax: lower-case operators, OR groups instead of braces,
+ * single spaces and only the parentheses precedence requires
+ */
+export function formatQuery(node: QueryNode | null): string {
+  return node ? format(node, false) : "";
+}
+
+/**
+ * Normalized form of a query, or the trimmed input when it has errors and can't be rewritten safely
+ */
+export function normalizeQuery(query: string): string {
+  const { ast, issues } = parseQuery(query);
+  return issues.some((issue) => issue.severity === "error") ? query.trim() : formatQuery(ast);
+}
+
+/**
+ * First error in a query, for inline validation, or null when Gmail will accept it
+ */
+export function getQueryError(query: string | undefined): string | null {
+  if (!query?.trim()) return null;
+  return parseQuery(query).issues.find((issue) => issue.severity === "error")?.message || null;
+}
+
+// Parse a criterion value; invalid values are kept verbatim in parentheses
+function fragment(value: string): { node: QueryNode | null; raw?: string } {
+  const { ast, issues } = parseQuery(value);
+  return issues.some((issue) => issue.severity === "error") ? { node: null, raw: `(${value})` } : { node: ast };
+}
+
+/**
+ * Query terms for each structured criterion, in the order Gmail shows them
+ */
+export function criteriaToQueryParts(criteria: SearchCriteria): string[] {
+  const parts: string[] = [];
+
+  (["from", "to", "subject"] as const).forEach((operator) => {
+    const value = criteria[operator]?.trim();
+    if (!value) return;
+    const { node, raw } = fragment(value);
+    parts.push(node ? format({ type: "field", operator, value: node }, false) : `${operator}:${raw}`);
+  });
+
+  const query = criteria.query?.trim();
+  if (query) {
+    const { node, raw } = fragment(query);
+    parts.push(node ? format(node, false) : raw!);
+  }
+
+  // "Doesn't have" excludes mail with any of its words, as Gmail's -{a b}
+  const negatedQuery = criteria.negatedQuery?.trim();
+  if (negatedQuery) {
+    const { node, raw } = fragment(negatedQuery);
+    const excluded = node?.type === "and" ? or(node.children) : node;
+    parts.push(excluded ? format({ type: "not", child: excluded }, false) : `-${raw}`);
+  }
+
+  if (criteria.hasAttachment) parts.push("has:attachment");
+  if (criteria.has?.trim() && !(criteria.hasAttachment && criteria.has.trim() === "attachment")) {
+    parts.push(`has:${criteria.has.trim()}`);
+  }
+  if (criteria.excludeChats) parts.push("-in:chats");
+  if (criteria.size && criteria.size > 0) {
+    parts.push(`${criteria.sizeComparison === "smaller" ? "smaller" : "larger"}:${Math.round(criteria.size)}`);
+  }
+
+  return parts;
+}
+
+/**
+ * The search query Gmail runs for the criteria
+ */
+export function criteriaToQuery(criteria: SearchCriteria): string {
+  return criteriaToQueryParts(criteria).join(" ");
+}
+
+/**
+ * Bytes for a size value such as 10M, 500K or 2048
+ */
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([kmg]?)b?$/i.exec(value);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * (SIZE_UNITS[match[2].toLowerCase()] || 1));
+}
+
+/**
+ * Split a raw query into structured criteria where its top-level terms allow it; everything else
+ * stays in query. Queries with errors are returned as-is.
+ */
+export function queryToCriteria(query: string): FilterCriteria {
+  const { ast, issues } = parseQuery(query);
+  if (!ast) return {};
+  if (issues.some((issue) => issue.severity === "error")) return { query: query.trim() };
+
+  const criteria: FilterCriteria = {};
+  const rest: QueryNode[] = [];
+
+  (ast.type === "and" ? ast.children : [ast]).forEach((node) => {
+    if (node.type === "field") {
+      const { operator, value } = node;
+      if ((operator === "from" || operator === "to" || operator === "subject") && !criteria[operator]) {
+        criteria[operator] = format(value, false);
+        return;
+      }
+      if (operator === "has" && value.type === "text" && value.value.toLowerCase() === "attachment") {
+        criteria.hasAttachment = true;
+        return;
+      }
+      const size = value.type === "text" ? parseSize(value.value) : null;
+      if ((operator === "larger" || operator === "smaller") && size && !criteria.size) {
+        criteria.size = size;
+        criteria.sizeComparison = operator;
+        return;
+      }
+    }
+
+    if (node.type === "not") {
+      const { child } = node;
+      if (
+        child.type === "field" &&
+        child.operator === "in" &&
+        child.value.type === "text" &&
+        child.value.value.toLowerCase() === "chats"
+      ) {
+        criteria.excludeChats = true;
+        return;
+      }
+      // -{a b} maps back to "Doesn't have: a b"; -(a b) has no structured equivalent
+      if (child.type !== "and" && !criteria.negatedQuery) {
+        criteria.negatedQuery =
+          child.type === "or" ? child.children.map((c) => format(c, true)).join(" ") : format(child, true);
+        return;
+      }
+    }
+
+    rest.push(node);
+  });
+
+  const remaining = formatQuery(and(rest));
+  if (remaining) criteria.query = remaining;
+  return criteria;
+}
@@ -1,4 +1,9 @@
 import type { gmail_v1 } from "googleapis";
+import { toISODate, type ContactAddress, type MessageContacts } from "./contact-stats";
+import { parseAddressList } from "./scanners/address-parser";
+import { classifyMessage, type MessageHeaders } from "./sender-classification";
+import { parseListUnsubscribe } from "./unsubscribe";
+import type { IndexedMessage } from "./scanners/message-index";
 
 export type ParsedAddresses = {
   senders: Set<string>;
@@ -32,13 +37,330 @@ export function extractAddressesFromMessage(
 }
 
 export function splitAddresses(raw: string): string[] {
-  return raw
-    .split(",")
-    .map((part) => part.trim())
-    .map((part) => {
-      const match = part.match(/<([^>]+)>/);
-      return (match ? match[1] : part).toLowerCase();
-    })
-    .filter(Boolean);
+  return parseAddressList(raw).map((entry) => entry.address);
+}
+
+/**
+ * Addresses with display names plus the message date and sender classification, for per-contact statistics
+ */
+export function extractMessageContacts(message: gmail_v1.Schema$Message): MessageContacts {
+  const senders: ContactAddress[] = [];
+  const recipients: ContactAddress[] = [];
+  const headerValues: MessageHeaders = {};
+
+  const headers = message.payload?.headers || [];
+
+  headers.forEach((header) => {
+    const name = (header.name || "").toLowerCase();
+    if (name && !(name in headerValues)) headerValues[name] = header.value || "";
+  });
+
+  headers
+    .filter((h) => headerNames.includes(h.name || ""))
+    .forEach((header) => {
+      const addresses = parseAddressList(header.value);
+      (header.name === "From" ? senders : recipients).push(...addresses);
+    });
+
+  return {
+    senders,
+    recipients,
+    date: toISODate(message.internalDate),
+    category: classifyMessage(senders[0]?.address, headerValues),
+    unsubscribe: parseListUnsubscribe(headerValues["list-unsubscribe"], headerValues["list-unsubscribe-post"]),
+  };
+}
+
+/**
+ * Metadata kept in the local message index. Needs a metadata response with the Subject and address headers.
+ */
+export function extractIndexedMessage(message: gmail_v1.Schema$Message): IndexedMessage | null {
+  if (!message.id) return null;
+
+  const headers = message.payload?.headers || [];
+  const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || "";
+  const [sender] = parseAddressList(header("From"));
+
+  return {
+    id: message.id,
+    from: sender?.address || "",
+    ...(sender?.displayName && { fromName: sender.displayName }),
+    to: parseAddressList(header("To")).map((entry) => entry.address),
+    cc: [...parseAddressList(header("Cc")), ...parseAddressList(header("Bcc"))].map((entry) => entry.address),
+    subject: header("Subject"),
+    date: toISODate(message.internalDate) || null,
+    size: message.sizeEstimate || 0,
+    labels: message.labelIds || [],
+  };
+}
+
+/**
+ * Thrown when a stored history ID is too old for users.history.list (HTTP 404).
+ * Callers should fall back to a full rescan.
+ */
+export class HistoryExpiredError extends Error {
+  constructor(public readonly startHistoryId: string) {
+    super(`Gmail history ID ${startHistoryId} has expired`);
+    this.name = "HistoryExpiredError";
+  }
+}
+
+export type AddedMessages = {
+  messageIds: string[];
+  historyId?: string;
+};
+
+/**
+ * Read the mailbox's current history ID, used as the starting point for incremental syncs
+ */
+export async function getMailboxHistoryId(gmail: gmail_v1.Gmail): Promise<string | undefined> {
+  const profile = await gmail.users.getProfile({ userId: "me" });
+  return profile.data.historyId || undefined;
+}
+
+/**
+ * List the IDs of messages added since startHistoryId, following every history page.
+ * Returns the newest history ID seen so the caller can persist it for the next run.
+ */
+export async function listAddedMessageIds(gmail: gmail_v1.Gmail, startHistoryId: string): Promise<AddedMessages> {
+  const messageIds = new Set<string>();
+  let historyId: string | undefined;
+  let pageToken: string | undefined;
+
+  try {
+    do {
+      const response = await gmail.users.history.list({
+        userId: "me",
+        startHistoryId,
+        historyTypes: ["messageAdded"],
+        pageToken,
+      });
+
+      (response.data.history || []).forEach((entry) => {
+        (entry.messagesAdded || []).forEach((added) => {
+          if (added.message?.id) {
+            messageIds.add(added.message.id);
+          }
+        });
+      });
+
+      historyId = response.data.historyId || historyId;
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+  } catch (error: any) {
+    if (error?.code === 404 || error?.status === 404 || error?.response?.status === 404) {
+      throw new HistoryExpiredError(startHistoryId);
+    }
+    throw error;
+  }
+
+  return { messageIds: Array.from(messageIds), historyId };
+}
+
+/**
+ * Map label names or IDs to Gmail label IDs, creating user labels that don't exist yet
+ */
+export async function resolveLabelIds(gmail: gmail_v1.Gmail, labels: string[]): Promise<string[]> {
+  const response = await gmail.users.labels.list({ userId: "me" });
+  const labelIdMap = new Map<string, string>();
+  (response.data.labels || []).forEach((label) => {
+    if (label.id && label.name) {
+      labelIdMap.set(label.id, label.id);
+      labelIdMap.set(label.name, label.id); // Also map name to ID for quick lookup
+    }
+  });
+
+  const resolvedLabelIds: string[] = [];
+  for (const label of labels) {
+    let labelId = labelIdMap.get(label);
+    if (!labelId) {
+      // It's a new label name, create it
+      const createResponse = await gmail.users.labels.create({
+        userId: "me",
+        requestBody: {
+          name: label,
+          labelListVisibility: "labelShow",
+          messageListVisibility: "show",
+        },
+      });
+      labelId = createResponse.data.id!;
+      labelIdMap.set(label, labelId);
+    }
+    if (!resolvedLabelIds.includes(labelId)) resolvedLabelIds.push(labelId);
+  }
+
+  return resolvedLabelIds;
 }
 
+/**
+ * Label ID to name map, starting from the stored labels and asking Gmail only when some ID isn't stored
+ */
+export async function getLabelNames(
+  gmail: gmail_v1.Gmail,
+  labelIds: string[],
+  storedLabels: { id: string; name: string }[]
+): Promise<Map<string, string>> {
+  const names = new Map(storedLabels.map((label) => [label.id, label.name]));
+  if (labelIds.every((id) => names.has(id))) return names;
+
+  const response = await gmail.users.labels.list({ userId: "me" });
+  (response.data.labels || []).forEach((label) => {
+    if (label.id && label.name) names.set(label.id, label.name);
+  });
+  return names;
+}
+
+/**
+ * Swap a Gmail filter for a new one, since filters can't be updated. The replacement is created first,
+ * so a failure leaves the original in place; if the original can't be deleted the replacement is removed again.
+ * Returns the ID of the new filter.
+ */
+export async function replaceGmailFilter(
+  gmail: gmail_v1.Gmail,
+  filterId: string,
+  filter: gmail_v1.Schema$Filter
+): Promise<string> {
+  const { data: created } = await gmail.users.settings.filters.create({ userId: "me", requestBody: filter });
+
+  try {
+    await gmail.users.settings.filters.delete({ userId: "me", id: filterId });
+  } catch (error: any) {
+    // Already deleted in Gmail: the replacement simply takes its place
+    if (error.code !== 404) {
+      await gmail.users.settings.filters.delete({ userId: "me", id: created.id! }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return created.id!;
+}
+
+export const MAX_BATCH_MODIFY = 1000; // Gmail's limit of message IDs per batchModify call
+const MAX_TRANSIENT_RETRIES = 5;
+const MAX_RETRY_DELAY = 30000;
+
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "ENOTFOUND", "EPIPE"];
+
+function getErrorStatus(error: any): number | undefined {
+  return typeof error?.code === "number" ? error.code : error?.response?.status;
+}
+
+/**
+ * Whether a Gmail API error is worth retrying later: rate limits (429, or 403 rateLimitExceeded),
+ * server errors and dropped connections
+ */
+export function isTransientGmailError(error: any): boolean {
+  const status = getErrorStatus(error);
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+
+  const reason = error?.errors?.[0]?.reason || error?.response?.data?.error?.errors?.[0]?.reason;
+  if (status === 403) return RATE_LIMIT_REASONS.includes(reason);
+
+  return status === undefined && NETWORK_ERROR_CODES.includes(error?.code);
+}
+
+export type BatchModifyResult = {
+  modifiedIds: string[];
+  failedIds: string[];
+  chunkSize: number; // Chunk size to start the next call with
+};
+
+/**
+ * Add and remove labels on many messages with batchModify, doubling the chunk size after every successful call
+ * up to MAX_BATCH_MODIFY. Transient errors retry the same chunk with a growing pause, and give up after a few
+ * tries. A chunk rejected because of one of its messages (a 4xx other than a rate limit) is retried in halves,
+ * down to single messages that are reported as failed. Errors that would fail every message, such as an
+ * expired login or a label that no longer exists, fail the whole call.
+ */
+export async function batchModifyMessages(
+  gmail: gmail_v1.Gmail,
+  messageIds: string[],
+  change: { addLabelIds?: string[]; removeLabelIds?: string[] },
+  chunkSize = MAX_BATCH_MODIFY,
+  retryDelay = 1000
+): Promise<BatchModifyResult> {
+  const modifiedIds: string[] = [];
+  const failedIds: string[] = [];
+  let size = Math.min(Math.max(1, chunkSize), MAX_BATCH_MODIFY);
+  let index = 0;
+  let retries = 0;
+
+  while (index < messageIds.length) {
+    const chunk = messageIds.slice(index, index + size);
+
+    try {
+      await gmail.users.messages.batchModify({
+        userId: "me",
+        requestBody: { ids: chunk, addLabelIds: change.addLabelIds, removeLabelIds: change.removeLabelIds },
+      });
+      modifiedIds.push(...chunk);
+      index += chunk.length;
+      size = Math.min(size * 2, MAX_BATCH_MODIFY);
+      retries = 0;
+    } catch (error: any) {
+      if (isTransientGmailError(error)) {
+        if (retries >= MAX_TRANSIENT_RETRIES) throw error;
+        await new Promise((resolve) => setTimeout(resolve, Math.min(retryDelay * 2 ** retries, MAX_RETRY_DELAY)));
+        retries += 1;
+        continue;
+      }
+
+      // Only a bad message ID (400 or 404) is specific to some messages of the chunk
+      const status = getErrorStatus(error);
+      const perMessage = status === 404 || (status === 400 && !/label/i.test(error?.message || ""));
+      if (!perMessage) throw error;
+
+      if (chunk.length === 1) {
+        console.warn(`Failed to modify message ${chunk[0]}:`, error?.message || error);
+        failedIds.push(chunk[0]!);
+        index += 1;
+      } else {
+        size = Math.ceil(chunk.length / 2);
+      }
+    }
+  }
+
+  return { modifiedIds, failedIds, chunkSize: size };
+}
+
+export type MessageSample = {
+  id: string;
+  subject: string;
+  from: string;
+  date: string;
+};
+
+/**
+ * Count the messages matching a search query and fetch the headers of the first few.
+ * Gmail's resultSizeEstimate is only exact when every match fits on the first page.
+ */
+export async function sampleMatchingMessages(
+  gmail: gmail_v1.Gmail,
+  query: string,
+  sampleSize = 10
+): Promise<{ estimatedCount: number; exact: boolean; samples: MessageSample[] }> {
+  const response = await gmail.users.messages.list({ userId: "me", q: query, maxResults: sampleSize });
+  const messages = response.data.messages || [];
+  const exact = !response.data.nextPageToken;
+
+  const samples = await Promise.all(
+    messages.map(async ({ id }) => {
+      const message = await gmail.users.messages.get({
+        userId: "me",
+        id: id!,
+        format: "metadata",
+        metadataHeaders: ["Subject", "From", "Date"],
+      });
+      const headers = message.data.payload?.headers || [];
+      const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || "";
+      return { id: id!, subject: header("Subject"), from: header("From"), date: header("Date") };
+    })
+  );
+
+  return {
+    estimatedCount: exact ? messages.length : response.data.resultSizeEstimate || messages.length,
+    exact,
+    samples,
+  };
+}
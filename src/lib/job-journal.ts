@@ -0,0 +1,219 @@
+/**
+ * Journal of the label changes a label job made, so the job can be undone. Each processed page is one chunk
+ * of entries grouping the messages that got the same change; messages that already had an added label (or
+ * lacked a removed one) only record what actually changed for them. Journals don't expire with their jobs.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { getFirestore } from "./firestore";
+
+export type LabelDelta = {
+  addLabelIds: string[];
+  removeLabelIds: string[];
+};
+
+export type JournalEntry = LabelDelta & {
+  messageIds: string[];
+};
+
+export type LabelJobJournal = {
+  jobId: string;
+  email: string;
+  name: string; // Name of the journaled job
+  labelIds: string[]; // Every label the job added or removed
+  chunkCount: number;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+  undoJobId?: string;
+};
+
+// Parameters of the messages.list call a page came from
+export type MessageListing = {
+  q?: string;
+  labelIds?: string[];
+  includeSpamTrash?: boolean;
+};
+
+const MESSAGES_PER_LOOKUP = 50;
+
+function journalRef(jobId: string) {
+  return getFirestore().collection("_labelJobJournals").doc(jobId);
+}
+
+/**
+ * Group messages by the change a label delta actually makes to them. Without their current labels
+ * every message is assumed to change fully.
+ */
+export function computeLabelDeltas(
+  messageIds: string[],
+  change: LabelDelta,
+  currentLabels?: Map<string, string[]>
+): JournalEntry[] {
+  const entries = new Map<string, JournalEntry>();
+
+  messageIds.forEach((id) => {
+    const labels = currentLabels?.get(id);
+    const addLabelIds = labels ? change.addLabelIds.filter((label) => !labels.includes(label)) : change.addLabelIds;
+    const removeLabelIds = labels
+      ? change.removeLabelIds.filter((label) => labels.includes(label))
+      : change.removeLabelIds;
+    if (addLabelIds.length === 0 && removeLabelIds.length === 0) return;
+
+    const key = `${addLabelIds.join(",")}|${removeLabelIds.join(",")}`;
+    const entry = entries.get(key) || { addLabelIds, removeLabelIds, messageIds: [] };
+    entry.messageIds.push(id);
+    entries.set(key, entry);
+  });
+
+  return Array.from(entries.values());
+}
+
+/**
+ * The change that reverts a journal entry
+ */
+export function invertJournalEntry(entry: JournalEntry): LabelDelta {
+  return { addLabelIds: entry.removeLabelIds, removeLabelIds: entry.addLabelIds };
+}
+
+/**
+ * Current labels of each message. Messages that can't be fetched are left out.
+ */
+export async function loadMessageLabels(gmail: gmail_v1.Gmail, messageIds: string[]): Promise<Map<string, string[]>> {
+  const labels = new Map<string, string[]>();
+
+  for (let i = 0; i < messageIds.length; i += MESSAGES_PER_LOOKUP) {
+    await Promise.all(
+      messageIds.slice(i, i + MESSAGES_PER_LOOKUP).map(async (id) => {
+        try {
+          const message = await gmail.users.messages.get({ userId: "me", id, format: "minimal" });
+          labels.set(id, message.data.labelIds || []);
+        } catch (error) {
+          console.warn(`Failed to fetch labels of message ${id}:`, error);
+        }
+      })
+    );
+  }
+
+  return labels;
+}
+
+// Every message ID of a listing, across all its pages
+async function listAllMessageIds(gmail: gmail_v1.Gmail, listing: MessageListing): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.messages.list({ userId: "me", maxResults: 500, pageToken, ...listing });
+    response.data.messages?.forEach((message) => message.id && ids.add(message.id));
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return ids;
+}
+
+/**
+ * Which of the given labels each message of a listed page has. Rather than fetching every message, the page's
+ * date range is listed again once per label: listings are ordered newest first, so the page's first and last
+ * messages bound it. Only messages the range unexpectedly misses are fetched one by one.
+ */
+export async function loadPageLabels(
+  gmail: gmail_v1.Gmail,
+  messageIds: string[],
+  labelIds: string[],
+  listing: MessageListing
+): Promise<Map<string, string[]>> {
+  if (labelIds.length === 0 || messageIds.length === 0) {
+    return new Map(messageIds.map((id) => [id, []]));
+  }
+
+  const ends = Array.from(new Set([messageIds[0]!, messageIds[messageIds.length - 1]!]));
+  const boundaries = await loadMessageDates(gmail, ends);
+  if (boundaries.length < ends.length) return loadMessageLabels(gmail, messageIds);
+
+  // Gmail searches by the second; messages sharing a boundary second are filtered out below
+  const after = Math.floor(Math.min(...boundaries) / 1000) - 1;
+  const before = Math.floor(Math.max(...boundaries) / 1000) + 1;
+  const range = `after:${after} before:${before}`;
+  const rangeListing = { ...listing, q: listing.q ? `(${listing.q}) ${range}` : range };
+
+  const inRange = await listAllMessageIds(gmail, rangeListing);
+  const labeled = new Map<string, Set<string>>();
+  for (const labelId of labelIds) {
+    labeled.set(
+      labelId,
+      await listAllMessageIds(gmail, { ...rangeListing, labelIds: [...(listing.labelIds || []), labelId] })
+    );
+  }
+
+  const labels = new Map<string, string[]>();
+  messageIds
+    .filter((id) => inRange.has(id))
+    .forEach((id) =>
+      labels.set(
+        id,
+        labelIds.filter((labelId) => labeled.get(labelId)!.has(id))
+      )
+    );
+
+  const missed = messageIds.filter((id) => !inRange.has(id));
+  if (missed.length > 0) {
+    (await loadMessageLabels(gmail, missed)).forEach((current, id) => labels.set(id, current));
+  }
+
+  return labels;
+}
+
+async function loadMessageDates(gmail: gmail_v1.Gmail, messageIds: string[]): Promise<number[]> {
+  const dates: number[] = [];
+  for (const id of messageIds) {
+    try {
+      const message = await gmail.users.messages.get({ userId: "me", id, format: "minimal" });
+      if (message.data.internalDate) dates.push(Number(message.data.internalDate));
+    } catch (error) {
+      console.warn(`Failed to fetch date of message ${id}:`, error);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Store one chunk of a job's journal and update the journal's totals
+ */
+export async function saveJournalChunk(
+  journal: Omit<LabelJobJournal, "updatedAt">,
+  entries: JournalEntry[]
+): Promise<void> {
+  const ref = journalRef(journal.jobId);
+
+  await ref
+    .collection("chunks")
+    .doc(String(journal.chunkCount - 1).padStart(6, "0"))
+    .set({ entries });
+  // Merged so an undo recorded meanwhile (undoJobId) is kept
+  await ref.set({ ...journal, updatedAt: new Date().toISOString() }, { merge: true });
+}
+
+export async function loadJournal(jobId: string): Promise<LabelJobJournal | null> {
+  const doc = await journalRef(jobId).get();
+  return doc.exists ? (doc.data() as LabelJobJournal) : null;
+}
+
+export async function loadJournalChunk(jobId: string, index: number): Promise<JournalEntry[]> {
+  const doc = await journalRef(jobId).collection("chunks").doc(String(index).padStart(6, "0")).get();
+  return doc.exists ? (doc.data()!.entries as JournalEntry[]) : [];
+}
+
+/**
+ * Journals of a user's jobs, newest first
+ */
+export async function listJournals(email: string): Promise<LabelJobJournal[]> {
+  const snapshot = await getFirestore().collection("_labelJobJournals").where("email", "==", email).limit(50).get();
+  return snapshot.docs
+    .map((doc) => doc.data() as LabelJobJournal)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function markJournalUndone(jobId: string, undoJobId: string): Promise<void> {
+  await journalRef(jobId).set({ undoJobId, updatedAt: new Date().toISOString() }, { merge: true });
+}
@@ -1,6 +1,38 @@
-import { getGmailClient } from "@/lib/google";
-import { loadContactSnapshot, saveContactSnapshot, getFirestore } from "@/lib/firestore";
-import { extractAddressesFromMessage } from "@/lib/gmail";
+import { getStoredGmailClient } from "@/lib/credentials";
+import { createJobQueue, MAX_TASK_ATTEMPTS, type JobQueue, type JobTask } from "@/lib/job-queue";
+import {
+  loadContactSnapshot,
+  saveContactSnapshot,
+  mergeContacts,
+  getFirestore,
+  type ContactSnapshot,
+  type ContactUpdate,
+} from "@/lib/firestore";
+import {
+  extractAddressesFromMessage,
+  extractMessageContacts,
+  getMailboxHistoryId,
+  HistoryExpiredError,
+  listAddedMessageIds,
+  batchModifyMessages,
+  isTransientGmailError,
+} from "@/lib/gmail";
+import { recordMessageContacts, type ContactStatsMap } from "@/lib/contact-stats";
+import { finishLabelMerge } from "@/lib/label-hierarchy";
+import { CLASSIFICATION_HEADERS } from "@/lib/sender-classification";
+import { criteriaToQuery, criteriaToQueryParts, type SearchCriteria } from "@/lib/gmail-query";
+import { CLEANUP_ACTIONS, getCleanupQuery, type CleanupAction } from "@/lib/mailbox-cleanup";
+import {
+  computeLabelDeltas,
+  invertJournalEntry,
+  loadJournal,
+  loadJournalChunk,
+  loadPageLabels,
+  markJournalUndone,
+  saveJournalChunk,
+  type LabelJobJournal,
+  type MessageListing,
+} from "@/lib/job-journal";
 import type { gmail_v1 } from "googleapis";
 
 export type JobStatus = "pending" | "running" | "paused" | "completed" | "cancelled" | "failed";
@@ -15,6 +47,7 @@ export type ScanJob = {
   addressesFound: number;
   nextPageToken?: string;
   lastMessageId?: string;
+  historyId?: string; // Mailbox history ID captured when the scan started
   error?: string;
 };
 
@@ -22,34 +55,43 @@ export type LabelJob = {
   id: string;
   email: string;
   status: JobStatus;
-  type: "label_application";
+  type: "label_application" | "label_removal" | "label_swap" | "label_merge" | "mailbox_cleanup" | "label_undo";
   name: string;
   description: string;
   startTime: number;
   lastUpdate: number;
-  filterId: string;
-  ruleCriteria: {
-    from?: string;
-    to?: string;
-    subject?: string;
-    query?: string;
-    has?: string;
-  };
-  labelIds: string[];
+  filterId: string; // Empty for jobs not started from a rule
+  ruleCriteria: SearchCriteria;
+  labelIds: string[]; // Added to every matching message
+  removeLabelIds?: string[]; // Removed from every matching message; only messages that have it are listed
+  cleanupAction?: CleanupAction; // Set for mailbox_cleanup jobs
   messagesProcessed: number;
   messagesMatched: number;
   labelsApplied: number;
+  messagesFailed?: number;
+  failedMessageIds?: string[]; // The first MAX_FAILED_IDS messages Gmail wouldn't modify
+  skippedMessageIds?: string[]; // Every message that failed, left out when listing again (drained listings)
+  chunkSize?: number; // batchModify chunk size to continue with
+  journalChunks?: number; // Pages recorded in the job's journal (label_undo: journal chunks reverted)
+  messagesJournaled?: number;
+  undoOf?: string; // label_undo: the job whose journal is reverted
   nextPageToken?: string;
   lastMessageId?: string;
   pausedAt?: number;
   resumeCount?: number;
+  slicesProcessed?: number; // Pages processed by queued tasks; a task for an earlier slice is a duplicate
+  leaseExpiresAt?: number; // Set while a task processes a slice
   error?: string;
 };
 
 export type Job = ScanJob | LabelJob;
 
 const MESSAGES_PER_BATCH = 100;
+const LABEL_JOB_PAGE_SIZE = 500; // Largest page messages.list returns
+const MAX_FAILED_IDS = 500;
+const MAX_SKIPPED_IDS = 20000; // Keeps the job document well below Firestore's 1 MiB
 const DELAY_BETWEEN_BATCHES = 500; // ms
+const SLICE_LEASE = 5 * 60 * 1000; // How long a task may hold a slice before a redelivered task takes it over
 const JOB_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
 // Store jobs in Firestore for persistence across serverless requests
@@ -59,6 +101,7 @@ async function saveScanJob(job: ScanJob) {
   const cleanJob = { ...job };
   if (cleanJob.nextPageToken === undefined) delete cleanJob.nextPageToken;
   if (cleanJob.lastMessageId === undefined) delete cleanJob.lastMessageId;
+  if (cleanJob.historyId === undefined) delete cleanJob.historyId;
   if (cleanJob.error === undefined) delete cleanJob.error;
   await db.collection("_scanJobs").doc(job.id).set(cleanJob);
 }
@@ -107,6 +150,17 @@ async function saveLabelJob(job: LabelJob) {
   if (cleanJob.lastMessageId === undefined) delete cleanJob.lastMessageId;
   if (cleanJob.pausedAt === undefined) delete cleanJob.pausedAt;
   if (cleanJob.resumeCount === undefined) delete cleanJob.resumeCount;
+  if (cleanJob.removeLabelIds === undefined) delete cleanJob.removeLabelIds;
+  if (cleanJob.cleanupAction === undefined) delete cleanJob.cleanupAction;
+  if (cleanJob.messagesFailed === undefined) delete cleanJob.messagesFailed;
+  if (cleanJob.failedMessageIds === undefined) delete cleanJob.failedMessageIds;
+  if (cleanJob.skippedMessageIds === undefined) delete cleanJob.skippedMessageIds;
+  if (cleanJob.chunkSize === undefined) delete cleanJob.chunkSize;
+  if (cleanJob.journalChunks === undefined) delete cleanJob.journalChunks;
+  if (cleanJob.messagesJournaled === undefined) delete cleanJob.messagesJournaled;
+  if (cleanJob.undoOf === undefined) delete cleanJob.undoOf;
+  if (cleanJob.slicesProcessed === undefined) delete cleanJob.slicesProcessed;
+  if (cleanJob.leaseExpiresAt === undefined) delete cleanJob.leaseExpiresAt;
   if (cleanJob.error === undefined) delete cleanJob.error;
   await db.collection("_labelJobs").doc(job.id).set(cleanJob);
 }
@@ -188,26 +242,92 @@ export async function cancelJob(jobId: string) {
   }
 }
 
+async function fetchMessageMetadata(gmail: gmail_v1.Gmail, messageIds: string[]): Promise<gmail_v1.Schema$Message[]> {
+  const messagePromises = messageIds.map(async (id) => {
+    try {
+      const res = await gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: "metadata",
+        metadataHeaders: ["From", "To", "Cc", "Bcc", ...CLASSIFICATION_HEADERS],
+      });
+      return res.data;
+    } catch (error) {
+      console.warn(`Failed to fetch message ${id}:`, error);
+      return null;
+    }
+  });
+
+  return (await Promise.all(messagePromises)).filter(Boolean) as gmail_v1.Schema$Message[];
+}
+
+// Gathers each message's addresses and per-contact stats for mergeContacts
+function collectContacts(messages: gmail_v1.Schema$Message[]): ContactUpdate {
+  const senders = new Set<string>();
+  const recipients = new Set<string>();
+  const contactStats: ContactStatsMap = {};
+
+  messages.forEach((message) => {
+    const parsed = extractAddressesFromMessage(message);
+    parsed.senders.forEach((addr) => senders.add(addr));
+    parsed.recipients.forEach((addr) => recipients.add(addr));
+    recordMessageContacts(contactStats, extractMessageContacts(message));
+  });
+
+  return { senders, recipients, contactStats };
+}
+
 export async function processJob(job: ScanJob): Promise<void> {
   if (job.status !== "running") {
     return;
   }
 
   try {
-    const { cookies } = await import("next/headers");
-    const cookieStore = await cookies();
-    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
-
-    if (!refreshToken) {
-      throw new Error("Authentication expired");
-    }
-
-    const { gmail } = await getGmailClient(refreshToken);
+    // Stored credentials, so a scan batch doesn't depend on the request that runs it
+    const { gmail } = await getStoredGmailClient(job.email, "scan job");
 
     // Load existing data to append to
     const existingSnapshot = await loadContactSnapshot(job.email);
-    const senders = new Set(existingSnapshot?.senders || []);
-    const recipients = new Set(existingSnapshot?.recipients || []);
+    const isFirstBatch = job.messagesProcessed === 0 && !job.nextPageToken;
+
+    // After a completed full scan, only sync messages added since its history ID
+    if (isFirstBatch && existingSnapshot?.historyId) {
+      try {
+        const { messageIds, historyId } = await listAddedMessageIds(gmail, existingSnapshot.historyId);
+        console.log(
+          `Job ${job.id}: ${messageIds.length} messages added since history ID ${existingSnapshot.historyId}`
+        );
+
+        const messages = await fetchMessageMetadata(gmail, messageIds);
+        const { newContacts } = await mergeContacts(job.email, collectContacts(messages));
+
+        job.messagesProcessed += messages.length;
+        job.addressesFound += newContacts;
+        job.historyId = historyId || existingSnapshot.historyId;
+        job.status = "completed";
+        job.lastUpdate = Date.now();
+        await saveScanJob(job);
+
+        await saveContactSnapshot(job.email, {
+          messageSampleCount: existingSnapshot.messageSampleCount + messages.length,
+          historyId: job.historyId,
+          updatedAt: new Date().toISOString(),
+        });
+        return;
+      } catch (error) {
+        if (!(error instanceof HistoryExpiredError)) throw error;
+        console.log(`Job ${job.id}: ${error.message}, falling back to a full rescan`);
+      }
+    }
+
+    // Remember where the mailbox was when the full scan started so the next sync can be incremental
+    if (isFirstBatch) {
+      try {
+        job.historyId = await getMailboxHistoryId(gmail);
+      } catch (error) {
+        console.warn(`Job ${job.id}: failed to read mailbox history ID:`, error);
+      }
+    }
 
     // Process next batch of messages
     console.log(
@@ -233,44 +353,16 @@ export async function processJob(job: ScanJob): Promise<void> {
     }
 
     // Get message details in parallel
-    const messagePromises = messageIds.map(async (id) => {
-      try {
-        const res = await gmail.users.messages.get({
-          userId: "me",
-          id: id as string,
-          format: "metadata",
-          metadataHeaders: ["From", "To", "Cc", "Bcc"],
-        });
-        return res.data;
-      } catch (error) {
-        console.warn(`Failed to fetch message ${id}:`, error);
-        return null;
-      }
-    });
-
-    const messages = (await Promise.all(messagePromises)).filter(Boolean) as gmail_v1.Schema$Message[];
+    const messages = await fetchMessageMetadata(gmail, messageIds as string[]);
 
     // Check if job was cancelled during processing
     if (job.status !== "running") {
       return;
     }
 
-    // Extract addresses
-    let newAddresses = 0;
-    messages.forEach((message) => {
-      const parsed = extractAddressesFromMessage(message);
-      parsed.senders.forEach((addr) => {
-        if (!senders.has(addr)) {
-          senders.add(addr);
-          newAddresses++;
-        }
-      });
-      parsed.recipients.forEach((addr) => {
-        if (!recipients.has(addr)) {
-          recipients.add(addr);
-          newAddresses++;
-        }
-      });
+    // Store the addresses (a full scan recounts every message, so its first batch starts a new stats generation)
+    const { newContacts: newAddresses } = await mergeContacts(job.email, collectContacts(messages), {
+      resetStats: isFirstBatch,
     });
 
     // Update job stats
@@ -296,16 +388,17 @@ export async function processJob(job: ScanJob): Promise<void> {
     // Save job progress to Firestore immediately so status polling can see updates
     await saveScanJob(job);
 
-    // Save updated data incrementally
-    const merged = new Set([...senders, ...recipients]);
-    const snapshot = {
-      senders: Array.from(senders).sort(),
-      recipients: Array.from(recipients).sort(),
-      merged: Array.from(merged).sort(),
+    // Save updated summary incrementally
+    const snapshot: ContactSnapshot = {
       messageSampleCount: job.messagesProcessed,
       updatedAt: new Date().toISOString(),
     };
 
+    // Only advance the stored history ID once the full scan has finished
+    if (job.status === "completed" && job.historyId) {
+      snapshot.historyId = job.historyId;
+    }
+
     await saveContactSnapshot(job.email, snapshot);
 
     // Add small delay to avoid hitting rate limits too aggressively
@@ -319,6 +412,14 @@ export async function processJob(job: ScanJob): Promise<void> {
   }
 }
 
+function summarizeCriteria(ruleCriteria: LabelJob["ruleCriteria"]): string {
+  const criteriaParts = criteriaToQueryParts(ruleCriteria);
+
+  return criteriaParts.length > 0
+    ? criteriaParts.slice(0, 2).join(", ") + (criteriaParts.length > 2 ? "..." : "")
+    : "any emails";
+}
+
 // Label Job Functions
 export async function createLabelJob(
   email: string,
@@ -329,17 +430,7 @@ export async function createLabelJob(
   const jobId = `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
   // Generate a meaningful name and description
-  const criteriaParts: string[] = [];
-  if (ruleCriteria.from) criteriaParts.push(`from:${ruleCriteria.from}`);
-  if (ruleCriteria.to) criteriaParts.push(`to:${ruleCriteria.to}`);
-  if (ruleCriteria.subject) criteriaParts.push(`subject:${ruleCriteria.subject}`);
-  if (ruleCriteria.query) criteriaParts.push(ruleCriteria.query);
-  if (ruleCriteria.has) criteriaParts.push(`has:${ruleCriteria.has}`);
-
-  const criteriaSummary =
-    criteriaParts.length > 0
-      ? criteriaParts.slice(0, 2).join(", ") + (criteriaParts.length > 2 ? "..." : "")
-      : "any emails";
+  const criteriaSummary = summarizeCriteria(ruleCriteria);
 
   // Generate name and description
   const name = `Apply labels to ${criteriaSummary}`;
@@ -368,6 +459,144 @@ export async function createLabelJob(
   return jobId;
 }
 
+/**
+ * Job that removes a label from the messages matching the criteria (label_removal), or moves them to
+ * another label in the same modify (label_swap)
+ */
+export async function createRelabelJob(
+  email: string,
+  ruleCriteria: LabelJob["ruleCriteria"],
+  source: { id: string; name: string },
+  target?: { id: string; name: string }
+): Promise<string> {
+  const jobId = `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const criteriaSummary = summarizeCriteria(ruleCriteria);
+
+  const job: LabelJob = {
+    id: jobId,
+    email,
+    status: "pending",
+    type: target ? "label_swap" : "label_removal",
+    name: target
+      ? `Move ${criteriaSummary} from "${source.name}" to "${target.name}"`
+      : `Remove "${source.name}" from ${criteriaSummary}`,
+    description: target
+      ? `Searching your Gmail for messages labeled "${source.name}" matching: ${criteriaSummary}. Will replace "${source.name}" with "${target.name}" on each of them.`
+      : `Searching your Gmail for messages labeled "${source.name}" matching: ${criteriaSummary}. Will remove "${source.name}" from each of them.`,
+    startTime: Date.now(),
+    lastUpdate: Date.now(),
+    filterId: "",
+    ruleCriteria,
+    labelIds: target ? [target.id] : [],
+    removeLabelIds: [source.id],
+    messagesProcessed: 0,
+    messagesMatched: 0,
+    labelsApplied: 0,
+  };
+
+  await saveLabelJob(job);
+  return jobId;
+}
+
+/**
+ * Job that archives, marks as read, trashes or reports as spam the messages matching the criteria.
+ * Callers check the confirmation token of destructive actions before creating the job.
+ */
+export async function createCleanupJob(
+  email: string,
+  ruleCriteria: LabelJob["ruleCriteria"],
+  action: CleanupAction
+): Promise<string> {
+  const jobId = `cleanup_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const criteriaSummary = summarizeCriteria(ruleCriteria);
+  const { label, addLabelIds, removeLabelIds } = CLEANUP_ACTIONS[action];
+
+  const job: LabelJob = {
+    id: jobId,
+    email,
+    status: "pending",
+    type: "mailbox_cleanup",
+    name: `${label}: ${criteriaSummary}`,
+    description: `Searching your Gmail for messages matching: ${criteriaSummary}. Will ${label.toLowerCase()} each of them.`,
+    startTime: Date.now(),
+    lastUpdate: Date.now(),
+    filterId: "",
+    ruleCriteria,
+    labelIds: addLabelIds,
+    removeLabelIds,
+    cleanupAction: action,
+    messagesProcessed: 0,
+    messagesMatched: 0,
+    labelsApplied: 0,
+  };
+
+  await saveLabelJob(job);
+  return jobId;
+}
+
+/**
+ * Job that reverts the changes recorded in another job's journal
+ */
+export async function createUndoJob(email: string, journal: LabelJobJournal): Promise<string> {
+  const jobId = `undo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  const job: LabelJob = {
+    id: jobId,
+    email,
+    status: "pending",
+    type: "label_undo",
+    name: `Undo: ${journal.name}`,
+    description: `Reverting the label changes made to ${journal.messageCount} message${
+      journal.messageCount === 1 ? "" : "s"
+    } by "${journal.name}".`,
+    startTime: Date.now(),
+    lastUpdate: Date.now(),
+    filterId: "",
+    ruleCriteria: {},
+    labelIds: [],
+    undoOf: journal.jobId,
+    messagesProcessed: 0,
+    messagesMatched: 0,
+    labelsApplied: 0,
+  };
+
+  await saveLabelJob(job);
+  await markJournalUndone(journal.jobId, jobId);
+  return jobId;
+}
+
+/**
+ * Job that moves every message from one label to another, then deletes the source label
+ */
+export async function createLabelMergeJob(
+  email: string,
+  source: { id: string; name: string },
+  target: { id: string; name: string }
+): Promise<string> {
+  const jobId = `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  const job: LabelJob = {
+    id: jobId,
+    email,
+    status: "pending",
+    type: "label_merge",
+    name: `Merge "${source.name}" into "${target.name}"`,
+    description: `Moving every message labeled "${source.name}" to "${target.name}", then deleting "${source.name}" and pointing its filters at "${target.name}".`,
+    startTime: Date.now(),
+    lastUpdate: Date.now(),
+    filterId: "",
+    ruleCriteria: {},
+    labelIds: [target.id],
+    removeLabelIds: [source.id],
+    messagesProcessed: 0,
+    messagesMatched: 0,
+    labelsApplied: 0,
+  };
+
+  await saveLabelJob(job);
+  return jobId;
+}
+
 export async function getLabelJob(jobId: string): Promise<LabelJob | null> {
   return loadLabelJob(jobId);
 }
@@ -376,26 +605,11 @@ export async function startLabelJob(jobId: string): Promise<boolean> {
   const job = await loadLabelJob(jobId);
   if (!job || job.status !== "pending") return false;
 
-  // Update job status
-  await updateLabelJobInDB(jobId, {
-    status: "running",
-    resumeCount: (job.resumeCount || 0) + 1,
-  });
-
-  // Process the job synchronously in the web app
-  console.log(`🔄 Processing label job ${jobId} synchronously...`);
-  try {
-    await processLabelJob(job);
-    console.log(`✅ Completed synchronous processing for job ${jobId}`);
-  } catch (error) {
-    console.error(`❌ Synchronous processing failed for job ${jobId}:`, error);
-    await updateLabelJobInDB(jobId, {
-      status: "failed",
-      error: error instanceof Error ? error.message : "Unknown error during sync processing",
-    });
-    return false;
-  }
+  const run = (job.resumeCount || 0) + 1;
+  await updateLabelJobInDB(jobId, { status: "running", resumeCount: run });
 
+  // The worker processes one page per task and queues the next, so the job outlives this request
+  await getLabelJobQueue().enqueue({ jobId, run });
   return true;
 }
 
@@ -403,10 +617,7 @@ export async function pauseLabelJob(jobId: string): Promise<boolean> {
   const job = await loadLabelJob(jobId);
   if (!job || job.status !== "running") return false;
 
-  // Note: In a full implementation, you would need to track and cancel
-  // any pending Cloud Tasks for this job. For now, we just update the status.
-  // The worker will check job status and stop processing if paused.
-
+  // A queued task finds the job paused and stops without queueing the next one
   await updateLabelJobInDB(jobId, {
     status: "paused",
     pausedAt: Date.now(),
@@ -418,10 +629,11 @@ export async function resumeLabelJob(jobId: string): Promise<boolean> {
   const job = await loadLabelJob(jobId);
   if (!job || job.status !== "paused") return false;
 
-  await updateLabelJobInDB(jobId, {
-    status: "running",
-    resumeCount: (job.resumeCount || 0) + 1,
-  });
+  const run = (job.resumeCount || 0) + 1;
+  await updateLabelJobInDB(jobId, { status: "running", resumeCount: run });
+
+  // Continues from the checkpointed page token
+  await getLabelJobQueue().enqueue({ jobId, run });
   return true;
 }
 
@@ -450,166 +662,281 @@ export async function deleteLabelJob(jobId: string): Promise<boolean> {
   }
 }
 
-export async function processLabelJob(job: LabelJob): Promise<void> {
-  if (job.status !== "running") {
-    return;
-  }
-
-  try {
-    const { cookies } = await import("next/headers");
-    const cookieStore = await cookies();
-    const refreshToken = cookieStore.get("gmail_refresh_token")?.value;
-
-    if (!refreshToken) {
-      throw new Error("Authentication expired");
+async function completeLabelJob(gmail: gmail_v1.Gmail, job: LabelJob) {
+  if (job.type === "label_merge") {
+    // Deleting the label would strip it from the messages that weren't moved
+    const failed = job.messagesFailed || 0;
+    if (failed > 0) {
+      throw new Error(`${failed} messages could not be moved, so the merged label was kept`);
     }
+    await finishLabelMerge(gmail, job.email, job.removeLabelIds![0], job.labelIds[0]);
+  }
+  await updateLabelJobInDB(job.id, { status: "completed" });
+}
 
-    const { gmail } = await getGmailClient(refreshToken);
-
-    // Build search query from filter criteria
-    const queryParts: string[] = [];
-    if (job.ruleCriteria.from) queryParts.push(`from:${job.ruleCriteria.from}`);
-    if (job.ruleCriteria.to) queryParts.push(`to:${job.ruleCriteria.to}`);
-    if (job.ruleCriteria.subject) queryParts.push(`subject:${job.ruleCriteria.subject}`);
-    if (job.ruleCriteria.query) queryParts.push(job.ruleCriteria.query);
-    if (job.ruleCriteria.has) queryParts.push(`has:${job.ruleCriteria.has}`);
+// Reverts the next journal chunk; journalChunks is the number of chunks reverted so far
+async function processUndoSlice(gmail: gmail_v1.Gmail, job: LabelJob): Promise<boolean> {
+  const journal = await loadJournal(job.undoOf!);
+  if (!journal) {
+    throw new Error("The journal of the job to undo no longer exists");
+  }
 
-    const searchQuery = queryParts.join(" ");
+  const index = job.journalChunks || 0;
+  if (index >= journal.chunkCount) {
+    console.log(`Undo job ${job.id} completed: reverted ${job.labelsApplied} of ${journal.messageCount} messages`);
+    await updateLabelJobInDB(job.id, { status: "completed" });
+    return false;
+  }
 
-    console.log(`Processing label job ${job.id}: query="${searchQuery}", starting with pageToken=${job.nextPageToken}`);
+  let chunkSize = job.chunkSize;
+  let messagesProcessed = job.messagesProcessed;
+  let labelsApplied = job.labelsApplied;
+  let messagesFailed = job.messagesFailed || 0;
+  const failedMessageIds = job.failedMessageIds || [];
+
+  for (const entry of await loadJournalChunk(journal.jobId, index)) {
+    const result = await batchModifyMessages(gmail, entry.messageIds, invertJournalEntry(entry), chunkSize);
+    chunkSize = result.chunkSize;
+    messagesProcessed += entry.messageIds.length;
+    labelsApplied += result.modifiedIds.length;
+    messagesFailed += result.failedIds.length;
+    failedMessageIds.push(...result.failedIds.slice(0, MAX_FAILED_IDS - failedMessageIds.length));
+  }
 
-    let totalMessagesProcessed = job.messagesProcessed;
-    let totalLabelsApplied = job.labelsApplied;
-    let currentPageToken = job.nextPageToken;
+  await updateLabelJobInDB(job.id, {
+    journalChunks: index + 1,
+    chunkSize,
+    messagesProcessed,
+    messagesMatched: messagesProcessed,
+    labelsApplied,
+    messagesFailed,
+    failedMessageIds,
+  });
+  return true;
+}
 
-    // Process all pages of messages
-    while (true) {
-      // Check if job was paused/cancelled before processing next page
-      const currentJob = await loadLabelJob(job.id);
-      if (!currentJob || currentJob.status !== "running") {
-        console.log(`Label job ${job.id} was ${currentJob?.status}, stopping processing`);
-        return;
-      }
+/**
+ * Process the next page of a label job and checkpoint its progress. Returns whether pages are left.
+ */
+async function processLabelJobSlice(gmail: gmail_v1.Gmail, job: LabelJob): Promise<boolean> {
+  if (job.type === "label_undo") {
+    return processUndoSlice(gmail, job);
+  }
 
-      // Search for messages matching the criteria
-      const listResponse = await gmail.users.messages.list({
-        userId: "me",
-        q: searchQuery,
-        pageToken: currentPageToken,
-        maxResults: 50,
-      });
+  // Build search query from filter criteria. Jobs that remove a label only list messages that still have it,
+  // and always the first page: processed messages drop out of the listing, so a page token would skip messages.
+  // Cleanup jobs narrow the search the same way (in:inbox, is:unread) or rely on trash and spam being left out.
+  const removesLabels = (job.removeLabelIds || []).length > 0;
+  const drainsListing = removesLabels || !!job.cleanupAction;
+  const searchQuery =
+    (job.cleanupAction ? getCleanupQuery(job.cleanupAction, job.ruleCriteria) : criteriaToQuery(job.ruleCriteria)) ||
+    undefined;
+  const listing: MessageListing = {
+    q: searchQuery,
+    labelIds: removesLabels && !job.cleanupAction ? job.removeLabelIds : undefined,
+    includeSpamTrash: job.type === "label_merge" || undefined,
+  };
 
-      const messageIds = listResponse.data.messages?.map((m) => m.id).filter(Boolean) || [];
-      const nextPageToken = listResponse.data.nextPageToken;
+  console.log(`Processing label job ${job.id}: query="${searchQuery}", pageToken=${job.nextPageToken}`);
 
+  // Search for messages matching the criteria. Messages that failed before stay in a drained listing and are
+  // skipped; pages holding nothing else are paged past, since nothing changes the listing meanwhile.
+  const skippedIds = new Set(job.skippedMessageIds || job.failedMessageIds || []);
+  let pageToken = drainsListing ? undefined : job.nextPageToken;
+  let messageIds: string[];
+  do {
+    const listResponse = await gmail.users.messages.list({
+      userId: "me",
+      ...listing,
+      pageToken,
+      maxResults: LABEL_JOB_PAGE_SIZE,
+    });
+    const listedIds = (listResponse.data.messages?.map((m) => m.id).filter(Boolean) || []) as string[];
+    messageIds = listedIds.filter((id) => !skippedIds.has(id));
+    pageToken = listResponse.data.nextPageToken || undefined;
+  } while (drainsListing && messageIds.length === 0 && pageToken);
+  const nextPageToken = drainsListing ? undefined : pageToken;
+
+  console.log(
+    `Fetched page with ${messageIds.length} messages, nextPageToken=${nextPageToken}, total processed so far=${job.messagesProcessed}`
+  );
+
+  if (messageIds.length === 0) {
+    // No more messages in this page, or only ones that failed before
+    if (!nextPageToken) {
       console.log(
-        `Fetched page with ${messageIds.length} messages, nextPageToken=${nextPageToken}, total processed so far=${totalMessagesProcessed}`
+        `No more messages for label job ${job.id}, marking as completed. Total processed: ${job.messagesProcessed}`
       );
+      await completeLabelJob(gmail, job);
+      return false;
+    }
+    await updateLabelJobInDB(job.id, { nextPageToken });
+    return true;
+  }
 
-      if (messageIds.length === 0) {
-        // No more messages in this page
-        if (!nextPageToken) {
-          // No more pages at all
-          console.log(
-            `No more messages for label job ${job.id}, marking as completed. Total processed: ${totalMessagesProcessed}`
-          );
-          await updateLabelJobInDB(job.id, { status: "completed" });
-          return;
-        } else {
-          // Move to next page
-          currentPageToken = nextPageToken;
-          continue;
-        }
-      }
+  // Journal what actually changes for each message. The listing already tells which labels every listed
+  // message has (the labels it filters on, INBOX for in:inbox, UNREAD for is:unread) or lacks (trash and spam
+  // unless included); the remaining labels of the change are looked up for the whole page at once.
+  const change = { addLabelIds: job.labelIds, removeLabelIds: job.removeLabelIds || [] };
+  const cleanup = job.cleanupAction && CLEANUP_ACTIONS[job.cleanupAction];
+  const listedLabelIds = [...(listing.labelIds || []), ...(cleanup && cleanup.query ? cleanup.removeLabelIds : [])];
+  const excludedLabelIds = listing.includeSpamTrash ? [] : ["TRASH", "SPAM"];
+  const knownLabelIds = [...listedLabelIds, ...excludedLabelIds];
+  const pageLabels = await loadPageLabels(
+    gmail,
+    messageIds,
+    [...change.addLabelIds, ...change.removeLabelIds].filter((labelId) => !knownLabelIds.includes(labelId)),
+    listing
+  );
+  const currentLabels = new Map<string, string[]>();
+  pageLabels.forEach((labels, id) => currentLabels.set(id, [...listedLabelIds, ...labels]));
+
+  // Apply the whole page with as few batchModify calls as Gmail accepts
+  const result = await batchModifyMessages(gmail, messageIds, change, job.chunkSize);
+  const labelsAppliedInPage = result.modifiedIds.length;
+  result.failedIds.forEach((id) => skippedIds.add(id));
+  if (drainsListing && skippedIds.size > MAX_SKIPPED_IDS) {
+    throw new Error(`More than ${MAX_SKIPPED_IDS} messages could not be updated`);
+  }
 
-      // Process messages in smaller chunks to avoid rate limits
-      let labelsAppliedInPage = 0;
-      let messagesMatchedInPage = 0;
-
-      for (let i = 0; i < messageIds.length; i += 10) {
-        const batch = messageIds.slice(i, i + 10);
-
-        // Check if job was paused/cancelled during processing
-        const checkJob = await loadLabelJob(job.id);
-        if (!checkJob || checkJob.status !== "running") {
-          console.log(`Label job ${job.id} was ${checkJob?.status} during processing, stopping`);
-          return;
-        }
-
-        // Apply labels to this batch
-        const modifyPromises = batch.map(async (messageId) => {
-          try {
-            await gmail.users.messages.modify({
-              userId: "me",
-              id: messageId as string,
-              requestBody: {
-                addLabelIds: job.labelIds,
-              },
-            });
-            return true;
-          } catch (error) {
-            console.warn(`Failed to apply labels to message ${messageId}:`, error);
-            return false;
-          }
-        });
+  let journalChunks = job.journalChunks || 0;
+  let messagesJournaled = job.messagesJournaled || 0;
+  const entries = computeLabelDeltas(result.modifiedIds, change, currentLabels);
+  if (entries.length > 0) {
+    journalChunks += 1;
+    messagesJournaled += entries.reduce((total, entry) => total + entry.messageIds.length, 0);
+    await saveJournalChunk(
+      {
+        jobId: job.id,
+        email: job.email,
+        name: job.name,
+        labelIds: [...change.addLabelIds, ...change.removeLabelIds],
+        chunkCount: journalChunks,
+        messageCount: messagesJournaled,
+        createdAt: new Date(job.startTime).toISOString(),
+      },
+      entries
+    );
+  }
 
-        const results = await Promise.all(modifyPromises);
-        const successful = results.filter(Boolean).length;
+  // Checkpoint the page so the next task, or a resume, continues after it
+  const updatedJob = await updateLabelJobInDB(job.id, {
+    messagesProcessed: job.messagesProcessed + messageIds.length,
+    messagesMatched: job.messagesMatched + messageIds.length,
+    labelsApplied: job.labelsApplied + labelsAppliedInPage,
+    messagesFailed: (job.messagesFailed || 0) + result.failedIds.length,
+    failedMessageIds: [...(job.failedMessageIds || []), ...result.failedIds].slice(0, MAX_FAILED_IDS),
+    ...(drainsListing && { skippedMessageIds: Array.from(skippedIds) }),
+    chunkSize: result.chunkSize,
+    journalChunks,
+    messagesJournaled,
+    lastMessageId: messageIds[messageIds.length - 1],
+    nextPageToken,
+  });
 
-        labelsAppliedInPage += successful;
-        messagesMatchedInPage += batch.length;
+  console.log(
+    `Label job ${job.id} processed page: ${messageIds.length} messages, applied ${labelsAppliedInPage} labels, ${result.failedIds.length} failed`
+  );
 
-        // Small delay between batches to avoid rate limits
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+  // List again until no matching message is left to change
+  if (drainsListing) {
+    if (labelsAppliedInPage === 0) {
+      throw new Error(`Could not update any of ${messageIds.length} remaining messages`);
+    }
+    return true;
+  }
 
-      // Update running totals
-      totalMessagesProcessed += messageIds.length;
-      totalLabelsApplied += labelsAppliedInPage;
-
-      // Update job progress in database
-      const updatedJob = await updateLabelJobInDB(job.id, {
-        messagesProcessed: totalMessagesProcessed,
-        messagesMatched: job.messagesMatched + messagesMatchedInPage,
-        labelsApplied: totalLabelsApplied,
-        lastMessageId: messageIds.length > 0 ? messageIds[messageIds.length - 1]! : undefined,
-        nextPageToken: nextPageToken ?? undefined,
-      });
+  if (nextPageToken) return true;
 
-      console.log(
-        `Label job ${job.id} processed page: ${messageIds.length} messages, applied ${labelsAppliedInPage} labels. Running total: ${totalMessagesProcessed} messages, ${totalLabelsApplied} labels applied`
-      );
+  console.log(`Label job ${job.id} completed: no nextPageToken. Final total: ${updatedJob?.messagesProcessed}`);
+  await completeLabelJob(gmail, updatedJob || job);
+  return false;
+}
 
-      // If we got fewer messages than requested and no next page token, we're done
-      if (messageIds.length < MESSAGES_PER_BATCH && !nextPageToken) {
-        console.log(
-          `Label job ${job.id} completed: got ${messageIds.length} messages (${MESSAGES_PER_BATCH} requested), no nextPageToken. Final total: ${totalMessagesProcessed} messages processed`
-        );
-        await updateLabelJobInDB(job.id, { status: "completed" });
-        return;
-      }
+/**
+ * Thrown while another task is processing the slice a task is for, so the queue delivers the task again later
+ */
+export class LabelJobBusyError extends Error {
+  constructor(jobId: string) {
+    super(`Label job ${jobId} is being processed by another task`);
+    this.name = "LabelJobBusyError";
+  }
+}
 
-      // Move to next page or stop if no more pages
-      if (nextPageToken) {
-        currentPageToken = nextPageToken;
-      } else {
-        // No more pages, but we got a full batch, so this should be the last page
-        console.log(
-          `Label job ${job.id} completed: processed all available messages. Final total: ${totalMessagesProcessed} messages processed`
-        );
-        await updateLabelJobInDB(job.id, { status: "completed" });
-        return;
-      }
+/**
+ * Take the lease on the slice a task is for. Returns null for tasks of an earlier run or of a slice that was
+ * already processed, since Cloud Tasks may deliver a task more than once.
+ */
+async function claimLabelJobSlice(task: JobTask): Promise<LabelJob | null> {
+  const db = getFirestore();
+  const ref = db.collection("_labelJobs").doc(task.jobId);
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const job = doc.exists ? (doc.data() as LabelJob) : null;
+    if (!job || job.status !== "running" || (job.resumeCount || 0) !== task.run) return null;
+    if (task.slice !== undefined && (job.slicesProcessed || 0) !== task.slice) return null;
+    if ((job.leaseExpiresAt || 0) > Date.now()) throw new LabelJobBusyError(job.id);
+
+    const leaseExpiresAt = Date.now() + SLICE_LEASE;
+    transaction.update(ref, { leaseExpiresAt });
+    return { ...job, leaseExpiresAt };
+  });
+}
+
+/**
+ * Worker entry point: process one page of a running job with the account's stored credentials,
+ * then queue the next task until the job is done, paused or cancelled. Transient Gmail errors are
+ * rethrown for the queue to retry; the job only fails once they persist or on any other error.
+ */
+export async function runLabelJobTask(task: JobTask, attempt = 0): Promise<void> {
+  const job = await claimLabelJobSlice(task);
+  if (!job) {
+    console.log(`Label job ${task.jobId} isn't running, was restarted or already processed this slice, dropping task`);
+    return;
+  }
+
+  const slice = job.slicesProcessed || 0;
+  try {
+    const { gmail } = await getStoredGmailClient(job.email, "label job");
+    const more = await processLabelJobSlice(gmail, job);
+    const current = await updateLabelJobInDB(job.id, { slicesProcessed: slice + 1, leaseExpiresAt: 0 });
+    if (!more) return;
+
+    // Paused or cancelled while this page was processed
+    if (current?.status === "running" && (current.resumeCount || 0) === task.run) {
+      await getLabelJobQueue().enqueue({ jobId: job.id, run: task.run, slice: slice + 1 }, DELAY_BETWEEN_BATCHES);
     }
   } catch (error) {
+    if (isTransientGmailError(error) && attempt + 1 < MAX_TASK_ATTEMPTS) {
+      console.warn(`Label job ${job.id} hit a transient error, leaving the retry to the queue:`, error);
+      await updateLabelJobInDB(job.id, { leaseExpiresAt: 0 });
+      throw error;
+    }
+
     console.error("Label job processing error:", error);
     await updateLabelJobInDB(job.id, {
       status: "failed",
+      leaseExpiresAt: 0,
       error: error instanceof Error ? error.message : "Unknown error",
     });
   }
 }
 
+let labelJobQueue: JobQueue | null = null;
+
+export function getLabelJobQueue(): JobQueue {
+  if (!labelJobQueue) labelJobQueue = createJobQueue(runLabelJobTask);
+  return labelJobQueue;
+}
+
+/**
+ * Replace the queue, e.g. with a LocalJobQueue that only runs when drained
+ */
+export function setLabelJobQueue(queue: JobQueue | null) {
+  labelJobQueue = queue;
+}
+
 export async function getAllLabelJobs(email: string): Promise<LabelJob[]> {
   const db = getFirestore();
 
@@ -0,0 +1,145 @@
+/**
+ * Queue that runs background work outside the request that started it. With CLOUD_TASKS_QUEUE set, tasks are
+ * Cloud Tasks HTTP requests to the worker route; otherwise they run in this process, which is enough for
+ * development and tests.
+ */
+
+import crypto from "crypto";
+import { google } from "googleapis";
+
+export type JobTask = {
+  jobId: string;
+  run: number; // Tasks of an earlier start or resume are ignored
+  slice?: number; // Slice of the job the task processes; unset for the first task of a run
+};
+
+// attempt counts the earlier deliveries of the same task. A handler that throws has the task delivered again.
+export type JobTaskHandler = (task: JobTask, attempt: number) => Promise<void>;
+
+export interface JobQueue {
+  enqueue(task: JobTask, delayMs?: number): Promise<void>;
+}
+
+export const WORKER_SECRET_HEADER = "x-worker-secret";
+export const TASK_RETRY_COUNT_HEADER = "x-cloudtasks-taskretrycount"; // Set by Cloud Tasks on every delivery
+export const MAX_TASK_ATTEMPTS = 5; // Handlers give up on transient errors after this many deliveries
+
+/**
+ * Shared secret the worker route expects on queued requests
+ */
+export function getWorkerSecret(): string {
+  const secret = process.env.WORKER_SECRET;
+  if (!secret) throw new Error("Missing WORKER_SECRET");
+  return secret;
+}
+
+/**
+ * Whether a request's secret header matches the worker secret, compared in constant time
+ */
+export function isWorkerSecret(value: string | null | undefined): boolean {
+  // Hashing gives both sides the equal length timingSafeEqual needs
+  const expected = crypto.createHash("sha256").update(getWorkerSecret()).digest();
+  const actual = crypto
+    .createHash("sha256")
+    .update(value || "")
+    .digest();
+  return !!value && crypto.timingSafeEqual(actual, expected);
+}
+
+export function getWorkerUrl(): string {
+  if (process.env.WORKER_URL) return process.env.WORKER_URL;
+  const base = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+  return `${base}/api/worker/label-jobs`;
+}
+
+/**
+ * Cloud Tasks queue (projects/{project}/locations/{location}/queues/{queue}) that POSTs each task to the worker
+ */
+export class CloudTasksQueue implements JobQueue {
+  constructor(
+    private readonly queueName: string,
+    private readonly workerUrl = getWorkerUrl()
+  ) {}
+
+  async enqueue(task: JobTask, delayMs = 0): Promise<void> {
+    // Reuse the Firestore service account when it's configured, application default credentials otherwise
+    const auth = new google.auth.GoogleAuth({
+      scopes: ["https://www.googleapis.com/auth/cloud-platform"],
+      credentials: process.env.FIRESTORE_CLIENT_EMAIL
+        ? {
+            client_email: process.env.FIRESTORE_CLIENT_EMAIL,
+            private_key: process.env.FIRESTORE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+          }
+        : undefined,
+    });
+    const cloudtasks = google.cloudtasks({ version: "v2", auth });
+
+    await cloudtasks.projects.locations.queues.tasks.create({
+      parent: this.queueName,
+      requestBody: {
+        task: {
+          scheduleTime: new Date(Date.now() + delayMs).toISOString(),
+          httpRequest: {
+            httpMethod: "POST",
+            url: this.workerUrl,
+            headers: { "Content-Type": "application/json", [WORKER_SECRET_HEADER]: getWorkerSecret() },
+            body: Buffer.from(JSON.stringify(task)).toString("base64"),
+          },
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Runs tasks in this process after their delay, retrying failed tasks with a growing pause like Cloud Tasks does.
+ * With autoRun off, tasks wait until drain() is called.
+ */
+export class LocalJobQueue implements JobQueue {
+  private pending: JobTask[] = [];
+
+  constructor(
+    private readonly handler: JobTaskHandler,
+    private readonly autoRun = true,
+    private readonly retryDelay = 1000
+  ) {}
+
+  async enqueue(task: JobTask, delayMs = 0): Promise<void> {
+    if (!this.autoRun) {
+      this.pending.push(task);
+      return;
+    }
+
+    this.schedule(task, delayMs, 0);
+  }
+
+  private schedule(task: JobTask, delayMs: number, attempt: number) {
+    setTimeout(() => {
+      this.handler(task, attempt).catch((error) => {
+        if (attempt + 1 >= MAX_TASK_ATTEMPTS) {
+          console.error(`Queued task for job ${task.jobId} failed:`, error);
+          return;
+        }
+        console.warn(`Queued task for job ${task.jobId} failed, retrying:`, error);
+        this.schedule(task, this.retryDelay * 2 ** attempt, attempt + 1);
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Run the waiting tasks, including the ones they enqueue, until none are left
+   */
+  async drain(): Promise<number> {
+    let count = 0;
+    while (this.pending.length > 0) {
+      await this.handler(this.pending.shift()!, 0);
+      count += 1;
+    }
+    return count;
+  }
+}
+
+export function createJobQueue(handler: JobTaskHandler): JobQueue {
+  const queueName = process.env.CLOUD_TASKS_QUEUE;
+  return queueName ? new CloudTasksQueue(queueName) : new LocalJobQueue(handler);
+}
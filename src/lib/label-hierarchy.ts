@@ -0,0 +1,208 @@
+/**
+ * Label hierarchy operations. Gmail nests labels by name only, so moving or renaming a label means renaming
+ * it and every label below it; merging moves the messages and filter references of one label to another.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { loadLabels, saveLabels, type GmailLabel } from "./firestore";
+import { replaceGmailFilter } from "./gmail";
+import { buildLabelHierarchy, fromGmailLabel, getLabelLeafName, remapFilterLabels } from "./label-sync";
+
+export type LabelRename = {
+  id: string;
+  from: string;
+  to: string;
+};
+
+/**
+ * Thrown when a hierarchy operation would leave the labels inconsistent. The message is shown to the user.
+ */
+export class LabelHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LabelHierarchyError";
+  }
+}
+
+/**
+ * Label names with empty parts and surrounding spaces removed, e.g. " Finance / /Receipts" to "Finance/Receipts"
+ */
+export function normalizeLabelName(name: string): string {
+  return name
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("/");
+}
+
+function findUserLabel(labels: GmailLabel[], labelId: string): GmailLabel {
+  const label = labels.find((candidate) => candidate.id === labelId);
+  if (!label) throw new LabelHierarchyError(`Label ${labelId} not found`);
+  if (label.type === "system") throw new LabelHierarchyError(`System label "${label.name}" can't be changed`);
+  return label;
+}
+
+const getDescendants = (labels: GmailLabel[], label: GmailLabel) =>
+  labels.filter((candidate) => candidate.name.startsWith(`${label.name}/`));
+
+/**
+ * Renames that give a label a new name and keep its nested labels under it, parents first
+ */
+export function planLabelRename(labels: GmailLabel[], labelId: string, name: string): LabelRename[] {
+  const label = findUserLabel(labels, labelId);
+  const newName = normalizeLabelName(name);
+  if (!newName) throw new LabelHierarchyError("Label name is required");
+  if (newName === label.name) return [];
+  if (newName.startsWith(`${label.name}/`)) {
+    throw new LabelHierarchyError(`"${label.name}" can't be moved under itself`);
+  }
+
+  const subtree = [label, ...getDescendants(labels, label)];
+  const renames = subtree.map((item) => ({
+    id: item.id,
+    from: item.name,
+    to: newName + item.name.slice(label.name.length),
+  }));
+
+  // Gmail label names are unique regardless of case
+  const taken = new Set(labels.filter((item) => !subtree.includes(item)).map((item) => item.name.toLowerCase()));
+  const conflict = renames.find((rename) => taken.has(rename.to.toLowerCase()));
+  if (conflict) throw new LabelHierarchyError(`A label named "${conflict.to}" already exists`);
+
+  return renames.sort((a, b) => a.to.split("/").length - b.to.split("/").length);
+}
+
+/**
+ * New name of a label moved under another label, or to the top level when parentId is null.
+ * Keeps the label's own name unless a new one is given.
+ */
+export function getMovedLabelName(
+  labels: GmailLabel[],
+  labelId: string,
+  parentId: string | null,
+  leafName?: string
+): string {
+  const label = findUserLabel(labels, labelId);
+  const leaf = normalizeLabelName(leafName || getLabelLeafName(label.name));
+  if (!parentId) return leaf;
+
+  const parent = labels.find((candidate) => candidate.id === parentId);
+  if (!parent) throw new LabelHierarchyError(`Label ${parentId} not found`);
+  return `${parent.name}/${leaf}`;
+}
+
+/**
+ * Check that one label can be merged into another and return both
+ */
+export function checkLabelMerge(labels: GmailLabel[], sourceId: string, targetId: string) {
+  const source = findUserLabel(labels, sourceId);
+  // Merging into a system label such as TRASH or SPAM would move every message there unconfirmed
+  const target = findUserLabel(labels, targetId);
+  if (source.id === target.id) throw new LabelHierarchyError("A label can't be merged into itself");
+  if (getDescendants(labels, source).length > 0) {
+    throw new LabelHierarchyError(`Move or merge the labels nested under "${source.name}" first`);
+  }
+  return { source, target };
+}
+
+export async function loadGmailLabels(gmail: gmail_v1.Gmail): Promise<GmailLabel[]> {
+  const response = await gmail.users.labels.list({ userId: "me" });
+  return (response.data.labels || []).filter((label) => label.id && label.name).map(fromGmailLabel);
+}
+
+/**
+ * Apply renames in Gmail. If one fails, the renames already made are reverted so the hierarchy stays intact.
+ */
+export async function applyLabelRenames(gmail: gmail_v1.Gmail, renames: LabelRename[]): Promise<void> {
+  const applied: LabelRename[] = [];
+  try {
+    for (const rename of renames) {
+      await gmail.users.labels.patch({ userId: "me", id: rename.id, requestBody: { name: rename.to } });
+      applied.push(rename);
+    }
+  } catch (error) {
+    for (const rename of applied.reverse()) {
+      await gmail.users.labels
+        .patch({ userId: "me", id: rename.id, requestBody: { name: rename.from } })
+        .catch((revertError) => console.error(`Failed to revert rename of ${rename.to}:`, revertError));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rename a label and everything nested under it, then update the label cache.
+ * labels are the current Gmail labels, see loadGmailLabels.
+ */
+export async function renameLabelTree(
+  gmail: gmail_v1.Gmail,
+  email: string,
+  labels: GmailLabel[],
+  labelId: string,
+  name: string
+): Promise<LabelRename[]> {
+  const renames = planLabelRename(labels, labelId, name);
+  if (renames.length === 0) return renames;
+
+  await applyLabelRenames(gmail, renames);
+
+  const names = new Map(renames.map((rename) => [rename.id, rename.to]));
+  const cached = (await loadLabels(email)).map((label) => ({
+    ...label,
+    name: names.get(label.id) || label.name,
+    updatedAt: names.has(label.id) ? new Date().toISOString() : label.updatedAt,
+  }));
+  await saveLabels(email, buildLabelHierarchy(cached));
+
+  return renames;
+}
+
+/**
+ * Point Gmail filters and stored rules that use one label at another. Gmail filters can't be updated,
+ * so each affected filter is replaced.
+ */
+export async function moveLabelReferences(
+  gmail: gmail_v1.Gmail,
+  email: string,
+  sourceId: string,
+  targetId: string
+): Promise<number> {
+  const remap = (ids?: string[] | null) =>
+    ids ? Array.from(new Set(ids.map((id) => (id === sourceId ? targetId : id)))) : undefined;
+
+  const response = await gmail.users.settings.filters.list({ userId: "me" });
+  const gmailIdMap = new Map<string, string>();
+  for (const filter of response.data.filter || []) {
+    const labelIds = [...(filter.action?.addLabelIds || []), ...(filter.action?.removeLabelIds || [])];
+    if (!filter.id || !labelIds.includes(sourceId)) continue;
+
+    const newId = await replaceGmailFilter(gmail, filter.id, {
+      criteria: filter.criteria,
+      action: {
+        ...filter.action,
+        addLabelIds: remap(filter.action?.addLabelIds),
+        removeLabelIds: remap(filter.action?.removeLabelIds),
+      },
+    });
+    gmailIdMap.set(filter.id, newId);
+  }
+
+  await remapFilterLabels(email, new Map([[sourceId, targetId]]), gmailIdMap);
+  return gmailIdMap.size;
+}
+
+/**
+ * Last step of a merge, once no message has the source label anymore: move its filter references to the
+ * target and delete it
+ */
+export async function finishLabelMerge(gmail: gmail_v1.Gmail, email: string, sourceId: string, targetId: string) {
+  await moveLabelReferences(gmail, email, sourceId, targetId);
+
+  await gmail.users.labels.delete({ userId: "me", id: sourceId }).catch((error) => {
+    // Already deleted elsewhere
+    if (error.code !== 404) throw error;
+  });
+
+  const cached = (await loadLabels(email)).filter((label) => label.id !== sourceId);
+  await saveLabels(email, buildLabelHierarchy(cached));
+}
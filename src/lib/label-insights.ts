@@ -0,0 +1,206 @@
+/**
+ * Label usage: size, unread counts and age of the newest message per user label, and which labels look
+ * unused. Gmail only returns counts from labels.get, so each label is fetched on its own.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { deleteLabel, loadFilters, loadLabels, saveLabel, type GmailLabel } from "./firestore";
+import { fromGmailLabel } from "./label-sync";
+
+export type LabelFlag =
+  | "empty" // No messages
+  | "unused" // No filter applies or removes it
+  | "stale"; // Newest message is older than the threshold
+
+export type LabelInsight = {
+  id: string;
+  name: string;
+  messagesTotal: number;
+  messagesUnread: number;
+  threadsTotal: number;
+  threadsUnread: number;
+  newestMessageAt: string | null;
+  filterCount: number; // Gmail filters and draft rules that apply or remove it
+  nestedCount: number;
+  hidden: boolean; // Hidden from the label list, e.g. archived here
+  flags: LabelFlag[];
+};
+
+export type LabelCleanupAction = "delete" | "archive";
+
+export type LabelCleanupPreview = {
+  id: string;
+  name: string;
+  messagesTotal: number; // Messages that lose the label (delete) or stop showing it (archive)
+  blockedReason?: string;
+};
+
+export const DEFAULT_STALE_DAYS = 180;
+
+const DAY = 24 * 60 * 60 * 1000;
+const LABELS_PER_BATCH = 10;
+
+/**
+ * Rank user labels by size, then unread count, and flag the ones that look unused
+ */
+export function buildLabelInsights(
+  labels: GmailLabel[],
+  newestMessageTimes: Map<string, number | null>,
+  filterLabelIds: string[][],
+  staleDays = DEFAULT_STALE_DAYS,
+  now = Date.now()
+): LabelInsight[] {
+  const userLabels = labels.filter((label) => label.type === "user");
+
+  return userLabels
+    .map((label) => {
+      const newest = newestMessageTimes.get(label.id) ?? null;
+      const messagesTotal = label.messagesTotal || 0;
+      const filterCount = filterLabelIds.filter((ids) => ids.includes(label.id)).length;
+
+      const flags: LabelFlag[] = [];
+      if (messagesTotal === 0) flags.push("empty");
+      if (filterCount === 0) flags.push("unused");
+      if (newest !== null && now - newest > staleDays * DAY) flags.push("stale");
+
+      return {
+        id: label.id,
+        name: label.name,
+        messagesTotal,
+        messagesUnread: label.messagesUnread || 0,
+        threadsTotal: label.threadsTotal || 0,
+        threadsUnread: label.threadsUnread || 0,
+        newestMessageAt: newest === null ? null : new Date(newest).toISOString(),
+        filterCount,
+        nestedCount: userLabels.filter((other) => other.name.startsWith(`${label.name}/`)).length,
+        hidden: label.labelListVisibility === "labelHide",
+        flags,
+      };
+    })
+    .sort(
+      (a, b) => b.messagesTotal - a.messagesTotal || b.messagesUnread - a.messagesUnread || a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * What a cleanup would touch. Deleting is blocked for labels that filters still use or that have nested
+ * labels; archiving only hides a label and can always be undone in Gmail.
+ */
+export function previewLabelCleanup(
+  insights: LabelInsight[],
+  labelIds: string[],
+  action: LabelCleanupAction
+): LabelCleanupPreview[] {
+  return insights
+    .filter((insight) => labelIds.includes(insight.id))
+    .map((insight) => {
+      let blockedReason: string | undefined;
+      if (action === "delete" && insight.filterCount > 0) {
+        blockedReason = `Used by ${insight.filterCount} filter${insight.filterCount === 1 ? "" : "s"}`;
+      } else if (action === "delete" && insight.nestedCount > 0) {
+        blockedReason = `Has ${insight.nestedCount} nested label${insight.nestedCount === 1 ? "" : "s"}`;
+      } else if (action === "archive" && insight.hidden) {
+        blockedReason = "Already archived";
+      }
+      return { id: insight.id, name: insight.name, messagesTotal: insight.messagesTotal, blockedReason };
+    });
+}
+
+async function getNewestMessageTime(gmail: gmail_v1.Gmail, labelId: string): Promise<number | null> {
+  const response = await gmail.users.messages.list({ userId: "me", labelIds: [labelId], maxResults: 1 });
+  const messageId = response.data.messages?.[0]?.id;
+  if (!messageId) return null;
+
+  const message = await gmail.users.messages.get({ userId: "me", id: messageId, format: "minimal" });
+  return message.data.internalDate ? Number(message.data.internalDate) : null;
+}
+
+/**
+ * Insights for every user label, or only for labelIds when given
+ */
+export async function loadLabelInsights(
+  gmail: gmail_v1.Gmail,
+  email: string,
+  staleDays = DEFAULT_STALE_DAYS,
+  labelIds?: string[]
+): Promise<LabelInsight[]> {
+  const [labelsResponse, filtersResponse, storedFilters] = await Promise.all([
+    gmail.users.labels.list({ userId: "me" }),
+    gmail.users.settings.filters.list({ userId: "me" }),
+    loadFilters(email),
+  ]);
+
+  // All labels are needed to count nested labels, but only the requested ones are fetched with their counts
+  const labels = new Map(
+    (labelsResponse.data.labels || [])
+      .filter((label) => label.id && label.name)
+      .map((label) => [label.id!, fromGmailLabel(label)])
+  );
+  const requestedIds = Array.from(labels.values())
+    .filter((label) => label.type === "user" && (!labelIds || labelIds.includes(label.id)))
+    .map((label) => label.id);
+
+  const newestMessageTimes = new Map<string, number | null>();
+  for (let i = 0; i < requestedIds.length; i += LABELS_PER_BATCH) {
+    await Promise.all(
+      requestedIds.slice(i, i + LABELS_PER_BATCH).map(async (id) => {
+        const [label, newest] = await Promise.all([
+          gmail.users.labels.get({ userId: "me", id }),
+          getNewestMessageTime(gmail, id),
+        ]);
+        labels.set(id, fromGmailLabel(label.data));
+        newestMessageTimes.set(id, newest);
+      })
+    );
+  }
+
+  // Published rules are among the Gmail filters already
+  const filterLabelIds = [
+    ...(filtersResponse.data.filter || []).map((filter) => [
+      ...(filter.action?.addLabelIds || []),
+      ...(filter.action?.removeLabelIds || []),
+    ]),
+    ...storedFilters
+      .filter((filter) => filter.status === "draft")
+      .map((filter) => [...(filter.labelIds || []), ...(filter.actions.removeLabelIds || [])]),
+  ];
+
+  return buildLabelInsights(Array.from(labels.values()), newestMessageTimes, filterLabelIds, staleDays).filter(
+    (insight) => requestedIds.includes(insight.id)
+  );
+}
+
+/**
+ * Delete or archive the labels of a preview that aren't blocked, and update the label cache.
+ * Deleting a label keeps its messages; they only lose the label.
+ */
+export async function applyLabelCleanup(
+  gmail: gmail_v1.Gmail,
+  email: string,
+  previews: LabelCleanupPreview[],
+  action: LabelCleanupAction
+): Promise<string[]> {
+  const cached = new Map((await loadLabels(email)).map((label) => [label.id, label]));
+  const applied: string[] = [];
+
+  for (const preview of previews.filter((item) => !item.blockedReason)) {
+    if (action === "delete") {
+      await gmail.users.labels.delete({ userId: "me", id: preview.id }).catch((error) => {
+        // Already deleted elsewhere
+        if (error.code !== 404) throw error;
+      });
+      await deleteLabel(email, preview.id);
+    } else {
+      const { data } = await gmail.users.labels.patch({
+        userId: "me",
+        id: preview.id,
+        requestBody: { labelListVisibility: "labelHide", messageListVisibility: "hide" },
+      });
+      const label = cached.get(preview.id);
+      if (label) await saveLabel(email, { ...label, ...fromGmailLabel(data), updatedAt: new Date().toISOString() });
+    }
+    applied.push(preview.id);
+  }
+
+  return applied;
+}
@@ -0,0 +1,223 @@
+/**
+ * Labels live in Gmail; Firestore keeps a cache keyed by the Gmail label ID. Labels saved before they were
+ * written through to Gmail have local IDs (Label_<timestamp>_<random>, or label_... from rule drafts) and are
+ * pushed to Gmail when synced.
+ */
+
+import type { gmail_v1 } from "googleapis";
+import { loadFilters, loadLabels, saveFilter, saveLabels, type GmailLabel } from "./firestore";
+
+export type LabelFields = Pick<GmailLabel, "name" | "color" | "labelListVisibility" | "messageListVisibility"> & {
+  parentId?: string | null; // null moves the label to the top level
+};
+
+export type LabelSyncResult = {
+  labels: GmailLabel[];
+  created: string[]; // Local labels pushed to Gmail
+  added: string[]; // Labels created elsewhere
+  updated: string[]; // Labels edited elsewhere
+  removed: string[]; // Labels deleted elsewhere
+};
+
+/**
+ * Whether a label ID was made up locally and never came from Gmail
+ */
+export function isLocalLabelId(id: string): boolean {
+  return /^[Ll]abel_\d+_[a-z0-9]+$/.test(id);
+}
+
+/**
+ * Last part of a nested label name, e.g. "Receipts" for "Finance/Receipts"
+ */
+export function getLabelLeafName(name: string): string {
+  return name.split("/").pop()!;
+}
+
+export function fromGmailLabel(label: gmail_v1.Schema$Label): GmailLabel {
+  const result: GmailLabel = {
+    id: label.id!,
+    name: label.name!,
+    type: (label.type as "system" | "user") || "user",
+  };
+
+  // Only include Gmail fields if they are defined
+  if (label.labelListVisibility)
+    result.labelListVisibility = label.labelListVisibility as GmailLabel["labelListVisibility"];
+  if (label.messageListVisibility)
+    result.messageListVisibility = label.messageListVisibility as GmailLabel["messageListVisibility"];
+  if (label.threadsTotal !== undefined && label.threadsTotal !== null) result.threadsTotal = label.threadsTotal;
+  if (label.threadsUnread !== undefined && label.threadsUnread !== null) result.threadsUnread = label.threadsUnread;
+  if (label.messagesTotal !== undefined && label.messagesTotal !== null) result.messagesTotal = label.messagesTotal;
+  if (label.messagesUnread !== undefined && label.messagesUnread !== null) result.messagesUnread = label.messagesUnread;
+
+  if (label.color) {
+    result.color = {
+      textColor: label.color.textColor || "",
+      backgroundColor: label.color.backgroundColor || "",
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Set parentId and childrenIds from the label names. Gmail nests labels by name ("Parent/Child")
+ * and doesn't store the hierarchy itself.
+ */
+export function buildLabelHierarchy(labels: GmailLabel[]): GmailLabel[] {
+  const byName = new Map(labels.map((label) => [label.name, label]));
+  labels.forEach((label) => {
+    delete label.parentId;
+    delete label.childrenIds;
+  });
+
+  labels.forEach((label) => {
+    const parts = label.name.split("/");
+    if (parts.length > 1) {
+      const parent = byName.get(parts.slice(0, -1).join("/"));
+      if (parent) {
+        label.parentId = parent.id;
+        if (!parent.childrenIds) parent.childrenIds = [];
+        parent.childrenIds.push(label.id);
+      }
+    }
+  });
+
+  return labels;
+}
+
+/**
+ * Gmail request body for creating or patching a label. The parent is expressed in the name, so moving
+ * a label renames it; a changed leaf name keeps the current parent unless a new one is given.
+ */
+export function toGmailLabelBody(
+  fields: Partial<LabelFields>,
+  labels: GmailLabel[],
+  current?: GmailLabel
+): gmail_v1.Schema$Label {
+  const leafName = fields.name !== undefined ? getLabelLeafName(fields.name) : getLabelLeafName(current?.name || "");
+  let parentName = current?.name.includes("/") ? current.name.split("/").slice(0, -1).join("/") : undefined;
+  if (fields.name?.includes("/")) parentName = fields.name.split("/").slice(0, -1).join("/");
+  if (fields.parentId === null) parentName = undefined;
+  if (fields.parentId) {
+    const parent = labels.find((label) => label.id === fields.parentId);
+    if (!parent) throw new Error(`Parent label ${fields.parentId} not found`);
+    parentName = parent.name;
+  }
+
+  const body: gmail_v1.Schema$Label = { name: parentName ? `${parentName}/${leafName}` : leafName };
+  if (fields.color) body.color = fields.color;
+  if (fields.labelListVisibility) body.labelListVisibility = fields.labelListVisibility;
+  if (fields.messageListVisibility) body.messageListVisibility = fields.messageListVisibility;
+  return body;
+}
+
+const labelKey = (label: GmailLabel) =>
+  JSON.stringify([
+    label.name,
+    label.color || null,
+    label.labelListVisibility || null,
+    label.messageListVisibility || null,
+  ]);
+
+/**
+ * Compare the cache with Gmail's labels. Gmail wins for every label it has; local labels with the name of a
+ * Gmail label are mapped onto it, and the remaining local labels still have to be created in Gmail.
+ */
+export function reconcileLabels(stored: GmailLabel[], gmailLabels: gmail_v1.Schema$Label[]) {
+  const cached = new Map(stored.map((label) => [label.id, label]));
+  const labels = gmailLabels.filter((label) => label.id && label.name).map(fromGmailLabel);
+  const byName = new Map(labels.map((label) => [label.name, label]));
+
+  const added: string[] = [];
+  const updated: string[] = [];
+  labels.forEach((label) => {
+    const previous = cached.get(label.id);
+    if (!previous) {
+      if (label.type === "user") added.push(label.name);
+      return;
+    }
+    label.createdAt = previous.createdAt;
+    if (labelKey(previous) !== labelKey(label)) updated.push(label.name);
+  });
+
+  const idMap = new Map<string, string>(); // Local ID to Gmail ID
+  const pending: GmailLabel[] = [];
+  const removed: string[] = [];
+  stored
+    .filter((label) => !labels.some((gmailLabel) => gmailLabel.id === label.id))
+    .forEach((label) => {
+      if (!isLocalLabelId(label.id)) {
+        removed.push(label.name);
+      } else if (byName.has(label.name)) {
+        idMap.set(label.id, byName.get(label.name)!.id);
+      } else {
+        pending.push(label);
+      }
+    });
+
+  return { labels, pending, idMap, added, updated, removed };
+}
+
+/**
+ * Point stored rules at new label IDs, and at new Gmail filter IDs when their filters were replaced
+ */
+export async function remapFilterLabels(
+  email: string,
+  idMap: Map<string, string>,
+  gmailIdMap = new Map<string, string>()
+): Promise<number> {
+  if (idMap.size === 0 && gmailIdMap.size === 0) return 0;
+
+  const remap = (ids?: string[]) => ids && Array.from(new Set(ids.map((id) => idMap.get(id) || id)));
+  const affected = (await loadFilters(email)).filter(
+    (filter) =>
+      [...(filter.labelIds || []), ...(filter.actions.removeLabelIds || [])].some((id) => idMap.has(id)) ||
+      (filter.gmailId && gmailIdMap.has(filter.gmailId))
+  );
+
+  await Promise.all(
+    affected.map((filter) =>
+      saveFilter(email, {
+        ...filter,
+        labelIds: remap(filter.labelIds),
+        actions: { ...filter.actions, removeLabelIds: remap(filter.actions.removeLabelIds) },
+        gmailId: (filter.gmailId && gmailIdMap.get(filter.gmailId)) || filter.gmailId,
+        updatedAt: new Date().toISOString(),
+      })
+    )
+  );
+  return affected.length;
+}
+
+/**
+ * Bring the cache in line with Gmail: push local labels to Gmail, pick up labels created, edited or
+ * deleted elsewhere, and move stored rules from local label IDs to Gmail's
+ */
+export async function syncLabels(gmail: gmail_v1.Gmail, email: string): Promise<LabelSyncResult> {
+  const [response, stored] = await Promise.all([gmail.users.labels.list({ userId: "me" }), loadLabels(email)]);
+  const { labels, pending, idMap, added, updated, removed } = reconcileLabels(stored, response.data.labels || []);
+
+  // Parents first, so nested names resolve to an existing parent
+  const created: string[] = [];
+  for (const label of [...pending].sort((a, b) => a.name.split("/").length - b.name.split("/").length)) {
+    const { data } = await gmail.users.labels.create({
+      userId: "me",
+      requestBody: toGmailLabelBody({ ...label, parentId: undefined }, labels),
+    });
+    idMap.set(label.id, data.id!);
+    labels.push({ ...fromGmailLabel(data), createdAt: label.createdAt });
+    created.push(label.name);
+  }
+
+  const now = new Date().toISOString();
+  labels.forEach((label) => {
+    label.createdAt = label.createdAt || now;
+    label.updatedAt = now;
+  });
+
+  await remapFilterLabels(email, idMap);
+  await saveLabels(email, buildLabelHierarchy(labels));
+
+  return { labels, created, added, updated, removed };
+}
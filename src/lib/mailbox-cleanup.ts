@@ -0,0 +1,102 @@
+/**
+ * Cleanup actions for label jobs: archive, mark as read, move to trash, mark as spam.
+ * Trash and spam jobs need a confirmation token from a preview of the same search, so a job
+ * can't be created without the user seeing how many messages it will touch. Each token confirms one job.
+ */
+
+import crypto from "crypto";
+import { getMasterKey } from "./credentials";
+import { getFirestore } from "./firestore";
+import { criteriaToQuery, type SearchCriteria } from "./gmail-query";
+
+export type CleanupAction = "archive" | "mark_read" | "trash" | "spam";
+
+export type CleanupActionConfig = {
+  label: string;
+  destructive: boolean;
+  query?: string; // Only lists messages the action still changes
+  addLabelIds: string[];
+  removeLabelIds: string[];
+};
+
+export const CLEANUP_ACTIONS: Record<CleanupAction, CleanupActionConfig> = {
+  archive: { label: "Archive", destructive: false, query: "in:inbox", addLabelIds: [], removeLabelIds: ["INBOX"] },
+  mark_read: {
+    label: "Mark as read",
+    destructive: false,
+    query: "is:unread",
+    addLabelIds: [],
+    removeLabelIds: ["UNREAD"],
+  },
+  // Trashed and spam messages drop out of the listing on their own
+  trash: { label: "Move to trash", destructive: true, addLabelIds: ["TRASH"], removeLabelIds: [] },
+  spam: { label: "Mark as spam", destructive: true, addLabelIds: ["SPAM"], removeLabelIds: ["INBOX"] },
+};
+
+const CONFIRMATION_TTL = 15 * 60 * 1000; // 15 minutes
+
+export function isCleanupAction(value: unknown): value is CleanupAction {
+  return typeof value === "string" && Object.keys(CLEANUP_ACTIONS).includes(value);
+}
+
+/**
+ * Search for the messages a cleanup job still has to change
+ */
+export function getCleanupQuery(action: CleanupAction, criteria: SearchCriteria): string {
+  const query = criteriaToQuery(criteria);
+  const actionQuery = CLEANUP_ACTIONS[action].query;
+  if (!actionQuery) return query;
+  return query ? `(${query}) ${actionQuery}` : actionQuery;
+}
+
+// Signed with the credentials master key, which every deployment must configure
+function signConfirmation(email: string, action: CleanupAction, query: string, expiresAt: number): string {
+  return crypto
+    .createHmac("sha256", getMasterKey())
+    .update(`cleanup-confirmation\n${email}\n${action}\n${query}\n${expiresAt}`)
+    .digest("hex");
+}
+
+/**
+ * Token that confirms a previewed cleanup, valid for the same user, action and search only
+ */
+export function createConfirmationToken(email: string, action: CleanupAction, query: string, now = Date.now()): string {
+  const expiresAt = now + CONFIRMATION_TTL;
+  return `${expiresAt}.${signConfirmation(email, action, query, expiresAt)}`;
+}
+
+export function verifyConfirmationToken(
+  token: unknown,
+  email: string,
+  action: CleanupAction,
+  query: string,
+  now = Date.now()
+): boolean {
+  if (typeof token !== "string") return false;
+
+  const [expires, signature] = token.split(".");
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < now) return false;
+
+  const expected = Buffer.from(signConfirmation(email, action, query, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Mark a verified confirmation token as used. Returns false when it has already confirmed a job.
+ */
+export async function claimConfirmationToken(email: string, token: string): Promise<boolean> {
+  const [expires, signature] = token.split(".");
+  try {
+    await getFirestore()
+      .collection("_cleanupConfirmations")
+      .doc(signature)
+      .create({ email, expiresAt: Number(expires), usedAt: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    const code = (error as { code?: number | string }).code;
+    if (code === 6 || code === "ALREADY_EXISTS") return false;
+    throw error;
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Evaluates Gmail search queries and filter criteria against the local message index.
+ *
+ * The index only holds headers, size and labels, so some terms can't be decided locally: free text
+ * may be in the body, and has:attachment needs the MIME structure. Evaluation is three-valued
+ * (true, false or null for unknown) and messages that might match are reported separately.
+ */
+
+import {
+  criteriaToQuery,
+  parseQuery,
+  parseSize,
+  type QueryIssue,
+  type QueryNode,
+  type SearchCriteria,
+} from "./gmail-query";
+import type { IndexedMessage, MessageIndexQuery } from "./scanners/message-index";
+
+type Truth = boolean | null;
+
+export type MatchContext = {
+  labelNames?: Map<string, string>; // Label ID -> name, so label: can match user labels by name
+  now?: Date; // Reference time for older_than: and newer_than:
+  includeSpamTrash?: boolean; // Like messages.list, spam and trash are skipped unless the query asks for them
+};
+
+export type MatchResult = {
+  matches: IndexedMessage[]; // Definitely match
+  uncertain: IndexedMessage[]; // Match unless a term the index can't evaluate rules them out
+  issues: QueryIssue[]; // Nothing is matched when the query has errors
+};
+
+const SYSTEM_LABELS = new Set(["INBOX", "SENT", "STARRED", "IMPORTANT", "DRAFT", "SPAM", "TRASH", "UNREAD", "CHAT"]);
+
+// is: and in: values that correspond to a system label
+const LABEL_STATES: Record<string, string> = {
+  inbox: "INBOX",
+  sent: "SENT",
+  starred: "STARRED",
+  important: "IMPORTANT",
+  unread: "UNREAD",
+  draft: "DRAFT",
+  drafts: "DRAFT",
+  spam: "SPAM",
+  trash: "TRASH",
+  chat: "CHAT",
+  chats: "CHAT",
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  primary: "CATEGORY_PERSONAL",
+  social: "CATEGORY_SOCIAL",
+  promotions: "CATEGORY_PROMOTIONS",
+  updates: "CATEGORY_UPDATES",
+  forums: "CATEGORY_FORUMS",
+};
+
+const PERIOD_DAYS: Record<string, number> = { d: 1, m: 30, y: 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function and(values: Truth[]): Truth {
+  if (values.includes(false)) return false;
+  return values.includes(null) ? null : true;
+}
+
+function or(values: Truth[]): Truth {
+  if (values.includes(true)) return true;
+  return values.includes(null) ? null : false;
+}
+
+function not(value: Truth): Truth {
+  return value === null ? null : !value;
+}
+
+/**
+ * Label names as Gmail's label: operator compares them: lowercase, with spaces and slashes as dashes
+ */
+function normalizeLabel(name: string): string {
+  return name.toLowerCase().replace(/[\s/]+/g, "-");
+}
+
+function isUserLabel(labelId: string): boolean {
+  return !SYSTEM_LABELS.has(labelId) && !labelId.startsWith("CATEGORY_");
+}
+
+/**
+ * Timestamp for an after:/before: value: yyyy/mm/dd, mm/dd/yyyy or seconds since the epoch
+ */
+function parseDate(value: string): number | null {
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+  const ymd = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value);
+  if (ymd) return Date.UTC(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]));
+
+  const mdy = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (mdy) return Date.UTC(Number(mdy[3]), Number(mdy[1]) - 1, Number(mdy[2]));
+
+  return null;
+}
+
+/**
+ * Evaluate an operator's value, which may itself be a group such as from:(a OR b), term by term
+ */
+function evaluateValue(node: QueryNode, test: (term: string) => Truth): Truth {
+  switch (node.type) {
+    case "text":
+      return test(node.value.toLowerCase());
+    case "and":
+      return and(node.children.map((child) => evaluateValue(child, test)));
+    case "or":
+      return or(node.children.map((child) => evaluateValue(child, test)));
+    case "not":
+      return not(evaluateValue(node.child, test));
+    case "field":
+      return null;
+  }
+}
+
+function evaluateField(operator: string, value: QueryNode, message: IndexedMessage, context: MatchContext): Truth {
+  const contains = (fields: (string | undefined)[]) => (term: string) =>
+    fields.some((field) => field?.toLowerCase().includes(term));
+  const hasLabel = (labelId: string) => message.labels.includes(labelId);
+
+  switch (operator) {
+    case "from":
+      return evaluateValue(value, contains([message.from, message.fromName]));
+    case "to":
+      return evaluateValue(value, contains([...message.to, ...message.cc]));
+    case "cc":
+    case "bcc":
+      return evaluateValue(value, contains(message.cc));
+    case "subject":
+      return evaluateValue(value, contains([message.subject]));
+    case "label":
+      return evaluateValue(value, (term) =>
+        message.labels.some((labelId) =>
+          [labelId, context.labelNames?.get(labelId)].some(
+            (name) => name && normalizeLabel(name) === normalizeLabel(term)
+          )
+        )
+      );
+    case "is":
+      return evaluateValue(value, (term) => {
+        if (term === "read") return !hasLabel("UNREAD");
+        return LABEL_STATES[term] ? hasLabel(LABEL_STATES[term]) : null;
+      });
+    case "in":
+      return evaluateValue(value, (term) => {
+        if (term === "anywhere") return true;
+        return LABEL_STATES[term] ? hasLabel(LABEL_STATES[term]) : null;
+      });
+    case "category":
+      return evaluateValue(value, (term) => {
+        // Messages indexed over IMAP carry no category labels
+        if (!CATEGORY_LABELS[term] || !message.labels.some((labelId) => labelId.startsWith("CATEGORY_"))) return null;
+        return hasLabel(CATEGORY_LABELS[term]);
+      });
+    case "has":
+      return evaluateValue(value, (term) => {
+        if (term === "userlabels") return message.labels.some(isUserLabel);
+        if (term === "nouserlabels") return !message.labels.some(isUserLabel);
+        return null;
+      });
+    case "larger":
+    case "size":
+    case "smaller":
+      return evaluateValue(value, (term) => {
+        const size = parseSize(term);
+        if (size === null) return null;
+        return operator === "smaller" ? message.size < size : message.size > size;
+      });
+    case "older_than":
+    case "newer_than":
+      return evaluateValue(value, (term) => {
+        const match = /^(\d+)([dmy])$/.exec(term);
+        if (!match || !message.date) return null;
+        const cutoff = (context.now || new Date()).getTime() - Number(match[1]) * PERIOD_DAYS[match[2]] * DAY_MS;
+        const date = new Date(message.date).getTime();
+        return operator === "older_than" ? date < cutoff : date >= cutoff;
+      });
+    case "after":
+    case "newer":
+    case "before":
+    case "older":
+      return evaluateValue(value, (term) => {
+        const boundary = parseDate(term);
+        if (boundary === null || !message.date) return null;
+        const date = new Date(message.date).getTime();
+        return operator === "after" || operator === "newer" ? date >= boundary : date < boundary;
+      });
+    default:
+      // list:, filename:, deliveredto:, rfc822msgid: and unknown operators need data the index doesn't keep
+      return null;
+  }
+}
+
+/**
+ * Evaluate a parsed query against one message: true, false, or null when the index can't tell
+ */
+export function evaluateQuery(node: QueryNode | null, message: IndexedMessage, context: MatchContext = {}): Truth {
+  if (!node) return true;
+
+  switch (node.type) {
+    case "text": {
+      // Found in the headers is a match; not found may still be in the body
+      const term = node.value.toLowerCase();
+      const found = [message.subject, message.from, message.fromName, ...message.to, ...message.cc].some((field) =>
+        field?.toLowerCase().includes(term)
+      );
+      return found ? true : null;
+    }
+    case "field":
+      return evaluateField(node.operator.toLowerCase(), node.value, message, context);
+    case "and":
+      return and(node.children.map((child) => evaluateQuery(child, message, context)));
+    case "or":
+      return or(node.children.map((child) => evaluateQuery(child, message, context)));
+    case "not":
+      return not(evaluateQuery(node.child, message, context));
+  }
+}
+
+/**
+ * Whether the query explicitly searches spam or trash
+ */
+function searchesSpamTrash(node: QueryNode | null): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case "field":
+      return (
+        node.operator.toLowerCase() === "in" &&
+        evaluateValue(node.value, (term) => ["spam", "trash", "anywhere"].includes(term)) !== false
+      );
+    case "and":
+    case "or":
+      return node.children.some(searchesSpamTrash);
+    case "not":
+      return searchesSpamTrash(node.child);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Match indexed messages against a Gmail search query
+ */
+export function matchQuery(messages: IndexedMessage[], query: string, context: MatchContext = {}): MatchResult {
+  const { ast, issues } = parseQuery(query);
+  if (issues.some((issue) => issue.severity === "error")) {
+    return { matches: [], uncertain: [], issues };
+  }
+
+  const includeSpamTrash = context.includeSpamTrash || searchesSpamTrash(ast);
+  const result: MatchResult = { matches: [], uncertain: [], issues };
+
+  messages.forEach((message) => {
+    if (!includeSpamTrash && (message.labels.includes("SPAM") || message.labels.includes("TRASH"))) return;
+
+    const outcome = evaluateQuery(ast, message, context);
+    if (outcome === true) result.matches.push(message);
+    else if (outcome === null) result.uncertain.push(message);
+  });
+
+  return result;
+}
+
+/**
+ * The part of a query the message index can narrow its reads by: top-level terms every match must meet.
+ * Reading only these messages leaves matchQuery's result unchanged, except that messages without a date are
+ * skipped and from: takes a whole address as Gmail does, instead of matching addresses that contain it.
+ */
+export function toIndexQuery(query: string, context: MatchContext = {}): MessageIndexQuery {
+  const { ast, issues } = parseQuery(query);
+  if (!ast || issues.some((issue) => issue.severity === "error")) return {};
+
+  const indexQuery: MessageIndexQuery = {};
+  const terms = ast.type === "and" ? ast.children : [ast];
+  const now = (context.now || new Date()).getTime();
+  const setAfter = (time: number) => {
+    const date = new Date(time).toISOString();
+    if (!indexQuery.after || date > indexQuery.after) indexQuery.after = date;
+  };
+  const setBefore = (time: number) => {
+    const date = new Date(time).toISOString();
+    if (!indexQuery.before || date < indexQuery.before) indexQuery.before = date;
+  };
+
+  terms.forEach((term) => {
+    if (term.type !== "field" || term.value.type !== "text") return;
+    const operator = term.operator.toLowerCase();
+    const value = term.value.value.toLowerCase();
+
+    switch (operator) {
+      case "from":
+        // Only a whole address; a partial one matches many senders
+        if (!indexQuery.from && /^[^\s@*]+@[^\s@*]+\.[^\s@*]+$/.test(value)) indexQuery.from = value;
+        break;
+      case "label": {
+        // User labels may be indexed under their IMAP names, so only system labels narrow the read
+        const labelId = Array.from(SYSTEM_LABELS).find(
+          (systemLabel) => normalizeLabel(systemLabel) === normalizeLabel(value)
+        );
+        if (!indexQuery.labelId && labelId) indexQuery.labelId = labelId;
+        break;
+      }
+      case "is":
+      case "in":
+        if (!indexQuery.labelId && LABEL_STATES[value]) indexQuery.labelId = LABEL_STATES[value];
+        break;
+      case "after":
+      case "newer":
+      case "before":
+      case "older": {
+        const boundary = parseDate(value);
+        if (boundary === null) break;
+        if (operator === "after" || operator === "newer") setAfter(boundary);
+        else setBefore(boundary);
+        break;
+      }
+      case "older_than":
+      case "newer_than": {
+        const match = /^(\d+)([dmy])$/.exec(value);
+        if (!match) break;
+        const cutoff = now - Number(match[1]) * PERIOD_DAYS[match[2]] * DAY_MS;
+        if (operator === "newer_than") setAfter(cutoff);
+        else setBefore(cutoff);
+        break;
+      }
+    }
+  });
+
+  return indexQuery;
+}
+
+/**
+ * Match indexed messages against filter or label job criteria, using the query Gmail would run for them
+ */
+export function matchCriteria(
+  messages: IndexedMessage[],
+  criteria: SearchCriteria,
+  context: MatchContext = {}
+): MatchResult {
+  return matchQuery(messages, criteriaToQuery(criteria), context);
+}
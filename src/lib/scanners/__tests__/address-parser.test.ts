@@ -0,0 +1,129 @@
+import { decodeEncodedWords, normalizeAddress, parseAddressList, parseMailbox } from "../address-parser";
+
+describe("Address Parser", () => {
+  describe("parseAddressList", () => {
+    it("should parse bare addresses and name-addr entries", () => {
+      expect(parseAddressList("alice@example.com, Bob Smith <Bob@Example.com>")).toEqual([
+        { address: "alice@example.com" },
+        { address: "bob@example.com", displayName: "Bob Smith" },
+      ]);
+    });
+
+    it("should keep commas inside quoted display names", () => {
+      expect(parseAddressList('"Doe, John" <john@example.com>, "Roe, Jane" <jane@example.com>')).toEqual([
+        { address: "john@example.com", displayName: "Doe, John" },
+        { address: "jane@example.com", displayName: "Roe, Jane" },
+      ]);
+    });
+
+    it("should unescape quoted-pair characters", () => {
+      expect(parseAddressList('"John \\"JD\\" Doe" <jd@example.com>')).toEqual([
+        { address: "jd@example.com", displayName: 'John "JD" Doe' },
+      ]);
+    });
+
+    it("should use a trailing comment as the display name of a bare address", () => {
+      expect(parseAddressList("john@example.com (John (the) Doe)")).toEqual([
+        { address: "john@example.com", displayName: "John (the) Doe" },
+      ]);
+    });
+
+    it("should ignore comments around name-addr entries", () => {
+      expect(parseAddressList("John Doe (work) <john@example.com> (primary)")).toEqual([
+        { address: "john@example.com", displayName: "John Doe" },
+      ]);
+    });
+
+    it("should return group members and drop the group name", () => {
+      expect(parseAddressList("Team: alice@example.com, Bob <bob@example.com>;, carol@example.com")).toEqual([
+        { address: "alice@example.com" },
+        { address: "bob@example.com", displayName: "Bob" },
+        { address: "carol@example.com" },
+      ]);
+    });
+
+    it("should return nothing for empty groups", () => {
+      expect(parseAddressList("undisclosed-recipients:;")).toEqual([]);
+    });
+
+    it("should strip obsolete source routes", () => {
+      expect(parseAddressList("<@relay.example.net:user@example.com>")).toEqual([{ address: "user@example.com" }]);
+    });
+
+    it("should keep quoted local parts", () => {
+      expect(parseAddressList('"john doe"@example.com')).toEqual([{ address: '"john doe"@example.com' }]);
+    });
+
+    it("should decode encoded-word display names", () => {
+      expect(parseAddressList("=?UTF-8?B?SsO8cmdlbiBNw7xsbGVy?= <jurgen@example.de>")).toEqual([
+        { address: "jurgen@example.de", displayName: "Jürgen Müller" },
+      ]);
+      expect(parseAddressList('"=?ISO-8859-1?Q?Andr=E9_Pirard?=" <andre@example.be>')).toEqual([
+        { address: "andre@example.be", displayName: "André Pirard" },
+      ]);
+    });
+
+    it("should convert internationalised domains to ASCII", () => {
+      expect(parseAddressList("Jürgen <info@Bücher.example>")).toEqual([
+        { address: "info@xn--bcher-kva.example", displayName: "Jürgen" },
+      ]);
+    });
+
+    it("should skip invalid entries and keep valid ones", () => {
+      expect(parseAddressList("not-an-email, Name <broken@, @example.com, ok@example.com")).toEqual([
+        { address: "ok@example.com" },
+      ]);
+    });
+
+    it("should handle empty input", () => {
+      expect(parseAddressList("")).toEqual([]);
+      expect(parseAddressList(null)).toEqual([]);
+      expect(parseAddressList(undefined)).toEqual([]);
+    });
+  });
+
+  describe("decodeEncodedWords", () => {
+    it("should join adjacent encoded words", () => {
+      expect(decodeEncodedWords("=?UTF-8?Q?Caf=C3=A9?= =?UTF-8?Q?_Owner?=")).toBe("Café Owner");
+    });
+
+    it("should keep surrounding plain text", () => {
+      expect(decodeEncodedWords("Team =?UTF-8?B?w4Vsw6Vy?= Support")).toBe("Team Ålår Support");
+    });
+
+    it("should leave plain text untouched", () => {
+      expect(decodeEncodedWords("Plain Name")).toBe("Plain Name");
+    });
+  });
+
+  describe("normalizeAddress", () => {
+    it("should lower-case addresses", () => {
+      expect(normalizeAddress("John.Doe@Example.COM")).toBe("john.doe@example.com");
+    });
+
+    it("should keep domain literals", () => {
+      expect(normalizeAddress("user@[192.0.2.1]")).toBe("user@[192.0.2.1]");
+    });
+
+    it("should reject addresses without a local part or domain", () => {
+      expect(normalizeAddress("@example.com")).toBeNull();
+      expect(normalizeAddress("user@")).toBeNull();
+      expect(normalizeAddress("user")).toBeNull();
+    });
+  });
+
+  describe("parseMailbox", () => {
+    it("should normalise envelope entries", () => {
+      expect(parseMailbox("Sender@Example.com", "=?UTF-8?Q?Ren=C3=A9e?=")).toEqual({
+        address: "sender@example.com",
+        displayName: "Renée",
+      });
+    });
+
+    it("should return null for missing or invalid addresses", () => {
+      expect(parseMailbox(null)).toBeNull();
+      expect(parseMailbox("")).toBeNull();
+      expect(parseMailbox("invalid")).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { BaseScanner, scannerJobs } from "../base-scanner";
 import { InMemoryScanRepository } from "../scan-repository";
+import { createIdentityResolver } from "../../contact-identity";
+import type { ContactStatsMap } from "../../contact-stats";
 
 // Create a test scanner implementation
 class TestScanner extends BaseScanner {
@@ -28,6 +30,14 @@ class TestScanner extends BaseScanner {
       nextOffset: hasMore ? offset + processed : undefined,
     };
   }
+
+  public extractEmailsFromHeader(header: string): string[] {
+    return super.extractEmailsFromHeader(header);
+  }
+
+  public extractEmailsFromAddresses(addresses: unknown[]): string[] {
+    return super.extractEmailsFromAddresses(addresses);
+  }
 }
 
 describe("BaseScanner", () => {
@@ -227,6 +237,101 @@ describe("BaseScanner", () => {
     });
   });
 
+  describe("Contact identity", () => {
+    class AliasScanner extends BaseScanner {
+      async scanBatch(refreshToken: string, email: string, options: any) {
+        const first = !options.offset;
+        const contactStats: ContactStatsMap = first
+          ? { "john.doe@gmail.com": { senderCount: 1, recipientCount: 0, lastSeen: "2024-01-01T00:00:00.000Z" } }
+          : {
+              "johndoe+news@googlemail.com": {
+                senderCount: 1,
+                recipientCount: 0,
+                lastSeen: "2024-02-01T00:00:00.000Z",
+              },
+              "j.doe@work.example": { senderCount: 1, recipientCount: 0 },
+            };
+
+        return {
+          senders: new Set(first ? ["john.doe@gmail.com"] : ["johndoe+news@googlemail.com", "j.doe@work.example"]),
+          recipients: new Set(["me@example.com"]),
+          processed: 1,
+          hasMore: first,
+          nextOffset: first ? 1 : undefined,
+          contactStats,
+        };
+      }
+    }
+
+    it("should collapse Gmail dot and plus addressing into one contact", async () => {
+      const result = await BaseScanner.scanAsync(
+        "refresh-token",
+        "test@example.com",
+        "job-identity",
+        new AliasScanner(),
+        {
+          usePersistence: false,
+          identity: createIdentityResolver(),
+        }
+      );
+
+      expect(result.senders.sort()).toEqual(["j.doe@work.example", "johndoe@gmail.com"]);
+      expect(result.aliases?.["johndoe@gmail.com"]).toEqual(["john.doe@gmail.com", "johndoe+news@googlemail.com"]);
+      expect(result.contactStats?.["johndoe@gmail.com"]).toMatchObject({
+        senderCount: 2,
+        lastSeen: "2024-02-01T00:00:00.000Z",
+      });
+    });
+
+    it("should roll user-defined alias groups up into the canonical address", async () => {
+      const identity = createIdentityResolver({
+        domainRules: [],
+        aliasGroups: [{ canonical: "john.doe@gmail.com", aliases: ["j.doe@work.example"] }],
+      });
+
+      const result = await BaseScanner.scanAsync(
+        "refresh-token",
+        "test@example.com",
+        "job-identity",
+        new AliasScanner(),
+        {
+          usePersistence: false,
+          identity,
+        }
+      );
+
+      expect(result.senders).toEqual(["johndoe@gmail.com"]);
+      expect(result.contacts).toBe(2);
+      expect(result.aliases?.["johndoe@gmail.com"]).toContain("j.doe@work.example");
+      expect(result.contactStats?.["johndoe@gmail.com"]?.senderCount).toBe(3);
+    });
+
+    it("should apply per-domain rules", () => {
+      const identity = createIdentityResolver({
+        domainRules: [{ domain: "work.example", subaddressSeparator: "-", canonicalDomain: "example.com" }],
+        aliasGroups: [],
+      });
+
+      expect(identity("J.Doe-Billing@work.example")).toBe("j.doe@example.com");
+      expect(identity("other@example.org")).toBe("other@example.org");
+    });
+
+    it("should leave addresses untouched without a resolver", async () => {
+      const result = await BaseScanner.scanAsync(
+        "refresh-token",
+        "test@example.com",
+        "job-identity",
+        new AliasScanner(),
+        {
+          usePersistence: false,
+        }
+      );
+
+      expect(result.senders).toHaveLength(3);
+      expect(result.aliases).toEqual({});
+    });
+  });
+
   describe("Progress tracking", () => {
     it("should update progress correctly during scan", async () => {
       await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
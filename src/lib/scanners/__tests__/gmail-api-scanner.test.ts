@@ -1,24 +1,35 @@
 import { GmailAPIScanner } from "../gmail-api-scanner";
+import { BaseScanner, type ScanOptions } from "../base-scanner";
 import { InMemoryScanRepository } from "../scan-repository";
+import { InMemoryMessageIndexRepository } from "../message-index";
+import { getGmailClient } from "../../google";
 
 // Mock the google module
 jest.mock("../../google", () => ({
   getGmailClient: jest.fn(),
 }));
 
+// Exposes the protected batch scan and header parsing to the tests
+class TestGmailAPIScanner extends GmailAPIScanner {
+  public scanBatch(refreshToken: string, email: string, options: ScanOptions & { offset?: number | string }) {
+    return super.scanBatch(refreshToken, email, options);
+  }
+
+  public extractEmailsFromHeader(header: string): string[] {
+    return super.extractEmailsFromHeader(header);
+  }
+}
+
 describe("GmailAPIScanner", () => {
-  let scanner: GmailAPIScanner;
+  let scanner: TestGmailAPIScanner;
   let mockRepository: InMemoryScanRepository;
-  let mockGetGmailClient: jest.MockedFunction<any>;
+  const mockGetGmailClient = getGmailClient as jest.Mock;
 
   beforeEach(() => {
     mockRepository = new InMemoryScanRepository();
-    scanner = new GmailAPIScanner();
+    scanner = new TestGmailAPIScanner();
     // Inject our test repository
     (scanner as any).repository = mockRepository;
-
-    // Get the mocked function
-    mockGetGmailClient = require("../../google").getGmailClient;
   });
 
   afterEach(() => {
@@ -91,7 +102,7 @@ describe("GmailAPIScanner", () => {
 
   describe("scanBatch", () => {
     beforeEach(() => {
-      scanner = new GmailAPIScanner();
+      scanner = new TestGmailAPIScanner();
       (scanner as any).repository = mockRepository;
     });
 
@@ -181,9 +192,346 @@ describe("GmailAPIScanner", () => {
     });
   });
 
+  describe("Incremental sync", () => {
+    const completedProgress = {
+      userEmail: "test@example.com",
+      scannerType: "gmail-api",
+      lastMessageScanned: null,
+      totalMessages: 2,
+      contactsFound: 2,
+      chunksCompleted: 1,
+      isComplete: true,
+      historyId: "1000",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const scanOptions = {
+      maxMessages: 50,
+      batchSize: 50,
+      usePersistence: true,
+      scannerType: "gmail-api",
+    };
+
+    it("should store the mailbox history ID after a full scan", async () => {
+      const mockGmailClient: any = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.getProfile = jest.fn().mockResolvedValue({ data: { historyId: "1000" } });
+      mockGetGmailClient.mockResolvedValue({ gmail: mockGmailClient });
+
+      await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
+        ...scanOptions,
+        repository: mockRepository,
+      });
+
+      const progress = await mockRepository.loadProgress("test@example.com", "gmail-api");
+      expect(progress?.isComplete).toBe(true);
+      expect(progress?.historyId).toBe("1000");
+    });
+
+    it("should only fetch messages added since the stored history ID", async () => {
+      await mockRepository.saveProgress("test@example.com", "gmail-api", completedProgress);
+
+      const mockGmailClient: any = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.history = {
+        list: jest.fn().mockResolvedValue({
+          data: {
+            history: [{ messagesAdded: [{ message: { id: "new1" } }, { message: { id: "new2" } }] }],
+            historyId: "1200",
+          },
+        }),
+      };
+      mockGmailClient.users.messages.get.mockResolvedValue({
+        data: {
+          payload: {
+            headers: [
+              { name: "From", value: "new-sender@example.com" },
+              { name: "To", value: "test@example.com" },
+            ],
+          },
+        },
+      });
+      mockGetGmailClient.mockResolvedValue({ gmail: mockGmailClient });
+
+      const result = await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
+        ...scanOptions,
+        repository: mockRepository,
+      });
+
+      expect(mockGmailClient.users.history.list).toHaveBeenCalledWith(
+        expect.objectContaining({ startHistoryId: "1000", historyTypes: ["messageAdded"] })
+      );
+      expect(mockGmailClient.users.messages.list).not.toHaveBeenCalled();
+      expect(result.scanned).toBe(2);
+      expect(result.senders).toContain("new-sender@example.com");
+
+      const progress = await mockRepository.loadProgress("test@example.com", "gmail-api");
+      expect(progress?.historyId).toBe("1200");
+      expect(progress?.totalMessages).toBe(4);
+    });
+
+    it("should fetch the added messages in batches", async () => {
+      await mockRepository.saveProgress("test@example.com", "gmail-api", completedProgress);
+
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      const history = {
+        list: jest.fn().mockResolvedValue({
+          data: {
+            history: [{ messagesAdded: ["a", "b", "c", "d", "e"].map((id) => ({ message: { id } })) }],
+            historyId: "1200",
+          },
+        }),
+      };
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockGmailClient.users.messages.get.mockImplementation(async ({ id }: { id: string }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        inFlight--;
+        return { data: { payload: { headers: [{ name: "From", value: `${id}@example.com` }] } } };
+      });
+      mockGetGmailClient.mockResolvedValue({ gmail: { users: { ...mockGmailClient.users, history } } });
+
+      const result = await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
+        ...scanOptions,
+        batchSize: 2,
+        repository: mockRepository,
+      });
+
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+      expect(result.scanned).toBe(5);
+      expect(result.senders).toEqual(expect.arrayContaining(["a@example.com", "e@example.com"]));
+    });
+
+    it("should fall back to a full rescan when the history ID has expired", async () => {
+      await mockRepository.saveProgress("test@example.com", "gmail-api", completedProgress);
+
+      const mockGmailClient: any = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.history = {
+        list: jest.fn().mockRejectedValue(Object.assign(new Error("Requested entity was not found."), { code: 404 })),
+      };
+      mockGmailClient.users.getProfile = jest.fn().mockResolvedValue({ data: { historyId: "5000" } });
+      mockGetGmailClient.mockResolvedValue({ gmail: mockGmailClient });
+
+      const result = await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
+        ...scanOptions,
+        repository: mockRepository,
+      });
+
+      expect(mockGmailClient.users.messages.list).toHaveBeenCalled();
+      expect(result.scanned).toBe(2);
+      expect(result.senders).toContain("sender@example.com");
+
+      const progress = await mockRepository.loadProgress("test@example.com", "gmail-api");
+      expect(progress?.historyId).toBe("5000");
+    });
+
+    it("should skip incremental sync when disabled", async () => {
+      await mockRepository.saveProgress("test@example.com", "gmail-api", completedProgress);
+
+      const result = await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-123", scanner, {
+        ...scanOptions,
+        incremental: false,
+        repository: mockRepository,
+      });
+
+      expect(mockGetGmailClient).not.toHaveBeenCalled();
+      expect(result.message).toContain("already completed");
+    });
+  });
+
+  describe("Contact statistics", () => {
+    it("should count messages per contact with dates and display names", async () => {
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.messages.get.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve({
+          data: {
+            internalDate: id === "msg1" ? "1700000000000" : "1710000000000",
+            payload: {
+              headers: [
+                {
+                  name: "From",
+                  value: id === "msg1" ? "Alice <alice@example.com>" : '"Alice Smith" <Alice@example.com>',
+                },
+                { name: "To", value: "bob@example.com" },
+              ],
+            },
+          },
+        })
+      );
+
+      mockGetGmailClient.mockResolvedValue({
+        gmail: mockGmailClient,
+      });
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", { batchSize: 50 });
+
+      expect(result.contactStats?.["alice@example.com"]).toEqual({
+        senderCount: 2,
+        recipientCount: 0,
+        firstSeen: new Date(1700000000000).toISOString(),
+        lastSeen: new Date(1710000000000).toISOString(),
+        displayName: "Alice Smith",
+        categories: { person: 2 },
+      });
+      expect(result.contactStats?.["bob@example.com"]).toMatchObject({ senderCount: 0, recipientCount: 2 });
+    });
+
+    it("should accumulate statistics across batches", async () => {
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: [{ id: "msg1" }], nextPageToken: "page-2" } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: "msg2" }], nextPageToken: undefined } });
+
+      mockGetGmailClient.mockResolvedValue({
+        gmail: mockGmailClient,
+      });
+
+      const result = await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-stats", scanner, {
+        batchSize: 1,
+        maxMessages: 10,
+      });
+
+      expect(result.fromBeginning).toBe(true);
+      expect(result.contactStats?.["sender@example.com"]).toMatchObject({ senderCount: 2, recipientCount: 0 });
+      expect(result.contactStats?.["recipient@example.com"]).toMatchObject({ senderCount: 0, recipientCount: 2 });
+    });
+
+    it("should request classification headers and classify senders", async () => {
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.messages.get.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve({
+          data: {
+            payload: {
+              headers:
+                id === "msg1"
+                  ? [
+                      { name: "From", value: "Weekly Digest <digest@news.example>" },
+                      { name: "List-Id", value: "<weekly.news.example>" },
+                      { name: "List-Unsubscribe", value: "<mailto:unsubscribe@news.example>" },
+                    ]
+                  : [
+                      { name: "From", value: "no-reply@accounts.example" },
+                      { name: "To", value: "me@example.com" },
+                    ],
+            },
+          },
+        })
+      );
+
+      mockGetGmailClient.mockResolvedValue({
+        gmail: mockGmailClient,
+      });
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", { batchSize: 50 });
+
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledWith(
+        expect.objectContaining({ metadataHeaders: expect.arrayContaining(["List-Unsubscribe", "Precedence"]) })
+      );
+      expect(result.contactStats?.["digest@news.example"]?.categories).toEqual({ bulk: 1 });
+      expect(result.contactStats?.["no-reply@accounts.example"]?.categories).toEqual({ transactional: 1 });
+    });
+
+    it("should record List-Unsubscribe options for senders", async () => {
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.messages.get.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve({
+          data: {
+            internalDate: id === "msg1" ? "1700000000000" : "1700000100000",
+            payload: {
+              headers: [
+                { name: "From", value: "news@shop.example" },
+                { name: "To", value: "me@example.com" },
+                {
+                  name: "List-Unsubscribe",
+                  value:
+                    id === "msg1"
+                      ? "<mailto:leave@shop.example?subject=unsubscribe>"
+                      : "<mailto:leave@shop.example?subject=unsubscribe>, <https://shop.example/u/123>",
+                },
+                ...(id === "msg2" ? [{ name: "List-Unsubscribe-Post", value: "List-Unsubscribe=One-Click" }] : []),
+              ],
+            },
+          },
+        })
+      );
+
+      mockGetGmailClient.mockResolvedValue({
+        gmail: mockGmailClient,
+      });
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", { batchSize: 50 });
+
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledWith(
+        expect.objectContaining({ metadataHeaders: expect.arrayContaining(["List-Unsubscribe-Post"]) })
+      );
+      // The newest message wins
+      expect(result.contactStats?.["news@shop.example"]?.unsubscribe).toEqual({
+        http: "https://shop.example/u/123",
+        mailto: "mailto:leave@shop.example?subject=unsubscribe",
+        oneClick: true,
+      });
+      expect(result.contactStats?.["me@example.com"]?.unsubscribe).toBeUndefined();
+    });
+  });
+
+  describe("Message index", () => {
+    it("should keep per-message metadata and save it to the index", async () => {
+      const mockGmailClient = global.testUtils.createMockGmailClient();
+      mockGmailClient.users.messages.get.mockImplementation(({ id }: { id: string }) =>
+        Promise.resolve({
+          data: {
+            id,
+            internalDate: "1700000000000",
+            sizeEstimate: 2048,
+            labelIds: ["INBOX", "UNREAD"],
+            payload: {
+              headers: [
+                { name: "From", value: "Acme Billing <billing@acme.com>" },
+                { name: "To", value: "me@example.com" },
+                { name: "Cc", value: "team@example.com" },
+                { name: "Subject", value: `Invoice ${id}` },
+              ],
+            },
+          },
+        })
+      );
+
+      mockGetGmailClient.mockResolvedValue({
+        gmail: mockGmailClient,
+      });
+
+      const messageIndex = new InMemoryMessageIndexRepository();
+      await BaseScanner.scanAsync("refresh-token", "test@example.com", "job-index", scanner, {
+        batchSize: 50,
+        maxMessages: 10,
+        messageIndex,
+      });
+
+      expect(mockGmailClient.users.messages.get).toHaveBeenCalledWith(
+        expect.objectContaining({ metadataHeaders: expect.arrayContaining(["Subject"]) })
+      );
+      expect(await messageIndex.loadMessages("test@example.com")).toEqual([
+        {
+          id: "msg1",
+          from: "billing@acme.com",
+          fromName: "Acme Billing",
+          to: ["me@example.com"],
+          cc: ["team@example.com"],
+          subject: "Invoice msg1",
+          date: new Date(1700000000000).toISOString(),
+          size: 2048,
+          labels: ["INBOX", "UNREAD"],
+        },
+        expect.objectContaining({ id: "msg2", subject: "Invoice msg2" }),
+      ]);
+    });
+  });
+
   describe("Email extraction", () => {
     beforeEach(() => {
-      scanner = new GmailAPIScanner();
+      scanner = new TestGmailAPIScanner();
       (scanner as any).repository = mockRepository;
     });
 
@@ -1,5 +1,9 @@
+import { ImapFlow } from "imapflow";
 import { IMAPHeaderScanner } from "../imap-header-scanner";
+import type { ScanOptions } from "../base-scanner";
 import { InMemoryScanRepository } from "../scan-repository";
+import { loadIMAPSettings } from "../../firestore";
+import { getGmailClient } from "../../google";
 
 // Mock the firestore module
 jest.mock("../../firestore", () => ({
@@ -11,22 +15,34 @@ jest.mock("../../google", () => ({
   getGmailClient: jest.fn(),
 }));
 
+// Exposes the protected batch scan and address parsing to the tests
+class TestIMAPHeaderScanner extends IMAPHeaderScanner {
+  public scanBatch(
+    refreshToken: string,
+    email: string,
+    options: ScanOptions & { offset?: number | string; uidValidity?: string }
+  ) {
+    return super.scanBatch(refreshToken, email, options);
+  }
+
+  public extractEmailsFromAddresses(addresses: unknown[]): string[] {
+    return super.extractEmailsFromAddresses(addresses);
+  }
+}
+
 describe("IMAPHeaderScanner", () => {
-  let scanner: IMAPHeaderScanner;
+  let scanner: TestIMAPHeaderScanner;
   let mockRepository: InMemoryScanRepository;
-  let mockLoadIMAPSettings: jest.MockedFunction<any>;
-  let mockGetGmailClient: jest.MockedFunction<any>;
+  const mockLoadIMAPSettings = loadIMAPSettings as jest.Mock;
+  const mockGetGmailClient = getGmailClient as jest.Mock;
+  const MockImapFlow = ImapFlow as unknown as jest.Mock;
 
   beforeEach(() => {
     mockRepository = new InMemoryScanRepository();
-    scanner = new IMAPHeaderScanner();
+    scanner = new TestIMAPHeaderScanner();
     // Inject our test repository
     (scanner as any).repository = mockRepository;
 
-    // Get the mocked functions
-    mockLoadIMAPSettings = require("../../firestore").loadIMAPSettings;
-    mockGetGmailClient = require("../../google").getGmailClient;
-
     // Default mock implementations
     mockLoadIMAPSettings.mockResolvedValue({
       mailbox: "[Gmail]/All Mail",
@@ -59,7 +75,7 @@ describe("IMAPHeaderScanner", () => {
 
   describe("scanBatch", () => {
     beforeEach(() => {
-      scanner = new IMAPHeaderScanner();
+      scanner = new TestIMAPHeaderScanner();
       (scanner as any).repository = mockRepository;
     });
 
@@ -97,7 +113,8 @@ describe("IMAPHeaderScanner", () => {
 
       const result = await scanner.scanBatch("refresh-token", "test@example.com", {
         batchSize: 100, // Request 100, but only 50 available
-        offset: 40, // Start from message 40
+        offset: 40, // Start from UID 40
+        uidValidity: "1",
       });
 
       expect(result.processed).toBeGreaterThan(0);
@@ -106,9 +123,215 @@ describe("IMAPHeaderScanner", () => {
     });
   });
 
+  describe("UID-based resumption", () => {
+    // Use a custom connection for the next ImapFlow instance
+    const mockNextConnection = (overrides: Record<string, any> = {}) => {
+      const connection = { ...global.testUtils.createMockIMAPConnection(), ...overrides };
+      MockImapFlow.mockImplementationOnce(() => connection);
+      return connection;
+    };
+
+    beforeEach(() => {
+      scanner = new TestIMAPHeaderScanner();
+    });
+
+    it("should fetch by UID and handle gaps in the UID sequence", async () => {
+      const connection = mockNextConnection({
+        search: jest.fn().mockResolvedValue([3, 7, 20, 45, 46]),
+      });
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", { batchSize: 3 });
+
+      expect(connection.fetch).toHaveBeenCalledWith([3, 7, 20], expect.objectContaining({ uid: true }), { uid: true });
+      expect(result.processed).toBe(3);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextOffset).toBe(21);
+      expect(result.highestUid).toBe(20);
+      expect(result.uidValidity).toBe("1");
+    });
+
+    it("should resume from the stored UID when UIDVALIDITY is unchanged", async () => {
+      const connection = mockNextConnection();
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", {
+        batchSize: 100,
+        offset: 51,
+        uidValidity: "1",
+      });
+
+      expect(connection.search).toHaveBeenCalledWith({ uid: "51:*" }, { uid: true });
+      expect(result.restarted).toBe(false);
+      expect(result.processed).toBe(50);
+      expect(result.highestUid).toBe(100);
+      expect(result.hasMore).toBe(false);
+    });
+
+    it("should restart from the first UID when UIDVALIDITY changes", async () => {
+      const connection = mockNextConnection();
+
+      const result = await scanner.scanBatch("refresh-token", "test@example.com", {
+        batchSize: 50,
+        offset: 51,
+        uidValidity: "7",
+      });
+
+      expect(connection.search).toHaveBeenCalledWith({ uid: "1:*" }, { uid: true });
+      expect(result.restarted).toBe(true);
+      expect(result.processed).toBe(50);
+      expect(result.nextOffset).toBe(51);
+    });
+
+    it("should keep the stored UID when a batch fetch fails", async () => {
+      mockNextConnection({
+        fetch: jest.fn().mockImplementation(async function* () {
+          throw new Error("Connection reset");
+        }),
+      });
+      await mockRepository.saveProgress("test@example.com", "imap", {
+        userEmail: "test@example.com",
+        scannerType: "imap",
+        lastMessageScanned: 51,
+        totalMessages: 50,
+        contactsFound: 10,
+        chunksCompleted: 1,
+        isComplete: false,
+        uidValidity: "1",
+        highestUid: 50,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+
+      await expect(
+        IMAPHeaderScanner.scanAsync("refresh-token", "test@example.com", "job-retry", scanner, {
+          batchSize: 100,
+          usePersistence: true,
+          scannerType: "imap",
+          repository: mockRepository,
+        })
+      ).rejects.toThrow("Connection reset");
+
+      const progress = await mockRepository.loadProgress("test@example.com", "imap");
+      expect(progress?.lastMessageScanned).toBe(51);
+      expect(progress?.totalMessages).toBe(50);
+      expect(progress?.isComplete).toBe(false);
+    });
+
+    it("should reset stored progress when UIDVALIDITY changes between runs", async () => {
+      await mockRepository.saveProgress("test@example.com", "imap", {
+        userEmail: "test@example.com",
+        scannerType: "imap",
+        lastMessageScanned: 91,
+        totalMessages: 5000,
+        contactsFound: 10,
+        chunksCompleted: 5,
+        isComplete: false,
+        uidValidity: "7",
+        highestUid: 90,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+
+      const result = await IMAPHeaderScanner.scanAsync("refresh-token", "test@example.com", "job-uid", scanner, {
+        batchSize: 100,
+        usePersistence: true,
+        scannerType: "imap",
+        repository: mockRepository,
+      });
+
+      const progress = await mockRepository.loadProgress("test@example.com", "imap");
+      expect(result.scanned).toBe(100);
+      expect(result.uidValidity).toBe("1");
+      expect(progress?.totalMessages).toBe(100);
+      expect(progress?.chunksCompleted).toBe(1);
+      expect(progress?.uidValidity).toBe("1");
+      expect(progress?.highestUid).toBe(100);
+      expect(progress?.isComplete).toBe(true);
+    });
+  });
+
+  describe("Contact statistics", () => {
+    it("should collect per-contact statistics from envelopes", async () => {
+      MockImapFlow.mockImplementationOnce(() => ({
+        ...global.testUtils.createMockIMAPConnection(),
+        search: jest.fn().mockResolvedValue([1, 2]),
+        fetch: jest.fn().mockImplementation(async function* () {
+          yield {
+            envelope: {
+              date: new Date("2024-01-01T00:00:00Z"),
+              from: [{ name: "Carol", address: "Carol@example.com" }],
+              to: [{ address: "dave@example.com" }],
+            },
+          };
+          yield {
+            envelope: {
+              date: new Date("2024-03-01T00:00:00Z"),
+              from: [{ address: "dave@example.com" }],
+              to: [{ name: "Carol C.", address: "carol@example.com" }],
+              cc: [{ address: "carol@example.com" }],
+            },
+          };
+        }),
+      }));
+
+      const result = await new TestIMAPHeaderScanner().scanBatch("refresh-token", "test@example.com", {
+        batchSize: 10,
+      });
+
+      expect(result.contactStats?.["carol@example.com"]).toEqual({
+        senderCount: 1,
+        recipientCount: 1, // To and Cc on the same message count once
+        firstSeen: "2024-01-01T00:00:00.000Z",
+        lastSeen: "2024-03-01T00:00:00.000Z",
+        displayName: "Carol C.",
+        categories: { person: 1 },
+      });
+      expect(result.contactStats?.["dave@example.com"]).toMatchObject({ senderCount: 1, recipientCount: 1 });
+    });
+
+    it("should classify senders from list and auto-submission headers", async () => {
+      const fetch = jest.fn().mockImplementation(async function* () {
+        yield {
+          envelope: { from: [{ address: "news@shop.example" }], to: [{ address: "me@example.com" }] },
+          headers: Buffer.from("List-Unsubscribe: <https://shop.example/unsubscribe>\r\n\r\n"),
+        };
+        yield {
+          envelope: { from: [{ address: "builds@ci.example" }], to: [{ address: "me@example.com" }] },
+          headers: Buffer.from("Auto-Submitted: auto-generated\r\n\r\n"),
+        };
+        yield {
+          envelope: { from: [{ address: "dev@lists.example" }], to: [{ address: "me@example.com" }] },
+          headers: Buffer.from(
+            "List-Id: Developers <dev.lists.example>\r\nList-Post:\r\n <mailto:dev@lists.example>\r\n\r\n"
+          ),
+        };
+      });
+      MockImapFlow.mockImplementationOnce(() => ({
+        ...global.testUtils.createMockIMAPConnection(),
+        search: jest.fn().mockResolvedValue([1, 2, 3]),
+        fetch,
+      }));
+
+      const result = await new TestIMAPHeaderScanner().scanBatch("refresh-token", "test@example.com", {
+        batchSize: 10,
+      });
+
+      expect(fetch.mock.calls[0][1].headers).toEqual(expect.arrayContaining(["List-Id", "Auto-Submitted"]));
+      expect(result.contactStats?.["news@shop.example"]?.categories).toEqual({ bulk: 1 });
+      expect(result.contactStats?.["builds@ci.example"]?.categories).toEqual({ transactional: 1 });
+      expect(result.contactStats?.["dev@lists.example"]?.categories).toEqual({ mailing_list: 1 });
+      expect(result.contactStats?.["me@example.com"]?.categories).toBeUndefined();
+      // One-click needs List-Unsubscribe-Post as well
+      expect(result.contactStats?.["news@shop.example"]?.unsubscribe).toEqual({
+        http: "https://shop.example/unsubscribe",
+        oneClick: false,
+      });
+      expect(result.contactStats?.["dev@lists.example"]?.unsubscribe).toBeUndefined();
+    });
+  });
+
   describe("Email extraction", () => {
     beforeEach(() => {
-      scanner = new IMAPHeaderScanner();
+      scanner = new TestIMAPHeaderScanner();
       (scanner as any).repository = mockRepository;
     });
 
@@ -0,0 +1,123 @@
+import {
+  FirestoreMessageIndexRepository,
+  InMemoryMessageIndexRepository,
+  MAX_INDEX_READ,
+  toGmailMessageId,
+  toIndexLabels,
+  type IndexedMessage,
+} from "../message-index";
+
+describe("Message index", () => {
+  const message = (id: string, overrides: Partial<IndexedMessage> = {}): IndexedMessage => ({
+    id,
+    from: "news@shop.example",
+    to: ["me@example.com"],
+    cc: [],
+    subject: `Message ${id}`,
+    date: "2024-06-01T12:00:00.000Z",
+    size: 1000,
+    labels: ["INBOX"],
+    ...overrides,
+  });
+
+  describe("toGmailMessageId", () => {
+    it("should convert X-GM-MSGID to hex and keep other IDs", () => {
+      expect(toGmailMessageId("1278455344230334865")).toBe("11bdfc5cae0c8191");
+      expect(toGmailMessageId("M1a2b3c")).toBe("M1a2b3c");
+    });
+  });
+
+  describe("toIndexLabels", () => {
+    it("should map IMAP labels and flags to label IDs", () => {
+      expect(toIndexLabels(["\\Inbox", "Work"], ["\\Flagged"])).toEqual(["INBOX", "Work", "UNREAD", "STARRED"]);
+      expect(toIndexLabels(["\\Inbox"], undefined)).toEqual(["INBOX"]);
+    });
+  });
+
+  describe("FirestoreMessageIndexRepository", () => {
+    const page = (from: number, count: number) => ({
+      docs: Array.from({ length: count }, (_, index) => ({ data: () => message(`msg_${from + index}`) })),
+    });
+    let query: Record<string, jest.Mock>;
+    let repository: FirestoreMessageIndexRepository;
+
+    beforeEach(() => {
+      query = {
+        collection: jest.fn().mockReturnThis(),
+        doc: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        startAfter: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        get: jest.fn(),
+      };
+      repository = new FirestoreMessageIndexRepository(query);
+    });
+
+    it("should push the query into Firestore and page through the results", async () => {
+      const first = page(0, 1000);
+      query.get.mockResolvedValueOnce(first).mockResolvedValueOnce(page(1000, 3));
+
+      const messages = await repository.loadMessages("me@example.com", {
+        from: "news@shop.example",
+        labelId: "UNREAD",
+        after: "2024-01-01T00:00:00.000Z",
+        before: "2024-07-01T00:00:00.000Z",
+      });
+
+      expect(messages).toHaveLength(1003);
+      expect(query.where.mock.calls).toEqual([
+        ["from", "==", "news@shop.example"],
+        ["labels", "array-contains", "UNREAD"],
+        ["date", ">=", "2024-01-01T00:00:00.000Z"],
+        ["date", "<", "2024-07-01T00:00:00.000Z"],
+      ]);
+      expect(query.orderBy).toHaveBeenCalledWith("date", "desc");
+      expect(query.startAfter).toHaveBeenCalledTimes(1);
+      expect(query.startAfter).toHaveBeenCalledWith(first.docs[999]);
+    });
+
+    it("should stop at the limit", async () => {
+      query.get.mockResolvedValue(page(0, 1000));
+
+      const messages = await repository.loadMessages("me@example.com");
+
+      expect(messages).toHaveLength(MAX_INDEX_READ);
+      expect(query.get).toHaveBeenCalledTimes(MAX_INDEX_READ / 1000);
+      expect(query.where).not.toHaveBeenCalled();
+
+      query.get.mockClear();
+      query.get.mockResolvedValueOnce(page(0, 5));
+      await repository.loadMessages("me@example.com", { limit: 5 });
+      expect(query.limit).toHaveBeenLastCalledWith(5);
+      expect(query.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return nothing when the index doesn't exist", async () => {
+      query.get.mockRejectedValue(Object.assign(new Error("NOT_FOUND"), { code: 5 }));
+
+      await expect(repository.loadMessages("me@example.com")).resolves.toEqual([]);
+    });
+  });
+
+  describe("InMemoryMessageIndexRepository", () => {
+    it("should filter like the Firestore query, newest first", async () => {
+      const repository = new InMemoryMessageIndexRepository();
+      await repository.saveMessages("me@example.com", [
+        message("old", { date: "2023-01-01T00:00:00.000Z" }),
+        message("new", { date: "2024-06-02T00:00:00.000Z", labels: ["INBOX", "UNREAD"] }),
+        message("other", { from: "bob@example.com" }),
+        message("undated", { date: null }),
+      ]);
+
+      const ids = async (query = {}) =>
+        (await repository.loadMessages("me@example.com", query)).map((indexed) => indexed.id);
+
+      expect(await ids()).toEqual(["new", "other", "old", "undated"]);
+      expect(await ids({ from: "news@shop.example", after: "2024-01-01T00:00:00.000Z" })).toEqual(["new"]);
+      expect(await ids({ labelId: "UNREAD" })).toEqual(["new"]);
+      expect(await ids({ before: "2024-01-01T00:00:00.000Z" })).toEqual(["old"]);
+      expect(await ids({ limit: 1 })).toEqual(["new"]);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * RFC 5322 address list parser shared by the scanners, the job manager and the sync routes.
+ *
+ * Handles quoted strings, comments, group syntax ("undisclosed-recipients:;"), obsolete source routes,
+ * RFC 2047 encoded-word display names and internationalised domains. Addresses are lower-cased and
+ * domains converted to their ASCII (punycode) form, so the same mailbox always yields the same string.
+ */
+
+import { TextDecoder } from "util";
+import { domainToASCII } from "url";
+
+export interface ParsedAddress {
+  address: string;
+  displayName?: string;
+}
+
+type Token =
+  | { type: "atom"; value: string }
+  | { type: "quoted"; value: string }
+  | { type: "comment"; value: string }
+  | { type: "angle"; value: string }
+  | { type: "space" }
+  | { type: "special"; value: "," | ":" | ";" };
+
+const ATOM_BREAK = /[\s"(),:;<>]/;
+
+/**
+ * Split a header value into tokens. Unterminated quotes and comments run to the end of the input.
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      while (i < input.length && /\s/.test(input[i])) i++;
+      tokens.push({ type: "space" });
+    } else if (char === '"') {
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      i++;
+      tokens.push({ type: "quoted", value });
+    } else if (char === "(") {
+      // Comments nest and may contain escaped parentheses
+      let depth = 1;
+      let value = "";
+      i++;
+      while (i < input.length && depth > 0) {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+          continue;
+        }
+        if (input[i] === "(") depth++;
+        if (input[i] === ")") depth--;
+        if (depth > 0) value += input[i];
+        i++;
+      }
+      tokens.push({ type: "comment", value: value.trim() });
+    } else if (char === "<") {
+      // An unterminated angle-addr stops at the next comma so later entries still parse
+      const close = input.indexOf(">", i + 1);
+      const comma = input.indexOf(",", i + 1);
+      const unterminated = close === -1 || (comma !== -1 && comma < close);
+      const end = unterminated ? (comma === -1 ? input.length : comma) : close;
+      tokens.push({ type: "angle", value: input.slice(i + 1, end) });
+      i = unterminated ? end : end + 1;
+    } else if (char === "," || char === ":" || char === ";") {
+      tokens.push({ type: "special", value: char });
+      i++;
+    } else if (char === ")" || char === ">") {
+      // Stray closing bracket, skip it
+      i++;
+    } else {
+      let value = "";
+      while (i < input.length && !ATOM_BREAK.test(input[i])) value += input[i++];
+      tokens.push({ type: "atom", value });
+    }
+  }
+
+  return tokens;
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown charset, fall back to Latin-1 so the name is at least readable
+    return new TextDecoder("latin1").decode(bytes);
+  }
+}
+
+function decodeQ(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "_") {
+      bytes.push(0x20);
+    } else if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(char.charCodeAt(0) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/[^A-Za-z0-9+/]/g, "").padEnd(Math.ceil(text.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+const ENCODED_WORD = /=\?([^?*\s]+)(?:\*[^?\s]*)?\?([BbQq])\?([^?\s]*)\?=/g;
+
+/**
+ * Decode RFC 2047 encoded words ("=?UTF-8?B?...?="). Whitespace between adjacent encoded words is dropped.
+ */
+export function decodeEncodedWords(text: string): string {
+  if (!text.includes("=?")) return text;
+
+  return text.replace(/(\?=)\s+(?==\?)/g, "$1").replace(ENCODED_WORD, (match, charset: string, encoding, payload) => {
+    try {
+      const bytes = encoding.toUpperCase() === "B" ? decodeBase64(payload) : decodeQ(payload);
+      return decodeBytes(bytes, charset);
+    } catch {
+      return match;
+    }
+  });
+}
+
+/**
+ * Validate and canonicalise an addr-spec: lower-case, drop source routes, punycode the domain.
+ * Returns null when the input is not a usable address.
+ */
+export function normalizeAddress(raw: string): string | null {
+  // Obsolete source route: <@relay1,@relay2:user@example.com>
+  const address = raw.trim().replace(/^(@[^:]*:)/, "");
+  const at = address.lastIndexOf("@");
+  if (at <= 0 || at === address.length - 1) return null;
+
+  const localPart = address.slice(0, at);
+  const domain = address.slice(at + 1).toLowerCase();
+  if (/\s/.test(localPart.replace(/^"(.*)"$/, "")) || /[\s@]/.test(domain)) return null;
+
+  // Domain literals ([192.0.2.1]) are kept as-is
+  const asciiDomain = domain.startsWith("[") ? domain : domainToASCII(domain);
+  if (!asciiDomain) return null;
+
+  return `${localPart.toLowerCase()}@${asciiDomain}`;
+}
+
+function cleanDisplayName(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  const decoded = decodeEncodedWords(name).replace(/\s+/g, " ").trim();
+  return decoded || undefined;
+}
+
+function toMailbox(tokens: Token[]): ParsedAddress | null {
+  const angle = tokens.find((token) => token.type === "angle");
+
+  if (angle) {
+    // name-addr: the phrase before the angle brackets is the display name
+    const phrase: string[] = [];
+    for (const token of tokens) {
+      if (token === angle) break;
+      if (token.type === "atom" || token.type === "quoted") phrase.push(token.value);
+      if (token.type === "space" && phrase.length > 0) phrase.push(" ");
+    }
+
+    const address = normalizeAddress(angle.value);
+    if (!address) return null;
+
+    const displayName = cleanDisplayName(phrase.join(""));
+    return displayName ? { address, displayName } : { address };
+  }
+
+  // addr-spec, possibly followed by a comment holding the name: user@example.com (User Name)
+  const spec = tokens
+    .filter((token) => token.type === "atom" || token.type === "quoted")
+    .map((token) => (token.type === "quoted" ? `"${token.value}"` : token.value))
+    .join("");
+  const address = normalizeAddress(spec);
+  if (!address) return null;
+
+  const comment = tokens.find((token) => token.type === "comment");
+  const displayName = cleanDisplayName(comment?.type === "comment" ? comment.value : undefined);
+  return displayName ? { address, displayName } : { address };
+}
+
+/**
+ * Parse an address header (From, To, Cc, Bcc, Reply-To...) into address/display name pairs.
+ * Group names are dropped and their members returned; invalid entries are skipped.
+ */
+export function parseAddressList(header: string | null | undefined): ParsedAddress[] {
+  if (!header) return [];
+
+  const results: ParsedAddress[] = [];
+  let current: Token[] = [];
+
+  const flush = () => {
+    const mailbox = current.length > 0 ? toMailbox(current) : null;
+    if (mailbox) results.push(mailbox);
+    current = [];
+  };
+
+  for (const token of tokenize(header)) {
+    if (token.type === "special") {
+      if (token.value === ":") {
+        // "group-name:" - the phrase so far names the group, not a mailbox
+        current = [];
+      } else {
+        flush();
+      }
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return results;
+}
+
+/**
+ * Normalise an already-split address, such as an IMAP envelope entry
+ */
+export function parseMailbox(address: string | null | undefined, displayName?: string | null): ParsedAddress | null {
+  if (!address) return null;
+
+  const normalized = normalizeAddress(address);
+  if (!normalized) return null;
+
+  const name = cleanDisplayName(displayName || undefined);
+  return name ? { address: normalized, displayName: name } : { address: normalized };
+}
@@ -3,6 +3,11 @@
  */
 
 import { getFirestore } from "../firestore";
+import { HistoryExpiredError } from "../gmail";
+import { mergeContactStats, type ContactStatsMap } from "../contact-stats";
+import { canonicalizeContacts, mergeAliases, type IdentityResolver } from "../contact-identity";
+import { parseAddressList, parseMailbox, type ParsedAddress } from "./address-parser";
+import { FirestoreMessageIndexRepository, type IndexedMessage, type MessageIndexRepository } from "./message-index";
 
 // In-memory storage for job progress (in production, use Redis or database)
 export const scannerJobs = new Map<string, any>();
@@ -16,6 +21,9 @@ export interface ScanProgress {
   contactsFound: number;
   chunksCompleted: number;
   isComplete: boolean;
+  historyId?: string; // Mailbox history ID captured for incremental syncs (Gmail API only)
+  uidValidity?: string; // Mailbox UIDVALIDITY the stored UIDs belong to (IMAP only)
+  highestUid?: number; // Highest UID scanned so far (IMAP only)
   createdAt: string;
   updatedAt: string;
 }
@@ -34,6 +42,9 @@ async function saveScanProgress(
       scannerType,
       updatedAt: now,
     };
+    for (const key of ["historyId", "uidValidity", "highestUid"] as const) {
+      if (progressWithTimestamps[key] === undefined) delete progressWithTimestamps[key];
+    }
     await db.collection("scanProgress").doc(`${email}_${scannerType}`).set(progressWithTimestamps);
   } catch (error: any) {
     console.warn(`Failed to save scan progress: ${error.message}`);
@@ -51,12 +62,6 @@ async function loadScanProgress(email: string, scannerType: string): Promise<Sca
   }
 }
 
-export interface ContactScanResult {
-  senders: string[];
-  recipients: string[];
-  messageCount: number;
-}
-
 export interface ScanResult {
   senders: string[];
   recipients: string[];
@@ -65,6 +70,11 @@ export interface ScanResult {
   contacts: number;
   message: string;
   lastMessageScanned: number | string | null | undefined;
+  contactStats?: ContactStatsMap; // Per-contact counts for the messages scanned in this run
+  fromBeginning?: boolean; // Run started at the beginning of the mailbox instead of resuming
+  aliases?: Record<string, string[]>; // Canonical address -> addresses that were collapsed into it
+  uidValidity?: string; // IMAP only
+  highestUid?: number; // IMAP only
 }
 
 export interface IMAPScanResult extends Omit<ScanResult, "lastMessageScanned"> {
@@ -82,8 +92,11 @@ export interface ScanOptions {
   batchSize?: number;
   delayBetweenBatches?: number;
   usePersistence?: boolean;
+  incremental?: boolean; // Sync only new mail once a full scan has completed (default true)
   scannerType?: string;
   repository?: import("./scan-repository").ScanRepository;
+  messageIndex?: MessageIndexRepository; // Defaults to the Firestore index when usePersistence is set
+  identity?: IdentityResolver; // Collapse addresses to canonical contacts as batches come in
 }
 
 export interface BatchResult {
@@ -92,6 +105,16 @@ export interface BatchResult {
   processed: number;
   hasMore: boolean;
   nextOffset?: number | string;
+  contactStats?: ContactStatsMap;
+  messages?: IndexedMessage[]; // Metadata for the local message index
+  aliases?: Record<string, string[]>; // Set once the batch has been canonicalized
+  uidValidity?: string; // Mailbox UIDVALIDITY observed during the batch (IMAP only)
+  highestUid?: number; // Highest UID in the batch (IMAP only)
+  restarted?: boolean; // Stored offset was invalid, so the batch started over from the beginning
+}
+
+export interface IncrementalBatchResult extends BatchResult {
+  historyId?: string;
 }
 
 /**
@@ -108,7 +131,7 @@ export abstract class BaseScanner {
     scanner: BaseScanner,
     options: ScanOptions = {}
   ): Promise<ScanResult> {
-    const { usePersistence = false, scannerType = "unknown" } = options;
+    const { usePersistence = false, incremental = true, scannerType = "unknown" } = options;
 
     // Load existing progress if persistence is enabled
     let existingProgress: ScanProgress | null = null;
@@ -122,16 +145,36 @@ export abstract class BaseScanner {
       }
 
       if (existingProgress?.isComplete) {
-        console.log(`[${scannerType}] Scan already complete, skipping`);
-        return {
-          senders: [],
-          recipients: [],
-          merged: [],
-          scanned: existingProgress.totalMessages,
-          contacts: existingProgress.contactsFound,
-          message: "Scan already completed previously",
-          lastMessageScanned: existingProgress.lastMessageScanned,
-        };
+        // Once a full scan is done, only pull mail added since then (when the scanner supports it)
+        if (incremental && existingProgress.historyId && scanner.scanIncremental) {
+          try {
+            return await BaseScanner.scanIncrementalAsync(
+              refreshToken,
+              email,
+              jobId,
+              scanner,
+              existingProgress,
+              options
+            );
+          } catch (error) {
+            if (!(error instanceof HistoryExpiredError)) throw error;
+            console.log(`[${scannerType}] ${error.message}, falling back to full rescan`);
+            existingProgress = null;
+          }
+        } else {
+          console.log(`[${scannerType}] Scan already complete, skipping`);
+          return {
+            senders: [],
+            recipients: [],
+            merged: [],
+            scanned: existingProgress.totalMessages,
+            contacts: existingProgress.contactsFound,
+            message: "Scan already completed previously",
+            lastMessageScanned: existingProgress.lastMessageScanned,
+            uidValidity: existingProgress.uidValidity,
+            highestUid: existingProgress.highestUid,
+          };
+        }
       }
     }
 
@@ -146,9 +189,20 @@ export abstract class BaseScanner {
       // Initialize scanning state
       const sendersSet = new Set<string>();
       const recipientsSet = new Set<string>();
+      let contactStats: ContactStatsMap = {};
+      let aliases: Record<string, string[]> = {};
+      let fromBeginning = !existingProgress;
       let totalProcessed = existingProgress?.totalMessages || 0;
       let nextOffset: number | string | undefined = existingProgress?.lastMessageScanned || undefined;
       let chunksCompleted = existingProgress?.chunksCompleted || 0;
+      let uidValidity = existingProgress?.uidValidity;
+      let highestUid = existingProgress?.highestUid;
+
+      // Capture the history ID before listing so mail arriving mid-scan is picked up by the next incremental sync
+      let historyId = existingProgress?.historyId;
+      if (usePersistence && !historyId && scanner.getHistoryId) {
+        historyId = await scanner.getHistoryId(refreshToken);
+      }
 
       // Start scanning loop
       while (true) {
@@ -156,46 +210,58 @@ export abstract class BaseScanner {
         const currentJob = BaseScanner.getJob(jobId);
         if (currentJob?.status === "cancelled") {
           console.log(`[${scanner.constructor.name}] Job ${jobId} cancelled, stopping scan`);
-          return BaseScanner.createCancelledResult(sendersSet, recipientsSet, totalProcessed);
+          return BaseScanner.createCancelledResult(
+            sendersSet,
+            recipientsSet,
+            totalProcessed,
+            contactStats,
+            fromBeginning,
+            aliases
+          );
         }
 
         // Perform batch scan
-        const batchResult = await scanner.scanBatch(refreshToken, email, {
-          ...options,
-          offset: nextOffset,
-        });
+        const batchResult = BaseScanner.applyIdentity(
+          await scanner.scanBatch(refreshToken, email, {
+            ...options,
+            offset: nextOffset,
+            uidValidity,
+          }),
+          options.identity
+        );
+
+        // Counts gathered against the old offsets no longer describe the mailbox
+        if (batchResult.restarted) {
+          totalProcessed = 0;
+          chunksCompleted = 0;
+          highestUid = undefined;
+          contactStats = {};
+          fromBeginning = true;
+        }
+        uidValidity = batchResult.uidValidity ?? uidValidity;
+        highestUid = batchResult.highestUid ?? highestUid;
 
         // Add batch results
         batchResult.senders.forEach((addr) => sendersSet.add(addr));
         batchResult.recipients.forEach((addr) => recipientsSet.add(addr));
+        contactStats = mergeContactStats(contactStats, batchResult.contactStats);
+        aliases = mergeAliases(aliases, batchResult.aliases);
         totalProcessed += batchResult.processed;
         chunksCompleted++;
+        await BaseScanner.indexMessages(email, options, batchResult.messages);
 
         // Save progress if persistence is enabled
         if (usePersistence) {
-          if (options.repository) {
-            // Use injected repository
-            await options.repository.saveProgress(email, scannerType, {
-              userEmail: email,
-              scannerType: scannerType as "imap" | "gmail-api" | string,
-              lastMessageScanned: batchResult.nextOffset || null,
-              totalMessages: totalProcessed,
-              contactsFound: sendersSet.size + recipientsSet.size,
-              chunksCompleted,
-              isComplete: !batchResult.hasMore,
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-            });
-          } else {
-            // Fallback to direct Firestore access
-            await saveScanProgress(email, scannerType, {
-              lastMessageScanned: batchResult.nextOffset || null,
-              totalMessages: totalProcessed,
-              contactsFound: sendersSet.size + recipientsSet.size,
-              chunksCompleted,
-              isComplete: !batchResult.hasMore,
-            });
-          }
+          await BaseScanner.persistProgress(email, scannerType, options.repository, {
+            lastMessageScanned: batchResult.nextOffset || null,
+            totalMessages: totalProcessed,
+            contactsFound: sendersSet.size + recipientsSet.size,
+            chunksCompleted,
+            isComplete: !batchResult.hasMore,
+            historyId,
+            uidValidity,
+            highestUid,
+          });
         }
 
         // Update progress
@@ -227,29 +293,16 @@ export abstract class BaseScanner {
 
       // Mark as complete in persistence
       if (usePersistence) {
-        if (options.repository) {
-          // Use injected repository
-          await options.repository.saveProgress(email, scannerType, {
-            userEmail: email,
-            scannerType: scannerType as "imap" | "gmail-api" | string,
-            lastMessageScanned: nextOffset || null,
-            totalMessages: totalProcessed,
-            contactsFound: sendersSet.size + recipientsSet.size,
-            chunksCompleted,
-            isComplete: true,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          });
-        } else {
-          // Fallback to direct Firestore access
-          await saveScanProgress(email, scannerType, {
-            lastMessageScanned: nextOffset || null,
-            totalMessages: totalProcessed,
-            contactsFound: sendersSet.size + recipientsSet.size,
-            chunksCompleted,
-            isComplete: true,
-          });
-        }
+        await BaseScanner.persistProgress(email, scannerType, options.repository, {
+          lastMessageScanned: nextOffset || null,
+          totalMessages: totalProcessed,
+          contactsFound: sendersSet.size + recipientsSet.size,
+          chunksCompleted,
+          isComplete: true,
+          historyId,
+          uidValidity,
+          highestUid,
+        });
       }
 
       // Create final result
@@ -265,6 +318,11 @@ export abstract class BaseScanner {
         contacts: merged.length,
         message: `${scanner.constructor.name} scan complete: Found ${merged.length} unique contacts from ${totalProcessed} messages`,
         lastMessageScanned: nextOffset,
+        contactStats,
+        fromBeginning,
+        aliases,
+        uidValidity,
+        highestUid,
       };
     } catch (error: any) {
       // Enhanced error storage with full details
@@ -291,53 +349,126 @@ export abstract class BaseScanner {
     }
   }
 
+  /**
+   * Sync only the messages added since the last completed scan
+   */
+  private static async scanIncrementalAsync(
+    refreshToken: string,
+    email: string,
+    jobId: string,
+    scanner: BaseScanner,
+    progress: ScanProgress,
+    options: ScanOptions
+  ): Promise<ScanResult> {
+    const scannerType = options.scannerType || "unknown";
+
+    BaseScanner.updateJob(jobId, {
+      status: "running",
+      startedAt: new Date().toISOString(),
+      userEmail: email,
+      message: "Checking for messages added since the last scan",
+    });
+
+    try {
+      const batchResult = BaseScanner.applyIdentity(
+        await scanner.scanIncremental!(refreshToken, email, progress.historyId!, options),
+        options.identity
+      );
+
+      const senders = Array.from(batchResult.senders);
+      const recipients = Array.from(batchResult.recipients);
+      const merged = Array.from(new Set([...senders, ...recipients]));
+
+      await BaseScanner.indexMessages(email, options, batchResult.messages);
+      await BaseScanner.persistProgress(email, scannerType, options.repository, {
+        lastMessageScanned: progress.lastMessageScanned,
+        totalMessages: progress.totalMessages + batchResult.processed,
+        contactsFound: progress.contactsFound,
+        chunksCompleted: progress.chunksCompleted + 1,
+        isComplete: true,
+        historyId: batchResult.historyId || progress.historyId,
+      });
+
+      BaseScanner.updateJob(jobId, {
+        processedMessages: batchResult.processed,
+        percentComplete: 100,
+        contactsFound: merged.length,
+        message: `Processed ${batchResult.processed} new messages - Found ${merged.length} contacts`,
+      });
+
+      return {
+        senders,
+        recipients,
+        merged,
+        scanned: batchResult.processed,
+        contacts: merged.length,
+        message: `${scanner.constructor.name} incremental sync complete: Found ${merged.length} contacts in ${batchResult.processed} new messages`,
+        lastMessageScanned: progress.lastMessageScanned,
+        contactStats: batchResult.contactStats,
+        fromBeginning: false,
+        aliases: batchResult.aliases,
+      };
+    } catch (error) {
+      // An expired history ID is recovered by the caller with a full rescan
+      if (!(error instanceof HistoryExpiredError)) {
+        BaseScanner.updateJob(jobId, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date().toISOString(),
+        });
+      }
+      throw error;
+    }
+  }
+
   /**
    * Abstract method for scanning a batch of messages
    */
   protected abstract scanBatch(
     refreshToken: string,
     email: string,
-    options: ScanOptions & { offset?: number | string }
+    options: ScanOptions & { offset?: number | string; uidValidity?: string }
   ): Promise<BatchResult>;
 
+  /**
+   * Optional: scan only messages added after the given mailbox history ID.
+   * Should throw HistoryExpiredError when the history ID is no longer valid.
+   */
+  protected scanIncremental?(
+    refreshToken: string,
+    email: string,
+    startHistoryId: string,
+    options: ScanOptions
+  ): Promise<IncrementalBatchResult>;
+
+  /**
+   * Optional: read the mailbox's current history ID at the start of a full scan
+   */
+  protected getHistoryId?(refreshToken: string): Promise<string | undefined>;
+
   /**
    * Extract email addresses from address objects (common utility)
    */
   protected extractEmailsFromAddresses(addresses: any[]): string[] {
+    return this.parseEnvelopeAddresses(addresses).map((entry) => entry.address);
+  }
+
+  /**
+   * Normalise envelope address objects ({ name, address }) to addresses with display names
+   */
+  protected parseEnvelopeAddresses(addresses: any[] | undefined): ParsedAddress[] {
     if (!addresses || !Array.isArray(addresses)) return [];
 
-    return addresses.filter((addr) => addr?.address).map((addr) => addr.address.toLowerCase());
+    return addresses
+      .map((addr) => parseMailbox(addr?.address, addr?.name))
+      .filter((entry): entry is ParsedAddress => entry !== null);
   }
 
   /**
    * Extract email addresses from header strings (common utility)
    */
   protected extractEmailsFromHeader(header: string): string[] {
-    if (!header) return [];
-
-    const emails: string[] = [];
-
-    // Split by common separators
-    const parts = header.split(/[,;]/);
-
-    parts.forEach((part) => {
-      const trimmed = part.trim();
-      if (!trimmed) return;
-
-      // Extract email from angle brackets if present: "Name <email@example.com>"
-      const angleMatch = trimmed.match(/<([^>]+)>/);
-      if (angleMatch) {
-        emails.push(angleMatch[1].toLowerCase());
-      } else {
-        // Try to find plain email addresses
-        const emailMatch = trimmed.match(/([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
-        if (emailMatch) {
-          emails.push(emailMatch[1].toLowerCase());
-        }
-      }
-    });
-
-    return emails;
+    return parseAddressList(header).map((entry) => entry.address);
   }
 
   /**
@@ -360,13 +491,62 @@ export abstract class BaseScanner {
     return scannerJobs.get(jobId) || null;
   }
 
+  /**
+   * Save scan progress through the injected repository or directly to Firestore
+   */
+  private static async persistProgress(
+    email: string,
+    scannerType: string,
+    repository: ScanOptions["repository"],
+    progress: Omit<ScanProgress, "userEmail" | "scannerType" | "createdAt" | "updatedAt">
+  ): Promise<void> {
+    if (repository) {
+      // Use injected repository
+      await repository.saveProgress(email, scannerType, {
+        ...progress,
+        userEmail: email,
+        scannerType: scannerType as "imap" | "gmail-api" | string,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+    } else {
+      // Fallback to direct Firestore access
+      await saveScanProgress(email, scannerType, progress);
+    }
+  }
+
+  /**
+   * Add a batch's message metadata to the injected index, or the Firestore index when persisting
+   */
+  private static async indexMessages(
+    email: string,
+    options: ScanOptions,
+    messages: IndexedMessage[] | undefined
+  ): Promise<void> {
+    if (!messages || messages.length === 0) return;
+    if (options.messageIndex) {
+      await options.messageIndex.saveMessages(email, messages);
+      return;
+    }
+    if (!options.usePersistence) return;
+
+    try {
+      await new FirestoreMessageIndexRepository(getFirestore()).saveMessages(email, messages);
+    } catch (error: any) {
+      console.warn(`Failed to save message index: ${error.message}`);
+    }
+  }
+
   /**
    * Create cancelled result (shared utility)
    */
   private static createCancelledResult(
     sendersSet: Set<string>,
     recipientsSet: Set<string>,
-    processed: number
+    processed: number,
+    contactStats: ContactStatsMap = {},
+    fromBeginning = false,
+    aliases: Record<string, string[]> = {}
   ): ScanResult {
     const senders = Array.from(sendersSet);
     const recipients = Array.from(recipientsSet);
@@ -380,6 +560,17 @@ export abstract class BaseScanner {
       contacts: merged.length,
       message: "Scan was cancelled by user",
       lastMessageScanned: null,
+      contactStats,
+      fromBeginning,
+      aliases,
     };
   }
+
+  /**
+   * Re-key a batch by canonical contact when an identity resolver is configured
+   */
+  private static applyIdentity<T extends BatchResult>(batchResult: T, identity: IdentityResolver | undefined): T {
+    if (!identity) return batchResult;
+    return { ...batchResult, ...canonicalizeContacts(batchResult, identity) };
+  }
 }
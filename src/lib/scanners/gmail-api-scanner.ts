@@ -1,6 +1,11 @@
+import type { gmail_v1 } from "googleapis";
 import { getGmailClient } from "../google";
-import { BaseScanner, ScanResult, ScanOptions, BatchResult } from "./base-scanner";
+import { extractIndexedMessage, extractMessageContacts, getMailboxHistoryId, listAddedMessageIds } from "../gmail";
+import { mergeContactStats, recordMessageContacts, type ContactStatsMap } from "../contact-stats";
+import { CLASSIFICATION_HEADERS } from "../sender-classification";
+import { BaseScanner, ScanResult, ScanOptions, BatchResult, IncrementalBatchResult } from "./base-scanner";
 import { getGmailAPIConfig } from "./scanner-config";
+import type { IndexedMessage } from "./message-index";
 
 /**
  * Gmail API-based contact scanner
@@ -14,11 +19,12 @@ export class GmailAPIScanner extends BaseScanner {
     email: string,
     jobId: string,
     maxMessages: number = 2000,
-    query: string = ""
+    query: string = "",
+    incremental: boolean = true
   ): Promise<ScanResult> {
     const scanner = new GmailAPIScanner();
     const config = getGmailAPIConfig({ maxMessages, query }); // Use centralized config with overrides
-    return BaseScanner.scanAsync(refreshToken, email, jobId, scanner, config);
+    return BaseScanner.scanAsync(refreshToken, email, jobId, scanner, { ...config, incremental });
   }
 
   /**
@@ -69,6 +75,88 @@ export class GmailAPIScanner extends BaseScanner {
       };
     }
 
+    const { senders, recipients, contactStats, messages } = await this.collectAddresses(gmail, messageIds as string[]);
+
+    return {
+      senders,
+      recipients,
+      contactStats,
+      messages,
+      processed: messageIds.length,
+      hasMore: !!nextPageToken,
+      nextOffset: nextPageToken || undefined,
+    };
+  }
+
+  /**
+   * Read the mailbox history ID so the next scan can be incremental
+   */
+  protected async getHistoryId(refreshToken: string): Promise<string | undefined> {
+    try {
+      const { gmail } = await getGmailClient(refreshToken);
+      return await getMailboxHistoryId(gmail);
+    } catch (error) {
+      console.warn("[Gmail API] Failed to read mailbox history ID, next scan will be a full rescan:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Pull only messages added since startHistoryId via users.history.list
+   */
+  protected async scanIncremental(
+    refreshToken: string,
+    email: string,
+    startHistoryId: string,
+    options: ScanOptions = {}
+  ): Promise<IncrementalBatchResult> {
+    const { gmail } = await getGmailClient(refreshToken);
+    const { messageIds, historyId } = await listAddedMessageIds(gmail, startHistoryId);
+    const batchSize = options.batchSize || 50;
+
+    console.log(`[Gmail API] ${messageIds.length} messages added since history ID ${startHistoryId}`);
+
+    // Fetch in batches of the full scan's size so a large delta doesn't start every request at once
+    const senders = new Set<string>();
+    const recipients = new Set<string>();
+    let contactStats: ContactStatsMap = {};
+    const messages: IndexedMessage[] = [];
+    for (let start = 0; start < messageIds.length; start += batchSize) {
+      if (start > 0 && options.delayBetweenBatches) {
+        await new Promise((resolve) => setTimeout(resolve, options.delayBetweenBatches));
+      }
+
+      const batch = await this.collectAddresses(gmail, messageIds.slice(start, start + batchSize));
+      batch.senders.forEach((addr) => senders.add(addr));
+      batch.recipients.forEach((addr) => recipients.add(addr));
+      contactStats = mergeContactStats(contactStats, batch.contactStats);
+      messages.push(...batch.messages);
+    }
+
+    return {
+      senders,
+      recipients,
+      contactStats,
+      messages,
+      processed: messageIds.length,
+      hasMore: false,
+      historyId,
+    };
+  }
+
+  /**
+   * Fetch message metadata, split the addresses into senders and recipients, count them per contact
+   * and keep each message's metadata for the local index
+   */
+  private async collectAddresses(
+    gmail: gmail_v1.Gmail,
+    messageIds: string[]
+  ): Promise<{
+    senders: Set<string>;
+    recipients: Set<string>;
+    contactStats: ContactStatsMap;
+    messages: IndexedMessage[];
+  }> {
     // Get message details in parallel but with rate limiting consideration
     const messagePromises = messageIds.map(async (id, index) => {
       // Add slight staggering to avoid rate limits
@@ -77,9 +165,9 @@ export class GmailAPIScanner extends BaseScanner {
       try {
         const response = await gmail.users.messages.get({
           userId: "me",
-          id: id!,
+          id,
           format: "metadata",
-          metadataHeaders: ["From", "To", "Cc", "Bcc"],
+          metadataHeaders: ["From", "To", "Cc", "Bcc", "Subject", ...CLASSIFICATION_HEADERS],
         });
         return response.data;
       } catch (error) {
@@ -93,10 +181,18 @@ export class GmailAPIScanner extends BaseScanner {
     // Process the messages we got
     const sendersSet = new Set<string>();
     const recipientsSet = new Set<string>();
+    const contactStats: ContactStatsMap = {};
+    const indexed: IndexedMessage[] = [];
 
     messages.forEach((message) => {
       if (!message || !message.payload) return;
 
+      const indexedMessage = extractIndexedMessage(message);
+      if (indexedMessage) indexed.push(indexedMessage);
+
+      // internalDate comes back with metadata responses, so dates need no extra header
+      recordMessageContacts(contactStats, extractMessageContacts(message));
+
       // Extract headers
       const headers = message.payload.headers || [];
 
@@ -121,13 +217,7 @@ export class GmailAPIScanner extends BaseScanner {
       });
     });
 
-    return {
-      senders: sendersSet,
-      recipients: recipientsSet,
-      processed: messageIds.length,
-      hasMore: !!nextPageToken,
-      nextOffset: nextPageToken || undefined,
-    };
+    return { senders: sendersSet, recipients: recipientsSet, contactStats, messages: indexed };
   }
 
   /**
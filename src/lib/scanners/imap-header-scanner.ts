@@ -2,8 +2,12 @@ import { ImapFlow } from "imapflow";
 import { getGmailClient } from "../google";
 import { loadIMAPSettings } from "../firestore";
 import { PasswordEncryption } from "../crypto";
-import { BaseScanner, ContactScanResult, ScanResult, ScanOptions, BatchResult } from "./base-scanner";
+import { BaseScanner, ScanResult, ScanOptions, BatchResult } from "./base-scanner";
 import { getIMAPConfig } from "./scanner-config";
+import { recordMessageContacts, toISODate, type ContactStatsMap } from "../contact-stats";
+import { CLASSIFICATION_HEADERS, classifyMessage, parseHeaderBlock } from "../sender-classification";
+import { parseListUnsubscribe } from "../unsubscribe";
+import { toGmailMessageId, toIndexLabels, type IndexedMessage } from "./message-index";
 
 export class IMAPHeaderScanner extends BaseScanner {
   /**
@@ -20,273 +24,6 @@ export class IMAPHeaderScanner extends BaseScanner {
     }
   }
 
-  /**
-   * Get available mailbox names to try for Gmail IMAP
-   */
-  private static getGmailMailboxCandidates(): string[] {
-    return [
-      "[Gmail]/Összes levél",
-      "[Gmail]/&ANY-sszes lev&AOk-l",
-      "[Gmail]/All Mail", // Most common
-      "[Gmail]/AllMail", // Alternative spelling
-      "INBOX", // Standard IMAP inbox
-      "[Google Mail]/All Mail", // Alternative format
-      "Archive", // Some accounts use this
-    ];
-  }
-
-  /**
-   * Try to find a working mailbox for Gmail IMAP scanning
-   */
-  private static async findWorkingMailbox(imap: any, preferredMailbox?: string): Promise<string> {
-    const candidates = preferredMailbox
-      ? [preferredMailbox, ...this.getGmailMailboxCandidates().filter((m) => m !== preferredMailbox)]
-      : this.getGmailMailboxCandidates();
-
-    for (const mailboxName of candidates) {
-      try {
-        console.log(`[IMAP] Trying mailbox: "${mailboxName}"`);
-        await imap.mailboxOpen(mailboxName);
-
-        // If we get here, the mailbox opened successfully
-        console.log(`[IMAP] Successfully opened mailbox: "${mailboxName}"`);
-        return mailboxName;
-      } catch (error: any) {
-        console.log(`[IMAP] Mailbox "${mailboxName}" failed: ${error.message}`);
-        // Continue to next candidate
-      }
-    }
-
-    throw new Error(`No working mailbox found. Tried: ${candidates.join(", ")}`);
-  }
-
-  /**
-   * Scan Gmail mailbox headers using IMAP (fast method with app password or OAuth)
-   */
-  static async scanHeaders(refreshToken: string): Promise<ContactScanResult> {
-    // Get user email first to check for IMAP settings
-    const { email } = await getGmailClient(refreshToken);
-
-    // Load user preferences for scanning
-    const imapSettings = await loadIMAPSettings(email);
-
-    // Use configurable options with smart defaults
-    const maxMessages = imapSettings?.maxMessages || 10000; // Increased default for IMAP performance (50K messages)
-    const preferredMailbox = imapSettings?.mailbox; // User's preferred mailbox if set
-
-    let imapConfig: any;
-
-    if (imapSettings?.enabled && imapSettings?.setupCompleted && imapSettings?.appPassword) {
-      // Use app password authentication
-      const appPassword = PasswordEncryption.decrypt(imapSettings.appPassword, email);
-      imapConfig = {
-        host: "imap.gmail.com",
-        port: 993,
-        secure: true,
-        auth: {
-          user: email, // Use actual email for app password auth
-          pass: appPassword,
-        },
-        logger: false,
-      };
-      console.log("[IMAP] Using app password authentication");
-    } else {
-      // Fall back to OAuth token authentication
-      const accessToken = await this.getIMAPAccessToken(refreshToken);
-      imapConfig = {
-        host: "imap.gmail.com",
-        port: 993,
-        secure: true,
-        auth: {
-          user: "me", // Special Gmail IMAP OAuth user identifier
-          accessToken: accessToken,
-        },
-        logger: false,
-      };
-      console.log("[IMAP] Using OAuth token authentication (consider configuring app password for better reliability)");
-    }
-
-    const imap = new ImapFlow(imapConfig);
-    let status: any = null;
-    let totalMessages = 0;
-    let processed = 0;
-    let mailbox: string | undefined;
-
-    try {
-      console.log(`[IMAP] Connecting to ${imapConfig.host}:${imapConfig.port} for ${email}...`);
-      await imap.connect();
-      console.log(`[IMAP] Connected successfully, finding working mailbox...`);
-
-      // Find a working mailbox (try preferred first, then fallbacks)
-      mailbox = await this.findWorkingMailbox(imap, preferredMailbox);
-
-      // Get status to know how many messages there are
-      status = await imap.status(mailbox, { messages: true });
-      totalMessages = Math.min(status.messages || 0, maxMessages);
-
-      console.log(
-        `[IMAP] Opened mailbox "${mailbox}" with ${status.messages} messages (${totalMessages} will be processed)`
-      );
-
-      const sendersSet = new Set<string>();
-      const recipientsSet = new Set<string>();
-
-      // Process in batches for optimal IMAP performance
-      const batchSize = 1000; // Increased from 100 for much faster IMAP scanning
-      let processed = 0;
-
-      console.log(`[IMAP] Scanning ${totalMessages} messages for contacts...`);
-
-      while (processed < totalMessages) {
-        const remaining = totalMessages - processed;
-        const currentBatchSize = Math.min(batchSize, remaining);
-
-        // Calculate message range (latest first)
-        const startSeq = Math.max(1, totalMessages - processed - currentBatchSize + 1);
-        const endSeq = totalMessages - processed;
-
-        try {
-          const messages = imap.fetch(`${startSeq}:${endSeq}`, {
-            envelope: true,
-            uid: false,
-            flags: false,
-            bodyStructure: false,
-          });
-
-          for await (const message of messages) {
-            const envelope = message.envelope;
-
-            if (!envelope) continue;
-
-            // Extract FROM addresses
-            if (envelope.from && envelope.from.length > 0) {
-              envelope.from.forEach((addr: any) => {
-                if (addr?.address) {
-                  sendersSet.add(addr.address.toLowerCase());
-                }
-              });
-            }
-
-            // Extract TO addresses
-            if (envelope.to && envelope.to.length > 0) {
-              envelope.to.forEach((addr: any) => {
-                if (addr?.address) {
-                  recipientsSet.add(addr.address.toLowerCase());
-                }
-              });
-            }
-
-            // Extract CC addresses
-            if (envelope.cc && envelope.cc.length > 0) {
-              envelope.cc.forEach((addr: any) => {
-                if (addr?.address) {
-                  recipientsSet.add(addr.address.toLowerCase());
-                }
-              });
-            }
-
-            // Extract BCC addresses (when present in envelope)
-            if (envelope.bcc && envelope.bcc.length > 0) {
-              envelope.bcc.forEach((addr: any) => {
-                if (addr?.address) {
-                  recipientsSet.add(addr.address.toLowerCase());
-                }
-              });
-            }
-          }
-        } catch (fetchError) {
-          // Enhanced batch error logging with structured JSON for Cloud Logging
-          const batchErrorLog = {
-            severity: "WARNING",
-            message: "[IMAP] Detailed batch fetch error",
-            error:
-              fetchError instanceof Error
-                ? {
-                    message: fetchError.message,
-                    stack: fetchError.stack,
-                    name: fetchError.name,
-                  }
-                : fetchError,
-            email,
-            batchInfo: {
-              startSeq,
-              endSeq,
-              currentBatchSize,
-              mailbox,
-              totalMessages,
-            },
-            imapConfig: {
-              host: imapConfig.host,
-              port: imapConfig.port,
-              secure: imapConfig.secure,
-              authMethod: imapSettings?.enabled && imapSettings?.appPassword ? "app_password" : "oauth",
-            },
-            timestamp: new Date().toISOString(),
-          };
-
-          console.log(JSON.stringify(batchErrorLog));
-          // Continue with next batch rather than fail entirely
-        }
-
-        processed += currentBatchSize;
-        console.log(
-          `[IMAP] Processed ${processed}/${totalMessages} messages (${Math.round((processed / totalMessages) * 100)}%)`
-        );
-      }
-
-      await imap.logout();
-
-      const senders = Array.from(sendersSet);
-      const recipients = Array.from(recipientsSet);
-
-      console.log(
-        `[IMAP] Scan complete: ${senders.length} senders, ${recipients.length} recipients from ${totalMessages} messages`
-      );
-
-      return {
-        senders,
-        recipients,
-        messageCount: totalMessages,
-      };
-    } catch (error) {
-      // Enhanced error logging with structured JSON for Cloud Logging
-      const errorLog = {
-        severity: "ERROR",
-        message: "[IMAP] Detailed scan error",
-        error:
-          error instanceof Error
-            ? {
-                message: error.message,
-                stack: error.stack,
-                name: error.name,
-              }
-            : error,
-        email,
-        imapConfig: {
-          host: imapConfig.host,
-          port: imapConfig.port,
-          secure: imapConfig.secure,
-          authMethod: imapSettings?.enabled && imapSettings?.appPassword ? "app_password" : "oauth",
-          mailbox,
-          maxMessages,
-        },
-        status: status
-          ? {
-              messages: status.messages,
-              totalMessages,
-              processed,
-            }
-          : null,
-        timestamp: new Date().toISOString(),
-      };
-
-      console.log(JSON.stringify(errorLog));
-
-      await imap.logout().catch(() => {}); // Ignore logout errors
-      throw new Error(`IMAP scanning failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
   /**
    * Legacy method for backward compatibility - now delegates to BaseScanner
    */
@@ -302,7 +39,7 @@ export class IMAPHeaderScanner extends BaseScanner {
   protected async scanBatch(
     refreshToken: string,
     email: string,
-    options: ScanOptions & { offset?: number | string }
+    options: ScanOptions & { offset?: number | string; uidValidity?: string }
   ): Promise<BatchResult> {
     // Get IMAP settings
     const imapSettings = await loadIMAPSettings(email);
@@ -336,41 +73,59 @@ export class IMAPHeaderScanner extends BaseScanner {
     await imap.connect();
     await imap.mailboxOpen(mailbox);
 
-    const status = await imap.status(mailbox, { messages: true });
+    const status = await imap.status(mailbox, { messages: true, uidNext: true, uidValidity: true });
     const totalMailboxMessages = status.messages || 0;
+    const uidValidity = status.uidValidity?.toString();
+
+    // UIDs are only stable while UIDVALIDITY is unchanged; otherwise the stored offset points at different mail
+    const restarted = options.offset !== undefined && options.uidValidity !== uidValidity;
+    if (restarted) {
+      console.log(
+        `[IMAP] UIDVALIDITY of "${mailbox}" changed (${options.uidValidity} -> ${uidValidity}), restarting scan from the beginning`
+      );
+    }
 
-    // Calculate scan range (BaseScanner handles resumption)
-    const startFrom = (options.offset as number) || 1;
-    const endAt = Math.min(totalMailboxMessages, startFrom + batchSize - 1);
-    const messagesInThisBatch = Math.max(0, endAt - startFrom + 1);
+    // Resume from the stored UID (BaseScanner handles resumption)
+    const startUid = restarted ? 1 : (options.offset as number) || 1;
 
-    // Declare variables for error logging scope
-    let batchStartFrom = startFrom;
-    let batchEndAt = endAt;
-    let batchMessagesInThisBatch = messagesInThisBatch;
-    let batchTotalMailboxMessages = totalMailboxMessages;
+    // UIDs are sparse, so look up which ones exist instead of assuming a contiguous range
+    const foundUids = (await imap.search({ uid: `${startUid}:*` }, { uid: true })) || [];
+    const pendingUids = foundUids.filter((uid) => uid >= startUid).sort((a, b) => a - b);
+    const batchUids = pendingUids.slice(0, batchSize);
 
     // Check if we've reached the end
-    if (messagesInThisBatch <= 0) {
+    if (batchUids.length === 0) {
       await imap.logout();
       return {
         senders: new Set(),
         recipients: new Set(),
         processed: 0,
         hasMore: false,
+        uidValidity,
+        restarted,
       };
     }
 
     const sendersSet = new Set<string>();
     const recipientsSet = new Set<string>();
+    const contactStats: ContactStatsMap = {};
+    const indexed: IndexedMessage[] = [];
+    const highestUid = batchUids[batchUids.length - 1];
 
     try {
-      const messages = imap.fetch(`${startFrom}:${endAt}`, {
-        envelope: true,
-        uid: false,
-        flags: false,
-        bodyStructure: false,
-      });
+      const messages = imap.fetch(
+        batchUids,
+        {
+          envelope: true,
+          uid: true,
+          flags: true,
+          size: true,
+          labels: true,
+          bodyStructure: false,
+          headers: CLASSIFICATION_HEADERS,
+        },
+        { uid: true }
+      );
 
       for await (const message of messages) {
         const envelope = message.envelope;
@@ -386,6 +141,33 @@ export class IMAPHeaderScanner extends BaseScanner {
             this.extractEmailsFromAddresses(recipients).forEach((addr) => recipientsSet.add(addr));
           }
         });
+
+        const senders = this.parseEnvelopeAddresses(envelope.from);
+        const headers = message.headers ? parseHeaderBlock(message.headers.toString()) : {};
+        recordMessageContacts(contactStats, {
+          senders,
+          recipients: [envelope.to, envelope.cc, envelope.bcc].flatMap((addresses) =>
+            this.parseEnvelopeAddresses(addresses)
+          ),
+          date: toISODate(envelope.date),
+          category: classifyMessage(senders[0]?.address, headers),
+          unsubscribe: parseListUnsubscribe(headers["list-unsubscribe"], headers["list-unsubscribe-post"]),
+        });
+
+        indexed.push({
+          // emailId needs OBJECTID or X-GM-EXT-1; other servers fall back to the UID
+          id: message.emailId ? toGmailMessageId(message.emailId) : `uid:${message.uid}`,
+          from: senders[0]?.address || "",
+          ...(senders[0]?.displayName && { fromName: senders[0].displayName }),
+          to: this.parseEnvelopeAddresses(envelope.to).map((entry) => entry.address),
+          cc: [envelope.cc, envelope.bcc].flatMap((addresses) =>
+            this.parseEnvelopeAddresses(addresses).map((entry) => entry.address)
+          ),
+          subject: envelope.subject || "",
+          date: toISODate(envelope.date) || null,
+          size: message.size || 0,
+          labels: toIndexLabels(message.labels, message.flags),
+        });
       }
     } catch (fetchError) {
       // Enhanced batch error logging with structured JSON for Cloud Logging
@@ -402,11 +184,12 @@ export class IMAPHeaderScanner extends BaseScanner {
             : fetchError,
         email,
         batchInfo: {
-          startFrom: batchStartFrom,
-          endAt: batchEndAt,
-          messagesInThisBatch: batchMessagesInThisBatch,
+          startUid,
+          highestUid,
+          messagesInThisBatch: batchUids.length,
+          uidValidity,
           mailbox,
-          totalMailboxMessages: batchTotalMailboxMessages,
+          totalMailboxMessages,
         },
         imapConfig: {
           host: imapConfig.host,
@@ -418,20 +201,25 @@ export class IMAPHeaderScanner extends BaseScanner {
       };
 
       console.log(JSON.stringify(batchErrorLog));
-      // Continue with next batch rather than fail entirely
+      // Fail the batch so the saved offset stays put and a resumed scan fetches these UIDs again
+      throw fetchError;
     } finally {
       await imap.logout();
     }
 
-    const processed = endAt - startFrom + 1;
-    const hasMore = endAt < totalMailboxMessages;
+    const hasMore = pendingUids.length > batchUids.length;
 
     return {
       senders: sendersSet,
       recipients: recipientsSet,
-      processed,
+      contactStats,
+      messages: indexed,
+      processed: batchUids.length,
       hasMore,
-      nextOffset: hasMore ? endAt + 1 : undefined,
+      nextOffset: hasMore ? highestUid + 1 : undefined,
+      uidValidity,
+      highestUid,
+      restarted,
     };
   }
 
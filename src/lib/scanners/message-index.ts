@@ -0,0 +1,163 @@
+/**
+ * Local index of lightweight per-message metadata collected during scans, so rule previews
+ * and statistics can be computed without spending Gmail API quota
+ */
+
+export type IndexedMessage = {
+  id: string; // Gmail message ID; IMAP scans convert X-GM-MSGID to the same hex ID
+  from: string; // Sender address
+  fromName?: string;
+  to: string[]; // To addresses
+  cc: string[]; // Cc and Bcc addresses
+  subject: string;
+  date: string | null; // ISO timestamp
+  size: number; // Bytes
+  labels: string[]; // Label IDs; system labels use Gmail's IDs (INBOX, UNREAD, ...), IMAP user labels their names
+};
+
+/**
+ * Narrows what loadMessages reads; a message is loaded only when it meets every criterion
+ */
+export type MessageIndexQuery = {
+  from?: string; // Exact sender address
+  labelId?: string; // Carries this label ID
+  after?: string; // ISO timestamp, inclusive
+  before?: string; // ISO timestamp, exclusive
+  limit?: number; // Newest messages first, at most MAX_INDEX_READ
+};
+
+export interface MessageIndexRepository {
+  /**
+   * Add or replace messages in the index
+   */
+  saveMessages(email: string, messages: IndexedMessage[]): Promise<void>;
+
+  /**
+   * Load the account's indexed messages that meet the query, newest first
+   */
+  loadMessages(email: string, query?: MessageIndexQuery): Promise<IndexedMessage[]>;
+}
+
+// Firestore allows 500 writes per batch
+const INDEX_WRITE_CHUNK = 400;
+
+// Most messages one load reads, in pages so no single read holds the whole index
+export const MAX_INDEX_READ = 20000;
+const INDEX_READ_PAGE = 1000;
+
+// IMAP system labels (X-GM-LABELS) and flags, as the Gmail API label IDs
+const IMAP_SYSTEM_LABELS: Record<string, string> = {
+  "\\inbox": "INBOX",
+  "\\sent": "SENT",
+  "\\starred": "STARRED",
+  "\\important": "IMPORTANT",
+  "\\draft": "DRAFT",
+  "\\spam": "SPAM",
+  "\\trash": "TRASH",
+};
+
+/**
+ * Gmail API message ID for an IMAP email ID: Gmail's X-GM-MSGID is the same number in decimal,
+ * while OBJECTID servers return opaque IDs that are kept as-is
+ */
+export function toGmailMessageId(emailId: string): string {
+  return /^\d+$/.test(emailId) ? BigInt(emailId).toString(16) : emailId;
+}
+
+/**
+ * Gmail label IDs for IMAP X-GM-LABELS and flags: system labels are mapped, user labels keep their names,
+ * and a message without \Seen is UNREAD
+ */
+export function toIndexLabels(labels: Iterable<string> | undefined, flags: Iterable<string> | undefined): string[] {
+  const indexLabels = Array.from(labels || [], (label) => IMAP_SYSTEM_LABELS[label.toLowerCase()] || label);
+  const flagSet = new Set(Array.from(flags || [], (flag) => flag.toLowerCase()));
+  if (flags && !flagSet.has("\\seen")) indexLabels.push("UNREAD");
+  if (flagSet.has("\\flagged") && !indexLabels.includes("STARRED")) indexLabels.push("STARRED");
+  return Array.from(new Set(indexLabels));
+}
+
+/**
+ * Firestore implementation, one document per message under messageIndex/{email}/messages
+ */
+export class FirestoreMessageIndexRepository implements MessageIndexRepository {
+  constructor(private firestore: any) {}
+
+  private collection(email: string) {
+    return this.firestore.collection("messageIndex").doc(email).collection("messages");
+  }
+
+  async saveMessages(email: string, messages: IndexedMessage[]): Promise<void> {
+    try {
+      const collection = this.collection(email);
+      for (let i = 0; i < messages.length; i += INDEX_WRITE_CHUNK) {
+        const batch = this.firestore.batch();
+        messages.slice(i, i + INDEX_WRITE_CHUNK).forEach((message) => {
+          // Firestore rejects undefined values
+          const { fromName, ...rest } = message;
+          batch.set(collection.doc(message.id), fromName ? { ...rest, fromName } : rest);
+        });
+        await batch.commit();
+      }
+    } catch (error: any) {
+      // The index is an optimization; a failed write must not fail the scan
+      console.warn(`Failed to save message index: ${error.message}`);
+    }
+  }
+
+  async loadMessages(email: string, query: MessageIndexQuery = {}): Promise<IndexedMessage[]> {
+    try {
+      // Criteria other than the date need composite indexes with date, see README.md
+      let base = this.collection(email);
+      if (query.from) base = base.where("from", "==", query.from);
+      if (query.labelId) base = base.where("labels", "array-contains", query.labelId);
+      if (query.after) base = base.where("date", ">=", query.after);
+      if (query.before) base = base.where("date", "<", query.before);
+      base = base.orderBy("date", "desc");
+
+      const limit = Math.min(query.limit || MAX_INDEX_READ, MAX_INDEX_READ);
+      const messages: IndexedMessage[] = [];
+      let lastDoc: unknown = null;
+      while (messages.length < limit) {
+        const page = lastDoc ? base.startAfter(lastDoc) : base;
+        const snapshot = await page.limit(Math.min(INDEX_READ_PAGE, limit - messages.length)).get();
+        messages.push(...snapshot.docs.map((doc: any) => doc.data() as IndexedMessage));
+        if (snapshot.docs.length < INDEX_READ_PAGE) break;
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      }
+      return messages;
+    } catch (error: any) {
+      if (error.code === 5 || error.message?.includes("NOT_FOUND")) return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * In-memory implementation for testing
+ */
+export class InMemoryMessageIndexRepository implements MessageIndexRepository {
+  private storage = new Map<string, Map<string, IndexedMessage>>();
+
+  async saveMessages(email: string, messages: IndexedMessage[]): Promise<void> {
+    const index = this.storage.get(email) || new Map<string, IndexedMessage>();
+    messages.forEach((message) => index.set(message.id, { ...message }));
+    this.storage.set(email, index);
+  }
+
+  async loadMessages(email: string, query: MessageIndexQuery = {}): Promise<IndexedMessage[]> {
+    return Array.from(this.storage.get(email)?.values() || [])
+      .filter(
+        (message) =>
+          (!query.from || message.from === query.from) &&
+          (!query.labelId || message.labels.includes(query.labelId)) &&
+          (!query.after || (!!message.date && message.date >= query.after)) &&
+          (!query.before || (!!message.date && message.date < query.before))
+      )
+      .sort((a, b) => (b.date || "").localeCompare(a.date || ""))
+      .slice(0, Math.min(query.limit || MAX_INDEX_READ, MAX_INDEX_READ));
+  }
+
+  clear(): void {
+    this.storage.clear();
+  }
+}
@@ -32,6 +32,10 @@ export class FirestoreScanRepository implements ScanRepository {
         scannerType,
         updatedAt: now,
       };
+      // Firestore rejects undefined values
+      for (const key of ["historyId", "uidValidity", "highestUid"] as const) {
+        if (progressWithTimestamps[key] === undefined) delete progressWithTimestamps[key];
+      }
       await this.firestore.collection("scanProgress").doc(`${email}_${scannerType}`).set(progressWithTimestamps);
     } catch (error: any) {
       console.warn(`Failed to save scan progress: ${error.message}`);
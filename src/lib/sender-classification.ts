@@ -0,0 +1,110 @@
+/**
+ * Classifies senders as people or automated mail (mailing lists, transactional notifications, bulk mail)
+ * from the list and auto-submission headers the scanners fetch alongside From/To/Cc/Bcc
+ */
+
+export type SenderCategory = "person" | "mailing_list" | "transactional" | "bulk";
+
+export type CategoryCounts = Partial<Record<SenderCategory, number>>;
+
+/**
+ * Header names keyed in lower case
+ */
+export type MessageHeaders = Record<string, string>;
+
+export const SENDER_CATEGORIES: SenderCategory[] = ["person", "mailing_list", "transactional", "bulk"];
+
+/**
+ * Headers requested from Gmail (metadataHeaders) and IMAP (BODY.PEEK[HEADER.FIELDS]) for classification.
+ * List-Unsubscribe-Post is not used to classify but rides along for the unsubscribe center.
+ */
+export const CLASSIFICATION_HEADERS = [
+  "List-Id",
+  "List-Unsubscribe",
+  "List-Unsubscribe-Post",
+  "List-Post",
+  "Precedence",
+  "Auto-Submitted",
+  "X-Mailer",
+  "Feedback-ID",
+  "X-Auto-Response-Suppress",
+];
+
+// Sending platforms that are only used for campaigns and newsletters
+const BULK_MAILERS =
+  /mailchimp|sendgrid|mailgun|sendinblue|brevo|constant ?contact|campaign ?monitor|klaviyo|hubspot|marketo|mailjet|substack|acoustic|exacttarget|salesforce marketing/i;
+
+const AUTOMATED_LOCAL_PART =
+  /^(no[-_.]?reply|do[-_.]?not[-_.]?reply|notifications?|alerts?|mailer[-_.]?daemon|postmaster|bounces?|automated|system)([-+._].*)?$/i;
+
+/**
+ * Parse a raw RFC 5322 header block into lower-cased names, unfolding continuation lines.
+ * Repeated headers keep the first value.
+ */
+export function parseHeaderBlock(raw: string): MessageHeaders {
+  const headers: MessageHeaders = {};
+  raw
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const colon = line.indexOf(":");
+      if (colon <= 0) return;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+    });
+  return headers;
+}
+
+/**
+ * Classify a single message by its headers and sender address
+ */
+export function classifyMessage(senderAddress: string | undefined, headers: MessageHeaders): SenderCategory {
+  const autoSubmitted = (headers["auto-submitted"] || "").toLowerCase();
+  const precedence = (headers["precedence"] || "").toLowerCase();
+  const hasListId = !!headers["list-id"];
+  const hasUnsubscribe = !!headers["list-unsubscribe"];
+
+  // RFC 3834: anything but "no" means a machine sent it in response to an event
+  if (autoSubmitted && autoSubmitted !== "no") return "transactional";
+  if (headers["x-auto-response-suppress"]) return "transactional";
+
+  // Discussion lists accept posts; announcement lists and newsletters only offer unsubscribing
+  if (headers["list-post"]) return "mailing_list";
+  if (precedence === "bulk" || precedence === "junk") return "bulk";
+  if (hasListId) return hasUnsubscribe ? "bulk" : "mailing_list";
+  if (precedence === "list") return "mailing_list";
+
+  if (hasUnsubscribe || headers["feedback-id"] || BULK_MAILERS.test(headers["x-mailer"] || "")) return "bulk";
+
+  const localPart = (senderAddress || "").split("@")[0];
+  if (AUTOMATED_LOCAL_PART.test(localPart)) return "transactional";
+
+  return "person";
+}
+
+/**
+ * The category a contact is shown under: the most frequent one, with automated categories winning ties
+ */
+export function getSenderCategory(counts: CategoryCounts | undefined): SenderCategory {
+  let best: SenderCategory = "person";
+  let bestCount = 0;
+  SENDER_CATEGORIES.forEach((category) => {
+    const count = counts?.[category] || 0;
+    if (count > bestCount || (count === bestCount && count > 0 && category !== "person")) {
+      best = category;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function mergeCategoryCounts(
+  base: CategoryCounts | undefined,
+  update: CategoryCounts | undefined
+): CategoryCounts {
+  const merged: CategoryCounts = { ...base };
+  Object.entries(update || {}).forEach(([category, count]) => {
+    merged[category as SenderCategory] = (merged[category as SenderCategory] || 0) + (count || 0);
+  });
+  return merged;
+}
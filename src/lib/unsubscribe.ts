@@ -0,0 +1,273 @@
+/**
+ * Unsubscribing from mailing lists using the List-Unsubscribe (RFC 2369) and
+ * List-Unsubscribe-Post (RFC 8058) headers the scanners collect for each sender
+ */
+
+import dns from "dns";
+import https from "https";
+import net from "net";
+import type { gmail_v1 } from "googleapis";
+import { normalizeAddress } from "./scanners/address-parser";
+
+export type UnsubscribeInfo = {
+  http?: string; // https (or http) unsubscribe link
+  mailto?: string; // mailto: URI, possibly with subject and body
+  oneClick: boolean; // The sender supports RFC 8058 one-click POST to the https link
+};
+
+export type UnsubscribeMethod = "one_click" | "mailto" | "link";
+
+export type UnsubscribeStatus = "succeeded" | "failed" | "manual";
+
+export type UnsubscribeOutcome = {
+  method: UnsubscribeMethod;
+  target: string; // URL posted to, address mailed, or link the user has to open
+  status: UnsubscribeStatus;
+  httpStatus?: number;
+  error?: string;
+};
+
+const ONE_CLICK_BODY = "List-Unsubscribe=One-Click";
+const ONE_CLICK_TIMEOUT_MS = 15000;
+const MAX_ONE_CLICK_REDIRECTS = 5;
+
+// Addresses an unsubscribe link must not reach from the server: loopback, private, link-local, shared,
+// multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6"));
+
+/**
+ * Parse List-Unsubscribe and List-Unsubscribe-Post header values. Returns null when neither
+ * an http(s) link nor a mailto: address is offered.
+ */
+export function parseListUnsubscribe(
+  listUnsubscribe: string | null | undefined,
+  listUnsubscribePost?: string | null
+): UnsubscribeInfo | null {
+  if (!listUnsubscribe) return null;
+
+  // Each URI is enclosed in angle brackets; anything outside them is ignored
+  const uris = Array.from(listUnsubscribe.matchAll(/<([^>]*)>/g), (match) => match[1].replace(/\s+/g, ""));
+  const http = uris.find((uri) => /^https?:\/\//i.test(uri));
+  const mailto = uris.find((uri) => /^mailto:/i.test(uri));
+  if (!http && !mailto) return null;
+
+  // RFC 8058 only allows one-click over https, and only with the exact POST body
+  const oneClick =
+    !!http &&
+    /^https:/i.test(http) &&
+    (listUnsubscribePost || "").replace(/\s+/g, "").toLowerCase() === ONE_CLICK_BODY.toLowerCase();
+
+  return {
+    ...(http && { http }),
+    ...(mailto && { mailto }),
+    oneClick,
+  };
+}
+
+/**
+ * Split a mailto: URI into its recipient, subject and body
+ */
+export function parseMailto(uri: string): { to: string; subject: string; body: string } | null {
+  const match = /^mailto:([^?]*)(?:\?(.*))?$/i.exec(uri.trim());
+  if (!match) return null;
+
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  const params = new Map<string, string>();
+  (match[2] || "").split("&").forEach((pair) => {
+    const [key, value = ""] = pair.split("=");
+    if (key) params.set(key.toLowerCase(), decode(value.replace(/\+/g, " ")));
+  });
+
+  // The recipient becomes the To: header, so line breaks or extra recipients could inject headers
+  const recipient = decode(match[1]) || params.get("to") || "";
+  if (/[\x00-\x1f\x7f,]/.test(recipient)) return null;
+  const to = normalizeAddress(recipient);
+  if (!to) return null;
+
+  return { to, subject: params.get("subject") || "unsubscribe", body: params.get("body") || "unsubscribe" };
+}
+
+/**
+ * Whether a resolved IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = net.isIP(address);
+  if (!family) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Why the server must not request an unsubscribe URL, or null when it may: only https to hosts that
+ * resolve to public addresses, since the URL comes from a sender's header
+ */
+export async function checkOneClickUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid unsubscribe URL";
+  }
+  if (parsed.protocol !== "https:") return "One-click unsubscribe requires https";
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.promises.lookup(parsed.hostname.replace(/^\[|\]$/g, ""), { all: true });
+  } catch {
+    return `Could not resolve ${parsed.hostname}`;
+  }
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return `${parsed.hostname} is not a public address`;
+  }
+  return null;
+}
+
+/**
+ * DNS lookup for one-click requests that refuses hosts with non-public addresses. The connection uses the
+ * address checked here, so a host can't pass checkOneClickUrl and then resolve to an internal address.
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: Error | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new Error(`${hostname} is not a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function postPinned(url: string): Promise<{ status: number; location: string | null }> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          "Content-Length": Buffer.byteLength(ONE_CLICK_BODY),
+        },
+        agent: false, // A pooled socket could have been resolved without lookupPublicAddress
+        lookup: lookupPublicAddress,
+        timeout: ONE_CLICK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        const location = response.headers.location;
+        resolve({ status: response.statusCode || 0, location: location || null });
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("Unsubscribe endpoint timed out")));
+    request.on("error", reject);
+    request.end(ONE_CLICK_BODY);
+  });
+}
+
+async function postOneClick(url: string): Promise<UnsubscribeOutcome> {
+  const failed = (error: string, httpStatus?: number): UnsubscribeOutcome => ({
+    method: "one_click",
+    target: url,
+    status: "failed",
+    ...(httpStatus && { httpStatus }),
+    error,
+  });
+
+  try {
+    // Redirects are followed by hand so every hop is checked
+    let next = url;
+    for (let hop = 0; hop <= MAX_ONE_CLICK_REDIRECTS; hop++) {
+      const refused = await checkOneClickUrl(next);
+      if (refused) return failed(refused);
+
+      const { status, location } = await postPinned(next);
+      if (status >= 300 && status < 400 && location) {
+        next = new URL(location, next).toString();
+        continue;
+      }
+
+      return status >= 200 && status < 300
+        ? { method: "one_click", target: url, status: "succeeded", httpStatus: status }
+        : failed(`Unsubscribe endpoint returned ${status}`, status);
+    }
+
+    return failed("Too many redirects");
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function sendMailto(gmail: gmail_v1.Gmail, uri: string): Promise<UnsubscribeOutcome> {
+  const mailto = parseMailto(uri);
+  if (!mailto) {
+    return { method: "mailto", target: uri, status: "failed", error: "Invalid mailto: address" };
+  }
+
+  // Non-ASCII subjects have to be sent as an RFC 2047 encoded word
+  const subject = mailto.subject.replace(/[\r\n]+/g, " ");
+  const raw = [
+    `To: ${mailto.to}`,
+    `Subject: ${/[^\x20-\x7e]/.test(subject) ? `=?UTF-8?B?${Buffer.from(subject).toString("base64")}?=` : subject}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "",
+    mailto.body,
+  ].join("\r\n");
+
+  try {
+    await gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw: Buffer.from(raw).toString("base64url") },
+    });
+    return { method: "mailto", target: mailto.to, status: "succeeded" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { method: "mailto", target: mailto.to, status: "failed", error: message };
+  }
+}
+
+/**
+ * Unsubscribe using the best method the sender offers: one-click POST, then a mailto: message.
+ * A plain link can't be followed safely on the user's behalf (it usually opens a confirmation page),
+ * so it is returned as "manual" for the user to open.
+ */
+export async function unsubscribe(gmail: gmail_v1.Gmail, info: UnsubscribeInfo): Promise<UnsubscribeOutcome> {
+  if (info.oneClick && info.http) {
+    const outcome = await postOneClick(info.http);
+    if (outcome.status === "succeeded" || !info.mailto) return outcome;
+  }
+
+  if (info.mailto) return sendMailto(gmail, info.mailto);
+
+  return { method: "link", target: info.http!, status: "manual" };
+}